@@ -0,0 +1,488 @@
+#!/usr/bin/env node
+// Command line client for a running manager: startup-manager <command> [options]
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { ManagerConnection } from './lib/ManagerConnection';
+import { parseImport } from './lib/programExport';
+import { CONFIG_FORMATS, CONFLICT_MODES, ConfigFormat, ConflictMode, formatOfPath } from './lib/stackFile';
+import { summarizeDiff } from './lib/configDiff';
+import type { ProgramState } from './lib/Program';
+import type { LogPage } from './lib/ProgramLog';
+import type { TerminalSessionInfo } from './lib/TerminalServer';
+
+const USAGE = `Usage: startup-manager <command> [options]
+
+Commands:
+  list                          List programs
+  status <program>              Show the state of a program
+  start <program> [--with-deps] Start a program, optionally with its unstarted dependencies
+  stop <program>                Stop a program with its stop sequence
+  restart <program>             Restart a program
+  logs <program> [-n 100] [-f]  Print the last lines of a program's output; -f keeps following it
+  attach <program>              Attach to a program's terminal; Ctrl-] detaches
+  attach --terminal <id>        Attach to an open terminal
+  attach --shell                Open a shell on the host (admins), closed on detach
+  add <file|->                  Add a program from a JSON configuration
+  edit <program> [<file|->] [--set key=value ...]
+                                Change fields of a program
+  import <file|-> [--conflicts fail|skip|overwrite] [--dry-run]
+                                Merge the programs of an export or a stack file
+  export [<file>]               Write the program configurations, with secret env values masked
+
+<program> is a program id or name.
+
+Options:
+  --url <url>        Server URL (STARTUP_MANAGER_URL, default http://localhost:3000)
+  --token <token>    API token (STARTUP_MANAGER_TOKEN)
+  --user <name>      Sign in with a password instead (STARTUP_MANAGER_USER);
+                     the password is read from STARTUP_MANAGER_PASSWORD or prompted for
+  --otp <code>       Two-factor code for password sign-ins
+  --json             Print results as JSON
+  --timeout <secs>   Time limit for connecting and for each call (default 30)
+  --format <format>  json, yaml or toml for import and export (default from the
+                     file name, json for standard input and output)
+  -h, --help         Show this help
+
+Exits with 0 on success, 1 when a command fails and 2 for usage errors.`;
+
+// Ctrl-] like telnet, so Ctrl-C still reaches the program
+const DETACH_KEY = '\x1d';
+const LOG_POLL_MS = 1000;
+
+class UsageError extends Error {}
+
+type Options = {
+  url?: string;
+  token?: string;
+  user?: string;
+  otp?: string;
+  json?: boolean;
+  timeout?: string;
+  help?: boolean;
+  'with-deps'?: boolean;
+  lines?: string;
+  follow?: boolean;
+  timestamps?: boolean;
+  terminal?: string;
+  shell?: boolean;
+  set?: string[];
+  format?: string;
+  conflicts?: string;
+  'dry-run'?: boolean;
+};
+
+function parse(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string' },
+      token: { type: 'string' },
+      user: { type: 'string' },
+      otp: { type: 'string' },
+      json: { type: 'boolean' },
+      timeout: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      'with-deps': { type: 'boolean' },
+      lines: { type: 'string', short: 'n' },
+      follow: { type: 'boolean', short: 'f' },
+      timestamps: { type: 'boolean', short: 't' },
+      terminal: { type: 'string' },
+      shell: { type: 'boolean' },
+      set: { type: 'string', multiple: true },
+      format: { type: 'string' },
+      conflicts: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+    },
+  });
+  return { options: values as Options, positionals };
+}
+
+function positiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) throw new UsageError(`${name} must be a positive whole number`);
+  return parsed;
+}
+
+// Reads a password from the terminal without echoing it
+function promptHidden(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) return Promise.reject(new UsageError('No terminal to ask for the password; set STARTUP_MANAGER_PASSWORD'));
+  process.stderr.write(question);
+  return new Promise((resolve, reject) => {
+    let input = '';
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding('utf8');
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          done();
+          resolve(input);
+          return;
+        }
+        if (char === '\x03') {
+          done();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        input = char === '\x7f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+    const done = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+    stdin.on('data', onData);
+  });
+}
+
+async function openConnection(options: Options): Promise<ManagerConnection> {
+  const env = process.env;
+  const url = options.url || env.STARTUP_MANAGER_URL || 'http://localhost:3000';
+  const apiToken = options.token || env.STARTUP_MANAGER_TOKEN;
+  const username = options.user || env.STARTUP_MANAGER_USER;
+  if (!apiToken && !username) {
+    throw new UsageError('Pass --token or set STARTUP_MANAGER_TOKEN, or sign in with --user');
+  }
+  const password = apiToken ? undefined : env.STARTUP_MANAGER_PASSWORD || await promptHidden(`Password for ${username}: `);
+  const connection = new ManagerConnection({
+    url,
+    apiToken,
+    username,
+    password,
+    otp: options.otp,
+    timeoutMs: positiveInteger(options.timeout, '--timeout', 30) * 1000
+  });
+  await connection.connect();
+  return connection;
+}
+
+async function findProgram(connection: ManagerConnection, ref: string | undefined): Promise<ProgramState> {
+  if (!ref) throw new UsageError('A program id or name is required');
+  const programs = await connection.rpc.listPrograms();
+  const byId = programs.find(p => p.id === ref);
+  if (byId) return byId;
+  const byName = programs.filter(p => p.name === ref);
+  const matches = byName.length > 0 ? byName : programs.filter(p => p.name.toLowerCase() === ref.toLowerCase());
+  if (matches.length === 1) return matches[0];
+  if (matches.length > 1) throw new Error(`Several programs are named ${ref}; use the id`);
+  throw new Error(`Program ${ref} not found`);
+}
+
+function readJson(file: string | undefined): unknown {
+  if (!file) throw new UsageError('A JSON file, or - for standard input, is required');
+  const text = fs.readFileSync(file === '-' ? 0 : file, 'utf-8');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${file === '-' ? 'Standard input' : file} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// key=value pairs; values are read as JSON when they parse, so numbers, booleans and lists work
+function parseAssignments(assignments: string[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const assignment of assignments) {
+    const index = assignment.indexOf('=');
+    if (index <= 0) throw new UsageError(`--set expects key=value, got ${assignment}`);
+    const value = assignment.slice(index + 1);
+    try {
+      fields[assignment.slice(0, index)] = JSON.parse(value);
+    } catch {
+      fields[assignment.slice(0, index)] = value;
+    }
+  }
+  return fields;
+}
+
+function printTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  for (const row of rows) {
+    console.log(row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+  }
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+function formatTime(epochMs: number | undefined): string {
+  return epochMs ? new Date(epochMs).toLocaleString() : '-';
+}
+
+function printStatus(program: ProgramState) {
+  const lines: [string, string | undefined][] = [
+    ['Name', program.name],
+    ['Id', program.id],
+    ['Status', program.status],
+    ['PID', program.pid?.toString()],
+    ['Command', program.command],
+    ['Group', program.group],
+    ['Runtime', program.runtime],
+    ['Health', program.health],
+    ['Restarts', program.restart.attempts ? `${program.restart.attempts} of ${program.restart.maxRetries}${program.restart.crashLoop ? ' (crash loop)' : ''}` : undefined],
+    ['Last exit', program.lastExit ? `${program.lastExit.signal || `code ${program.lastExit.code ?? '?'}`} at ${formatTime(program.lastExit.time)}` : undefined],
+    ['Next run', program.nextRunAt ? formatTime(program.nextRunAt) : undefined],
+  ];
+  printTable(lines.filter(([, value]) => value).map(([label, value]) => [`${label}:`, value!]));
+}
+
+function printLogLines(page: LogPage, timestamps?: boolean) {
+  for (const line of page.lines) {
+    process.stdout.write(timestamps ? `${line.time} ${line.text}\n` : `${line.text}\n`);
+  }
+}
+
+// Polls for new lines until Ctrl-C, which ends the command normally so a password session is signed out
+async function followLogs(connection: ManagerConnection, id: string, after: string, timestamps?: boolean): Promise<void> {
+  let cursor = after;
+  let stopped = false;
+  process.once('SIGINT', () => { stopped = true; });
+  while (!stopped) {
+    await new Promise(resolve => setTimeout(resolve, LOG_POLL_MS));
+    if (stopped) break;
+    const page = await connection.rpc.getProgramLogs({ id, after: cursor });
+    printLogLines(page, timestamps);
+    cursor = page.after;
+  }
+}
+
+// Proxies a terminal to this TTY until it exits or Ctrl-] detaches
+async function attach(connection: ManagerConnection, terminal: TerminalSessionInfo, closeOnDetach: boolean): Promise<void> {
+  const { stdin, stdout } = process;
+  const id = terminal.id;
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Attaching to terminal ${id} timed out`)), 10000);
+    connection.on<{ id: number }>('connected', (data) => {
+      if (data.id !== id) return;
+      clearTimeout(timer);
+      resolve();
+    });
+    connection.on<{ id: number | null, data: string }>('error', (data) => {
+      if (data.id !== id && data.id !== null) return;
+      clearTimeout(timer);
+      reject(new Error(data.data));
+    });
+    connection.on<{ id: number, data: string }>('output', (data) => {
+      if (data.id === id) stdout.write(data.data);
+    });
+    connection.emit('attach', { id });
+  });
+
+  const resize = () => connection.emit('resize', { id, cols: stdout.columns, rows: stdout.rows });
+  if (stdout.isTTY) {
+    resize();
+    stdout.on('resize', resize);
+  }
+  process.stderr.write(`\r\n[attached to terminal ${id}, Ctrl-] to detach]\r\n`);
+
+  const reason = await new Promise<string>((resolve) => {
+    connection.on<{ id: number }>('terminal_exited', (data) => {
+      if (data.id === id) resolve('terminal exited');
+    });
+    connection.on('disconnect', () => resolve('connection lost'));
+    if (stdin.isTTY) stdin.setRawMode(true);
+    stdin.resume();
+    stdin.on('data', (chunk: Buffer) => {
+      const text = chunk.toString('utf8');
+      const detachAt = text.indexOf(DETACH_KEY);
+      if (detachAt === -1) {
+        connection.emit('input', { id, data: text });
+        return;
+      }
+      if (detachAt > 0) connection.emit('input', { id, data: text.slice(0, detachAt) });
+      resolve('detached');
+    });
+    stdin.on('end', () => resolve('detached'));
+  });
+
+  if (stdin.isTTY) stdin.setRawMode(false);
+  stdin.pause();
+  stdout.off('resize', resize);
+  process.stderr.write(`\r\n[${reason}]\r\n`);
+  if (reason === 'connection lost') throw new Error('Connection to the server lost');
+  if (reason === 'detached') {
+    connection.emit('detach', { id });
+    if (closeOnDetach) await connection.rpc.closeTerminal({ id });
+  }
+}
+
+// The format given with --format, or the one of the file name
+function configFormat(options: Options, file: string | undefined): ConfigFormat {
+  if (options.format === undefined) return file && file !== '-' ? formatOfPath(file) : 'json';
+  if (!(CONFIG_FORMATS as readonly string[]).includes(options.format)) {
+    throw new UsageError(`--format must be one of ${CONFIG_FORMATS.join(', ')}`);
+  }
+  return options.format as ConfigFormat;
+}
+
+function conflictMode(value: string | undefined): ConflictMode | undefined {
+  if (value !== undefined && !(CONFLICT_MODES as readonly string[]).includes(value)) {
+    throw new UsageError(`--conflicts must be one of ${CONFLICT_MODES.join(', ')}`);
+  }
+  return value as ConflictMode | undefined;
+}
+
+async function importPrograms(connection: ManagerConnection, file: string | undefined, options: Options) {
+  if (!file) throw new UsageError('A file, or - for standard input, is required');
+  const content = fs.readFileSync(file === '-' ? 0 : file, 'utf-8');
+  const result = await connection.rpc.importConfig({
+    content,
+    format: configFormat(options, file),
+    conflicts: conflictMode(options.conflicts),
+    dryRun: options['dry-run'],
+  });
+
+  if (options.json) return printJson(result);
+  console.log(`${result.applied ? 'Imported' : 'Would import'}: ${summarizeDiff(result.diff)}`);
+  if (result.conflicts.length > 0) {
+    const mode = options.conflicts === 'skip' ? 'skipped' : 'overwritten';
+    console.log(`Conflicts ${result.applied ? mode : 'with other settings'}: ${result.conflicts.map(c => c.name).join(', ')}`);
+  }
+}
+
+async function run(command: string, args: string[], options: Options, connection: ManagerConnection): Promise<void> {
+  switch (command) {
+    case 'list': {
+      const programs = await connection.rpc.listPrograms();
+      if (options.json) return printJson(programs);
+      printTable([
+        ['ID', 'NAME', 'STATUS', 'PID', 'GROUP'],
+        ...programs.map(p => [p.id, p.name, p.status, p.pid?.toString() || '-', p.group || '-'])
+      ]);
+      return;
+    }
+
+    case 'status': {
+      const program = await findProgram(connection, args[0]);
+      if (options.json) return printJson(program);
+      printStatus(program);
+      return;
+    }
+
+    case 'start': {
+      const program = await findProgram(connection, args[0]);
+      await connection.rpc.startProgram({ id: program.id, withDependencies: !!options['with-deps'] });
+      console.log(`Started ${program.name}`);
+      return;
+    }
+
+    case 'stop': {
+      const program = await findProgram(connection, args[0]);
+      await connection.rpc.stopProgram({ id: program.id });
+      console.log(`Stopped ${program.name}`);
+      return;
+    }
+
+    case 'restart': {
+      const program = await findProgram(connection, args[0]);
+      const [result] = await connection.rpc.bulkProgramAction({ ids: [program.id], action: 'restart' });
+      if (!result?.success) throw new Error(result?.error || `Restarting ${program.name} failed`);
+      console.log(`Restarted ${program.name}`);
+      return;
+    }
+
+    case 'logs': {
+      const program = await findProgram(connection, args[0]);
+      const page = await connection.rpc.getProgramLogs({ id: program.id, limit: positiveInteger(options.lines, '--lines', 100) });
+      printLogLines(page, options.timestamps);
+      if (options.follow) await followLogs(connection, program.id, page.after, options.timestamps);
+      return;
+    }
+
+    case 'attach': {
+      if (!process.stdin.isTTY) throw new UsageError('attach needs an interactive terminal');
+      let terminal: TerminalSessionInfo;
+      if (options.terminal) {
+        const info = await connection.rpc.getTerminalInfo({ id: positiveInteger(options.terminal, '--terminal', 0) });
+        if (!info) throw new Error(`Terminal ${options.terminal} not found`);
+        terminal = info;
+      } else if (options.shell) {
+        terminal = await connection.rpc.createTerminal({ titleNote: 'CLI shell' });
+      } else {
+        const program = await findProgram(connection, args[0]);
+        terminal = await connection.rpc.createTerminal({ programId: program.id });
+      }
+      await attach(connection, terminal, !!options.shell);
+      return;
+    }
+
+    case 'add': {
+      const config = readJson(args[0]);
+      if (Array.isArray(config)) throw new UsageError('add takes one program; use import for a list');
+      const [program] = parseImport(config);
+      // A new program gets a new id, even when the file comes from an export
+      delete program.id;
+      const added = await connection.rpc.addProgram(program);
+      if (options.json) return printJson(added);
+      console.log(`Added ${added.name} (${added.id})`);
+      return;
+    }
+
+    case 'edit': {
+      const program = await findProgram(connection, args[0]);
+      const fromFile = args[1] ? readJson(args[1]) : {};
+      if (!fromFile || typeof fromFile !== 'object' || Array.isArray(fromFile)) throw new Error('The changes must be a JSON object');
+      const fields = { ...fromFile, ...parseAssignments(options.set || []) };
+      if (Object.keys(fields).length === 0) throw new UsageError('Nothing to change; pass a JSON file or --set key=value');
+      const updated = await connection.rpc.editProgram({ ...fields, id: program.id });
+      if (options.json) return printJson(updated);
+      console.log(`Updated ${updated.name}`);
+      return;
+    }
+
+    case 'import':
+      return importPrograms(connection, args[0], options);
+
+    case 'export': {
+      // Secret env values stay masked; they keep their value when imported into the same manager
+      const { content } = await connection.rpc.exportConfig({ format: configFormat(options, args[0]) });
+      const text = content.endsWith('\n') ? content : content + '\n';
+      if (args[0] && args[0] !== '-') {
+        fs.writeFileSync(args[0], text);
+        console.error(`Exported the programs to ${args[0]}`);
+      } else {
+        process.stdout.write(text);
+      }
+      return;
+    }
+
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+const COMMANDS = ['list', 'status', 'start', 'stop', 'restart', 'logs', 'attach', 'add', 'edit', 'import', 'export'];
+
+async function main(): Promise<number> {
+  let connection: ManagerConnection | null = null;
+  try {
+    const { options, positionals } = parse(process.argv.slice(2));
+    const [command, ...args] = positionals;
+    if (options.help || !command) {
+      console.log(USAGE);
+      return options.help ? 0 : 2;
+    }
+    if (!COMMANDS.includes(command)) throw new UsageError(`Unknown command: ${command}`);
+
+    connection = await openConnection(options);
+    await run(command, args, options, connection);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // parseArgs reports unknown options with a TypeError and a code
+    const usage = error instanceof UsageError || (error as { code?: string })?.code?.startsWith('ERR_PARSE_ARGS');
+    console.error(`startup-manager: ${message}`);
+    if (usage) console.error('Run startup-manager --help for usage');
+    return usage ? 2 : 1;
+  } finally {
+    await connection?.close();
+  }
+}
+
+main().then(code => process.exit(code));
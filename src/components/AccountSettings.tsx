@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { TotpEnrollment } from '@/lib/UserStore';
+import type { ApiTokenInfo } from '@/lib/ApiTokenStore';
+
+// The signed-in user's own account: two-factor enrollment, recovery codes and API tokens
+export const AccountSettings: React.FC = () => {
+  const {
+    currentUser, beginTotpEnrollment, enableTotp, disableTotp, regenerateRecoveryCodes,
+    listApiTokens, createApiToken, revokeApiToken
+  } = useStartupManager();
+  const [enrollment, setEnrollment] = useState<(TotpEnrollment & { qrCode: string }) | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [apiTokens, setApiTokens] = useState<ApiTokenInfo[]>([]);
+  const [newToken, setNewToken] = useState<{ name: string, expiresInDays: string }>({ name: '', expiresInDays: '' });
+  // Shown once after creating, like the recovery codes
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const loadApiTokens = useCallback(async () => {
+    try {
+      setApiTokens(await listApiTokens());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API tokens');
+    }
+  }, [listApiTokens]);
+
+  useEffect(() => {
+    loadApiTokens();
+  }, [loadApiTokens]);
+
+  // Runs a change and shows its outcome; the code is single use either way
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      setMessage(success);
+      setError(null);
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+    setCode('');
+  };
+
+  const handleBegin = () => run(async () => {
+    setRecoveryCodes(null);
+    setEnrollment(await beginTotpEnrollment());
+  }, 'Scan the code with your authenticator app, then enter the code it shows');
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      setRecoveryCodes(await enableTotp(code));
+      setEnrollment(null);
+    }, 'Two-factor authentication is on');
+  };
+
+  const handleRegenerate = () => run(async () => {
+    setRecoveryCodes(await regenerateRecoveryCodes(code));
+  }, 'New recovery codes created; the old ones no longer work');
+
+  const handleDisable = () => {
+    if (!confirm('Turn off two-factor authentication? Signing in will only need your password.')) return;
+    run(async () => {
+      await disableTotp(code);
+      setRecoveryCodes(null);
+    }, 'Two-factor authentication is off');
+  };
+
+  const handleCreateToken = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const days = newToken.expiresInDays ? Number(newToken.expiresInDays) : undefined;
+      const created = await createApiToken(newToken.name, days);
+      setCreatedToken(created.token);
+      setNewToken({ name: '', expiresInDays: '' });
+      await loadApiTokens();
+    }, 'API token created');
+  };
+
+  const handleRevokeToken = (token: ApiTokenInfo) => {
+    if (!confirm(`Revoke the API token "${token.name}"? Scripts using it stop working.`)) return;
+    run(async () => {
+      await revokeApiToken(token.id);
+      await loadApiTokens();
+    }, `Revoked ${token.name}`);
+  };
+
+  const inputStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+  const textStyle = { color: 'var(--foreground)' };
+  const codeInput = (
+    <input
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder="Code"
+      className="border rounded-md py-1 px-2 text-sm w-32"
+      style={inputStyle}
+    />
+  );
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6" style={textStyle}>
+          Account: {currentUser?.username}
+          <span className="ml-2 text-sm font-normal" style={{ opacity: 0.7 }}>{currentUser?.role}</span>
+        </h3>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="m-4 p-4 text-sm text-green-700 bg-green-100 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      <div className="p-4 space-y-4 text-sm" style={textStyle}>
+        <h4 className="font-medium">Two-factor authentication</h4>
+
+        {currentUser?.totpEnabled ? (
+          <>
+            <p>
+              On. Signing in needs a code from your authenticator app.
+              You have {currentUser.recoveryCodesLeft ?? 0} unused recovery codes.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+              {codeInput}
+              <button
+                onClick={handleRegenerate}
+                disabled={!code}
+                className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+              >
+                New recovery codes
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={!code}
+                className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+              >
+                Turn off
+              </button>
+            </div>
+          </>
+        ) : enrollment ? (
+          <form onSubmit={handleEnable} className="space-y-3">
+            {/* A data URL made by the server; there is nothing to optimize */}
+            <Image src={enrollment.qrCode} alt="Two-factor QR code" width={200} height={200} unoptimized className="bg-white p-2 rounded" />
+            <p>
+              Or enter this key by hand: <code className="font-mono break-all">{enrollment.secret}</code>
+            </p>
+            <div className="flex items-center gap-3">
+              {codeInput}
+              <button
+                type="submit"
+                disabled={!code}
+                className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+              >
+                Turn on
+              </button>
+            </div>
+          </form>
+        ) : (
+          <>
+            <p>Off. Signing in only needs your password.</p>
+            <button
+              onClick={handleBegin}
+              className="px-3 py-1 rounded text-sm"
+              style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+            >
+              Set up two-factor authentication
+            </button>
+          </>
+        )}
+
+        {recoveryCodes && (
+          <div className="p-4 rounded-lg border" style={{ borderColor: 'var(--border-color)' }}>
+            <p className="mb-2 font-medium">
+              Recovery codes: each signs you in once when you do not have your authenticator. They are not shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-1 font-mono">
+              {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <h4 className="font-medium pt-4">API tokens</h4>
+        <p>
+          Scripts and CI call the REST API under /api with a token as a bearer token. A token acts as its user, with their current role.
+        </p>
+        <form onSubmit={handleCreateToken} className="flex flex-wrap items-center gap-3">
+          <input
+            value={newToken.name}
+            onChange={(e) => setNewToken({ ...newToken, name: e.target.value })}
+            placeholder="Name, e.g. deploy script"
+            className="border rounded-md py-1 px-2 text-sm w-56"
+            style={inputStyle}
+          />
+          <input
+            value={newToken.expiresInDays}
+            onChange={(e) => setNewToken({ ...newToken, expiresInDays: e.target.value })}
+            type="number"
+            min={1}
+            placeholder="Days valid"
+            className="border rounded-md py-1 px-2 text-sm w-28"
+            style={inputStyle}
+          />
+          <button
+            type="submit"
+            disabled={!newToken.name.trim()}
+            className="px-3 py-1 rounded text-sm disabled:opacity-50"
+            style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+          >
+            Create token
+          </button>
+        </form>
+
+        {createdToken && (
+          <div className="p-4 rounded-lg border" style={{ borderColor: 'var(--border-color)' }}>
+            <p className="mb-2 font-medium">Copy the token now, it is not shown again:</p>
+            <code className="font-mono break-all">{createdToken}</code>
+          </div>
+        )}
+
+        {apiTokens.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead style={{ background: 'var(--header-bg)' }}>
+              <tr>
+                {['Name', 'User', 'Created', 'Expires', 'Last used', ''].map(title => (
+                  <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ opacity: 0.7 }}>
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+              {apiTokens.map(token => (
+                <tr key={token.id}>
+                  <td className="px-4 py-2 whitespace-nowrap">{token.name}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{token.username}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(token.createdAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{token.expiresAt ? new Date(token.expiresAt).toLocaleString() : 'Never'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : '-'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleRevokeToken(token)}
+                      className="px-3 py-1 rounded text-sm"
+                      style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
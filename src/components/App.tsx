@@ -1,14 +1,23 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { StartupManagerProvider } from '@/lib/StartupManagerContext';
+import { StartupManagerProvider, useStartupManager } from '@/lib/StartupManagerContext';
 import { ThemeProvider } from '@/lib/ThemeContext';
 import { LoginForm } from './LoginForm';
 import { TabsContainer } from './TabsContainer';
 
+// Follows the session, so logout, revocation and expiry return to the login form
+const Main: React.FC = () => {
+  const { isAuthenticated, isRestoringSession } = useStartupManager();
+
+  if (isRestoringSession) {
+    return <div className="p-4">Loading...</div>;
+  }
+  return isAuthenticated ? <TabsContainer /> : <LoginForm />;
+};
+
 export const App: React.FC = () => {
   const [wsUrl, setWsUrl] = useState<string | null>(null);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
   
   // Determine the WebSocket URL based on the current window location
   useEffect(() => {
@@ -29,11 +38,7 @@ export const App: React.FC = () => {
   return (
     <ThemeProvider>
       <StartupManagerProvider wsUrl={wsUrl}>
-        {!isAuthenticated ? (
-          <LoginForm onLoginSuccess={() => setIsAuthenticated(true)} />
-        ) : (
-          <TabsContainer />
-        )}
+        <Main />
       </StartupManagerProvider>
     </ThemeProvider>
   );
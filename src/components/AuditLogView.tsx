@@ -0,0 +1,190 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { AuditEntry, AuditQuery, AuditResult, AuditVerification } from '@/lib/AuditLog';
+
+const PAGE_SIZE = 100;
+
+const RESULT_COLORS: Record<AuditResult, string> = {
+  success: '#10b981',
+  error: '#f59e0b',
+  denied: '#ef4444',
+};
+
+const KINDS: { label: string, methods?: string[] }[] = [
+  { label: 'All actions' },
+  { label: 'Program control', methods: ['startProgram', 'stopProgram', 'terminateProgram', 'runProgramNow', 'stopAllPrograms', 'startGroup', 'stopGroup', 'restartGroup', 'bulkProgramAction'] },
+  { label: 'Configuration', methods: ['addProgram', 'editProgram', 'deleteProgram'] },
+  { label: 'Terminals', methods: ['createTerminal', 'closeTerminal', 'startScreen', 'sendCommandToScreen', 'terminal.attach', 'terminal.detach', 'terminal.input'] },
+  { label: 'Users and sessions', methods: ['login', 'logout', 'addUser', 'removeUser', 'resetUserPassword', 'setUserRole', 'setUserGroups', 'revokeSession'] },
+];
+
+// Short text for the params column; the full entry is in the row's tooltip
+function describeParams(params: unknown): string {
+  if (params === undefined) return '';
+  const text = JSON.stringify(params);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+}
+
+export const AuditLogView: React.FC = () => {
+  const { programs, queryAudit, verifyAuditLog } = useStartupManager();
+  const [kind, setKind] = useState(0);
+  const [user, setUser] = useState('');
+  const [programId, setProgramId] = useState('');
+  const [result, setResult] = useState<AuditResult | ''>('');
+  const [search, setSearch] = useState('');
+  // The text fields as last applied
+  const [applied, setApplied] = useState({ user: '', search: '' });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [before, setBefore] = useState<number | undefined>(undefined);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (older?: number) => {
+    const query: AuditQuery = {
+      user: applied.user.trim() || undefined,
+      methods: KINDS[kind].methods,
+      programId: programId || undefined,
+      result: result || undefined,
+      search: applied.search.trim() || undefined,
+      limit: PAGE_SIZE,
+    };
+    try {
+      const page = await queryAudit({ ...query, before: older });
+      setEntries(current => older ? [...current, ...page.entries] : page.entries);
+      setBefore(page.before);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit log');
+    }
+  }, [queryAudit, applied, kind, programId, result]);
+
+  // Text fields apply on Enter or when leaving them, the selects at once
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyText = () => setApplied({ user, search });
+
+  const handleVerify = async () => {
+    try {
+      setVerification(await verifyAuditLog());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify the audit log');
+    }
+  };
+
+  const inputStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+  const cellStyle = { color: 'var(--foreground)' };
+  const programName = (id?: string) => programs.find(p => p.id === id)?.name;
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6 mr-2" style={{ color: 'var(--foreground)' }}>Audit log</h3>
+        <div className="flex-1" />
+        <select value={kind} onChange={(e) => setKind(Number(e.target.value))} className="border rounded-md py-1 px-2 text-sm" style={inputStyle}>
+          {KINDS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+        </select>
+        <select value={programId} onChange={(e) => setProgramId(e.target.value)} className="border rounded-md py-1 px-2 text-sm" style={inputStyle}>
+          <option value="">All programs</option>
+          {programs.map(program => <option key={program.id} value={program.id}>{program.name}</option>)}
+        </select>
+        <select value={result} onChange={(e) => setResult(e.target.value as AuditResult | '')} className="border rounded-md py-1 px-2 text-sm" style={inputStyle}>
+          <option value="">Any result</option>
+          <option value="success">Succeeded</option>
+          <option value="error">Failed</option>
+          <option value="denied">Denied</option>
+        </select>
+        <input
+          value={user}
+          onChange={(e) => setUser(e.target.value)}
+          onBlur={applyText}
+          onKeyDown={(e) => e.key === 'Enter' && applyText()}
+          placeholder="User"
+          className="border rounded-md py-1 px-2 text-sm w-28"
+          style={inputStyle}
+        />
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onBlur={applyText}
+          onKeyDown={(e) => e.key === 'Enter' && applyText()}
+          placeholder="Search"
+          className="border rounded-md py-1 px-2 text-sm"
+          style={inputStyle}
+        />
+        <button
+          onClick={handleVerify}
+          className="px-3 py-1 rounded text-sm"
+          style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          title="Check that no entry was changed or removed"
+        >
+          Verify
+        </button>
+      </div>
+
+      {verification && (
+        <div className={`m-4 p-4 text-sm rounded-lg ${verification.valid ? 'text-green-700 bg-green-100' : 'text-red-700 bg-red-100'}`}>
+          {verification.valid
+            ? `All ${verification.entries} entries are intact.`
+            : `The log was tampered with at line ${verification.brokenAt}: ${verification.error}.`}
+        </div>
+      )}
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="p-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>No matching entries</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead style={{ background: 'var(--header-bg)' }}>
+              <tr>
+                {['Time', 'User', 'Address', 'Action', 'Program', 'Details', 'Result'].map(title => (
+                  <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+              {entries.map(entry => {
+                const params = entry.params as { id?: string, programId?: string } | undefined;
+                return (
+                  <tr key={entry.seq} title={JSON.stringify(entry, null, 2)}>
+                    <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(entry.time).toLocaleString()}</td>
+                    <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{entry.user || '-'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{entry.ip || '-'}</td>
+                    <td className="px-4 py-2 whitespace-nowrap font-medium" style={cellStyle}>{entry.method}</td>
+                    <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{programName(params?.id || params?.programId) || ''}</td>
+                    <td className="px-4 py-2 font-mono text-xs" style={cellStyle}>{describeParams(entry.params)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap" style={{ color: RESULT_COLORS[entry.result] }}>
+                      {entry.result}{entry.error && <span style={{ opacity: 0.8 }}>: {entry.error}</span>}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {before !== undefined && (
+        <div className="p-4">
+          <button
+            onClick={() => load(before)}
+            className="px-3 py-1 rounded text-sm"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Load older entries
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
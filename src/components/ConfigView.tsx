@@ -0,0 +1,417 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import { ConfigDiff, ConfigImportResult, ConfigReloadResult, isEmptyDiff, summarizeDiff } from '@/lib/configDiff';
+import type { ConfigVersionInfo } from '@/lib/ConfigHistory';
+import { CONFIG_FORMATS, ConfigFormat, ConflictMode, formatOfPath } from '@/lib/stackFile';
+
+const cellStyle = { color: 'var(--foreground)' };
+const hintStyle = { color: 'var(--foreground)', opacity: 0.7 };
+
+// The programs added, removed and changed between two configurations
+export const ConfigDiffList: React.FC<{ diff: ConfigDiff }> = ({ diff }) => {
+  if (isEmptyDiff(diff)) {
+    return <p className="text-sm" style={hintStyle}>No changes to the programs</p>;
+  }
+  return (
+    <ul className="text-sm space-y-1" style={cellStyle}>
+      {diff.added.map(program => (
+        <li key={program.id}><span className="text-green-600 font-mono">+</span> {program.name}</li>
+      ))}
+      {diff.removed.map(program => (
+        <li key={program.id}><span className="text-red-600 font-mono">-</span> {program.name}</li>
+      ))}
+      {diff.changed.map(program => (
+        <li key={program.id}>
+          <span className="font-mono" style={hintStyle}>~</span> {program.name}: {program.fields.join(', ')}
+          {program.running && <span style={hintStyle}> (running, applies at the next start)</span>}
+        </li>
+      ))}
+      {diff.unchanged > 0 && <li style={hintStyle}>{diff.unchanged} unchanged</li>}
+    </ul>
+  );
+};
+
+// A comparison shown under the version list
+interface Comparison {
+  title: string;
+  diff: ConfigDiff;
+  rollback?: number; // the version a confirmed rollback goes back to
+}
+
+const CONFLICT_LABELS: Record<ConflictMode, string> = {
+  fail: 'Stop the import',
+  skip: 'Keep the current settings',
+  overwrite: 'Use the imported settings',
+};
+
+// Admin view of the config file: check what changed in it and apply it,
+// export and import programs, compare saved versions and roll back to one of them
+export const ConfigView: React.FC = () => {
+  const {
+    configReload, reloadConfig, listConfigVersions, diffConfigVersions, rollbackConfig, exportConfig, importConfig
+  } = useStartupManager();
+  // The changes of the last check, until applied
+  const [pending, setPending] = useState<ConfigReloadResult | null>(null);
+  const [versions, setVersions] = useState<ConfigVersionInfo[]>([]);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+  const [format, setFormat] = useState<ConfigFormat>('yaml');
+  const [exported, setExported] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [conflictMode, setConflictMode] = useState<ConflictMode>('fail');
+  // The outcome of the last import check, until imported or edited
+  const [importCheck, setImportCheck] = useState<ConfigImportResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await listConfigVersions());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the config versions');
+    }
+  }, [listConfigVersions]);
+
+  // Reloads by anyone, including edits of the file, add versions
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, configReload]);
+
+  // Runs a request, then shows its outcome and reloads the versions
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(false);
+    }
+    await loadVersions();
+  };
+
+  const checkFile = (dryRun: boolean) => run(async () => {
+    const result = await reloadConfig(dryRun);
+    if (dryRun) {
+      setPending(result);
+      setMessage(null);
+    } else {
+      setPending(null);
+      setMessage(`Config file applied: ${summarizeDiff(result.diff)}`);
+    }
+  });
+
+  const exportPrograms = () => run(async () => {
+    setExported(await exportConfig(format));
+    setMessage(null);
+  });
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([exported!], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `programs.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const readImportFile = async (file?: File) => {
+    if (!file) return;
+    setFormat(formatOfPath(file.name));
+    setImportText(await file.text());
+    setImportCheck(null);
+  };
+
+  const checkImport = () => run(async () => {
+    setImportCheck(await importConfig(importText, format, conflictMode, true));
+    setMessage(null);
+  });
+
+  const runImport = () => run(async () => {
+    const { diff } = await importConfig(importText, format, conflictMode);
+    setImportCheck(null);
+    setImportText('');
+    setMessage(`Imported programs: ${summarizeDiff(diff)}`);
+  });
+
+  // What the version changed, compared with the one before it
+  const showChanges = (info: ConfigVersionInfo) => run(async () => {
+    const previous = versions.find(v => v.version < info.version);
+    const diff = previous
+      ? await diffConfigVersions(previous.version, info.version)
+      : { added: [], removed: [], changed: [], unchanged: 0 };
+    setComparison({ title: previous ? `Version ${previous.version} to ${info.version}` : `Version ${info.version} is the oldest kept`, diff });
+  });
+
+  const compare = () => run(async () => {
+    const from = Number(compareFrom);
+    const to = compareTo ? Number(compareTo) : undefined;
+    setComparison({ title: `Version ${from} to ${to ?? 'the loaded programs'}`, diff: await diffConfigVersions(from, to) });
+  });
+
+  const previewRollback = (version: number) => run(async () => {
+    const { diff } = await rollbackConfig(version, true);
+    setComparison({ title: `Rolling back to version ${version}`, diff, rollback: version });
+  });
+
+  const confirmRollback = (version: number) => run(async () => {
+    const { diff } = await rollbackConfig(version);
+    setComparison(null);
+    setMessage(`Rolled back to version ${version}: ${summarizeDiff(diff)}`);
+  });
+
+  const selectStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6" style={cellStyle}>Configuration</h3>
+        <p className="text-sm mt-1" style={hintStyle}>
+          Changes made to the config file on the server are applied as soon as it is saved. Programs it leaves alone keep running.
+        </p>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="m-4 p-4 text-sm text-green-700 bg-green-100 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      <div className="p-4 space-y-3">
+        <div className="space-x-2">
+          <button
+            onClick={() => checkFile(true)}
+            disabled={busy}
+            className="px-3 py-1 rounded text-sm disabled:opacity-50"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Check config file
+          </button>
+          {pending && !isEmptyDiff(pending.diff) && (
+            <button
+              onClick={() => checkFile(false)}
+              disabled={busy}
+              className="px-3 py-1 rounded text-sm disabled:opacity-50"
+              style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+            >
+              Apply changes
+            </button>
+          )}
+        </div>
+        {pending && <ConfigDiffList diff={pending.diff} />}
+      </div>
+
+      <div className="px-4 py-3 border-t" style={{ borderColor: 'var(--border-color)' }}>
+        <h4 className="text-sm font-medium" style={cellStyle}>Export and import</h4>
+        <p className="text-sm mt-1" style={hintStyle}>
+          YAML and TOML are written as stack files, with the programs keyed by name. An import adds its programs and updates those with the same id or name; programs it leaves out are kept. Secret env values are exported masked and keep their value when imported here.
+        </p>
+      </div>
+      <div className="p-4 space-y-3 text-sm" style={cellStyle}>
+        <div className="flex flex-wrap items-end gap-3">
+          <label>
+            <span className="block mb-1">Format</span>
+            <select
+              value={format}
+              onChange={(e) => { setFormat(e.target.value as ConfigFormat); setImportCheck(null); }}
+              className="border rounded-md py-1 px-2"
+              style={selectStyle}
+            >
+              {CONFIG_FORMATS.map(option => <option key={option} value={option}>{option.toUpperCase()}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={exportPrograms}
+            disabled={busy}
+            className="px-3 py-1 rounded text-sm disabled:opacity-50"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Export
+          </button>
+          {exported !== null && (
+            <button
+              onClick={download}
+              className="px-3 py-1 rounded text-sm"
+              style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+            >
+              Download
+            </button>
+          )}
+        </div>
+        {exported !== null && (
+          <textarea readOnly value={exported} rows={12} className="w-full border rounded-md p-2 font-mono text-xs" style={selectStyle} />
+        )}
+
+        <label className="block">
+          <span className="block mb-1">Programs to import</span>
+          <textarea
+            value={importText}
+            onChange={(e) => { setImportText(e.target.value); setImportCheck(null); }}
+            rows={8}
+            placeholder={'programs:\n  web:\n    command: npm start'}
+            className="w-full border rounded-md p-2 font-mono text-xs"
+            style={selectStyle}
+          />
+        </label>
+        <div className="flex flex-wrap items-end gap-3">
+          <input type="file" accept=".json,.yaml,.yml,.toml" onChange={(e) => readImportFile(e.target.files?.[0])} />
+          <label>
+            <span className="block mb-1">Programs that exist with other settings</span>
+            <select
+              value={conflictMode}
+              onChange={(e) => { setConflictMode(e.target.value as ConflictMode); setImportCheck(null); }}
+              className="border rounded-md py-1 px-2"
+              style={selectStyle}
+            >
+              {(Object.keys(CONFLICT_LABELS) as ConflictMode[]).map(mode => (
+                <option key={mode} value={mode}>{CONFLICT_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={checkImport}
+            disabled={busy || !importText.trim()}
+            className="px-3 py-1 rounded text-sm disabled:opacity-50"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Check import
+          </button>
+          {importCheck && !isEmptyDiff(importCheck.diff) && (conflictMode !== 'fail' || importCheck.conflicts.length === 0) && (
+            <button
+              onClick={runImport}
+              disabled={busy}
+              className="px-3 py-1 rounded text-sm disabled:opacity-50"
+              style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+            >
+              Import
+            </button>
+          )}
+        </div>
+        {importCheck && importCheck.conflicts.length > 0 && (
+          <p className="text-yellow-700">
+            {importCheck.conflicts.map(conflict => conflict.name).join(', ')} already {importCheck.conflicts.length === 1 ? 'exists' : 'exist'} with
+            other settings. {conflictMode === 'fail' ? 'Choose to keep the current settings or use the imported ones to import.' : ''}
+          </p>
+        )}
+        {importCheck && <ConfigDiffList diff={importCheck.diff} />}
+      </div>
+
+      <div className="px-4 py-3 border-t" style={{ borderColor: 'var(--border-color)' }}>
+        <h4 className="text-sm font-medium" style={cellStyle}>History</h4>
+        <p className="text-sm mt-1" style={hintStyle}>
+          Every saved change to the programs is kept as a version, listed newest first. Rolling back applies the programs of that version like a reload, and saves them as a new version.
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead style={{ background: 'var(--header-bg)' }}>
+            <tr>
+              {['Version', 'Saved', 'By', 'Change', 'Programs', ''].map(title => (
+                <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={hintStyle}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+            {versions.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-4 text-center" style={hintStyle}>No versions saved yet</td>
+              </tr>
+            )}
+            {versions.map((info, index) => (
+              <tr key={info.version}>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                  {info.version}
+                  {index === 0 && <span style={hintStyle}> (current)</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(info.time).toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{info.actor || '-'}</td>
+                <td className="px-4 py-2" style={cellStyle}>{info.reason || '-'}</td>
+                <td className="px-4 py-2" style={cellStyle}>{info.programCount}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right space-x-2">
+                  <button
+                    onClick={() => showChanges(info)}
+                    disabled={busy}
+                    className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                    style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                  >
+                    Changes
+                  </button>
+                  {index > 0 && (
+                    <button
+                      onClick={() => previewRollback(info.version)}
+                      disabled={busy}
+                      className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                      style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                    >
+                      Roll back
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="p-4 flex flex-wrap items-end gap-3 text-sm border-t" style={{ ...cellStyle, borderColor: 'var(--border-color)' }}>
+          <label>
+            <span className="block mb-1">Compare version</span>
+            <select value={compareFrom} onChange={(e) => setCompareFrom(e.target.value)} className="border rounded-md py-1 px-2" style={selectStyle}>
+              <option value="">Select</option>
+              {versions.map(info => <option key={info.version} value={info.version}>{info.version}</option>)}
+            </select>
+          </label>
+          <label>
+            <span className="block mb-1">with</span>
+            <select value={compareTo} onChange={(e) => setCompareTo(e.target.value)} className="border rounded-md py-1 px-2" style={selectStyle}>
+              <option value="">Loaded programs</option>
+              {versions.map(info => <option key={info.version} value={info.version}>{info.version}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={compare}
+            disabled={busy || !compareFrom}
+            className="px-3 py-1 rounded text-sm disabled:opacity-50"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Compare
+          </button>
+        </div>
+      )}
+
+      {comparison && (
+        <div className="p-4 space-y-3 border-t" style={{ borderColor: 'var(--border-color)' }}>
+          <div className="flex justify-between">
+            <h4 className="text-sm font-medium" style={cellStyle}>{comparison.title}</h4>
+            <button onClick={() => setComparison(null)} className="ml-2" style={cellStyle}>×</button>
+          </div>
+          <ConfigDiffList diff={comparison.diff} />
+          {comparison.rollback !== undefined && !isEmptyDiff(comparison.diff) && (
+            <button
+              onClick={() => confirmRollback(comparison.rollback!)}
+              disabled={busy}
+              className="px-3 py-1 rounded text-sm disabled:opacity-50"
+              style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+            >
+              Roll back to version {comparison.rollback}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,12 +2,18 @@
 
 import React from 'react';
 import { ProgramState } from '@/lib/Program';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import { canAccessProgram } from '@/lib/permissions';
 
 interface DarkModeDropdownProps {
   program: ProgramState;
   onClose: () => void;
   onEdit: (program: ProgramState) => void;
   onAction: (action: string, programId: string) => void;
+  onLogs: (program: ProgramState) => void;
+  onMetrics: (program: ProgramState) => void;
+  onRuns: (program: ProgramState) => void;
+  onEvents: (program: ProgramState) => void;
   visible: boolean;
   anchorId: string;
 }
@@ -17,10 +23,16 @@ export const DarkModeDropdown: React.FC<DarkModeDropdownProps> = ({
   onClose, 
   onEdit, 
   onAction, 
+  onLogs, 
+  onMetrics, 
+  onRuns, 
+  onEvents, 
   visible, 
   anchorId 
 }) => {
+  const { currentUser } = useStartupManager();
   if (!visible) return null;
+  const canControl = canAccessProgram(currentUser, program.acl, 'control');
 
   return (
     <div className="fixed inset-0 z-50 overflow-hidden" onClick={onClose}>
@@ -37,28 +49,72 @@ export const DarkModeDropdown: React.FC<DarkModeDropdownProps> = ({
           onClick={(e) => e.stopPropagation()}
         >
           <div className="py-1" role="menu" aria-orientation="vertical">
+            {canAccessProgram(currentUser, program.acl, 'edit') && (
+              <button
+                onClick={() => onEdit(program)}
+                className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
+                style={{ color: 'var(--foreground)', background: 'var(--card-bg)' }}
+              >
+                Edit
+              </button>
+            )}
             <button
-              onClick={() => onEdit(program)}
+              onClick={() => onLogs(program)}
               className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
               style={{ color: 'var(--foreground)', background: 'var(--card-bg)' }}
             >
-              Edit
+              Logs
             </button>
             <button
-              onClick={() => onAction('terminate', program.id)}
+              onClick={() => onMetrics(program)}
               className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
-              style={{ color: '#ef4444', background: 'var(--card-bg)' }}
-              disabled={program.status !== 'running' && !program.screenActive}
+              style={{ color: 'var(--foreground)', background: 'var(--card-bg)' }}
             >
-              Kill
+              Metrics
             </button>
             <button
-              onClick={() => onAction('screen', program.id)}
+              onClick={() => onRuns(program)}
               className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
-              style={{ color: '#3b82f6', background: 'var(--card-bg)' }}
+              style={{ color: 'var(--foreground)', background: 'var(--card-bg)' }}
+            >
+              Run history
+            </button>
+            <button
+              onClick={() => onEvents(program)}
+              className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
+              style={{ color: 'var(--foreground)', background: 'var(--card-bg)' }}
             >
-              Screen
+              Events
             </button>
+            {canControl && (program.schedule || program.runOnce) && (
+              <button
+                onClick={() => onAction('run', program.id)}
+                className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
+                style={{ color: '#10b981', background: 'var(--card-bg)' }}
+                disabled={program.status === 'running'}
+              >
+                Run now
+              </button>
+            )}
+            {canControl && (
+              <>
+                <button
+                  onClick={() => onAction('terminate', program.id)}
+                  className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
+                  style={{ color: '#ef4444', background: 'var(--card-bg)' }}
+                  disabled={program.status !== 'running' && !program.screenActive}
+                >
+                  Kill
+                </button>
+                <button
+                  onClick={() => onAction('screen', program.id)}
+                  className="block w-full text-left px-4 py-2 text-sm hover:opacity-80"
+                  style={{ color: '#3b82f6', background: 'var(--card-bg)' }}
+                >
+                  Screen
+                </button>
+              </>
+            )}
           </div>
         </div>
       </div>
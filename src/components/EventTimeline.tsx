@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { ProgramEvent, ProgramEventType } from '@/lib/EventJournal';
+
+interface EventTimelineProps {
+  programId: string;
+}
+
+const PAGE_SIZE = 100;
+const REFRESH_INTERVAL_MS = 5000;
+
+const EVENT_COLORS: Record<ProgramEventType, string> = {
+  created: '#6b7280',
+  configChanged: '#6b7280',
+  started: '#10b981',
+  stopped: '#3b82f6',
+  exited: '#3b82f6',
+  crashed: '#ef4444',
+  restarted: '#f59e0b',
+  healthChanged: '#8b5cf6',
+  limitExceeded: '#ef4444',
+  restartsExhausted: '#ef4444',
+};
+
+const FILTERS: { label: string, types?: ProgramEventType[] }[] = [
+  { label: 'All events' },
+  { label: 'Starts and exits', types: ['started', 'stopped', 'exited', 'crashed', 'restarted'] },
+  { label: 'Crashes', types: ['crashed', 'restarted', 'restartsExhausted'] },
+  { label: 'Health and limits', types: ['healthChanged', 'limitExceeded'] },
+  { label: 'Configuration', types: ['created', 'configChanged'] },
+];
+
+export const EventTimeline: React.FC<EventTimelineProps> = ({ programId }) => {
+  const { programs, getProgramEvents } = useStartupManager();
+  const program = programs.find(p => p.id === programId);
+  const [filter, setFilter] = useState(0);
+  const [events, setEvents] = useState<ProgramEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Newest page, refreshed while the tab is open; older pages are loaded on request
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const page = await getProgramEvents(programId, { limit: PAGE_SIZE, types: FILTERS[filter].types });
+        // Keep the older pages already loaded below the refreshed one
+        setEvents(current => {
+          if (page.length === 0) return page;
+          const oldest = page[page.length - 1].time;
+          return [...page, ...current.filter(event => event.time < oldest)];
+        });
+        setHasMore(page.length === PAGE_SIZE);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load events');
+      }
+    };
+
+    setEvents([]);
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [getProgramEvents, programId, filter]);
+
+  const loadOlder = async () => {
+    const oldest = events[events.length - 1];
+    if (!oldest) return;
+    try {
+      const page = await getProgramEvents(programId, { before: oldest.time, limit: PAGE_SIZE, types: FILTERS[filter].types });
+      setEvents(current => [...current, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load events');
+    }
+  };
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6 mr-2" style={{ color: 'var(--foreground)' }}>
+          {program?.name || 'Program'} events
+        </h3>
+        <div className="flex-1" />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(Number(e.target.value))}
+          className="border rounded-md py-1 px-2 text-sm"
+          style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+        >
+          {FILTERS.map((option, i) => (
+            <option key={option.label} value={i}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {events.length === 0 ? (
+        <div className="p-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>No events recorded yet</div>
+      ) : (
+        <ol className="p-4">
+          {events.map((event, i) => (
+            <li key={`${event.time}-${i}`} className="relative pl-6 pb-4">
+              {i < events.length - 1 && (
+                <span className="absolute left-[5px] top-3 bottom-0 w-px" style={{ background: 'var(--border-color)' }} />
+              )}
+              <span className="absolute left-0 top-1.5 w-3 h-3 rounded-full" style={{ background: EVENT_COLORS[event.type] }} />
+              <div className="flex flex-wrap items-baseline gap-x-3 text-sm" style={{ color: 'var(--foreground)' }}>
+                <span className="font-medium">{event.message}</span>
+                {event.actor && <span style={{ opacity: 0.7 }}>by {event.actor}</span>}
+              </div>
+              <div className="text-xs" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+                {new Date(event.time).toLocaleString()}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {hasMore && (
+        <div className="px-4 pb-4">
+          <button
+            onClick={loadOlder}
+            className="px-3 py-1 rounded text-sm"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Load older events
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
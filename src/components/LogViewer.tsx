@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { LogLine, LogQuery } from '@/lib/ProgramLog';
+
+interface LogViewerProps {
+  programId: string;
+}
+
+// Lines kept on screen while following
+const MAX_VISIBLE_LINES = 5000;
+const TAIL_INTERVAL_MS = 2000;
+// Upper bound for a download so a huge history does not freeze the browser
+const MAX_DOWNLOAD_PAGES = 200;
+
+// Value for a datetime-local input, which expects local time without a zone
+const toLocalInput = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const LogViewer: React.FC<LogViewerProps> = ({ programId }) => {
+  const { programs, getProgramLogs } = useStartupManager();
+  const program = programs.find(p => p.id === programId);
+  const [lines, setLines] = useState<LogLine[]>([]);
+  const [olderCursor, setOlderCursor] = useState<string | undefined>(undefined);
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [follow, setFollow] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const afterCursor = useRef<string>('');
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Filters as sent to the server; datetime-local values are local time
+  const filters = useMemo((): LogQuery => ({
+    search: search || undefined,
+    from: from ? new Date(from).toISOString() : undefined,
+    to: to ? new Date(to).toISOString() : undefined,
+  }), [search, from, to]);
+
+  const scrollToBottom = useCallback(() => {
+    setTimeout(() => {
+      if (outputRef.current) {
+        outputRef.current.scrollTop = outputRef.current.scrollHeight;
+      }
+    }, 0);
+  }, []);
+
+  // Load the newest page matching the filters
+  const loadLatest = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await getProgramLogs(programId, filters);
+      setLines(page.lines);
+      setOlderCursor(page.before);
+      afterCursor.current = page.after;
+      scrollToBottom();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load logs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [getProgramLogs, programId, filters, scrollToBottom]);
+
+  const loadOlder = async () => {
+    if (!olderCursor) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await getProgramLogs(programId, { ...filters, before: olderCursor });
+      setLines(current => [...page.lines, ...current]);
+      setOlderCursor(page.before);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load logs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload when the program or the filters change
+  useEffect(() => {
+    loadLatest();
+  }, [loadLatest]);
+
+  // Poll for new lines while following; a fixed end time means there is nothing to follow
+  useEffect(() => {
+    if (!follow || to) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const page = await getProgramLogs(programId, { ...filters, after: afterCursor.current, limit: 1000 });
+        afterCursor.current = page.after;
+        if (page.lines.length > 0) {
+          setLines(current => {
+            const combined = [...current, ...page.lines];
+            if (combined.length <= MAX_VISIBLE_LINES) return combined;
+            // The cursor no longer matches the first visible line; Refresh pages from the end again
+            setOlderCursor(undefined);
+            return combined.slice(combined.length - MAX_VISIBLE_LINES);
+          });
+          scrollToBottom();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load logs');
+      }
+    }, TAIL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [getProgramLogs, programId, follow, to, filters, scrollToBottom]);
+
+  // Download every line matching the filters, not only the ones on screen
+  const handleDownload = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const pages: LogLine[][] = [];
+      let before: string | undefined;
+      for (let i = 0; i < MAX_DOWNLOAD_PAGES; i++) {
+        const page = await getProgramLogs(programId, { ...filters, before, limit: 1000 });
+        pages.unshift(page.lines);
+        before = page.before;
+        if (!before) break;
+      }
+      const text = pages.flat().map(line => `${line.time} ${line.text}`).join('\n');
+      const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${program?.name || programId}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.log`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download logs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+
+  return (
+    <div className="shadow sm:rounded-lg flex flex-col" style={{ background: 'var(--card-bg)', height: 'calc(100vh - 80px)' }}>
+      <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6 mr-2" style={{ color: 'var(--foreground)' }}>
+          {program?.name || 'Program'} logs
+        </h3>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search"
+          className="border rounded-md py-1 px-2 text-sm"
+          style={inputStyle}
+        />
+        <label className="text-sm flex items-center gap-1" style={{ color: 'var(--foreground)' }}>
+          From
+          <input
+            type="datetime-local"
+            value={from}
+            max={to || toLocalInput(new Date())}
+            onChange={(e) => setFrom(e.target.value)}
+            className="border rounded-md py-1 px-2 text-sm"
+            style={inputStyle}
+          />
+        </label>
+        <label className="text-sm flex items-center gap-1" style={{ color: 'var(--foreground)' }}>
+          To
+          <input
+            type="datetime-local"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="border rounded-md py-1 px-2 text-sm"
+            style={inputStyle}
+          />
+        </label>
+        <label className="text-sm flex items-center gap-1" style={{ color: 'var(--foreground)' }}>
+          <input
+            type="checkbox"
+            checked={follow}
+            disabled={!!to}
+            onChange={(e) => setFollow(e.target.checked)}
+          />
+          Follow
+        </label>
+        <div className="flex-1" />
+        <button
+          onClick={loadLatest}
+          disabled={isLoading}
+          className="px-3 py-1 rounded-md text-sm"
+          style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+        >
+          Refresh
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={isLoading}
+          className="px-3 py-1 rounded-md text-sm"
+          style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
+        >
+          Download
+        </button>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div ref={outputRef} className="flex-1 overflow-auto px-4 py-2 font-mono text-xs" style={{ color: 'var(--foreground)' }}>
+        {olderCursor && (
+          <button
+            onClick={loadOlder}
+            disabled={isLoading}
+            className="mb-2 px-3 py-1 rounded-md text-xs"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Load older
+          </button>
+        )}
+        {lines.length === 0 && !isLoading && (
+          <div style={{ opacity: 0.7 }}>No log lines{search || from || to ? ' match the filters' : ' captured yet'}</div>
+        )}
+        {lines.map((line, index) => (
+          <div key={index} className="whitespace-pre-wrap break-all">
+            <span style={{ opacity: 0.5 }}>{new Date(line.time).toLocaleString()}</span> {line.text}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -4,16 +4,20 @@ import React, { useState } from 'react';
 import { useStartupManager } from '@/lib/StartupManagerContext';
 import { useTheme } from '@/lib/ThemeContext';
 import { ThemeToggle } from './ThemeToggle';
+import { SECOND_FACTOR_REQUIRED } from '@/lib/permissions';
 
 interface LoginFormProps {
-  onLoginSuccess: () => void;
+  onLoginSuccess?: () => void;
 }
 
 export const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess }) => {
-  const { login, error } = useStartupManager();
+  const { login, sessionEndedReason } = useStartupManager();
   const { theme } = useTheme();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  // Set once the server asked for the second factor
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [loginError, setLoginError] = useState<string | null>(null);
 
@@ -29,10 +33,16 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess }) => {
     setLoginError(null);
     
     try {
-      await login(username, password);
-      onLoginSuccess();
+      await login(username, password, needsCode ? code : undefined);
+      onLoginSuccess?.();
     } catch (error) {
-      setLoginError(error instanceof Error ? error.message : 'Login failed');
+      const message = error instanceof Error ? error.message : 'Login failed';
+      if (message === SECOND_FACTOR_REQUIRED) {
+        setNeedsCode(true);
+      } else {
+        setLoginError(message);
+      }
+      setCode('');
     } finally {
       setIsLoading(false);
     }
@@ -50,6 +60,11 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess }) => {
         </div>
         
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
+          {sessionEndedReason && !loginError && (
+            <div className="p-4 mb-4 text-sm text-yellow-800 bg-yellow-100 rounded-lg">
+              {sessionEndedReason}, please sign in again.
+            </div>
+          )}
           {loginError && (
             <div className="p-4 mb-4 text-sm text-red-700 bg-red-100 rounded-lg">
               {loginError}
@@ -65,7 +80,7 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess }) => {
               name="username"
               type="text"
               value={username}
-              onChange={(e) => setUsername(e.target.value)}
+              onChange={(e) => { setUsername(e.target.value); setNeedsCode(false); }}
               required
               style={{ background: 'var(--input-bg)', borderColor: 'var(--input-border)', color: 'var(--foreground)' }}
               className="block w-full px-3 py-2 mt-1 border rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
@@ -88,13 +103,37 @@ export const LoginForm: React.FC<LoginFormProps> = ({ onLoginSuccess }) => {
             />
           </div>
           
+          {needsCode && (
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Two-factor code
+              </label>
+              <input
+                id="code"
+                name="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                style={{ background: 'var(--input-bg)', borderColor: 'var(--input-border)', color: 'var(--foreground)' }}
+                className="block w-full px-3 py-2 mt-1 border rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <p className="mt-1 text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Enter the code from your authenticator app, or one of your recovery codes.
+              </p>
+            </div>
+          )}
+
           <div>
             <button
               type="submit"
               disabled={isLoading}
               className="flex justify-center w-full px-4 py-2 text-sm font-medium text-white bg-indigo-600 border border-transparent rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-indigo-400"
             >
-              {isLoading ? 'Signing in...' : 'Sign in'}
+              {isLoading ? 'Signing in...' : needsCode ? 'Verify' : 'Sign in'}
             </button>
           </div>
         </form>
@@ -0,0 +1,157 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { MetricsSample } from '@/lib/MetricsCollector';
+
+interface MetricsViewProps {
+  programId: string;
+}
+
+const RANGES = [
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '6 hours', ms: 6 * 60 * 60 * 1000 },
+  { label: '24 hours', ms: 24 * 60 * 60 * 1000 },
+];
+const REFRESH_INTERVAL_MS = 15000;
+const MAX_POINTS = 400;
+
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value >= 100 || unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+export const formatUptime = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+interface ChartProps {
+  title: string;
+  samples: MetricsSample[];
+  value: (sample: MetricsSample) => number;
+  format: (value: number) => string;
+  color: string;
+  from: number;
+  to: number;
+}
+
+// Line chart over a fixed time range; gaps longer than a few samples are left open
+const Chart: React.FC<ChartProps> = ({ title, samples, value, format, color, from, to }) => {
+  const width = 600;
+  const height = 140;
+  const values = samples.map(value);
+  const max = Math.max(...values, 0) || 1;
+  const x = (time: number) => ((time - from) / (to - from)) * width;
+  const y = (v: number) => height - (v / max) * (height - 4);
+
+  // Split the line where the program was not running
+  const gap = samples.length > 1 ? ((samples[samples.length - 1].time - samples[0].time) / (samples.length - 1)) * 3 : 0;
+  const segments: string[][] = [];
+  samples.forEach((sample, i) => {
+    if (i === 0 || sample.time - samples[i - 1].time > gap) segments.push([]);
+    segments[segments.length - 1].push(`${x(sample.time).toFixed(1)},${y(values[i]).toFixed(1)}`);
+  });
+
+  const latest = values.length > 0 ? values[values.length - 1] : undefined;
+  return (
+    <div className="p-4 rounded-lg border" style={{ borderColor: 'var(--border-color)' }}>
+      <div className="flex justify-between text-sm mb-2" style={{ color: 'var(--foreground)' }}>
+        <span className="font-medium">{title}</span>
+        <span style={{ opacity: 0.7 }}>
+          {latest !== undefined ? `now ${format(latest)} · max ${format(Math.max(...values))}` : 'no data'}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full" style={{ height: `${height}px` }} preserveAspectRatio="none">
+        <line x1={0} y1={height - 0.5} x2={width} y2={height - 0.5} stroke="var(--border-color)" />
+        {segments.map((points, i) => (
+          <polyline key={i} points={points.join(' ')} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs mt-1" style={{ color: 'var(--foreground)', opacity: 0.5 }}>
+        <span>{new Date(from).toLocaleString()}</span>
+        <span>{new Date(to).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export const MetricsView: React.FC<MetricsViewProps> = ({ programId }) => {
+  const { programs, getProgramMetrics } = useStartupManager();
+  const program = programs.find(p => p.id === programId);
+  const [rangeMs, setRangeMs] = useState(RANGES[0].ms);
+  const [samples, setSamples] = useState<MetricsSample[]>([]);
+  const [to, setTo] = useState(Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const now = Date.now();
+      try {
+        const result = await getProgramMetrics([programId], { from: now - rangeMs, maxPoints: MAX_POINTS });
+        setSamples(result[programId] || []);
+        setTo(now);
+        setError(null);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load metrics');
+      }
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [getProgramMetrics, programId, rangeMs]);
+
+  const latest = samples[samples.length - 1];
+  const from = to - rangeMs;
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6 mr-2" style={{ color: 'var(--foreground)' }}>
+          {program?.name || 'Program'} metrics
+        </h3>
+        {latest && program?.status === 'running' && (
+          <span className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+            up {formatUptime(latest.uptime)} · {latest.processes} process{latest.processes === 1 ? '' : 'es'}
+          </span>
+        )}
+        <div className="flex-1" />
+        <select
+          value={rangeMs}
+          onChange={(e) => setRangeMs(Number(e.target.value))}
+          className="border rounded-md py-1 px-2 text-sm"
+          style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+        >
+          {RANGES.map(range => (
+            <option key={range.ms} value={range.ms}>Last {range.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Chart title="CPU" samples={samples} value={s => s.cpu} format={v => `${v.toFixed(1)}%`} color="#3b82f6" from={from} to={to} />
+        <Chart title="Memory (RSS)" samples={samples} value={s => s.rss} format={formatBytes} color="#10b981" from={from} to={to} />
+        <Chart title="Threads" samples={samples} value={s => s.threads} format={v => String(Math.round(v))} color="#f59e0b" from={from} to={to} />
+        <Chart title="Open files" samples={samples} value={s => s.fds} format={v => String(Math.round(v))} color="#8b5cf6" from={from} to={to} />
+      </div>
+    </div>
+  );
+};
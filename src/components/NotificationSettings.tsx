@@ -0,0 +1,402 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import {
+  DEFAULT_NOTIFICATION_EVENTS, NOTIFICATION_EVENTS, NotificationChannel, NotificationChannelType, NotificationEventType
+} from '@/lib/notifications';
+
+const EVENT_LABELS: Record<NotificationEventType, string> = {
+  started: 'Started',
+  stopped: 'Stopped',
+  exited: 'Exited',
+  crashed: 'Crashed',
+  restarted: 'Restarted',
+  healthChanged: 'Health changed',
+  restartsExhausted: 'Restarts exhausted',
+};
+
+const TYPE_LABELS: Record<NotificationChannelType, string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  email: 'Email',
+};
+
+// The form keeps lists and the port as text until saved
+interface ChannelDraft {
+  name: string;
+  type: NotificationChannelType;
+  enabled: boolean;
+  events: NotificationEventType[];
+  programIds: string[];
+  groups: string;
+  url: string;
+  secret: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  password: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_DRAFT: ChannelDraft = {
+  name: '', type: 'webhook', enabled: true, events: DEFAULT_NOTIFICATION_EVENTS, programIds: [], groups: '',
+  url: '', secret: '', host: '', port: '587', secure: false, username: '', password: '', from: '', to: ''
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+function toDraft(channel: NotificationChannel): ChannelDraft {
+  return {
+    name: channel.name,
+    type: channel.type,
+    enabled: channel.enabled,
+    events: channel.events,
+    programIds: channel.programIds || [],
+    groups: (channel.groups || []).join(', '),
+    url: channel.url || '',
+    secret: channel.secret || '',
+    host: channel.smtp?.host || '',
+    port: String(channel.smtp?.port ?? 587),
+    secure: !!channel.smtp?.secure,
+    username: channel.smtp?.username || '',
+    password: channel.smtp?.password || '',
+    from: channel.from || '',
+    to: (channel.to || []).join(', '),
+  };
+}
+
+// Admin settings for where program events are sent
+export const NotificationSettings: React.FC = () => {
+  const {
+    programs, listNotificationChannels, addNotificationChannel, updateNotificationChannel,
+    deleteNotificationChannel, testNotificationChannel
+  } = useStartupManager();
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ChannelDraft>(EMPTY_DRAFT);
+  // The channel being edited, or null when adding one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setChannels(await listNotificationChannels());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load notification channels');
+    }
+  }, [listNotificationChannels]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a change, then shows its outcome and reloads the list
+  const run = async (action: () => Promise<unknown>, success: string): Promise<boolean> => {
+    let ok = true;
+    try {
+      await action();
+      setMessage(success);
+      setError(null);
+    } catch (err) {
+      ok = false;
+      setMessage(null);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+    await load();
+    return ok;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const channel = {
+      name: draft.name,
+      type: draft.type,
+      enabled: draft.enabled,
+      events: draft.events,
+      programIds: draft.programIds,
+      groups: splitList(draft.groups),
+      ...(draft.type === 'email' ? {
+        smtp: { host: draft.host, port: Number(draft.port), secure: draft.secure, username: draft.username || undefined, password: draft.password || undefined },
+        from: draft.from,
+        to: splitList(draft.to),
+      } : {
+        url: draft.url,
+        secret: draft.type === 'webhook' && draft.secret ? draft.secret : undefined,
+      }),
+    };
+    const saved = editingId
+      ? await run(() => updateNotificationChannel(editingId, channel), `Saved ${draft.name}`)
+      : await run(() => addNotificationChannel(channel), `Added ${draft.name}`);
+    if (saved) {
+      setDraft(EMPTY_DRAFT);
+      setEditingId(null);
+    }
+  };
+
+  const handleEdit = (channel: NotificationChannel) => {
+    setDraft(toDraft(channel));
+    setEditingId(channel.id);
+  };
+
+  const handleCancel = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditingId(null);
+  };
+
+  const handleToggle = (channel: NotificationChannel) => {
+    const { name, type, events, programIds, groups, url, secret, smtp, from, to } = channel;
+    const enabled = !channel.enabled;
+    run(() => updateNotificationChannel(channel.id, { name, type, enabled, events, programIds, groups, url, secret, smtp, from, to }),
+      `${name} ${enabled ? 'enabled' : 'disabled'}`);
+  };
+
+  const handleTest = async (channel: NotificationChannel) => {
+    setTesting(channel.id);
+    await run(() => testNotificationChannel(channel.id), `Test notification sent to ${channel.name}`);
+    setTesting(null);
+  };
+
+  const handleDelete = (channel: NotificationChannel) => {
+    if (!confirm(`Delete the notification channel ${channel.name}?`)) return;
+    if (editingId === channel.id) handleCancel();
+    run(() => deleteNotificationChannel(channel.id), `Deleted ${channel.name}`);
+  };
+
+  const toggleEvent = (event: NotificationEventType) => {
+    const events = draft.events.includes(event) ? draft.events.filter(e => e !== event) : [...draft.events, event];
+    setDraft({ ...draft, events: NOTIFICATION_EVENTS.filter(e => events.includes(e)) });
+  };
+
+  const describeFilters = (channel: NotificationChannel) => {
+    const parts = [];
+    if (channel.programIds?.length) {
+      parts.push(channel.programIds.map(id => programs.find(p => p.id === id)?.name || id).join(', '));
+    }
+    if (channel.groups?.length) parts.push(channel.groups.map(group => `@${group}`).join(', '));
+    return parts.length > 0 ? parts.join('; ') : 'All programs';
+  };
+
+  const inputStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+  const cellStyle = { color: 'var(--foreground)' };
+  const hintStyle = { color: 'var(--foreground)', opacity: 0.7 };
+
+  const field = (label: string, key: keyof ChannelDraft, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="text-sm" style={cellStyle}>
+      <span className="block mb-1">{label}</span>
+      <input
+        value={draft[key] as string}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+        className="border rounded-md py-1 px-2"
+        style={inputStyle}
+        autoComplete="off"
+        {...props}
+      />
+    </label>
+  );
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6" style={{ color: 'var(--foreground)' }}>Notifications</h3>
+        <p className="text-sm mt-1" style={hintStyle}>
+          Program events are sent to every enabled channel whose filters they pass. Failed sends are retried with backoff.
+        </p>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="m-4 p-4 text-sm text-green-700 bg-green-100 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead style={{ background: 'var(--header-bg)' }}>
+            <tr>
+              {['Channel', 'Type', 'Events', 'Programs', 'Last delivery', ''].map(title => (
+                <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={hintStyle}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+            {channels.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-4 text-center" style={hintStyle}>No notification channels yet</td>
+              </tr>
+            )}
+            {channels.map(channel => (
+              <tr key={channel.id} style={{ opacity: channel.enabled ? 1 : 0.6 }}>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                  {channel.name}
+                  {!channel.enabled && <span style={{ opacity: 0.7 }}> (disabled)</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{TYPE_LABELS[channel.type]}</td>
+                <td className="px-4 py-2" style={cellStyle}>{channel.events.map(event => EVENT_LABELS[event]).join(', ') || '-'}</td>
+                <td className="px-4 py-2" style={cellStyle}>{describeFilters(channel)}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle} title={channel.lastDelivery?.error}>
+                  {channel.lastDelivery ? (
+                    <span className={channel.lastDelivery.ok ? 'text-green-600' : 'text-red-600'}>
+                      {channel.lastDelivery.ok ? 'Sent' : 'Failed'} {new Date(channel.lastDelivery.time).toLocaleString()}
+                      {channel.lastDelivery.attempts > 1 && ` (${channel.lastDelivery.attempts} attempts)`}
+                    </span>
+                  ) : '-'}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-right space-x-2">
+                  <button
+                    onClick={() => handleTest(channel)}
+                    disabled={testing === channel.id}
+                    className="px-3 py-1 rounded text-sm disabled:opacity-50"
+                    style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+                  >
+                    {testing === channel.id ? 'Sending...' : 'Send test'}
+                  </button>
+                  <button
+                    onClick={() => handleToggle(channel)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                  >
+                    {channel.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleEdit(channel)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(channel)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleSave} className="p-4 space-y-4 border-t" style={{ borderColor: 'var(--border-color)' }}>
+        <h4 className="text-sm font-medium" style={cellStyle}>{editingId ? `Edit ${draft.name}` : 'Add a channel'}</h4>
+        <div className="flex flex-wrap items-end gap-3">
+          {field('Name', 'name', { required: true, placeholder: 'e.g. On-call' })}
+          <label className="text-sm" style={cellStyle}>
+            <span className="block mb-1">Type</span>
+            <select
+              value={draft.type}
+              onChange={(e) => setDraft({ ...draft, type: e.target.value as NotificationChannelType })}
+              className="border rounded-md py-1 px-2"
+              style={inputStyle}
+            >
+              {(Object.keys(TYPE_LABELS) as NotificationChannelType[]).map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+            </select>
+          </label>
+          <label className="text-sm flex items-center" style={cellStyle}>
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+            />
+            Enabled
+          </label>
+        </div>
+
+        {draft.type !== 'email' ? (
+          <div className="flex flex-wrap items-end gap-3">
+            {field(draft.type === 'slack' ? 'Incoming webhook URL' : 'URL', 'url', { required: true, type: 'url', size: 48, placeholder: 'https://' })}
+            {draft.type === 'webhook' && field('Signing secret', 'secret', { type: 'password', autoComplete: 'new-password', placeholder: 'optional' })}
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-3">
+            {field('SMTP host', 'host', { required: true })}
+            {field('Port', 'port', { required: true, type: 'number', min: 1, max: 65535, style: { ...inputStyle, width: '6rem' } })}
+            <label className="text-sm flex items-center" style={cellStyle} title="Use TLS from the start, usually on port 465; STARTTLS is used when the server offers it otherwise">
+              <input
+                type="checkbox"
+                checked={draft.secure}
+                onChange={(e) => setDraft({ ...draft, secure: e.target.checked })}
+                className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+              />
+              TLS
+            </label>
+            {field('Username', 'username', { placeholder: 'optional' })}
+            {field('Password', 'password', { type: 'password', autoComplete: 'new-password', placeholder: 'optional' })}
+            {field('From', 'from', { required: true, type: 'email' })}
+            {field('To', 'to', { required: true, size: 32, placeholder: 'a@example.com, b@example.com' })}
+          </div>
+        )}
+
+        <div className="text-sm" style={cellStyle}>
+          <span className="block mb-1">Events</span>
+          <div className="flex flex-wrap gap-4">
+            {NOTIFICATION_EVENTS.map(event => (
+              <label key={event} className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={draft.events.includes(event)}
+                  onChange={() => toggleEvent(event)}
+                  className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                />
+                {EVENT_LABELS[event]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-start gap-3">
+          <label className="text-sm" style={cellStyle}>
+            <span className="block mb-1">Programs</span>
+            <select
+              multiple
+              value={draft.programIds}
+              onChange={(e) => setDraft({ ...draft, programIds: Array.from(e.target.selectedOptions, option => option.value) })}
+              className="border rounded-md py-1 px-2 min-w-[12rem]"
+              style={inputStyle}
+              size={Math.min(Math.max(programs.length, 2), 6)}
+            >
+              {programs.map(program => <option key={program.id} value={program.id}>{program.name}</option>)}
+            </select>
+          </label>
+          {field('Groups', 'groups', { placeholder: 'e.g. backend, ops' })}
+          <span className="text-xs self-center" style={hintStyle}>
+            Events of every program are sent when neither programs nor groups are picked.
+          </span>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            type="submit"
+            className="px-4 py-1.5 rounded-md"
+            style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+          >
+            {editingId ? 'Save channel' : 'Add channel'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-1.5 rounded-md"
+              style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
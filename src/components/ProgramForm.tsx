@@ -1,9 +1,40 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { ProgramState, StopMethod } from '@/lib/Program';
+import { ProgramState, StopMethod, StopSignal, RestartMode, ProgramRuntime } from '@/lib/Program';
+import { HealthCheckConfig, HealthCheckType } from '@/lib/HealthCheck';
+import type { LimitAction, ResourceLimits } from '@/lib/ResourceLimits';
+import { CronExpression } from '@/lib/CronExpression';
 import { useStartupManager } from '@/lib/StartupManagerContext';
 import { useTheme } from '@/lib/ThemeContext';
+import { PROGRAM_PERMISSIONS, ProgramAcl, ProgramPermission, hasRole } from '@/lib/permissions';
+import { defaultScreenName } from '@/lib/stackFile';
+
+type LimitRuleName = 'memoryMb' | 'cpuPercent' | 'openFiles';
+
+const ACL_LABELS: Record<ProgramPermission, string> = {
+  view: 'View',
+  control: 'Start and stop',
+  terminal: 'Terminal',
+  edit: 'Edit',
+};
+
+// Run times shown under the schedule, or the reason the expression is invalid
+const previewSchedule = (cron: string, timezone: string): { times: Date[], error?: string } => {
+  if (!cron.trim()) return { times: [] };
+  try {
+    const expression = new CronExpression(cron);
+    const times: Date[] = [];
+    let after = new Date();
+    for (let i = 0; i < 3; i++) {
+      after = expression.next(after, timezone.trim() || undefined);
+      times.push(after);
+    }
+    return { times };
+  } catch (err) {
+    return { times: [], error: err instanceof Error ? err.message : String(err) };
+  }
+};
 
 interface ProgramFormProps {
   program?: ProgramState;
@@ -12,28 +43,100 @@ interface ProgramFormProps {
 }
 
 export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onSave }) => {
-  const { addProgram, updateProgram, deleteProgram } = useStartupManager();
+  const { currentUser, programs, addProgram, updateProgram, deleteProgram } = useStartupManager();
   const { theme } = useTheme();
   const [name, setName] = useState('');
   const [command, setCommand] = useState('');
+  const [group, setGroup] = useState('');
+  const [tags, setTags] = useState('');
   const [screenName, setScreenName] = useState('');
+  const [runtime, setRuntime] = useState<ProgramRuntime>('screen');
   const [maxChildDepth, setMaxChildDepth] = useState(1);
   const [autoStart, setAutoStart] = useState(false);
+  const [scheduleCron, setScheduleCron] = useState('');
+  const [scheduleTimezone, setScheduleTimezone] = useState('');
+  const [scheduleEnabled, setScheduleEnabled] = useState(true);
+  const [runOnce, setRunOnce] = useState(false);
   const [stopMethod, setStopMethod] = useState<StopMethod>('SIGHUP');
+  const [stopSteps, setStopSteps] = useState<{ signal: StopSignal, timeoutSec: number }[]>([]);
+  const [restartMode, setRestartMode] = useState<RestartMode>('never');
+  const [maxRetries, setMaxRetries] = useState(5);
+  const [restartWindowSec, setRestartWindowSec] = useState(300);
+  const [initialDelaySec, setInitialDelaySec] = useState(1);
+  const [maxDelaySec, setMaxDelaySec] = useState(60);
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [cwd, setCwd] = useState('');
+  const [envRows, setEnvRows] = useState<{ key: string, value: string }[]>([]);
+  const [envFile, setEnvFile] = useState('');
+  const [runAs, setRunAs] = useState('');
+  const [aclLists, setAclLists] = useState<Record<ProgramPermission, string>>({ view: '', control: '', terminal: '', edit: '' });
+  const [healthCheckType, setHealthCheckType] = useState<HealthCheckType | ''>('');
+  const [healthCheck, setHealthCheck] = useState<Omit<HealthCheckConfig, 'type'>>({});
+  const [limitRules, setLimitRules] = useState<Record<LimitRuleName, { max?: number, action: LimitAction }>>({
+    memoryMb: { action: 'warn' },
+    cpuPercent: { action: 'warn' },
+    openFiles: { action: 'warn' }
+  });
+  const [cpuSustainedSec, setCpuSustainedSec] = useState<number | undefined>(undefined);
+  const [nice, setNice] = useState<number | undefined>(undefined);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState(false);
   
   const isEditMode = !!program;
+  // Others with edit access may not change who can reach the program or the user it runs as
+  const isAdmin = hasRole(currentUser?.role, 'admin');
   
   useEffect(() => {
     if (program) {
       setName(program.name);
       setCommand(program.command);
+      setGroup(program.group || '');
+      setTags((program.tags || []).join(', '));
       setScreenName(program.screenName);
+      setRuntime(program.runtime || 'screen');
       setMaxChildDepth(program.maxChildDepth || 1);
       setAutoStart(program.autoStart || false);
+      setScheduleCron(program.schedule?.cron || '');
+      setScheduleTimezone(program.schedule?.timezone || '');
+      setScheduleEnabled(program.schedule?.enabled !== false);
+      setRunOnce(program.runOnce || false);
       setStopMethod(program.stopMethod || 'SIGHUP');
+      setStopSteps((program.stopSequence || []).map(step => ({ signal: step.signal, timeoutSec: (step.timeoutMs ?? 5000) / 1000 })));
+      setDependsOn(program.dependsOn || []);
+      setCwd(program.cwd || '');
+      setEnvRows(Object.entries(program.env || {}).map(([key, value]) => ({ key, value })));
+      setEnvFile(program.envFile || '');
+      setRunAs(program.runAs || '');
+      setAclLists({
+        view: (program.acl?.view || []).join(', '),
+        control: (program.acl?.control || []).join(', '),
+        terminal: (program.acl?.terminal || []).join(', '),
+        edit: (program.acl?.edit || []).join(', ')
+      });
+      if (program.healthCheck) {
+        const { type, ...rest } = program.healthCheck;
+        setHealthCheckType(type);
+        setHealthCheck(rest);
+      }
+      if (program.limits) {
+        const limits = program.limits;
+        setLimitRules({
+          memoryMb: { max: limits.memoryMb?.max, action: limits.memoryMb?.action || 'warn' },
+          cpuPercent: { max: limits.cpuPercent?.max, action: limits.cpuPercent?.action || 'warn' },
+          openFiles: { max: limits.openFiles?.max, action: limits.openFiles?.action || 'warn' }
+        });
+        setCpuSustainedSec(limits.cpuPercent?.sustainedMs !== undefined ? limits.cpuPercent.sustainedMs / 1000 : undefined);
+        setNice(limits.nice);
+      }
+      if (program.restartPolicy) {
+        const policy = program.restartPolicy;
+        setRestartMode(policy.mode);
+        if (policy.maxRetries !== undefined) setMaxRetries(policy.maxRetries);
+        if (policy.windowMs !== undefined) setRestartWindowSec(policy.windowMs / 1000);
+        if (policy.initialDelayMs !== undefined) setInitialDelaySec(policy.initialDelayMs / 1000);
+        if (policy.maxDelayMs !== undefined) setMaxDelaySec(policy.maxDelayMs / 1000);
+      }
     }
   }, [program]);
   
@@ -45,13 +148,64 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
       return;
     }
     
+    const schedulePreview = previewSchedule(scheduleCron, scheduleTimezone);
+    if (schedulePreview.error) {
+      setError(schedulePreview.error);
+      return;
+    }
+    
+    const limits: ResourceLimits = {};
+    if (limitRules.memoryMb.max) limits.memoryMb = { max: limitRules.memoryMb.max, action: limitRules.memoryMb.action };
+    if (limitRules.cpuPercent.max) {
+      limits.cpuPercent = { max: limitRules.cpuPercent.max, action: limitRules.cpuPercent.action };
+      if (cpuSustainedSec !== undefined) limits.cpuPercent.sustainedMs = cpuSustainedSec * 1000;
+    }
+    if (limitRules.openFiles.max) limits.openFiles = { max: limitRules.openFiles.max, action: limitRules.openFiles.action };
+    if (nice !== undefined) limits.nice = nice;
+    
+    const acl: ProgramAcl = {};
+    for (const permission of PROGRAM_PERMISSIONS) {
+      const entries = aclLists[permission].split(',').map(entry => entry.trim()).filter(Boolean);
+      if (entries.length > 0) acl[permission] = entries;
+    }
+    
     const programData = {
       name,
       command,
-      screenName,
+      group,
+      tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      // Pty programs have no screen name field; they get the one stack programs get
+      screenName: screenName.trim() || defaultScreenName(name),
+      runtime,
       maxChildDepth,
       autoStart,
-      stopMethod
+      // null clears an existing schedule when editing
+      schedule: scheduleCron.trim()
+        ? { cron: scheduleCron.trim(), timezone: scheduleTimezone.trim() || undefined, enabled: scheduleEnabled }
+        : null,
+      runOnce,
+      stopMethod,
+      // An empty sequence clears it, the stop method is used instead
+      stopSequence: stopSteps.map(step => ({ signal: step.signal, timeoutMs: step.timeoutSec * 1000 })),
+      restartPolicy: {
+        mode: restartMode,
+        maxRetries,
+        windowMs: restartWindowSec * 1000,
+        initialDelayMs: initialDelaySec * 1000,
+        maxDelayMs: maxDelaySec * 1000
+      },
+      dependsOn,
+      // Empty strings clear the setting when editing
+      cwd,
+      env: Object.fromEntries(envRows.filter(row => row.key).map(row => [row.key.trim(), row.value])),
+      envFile,
+      runAs,
+      // null clears an existing health check when editing
+      healthCheck: healthCheckType ? { ...healthCheck, type: healthCheckType } : null,
+      // null clears existing limits when editing
+      limits: Object.keys(limits).length > 0 ? limits : null,
+      // null clears the access lists when editing
+      acl: Object.keys(acl).length > 0 ? acl : null
     };
     
     setIsLoading(true);
@@ -71,6 +225,29 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
     }
   };
 
+  const updateHealthCheck = (changes: Partial<HealthCheckConfig>) => {
+    setHealthCheck(current => ({ ...current, ...changes }));
+  };
+
+  // Parse a number input, leaving the field unset (server default) when empty
+  const optionalNumber = (value: string) => value === '' ? undefined : Number(value);
+
+  const updateLimitRule = (name: LimitRuleName, changes: Partial<{ max?: number, action: LimitAction }>) => {
+    setLimitRules(rules => ({ ...rules, [name]: { ...rules[name], ...changes } }));
+  };
+
+  const updateEnvRow = (index: number, changes: Partial<{ key: string, value: string }>) => {
+    setEnvRows(rows => rows.map((row, i) => i === index ? { ...row, ...changes } : row));
+  };
+
+  const updateStopStep = (index: number, changes: Partial<{ signal: StopSignal, timeoutSec: number }>) => {
+    setStopSteps(steps => steps.map((step, i) => i === index ? { ...step, ...changes } : step));
+  };
+
+  const toggleDependency = (id: string, checked: boolean) => {
+    setDependsOn(current => checked ? [...current, id] : current.filter(depId => depId !== id));
+  };
+
   const handleDelete = async () => {
     if (!isEditMode || !program) return;
     
@@ -116,6 +293,43 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
               />
             </div>
             
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="group" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Group
+                </label>
+                <input
+                  type="text"
+                  id="group"
+                  list="program-groups"
+                  value={group}
+                  onChange={(e) => setGroup(e.target.value)}
+                  className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  placeholder="e.g. backend"
+                />
+                <datalist id="program-groups">
+                  {Array.from(new Set(programs.map(p => p.group).filter(Boolean))).map(name => (
+                    <option key={name} value={name} />
+                  ))}
+                </datalist>
+              </div>
+              <div>
+                <label htmlFor="tags" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Tags
+                </label>
+                <input
+                  type="text"
+                  id="tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  placeholder="Comma separated, e.g. api, critical"
+                />
+              </div>
+            </div>
+            
             <div>
               <label htmlFor="command" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
                 Command
@@ -132,6 +346,26 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
               />
             </div>
             
+            <div>
+              <label htmlFor="runtime" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Runtime
+              </label>
+              <select
+                id="runtime"
+                value={runtime}
+                onChange={(e) => setRuntime(e.target.value as ProgramRuntime)}
+                className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+              >
+                <option value="screen">GNU screen</option>
+                <option value="pty">Direct (pty)</option>
+              </select>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Direct runs the command under a pty owned by the manager, which knows its exact PID and exit code; screen sessions survive a manager restart
+              </p>
+            </div>
+            
+            {runtime === 'screen' && (
             <div>
               <label htmlFor="screenName" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
                 Screen Name
@@ -141,6 +375,7 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
                 id="screenName"
                 value={screenName}
                 onChange={(e) => setScreenName(e.target.value)}
+                disabled={!isAdmin}
                 className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                 style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
                 placeholder="Screen session name"
@@ -149,6 +384,108 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
                 Name for the screen session that will run this program
               </p>
             </div>
+            )}
+            
+            <div>
+              <label htmlFor="cwd" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Working Directory
+              </label>
+              <input
+                type="text"
+                id="cwd"
+                value={cwd}
+                onChange={(e) => setCwd(e.target.value)}
+                disabled={!isAdmin}
+                className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                placeholder="/path/to/app"
+              />
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Environment Variables
+              </label>
+              {envRows.map((row, index) => (
+                <div key={index} className="mt-1 flex space-x-2">
+                  <input
+                    type="text"
+                    value={row.key}
+                    onChange={(e) => updateEnvRow(index, { key: e.target.value })}
+                    disabled={!isAdmin}
+                    className="block w-1/3 border rounded-md shadow-sm py-2 px-3 font-mono sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                    placeholder="NAME"
+                  />
+                  <input
+                    type="text"
+                    value={row.value}
+                    onChange={(e) => updateEnvRow(index, { value: e.target.value })}
+                    disabled={!isAdmin}
+                    className="block flex-1 border rounded-md shadow-sm py-2 px-3 font-mono sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                    placeholder="value"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setEnvRows(rows => rows.filter((_, i) => i !== index))}
+                    disabled={!isAdmin}
+                    className="px-3 rounded-md"
+                    style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setEnvRows(rows => [...rows, { key: '', value: '' }])}
+                disabled={!isAdmin}
+                className="mt-2 px-3 py-1 rounded-md text-sm"
+                style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+              >
+                Add Variable
+              </button>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Values of secret-looking names (passwords, tokens, keys) are shown masked; leave the mask to keep the stored value
+              </p>
+            </div>
+            
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="envFile" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Env File
+                </label>
+                <input
+                  type="text"
+                  id="envFile"
+                  value={envFile}
+                  onChange={(e) => setEnvFile(e.target.value)}
+                  disabled={!isAdmin}
+                  className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  placeholder=".env"
+                />
+              </div>
+              <div>
+                <label htmlFor="runAs" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                  Run As User
+                </label>
+                <input
+                  type="text"
+                  id="runAs"
+                  value={runAs}
+                  onChange={(e) => setRunAs(e.target.value)}
+                  disabled={!isAdmin}
+                  className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                  style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  placeholder="Manager's user"
+                />
+              </div>
+              <p className="col-span-2 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                The env file uses dotenv format and is read at every start, relative to the working directory. Running as another user needs the manager to run as root. Only admins can change the screen session, the working directory, the environment, the env file, the user and a health check command
+              </p>
+            </div>
             
             <div>
               <label htmlFor="maxChildDepth" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
@@ -189,6 +526,82 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
               </div>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Schedule
+              </label>
+              <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="scheduleCron" className="block text-sm" style={{ color: 'var(--foreground)' }}>
+                    Cron Expression
+                  </label>
+                  <input
+                    type="text"
+                    id="scheduleCron"
+                    value={scheduleCron}
+                    onChange={(e) => setScheduleCron(e.target.value)}
+                    placeholder="e.g. 0 3 * * * or @hourly"
+                    className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm font-mono"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="scheduleTimezone" className="block text-sm" style={{ color: 'var(--foreground)' }}>
+                    Time Zone
+                  </label>
+                  <input
+                    type="text"
+                    id="scheduleTimezone"
+                    value={scheduleTimezone}
+                    onChange={(e) => setScheduleTimezone(e.target.value)}
+                    placeholder="Server time zone"
+                    list="schedule-timezones"
+                    className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  />
+                  <datalist id="schedule-timezones">
+                    {(Intl.supportedValuesOf?.('timeZone') || []).map(zone => (
+                      <option key={zone} value={zone} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              {scheduleCron.trim() && (() => {
+                const preview = previewSchedule(scheduleCron, scheduleTimezone);
+                return preview.error ? (
+                  <p className="mt-1 text-sm text-red-500">{preview.error}</p>
+                ) : (
+                  <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                    Next runs: {preview.times.map(time => time.toLocaleString()).join(', ')}
+                  </p>
+                );
+              })()}
+              <div className="mt-2 space-y-1">
+                <label className="flex items-center text-sm" style={{ color: 'var(--foreground)' }}>
+                  <input
+                    type="checkbox"
+                    checked={scheduleEnabled}
+                    onChange={(e) => setScheduleEnabled(e.target.checked)}
+                    disabled={!scheduleCron.trim()}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                  />
+                  Schedule enabled
+                </label>
+                <label className="flex items-center text-sm" style={{ color: 'var(--foreground)' }}>
+                  <input
+                    type="checkbox"
+                    checked={runOnce}
+                    onChange={(e) => setRunOnce(e.target.checked)}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                  />
+                  Run once: the program exits when its work is done, an exit is a completed run rather than a crash
+                </label>
+              </div>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                The program is started at each scheduled time unless it is still running from the previous run
+              </p>
+            </div>
+            
             <div>
               <label htmlFor="stopMethod" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
                 Stop Method
@@ -202,15 +615,394 @@ export const ProgramForm: React.FC<ProgramFormProps> = ({ program, onCancel, onS
               >
                 <option value="SIGHUP">SIGHUP (Hangup Signal)</option>
                 <option value="SIGINT">SIGINT (Interrupt Signal)</option>
+                <option value="SIGTERM">SIGTERM (Terminate Signal)</option>
+                <option value="SIGQUIT">SIGQUIT (Quit Signal)</option>
                 <option value="CTRL_C">CTRL+C (Send to Screen)</option>
               </select>
               <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                Method used to stop the program when requested
+                Method used to stop the program when requested and no stop sequence is set
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Stop Sequence
+              </label>
+              {stopSteps.map((step, index) => (
+                <div key={index} className="mt-1 flex items-center space-x-2">
+                  <span className="text-sm w-6" style={{ color: 'var(--foreground)', opacity: 0.7 }}>{index + 1}.</span>
+                  <select
+                    value={step.signal}
+                    onChange={(e) => updateStopStep(index, { signal: e.target.value as StopSignal })}
+                    className="block flex-1 border rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  >
+                    <option value="SIGINT">SIGINT</option>
+                    <option value="SIGHUP">SIGHUP</option>
+                    <option value="SIGTERM">SIGTERM</option>
+                    <option value="SIGQUIT">SIGQUIT</option>
+                    <option value="CTRL_C">CTRL+C</option>
+                    <option value="SIGKILL">SIGKILL (process tree)</option>
+                  </select>
+                  <span className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>wait</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.timeoutSec}
+                    onChange={(e) => updateStopStep(index, { timeoutSec: Number(e.target.value) })}
+                    className="block w-24 border rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  />
+                  <span className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>s</span>
+                  <button
+                    type="button"
+                    onClick={() => setStopSteps(steps => steps.filter((_, i) => i !== index))}
+                    className="px-3 py-2 rounded-md"
+                    style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              <div className="mt-2 flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setStopSteps(steps => [...steps, { signal: steps.length === 0 ? stopMethod : 'SIGKILL', timeoutSec: 5 }])}
+                  className="px-3 py-1 rounded-md text-sm"
+                  style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                >
+                  Add Step
+                </button>
+                {stopSteps.length === 0 && (
+                  <button
+                    type="button"
+                    onClick={() => setStopSteps([
+                      { signal: stopMethod, timeoutSec: 10 },
+                      { signal: 'SIGTERM', timeoutSec: 5 },
+                      { signal: 'SIGKILL', timeoutSec: 5 }
+                    ])}
+                    className="px-3 py-1 rounded-md text-sm"
+                    style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                  >
+                    Use Escalation Preset
+                  </button>
+                )}
+              </div>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Each step is tried in order until the program exits; SIGKILL kills the whole process tree
+              </p>
+            </div>
+            
+            <div>
+              <label htmlFor="restartMode" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Restart Policy
+              </label>
+              <select
+                id="restartMode"
+                value={restartMode}
+                onChange={(e) => setRestartMode(e.target.value as RestartMode)}
+                className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+              >
+                <option value="never">Never</option>
+                <option value="on-failure">On failure</option>
+                <option value="always">Always</option>
+              </select>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Restart the program automatically when it exits without being stopped
+              </p>
+            </div>
+            
+            {restartMode !== 'never' && (
+              <div className="grid grid-cols-2 gap-4">
+                {[
+                  { id: 'maxRetries', label: 'Max Retries', value: maxRetries, setter: setMaxRetries, min: 1 },
+                  { id: 'restartWindowSec', label: 'Retry Window (seconds)', value: restartWindowSec, setter: setRestartWindowSec, min: 1 },
+                  { id: 'initialDelaySec', label: 'Initial Delay (seconds)', value: initialDelaySec, setter: setInitialDelaySec, min: 0 },
+                  { id: 'maxDelaySec', label: 'Max Delay (seconds)', value: maxDelaySec, setter: setMaxDelaySec, min: 0 },
+                ].map(field => (
+                  <div key={field.id}>
+                    <label htmlFor={field.id} className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                      {field.label}
+                    </label>
+                    <input
+                      type="number"
+                      id={field.id}
+                      min={field.min}
+                      value={field.value}
+                      onChange={(e) => field.setter(Number(e.target.value))}
+                      className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                    />
+                  </div>
+                ))}
+                <p className="col-span-2 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                  The delay doubles after every attempt; once Max Retries attempts fail inside the window the program is put in crash loop state until started manually
+                </p>
+              </div>
+            )}
+            
+            <div>
+              <span className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Depends On
+              </span>
+              {programs.filter(p => p.id !== program?.id).length === 0 ? (
+                <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                  No other programs configured
+                </p>
+              ) : (
+                <div className="mt-1 grid grid-cols-2 gap-2">
+                  {programs.filter(p => p.id !== program?.id).map(p => (
+                    <label key={p.id} className="flex items-center text-sm" style={{ color: 'var(--foreground)' }}>
+                      <input
+                        type="checkbox"
+                        checked={dependsOn.includes(p.id)}
+                        onChange={(e) => toggleDependency(p.id, e.target.checked)}
+                        className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                      />
+                      {p.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Programs that are started before this one and stopped after it
+              </p>
+            </div>
+            
+            <div>
+              <label htmlFor="healthCheckType" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Health Check
+              </label>
+              <select
+                id="healthCheckType"
+                value={healthCheckType}
+                onChange={(e) => setHealthCheckType(e.target.value as HealthCheckType | '')}
+                className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+              >
+                <option value="">None</option>
+                <option value="http">HTTP GET</option>
+                <option value="tcp">TCP connect</option>
+                <option value="command">Command exit code</option>
+              </select>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Probe used to report whether the running program is healthy
+              </p>
+            </div>
+            
+            {healthCheckType && (
+              <div className="grid grid-cols-2 gap-4">
+                {healthCheckType === 'http' && (
+                  <>
+                    <div>
+                      <label htmlFor="healthUrl" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>URL</label>
+                      <input
+                        type="text"
+                        id="healthUrl"
+                        value={healthCheck.url || ''}
+                        onChange={(e) => updateHealthCheck({ url: e.target.value })}
+                        placeholder="http://localhost:8080/health"
+                        className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="healthExpectedStatus" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>Expected Status</label>
+                      <input
+                        type="number"
+                        id="healthExpectedStatus"
+                        value={healthCheck.expectedStatus ?? ''}
+                        onChange={(e) => updateHealthCheck({ expectedStatus: optionalNumber(e.target.value) })}
+                        placeholder="any 2xx"
+                        className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      />
+                    </div>
+                  </>
+                )}
+                {healthCheckType === 'tcp' && (
+                  <>
+                    <div>
+                      <label htmlFor="healthHost" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>Host</label>
+                      <input
+                        type="text"
+                        id="healthHost"
+                        value={healthCheck.host || ''}
+                        onChange={(e) => updateHealthCheck({ host: e.target.value || undefined })}
+                        placeholder="127.0.0.1"
+                        className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="healthPort" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>Port</label>
+                      <input
+                        type="number"
+                        id="healthPort"
+                        value={healthCheck.port ?? ''}
+                        onChange={(e) => updateHealthCheck({ port: optionalNumber(e.target.value) })}
+                        className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      />
+                    </div>
+                  </>
+                )}
+                {healthCheckType === 'command' && (
+                  <div className="col-span-2">
+                    <label htmlFor="healthCommand" className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>Command</label>
+                    <input
+                      type="text"
+                      id="healthCommand"
+                      value={healthCheck.command || ''}
+                      onChange={(e) => updateHealthCheck({ command: e.target.value })}
+                      disabled={!isAdmin}
+                      placeholder="pg_isready -q"
+                      className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                    />
+                  </div>
+                )}
+                {[
+                  { id: 'intervalMs', label: 'Interval (ms)', placeholder: '10000' },
+                  { id: 'timeoutMs', label: 'Timeout (ms)', placeholder: '5000' },
+                  { id: 'healthyThreshold', label: 'Healthy Threshold', placeholder: '1' },
+                  { id: 'unhealthyThreshold', label: 'Unhealthy Threshold', placeholder: '3' },
+                  { id: 'startPeriodMs', label: 'Start Period (ms)', placeholder: '0' },
+                ].map(field => (
+                  <div key={field.id}>
+                    <label htmlFor={`health-${field.id}`} className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                      {field.label}
+                    </label>
+                    <input
+                      type="number"
+                      id={`health-${field.id}`}
+                      min={0}
+                      value={healthCheck[field.id as keyof typeof healthCheck] as number ?? ''}
+                      onChange={(e) => updateHealthCheck({ [field.id]: optionalNumber(e.target.value) })}
+                      placeholder={field.placeholder}
+                      className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                    />
+                  </div>
+                ))}
+                <label className="col-span-2 flex items-center text-sm" style={{ color: 'var(--foreground)' }}>
+                  <input
+                    type="checkbox"
+                    checked={!!healthCheck.restartOnUnhealthy}
+                    onChange={(e) => updateHealthCheck({ restartOnUnhealthy: e.target.checked })}
+                    className="focus:ring-indigo-500 h-4 w-4 text-indigo-600 border-gray-300 rounded mr-2"
+                  />
+                  Restart the program when it becomes unhealthy
+                </label>
+              </div>
+            )}
+            
+            <div>
+              <label className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Resource Limits
+              </label>
+              <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {[
+                  { name: 'memoryMb' as const, label: 'Max Memory (MB)' },
+                  { name: 'cpuPercent' as const, label: 'Max CPU (% of one core)' },
+                  { name: 'openFiles' as const, label: 'Max Open Files' },
+                ].map(field => (
+                  <div key={field.name}>
+                    <label htmlFor={`limit-${field.name}`} className="block text-sm" style={{ color: 'var(--foreground)' }}>
+                      {field.label}
+                    </label>
+                    <div className="mt-1 flex space-x-2">
+                      <input
+                        type="number"
+                        id={`limit-${field.name}`}
+                        min={1}
+                        value={limitRules[field.name].max ?? ''}
+                        onChange={(e) => updateLimitRule(field.name, { max: optionalNumber(e.target.value) })}
+                        placeholder="No limit"
+                        className="block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      />
+                      <select
+                        value={limitRules[field.name].action}
+                        onChange={(e) => updateLimitRule(field.name, { action: e.target.value as LimitAction })}
+                        className="block border rounded-md shadow-sm py-2 px-3 sm:text-sm"
+                        style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      >
+                        <option value="warn">Warn</option>
+                        <option value="restart">Restart</option>
+                        <option value="stop">Stop</option>
+                      </select>
+                    </div>
+                  </div>
+                ))}
+                <div>
+                  <label htmlFor="limit-cpuSustained" className="block text-sm" style={{ color: 'var(--foreground)' }}>
+                    CPU Over Limit For (seconds)
+                  </label>
+                  <input
+                    type="number"
+                    id="limit-cpuSustained"
+                    min={0}
+                    value={cpuSustainedSec ?? ''}
+                    onChange={(e) => setCpuSustainedSec(optionalNumber(e.target.value))}
+                    placeholder="30"
+                    className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="limit-nice" className="block text-sm" style={{ color: 'var(--foreground)' }}>
+                    Nice Level
+                  </label>
+                  <input
+                    type="number"
+                    id="limit-nice"
+                    min={-20}
+                    max={19}
+                    value={nice ?? ''}
+                    onChange={(e) => setNice(optionalNumber(e.target.value))}
+                    placeholder="Inherited"
+                    className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                  />
+                </div>
+              </div>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Memory, CPU and open files are checked for the whole process tree while it runs; the open file limit and nice level are also applied at start (changes apply on the next start)
+              </p>
+            </div>
+            
+            <div>
+              <label className="block text-sm font-medium" style={{ color: 'var(--foreground)' }}>
+                Access
+              </label>
+              <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {PROGRAM_PERMISSIONS.map(permission => (
+                  <div key={permission}>
+                    <label htmlFor={`acl-${permission}`} className="block text-sm" style={{ color: 'var(--foreground)', opacity: 0.8 }}>
+                      {ACL_LABELS[permission]}
+                    </label>
+                    <input
+                      type="text"
+                      id={`acl-${permission}`}
+                      value={aclLists[permission]}
+                      onChange={(e) => setAclLists({ ...aclLists, [permission]: e.target.value })}
+                      disabled={!isAdmin}
+                      className="mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      style={{ background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' }}
+                      placeholder="Everyone with the role"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="mt-1 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                Comma separated user names and @groups, e.g. alice, @backend. An empty list leaves the access to the user&apos;s role; editing without a list is for admins. Only admins can change these lists
               </p>
             </div>
             
             <div className="flex justify-end space-x-3">
-              {isEditMode && (
+              {isEditMode && isAdmin && (
                 <button
                   type="button"
                   onClick={() => setConfirmDelete(true)}
@@ -1,30 +1,91 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useStartupManager } from '@/lib/StartupManagerContext';
 import { useTheme } from '@/lib/ThemeContext';
-import { ProgramState } from '@/lib/Program';
+import { ProgramState, StopProgress } from '@/lib/Program';
+import type { BulkAction, BulkResult } from '@/lib/Program';
+import { DependencyGraph, collectDependencies } from '@/lib/dependencyGraph';
+import { summarizeDiff } from '@/lib/configDiff';
+import type { MetricsSample } from '@/lib/MetricsCollector';
 import { DarkModeDropdown } from './DarkModeDropdown';
+import { canAccessProgram, hasRole } from '@/lib/permissions';
+import { Sparkline } from './Sparkline';
+import { formatBytes } from './MetricsView';
 
 interface ProgramListProps {
   onEdit: (program: ProgramState) => void;
   onTerminal: (program: ProgramState) => void;
+  onLogs: (program: ProgramState) => void;
+  onMetrics: (program: ProgramState) => void;
+  onRuns: (program: ProgramState) => void;
+  onEvents: (program: ProgramState) => void;
 }
 
-export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal }) => {
-  const { programs, startProgram, stopProgram, terminateProgram, startScreen } = useStartupManager();
+// Sparklines cover the last 30 minutes
+const SPARKLINE_RANGE_MS = 30 * 60 * 1000;
+const SPARKLINE_POINTS = 30;
+const METRICS_REFRESH_MS = 15000;
+
+export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal, onLogs, onMetrics, onRuns, onEvents }) => {
+  const { currentUser, programs, startProgram, stopProgram, runProgramNow, terminateProgram, startScreen, runGroupAction, runBulkAction, getProgramMetrics, limitAlerts, dismissLimitAlerts, configReload, dismissConfigReload } = useStartupManager();
   const { theme } = useTheme();
   const [activeMenu, setActiveMenu] = useState<string | null>(null);
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [bulkMessage, setBulkMessage] = useState<{ text: string, failed: boolean } | null>(null);
+  const [metrics, setMetrics] = useState<Record<string, MetricsSample[]>>({});
+  const runningIds = programs.filter(p => p.status === 'running').map(p => p.id).join(',');
+
+  // Recent usage of the running programs for the sparklines
+  useEffect(() => {
+    if (!runningIds) {
+      setMetrics({});
+      return;
+    }
+    const load = () => {
+      getProgramMetrics(runningIds.split(','), { from: Date.now() - SPARKLINE_RANGE_MS, maxPoints: SPARKLINE_POINTS })
+        .then(setMetrics)
+        .catch(error => console.error('Error loading program metrics:', error));
+    };
+    load();
+    const interval = setInterval(load, METRICS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [getProgramMetrics, runningIds]);
+
+  // Named groups sorted by name, programs without a group last
+  const groups = Array.from(new Set(programs.map(p => p.group || '')))
+    .sort((a, b) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b)))
+    .map(name => ({ name, programs: programs.filter(p => (p.group || '') === name) }));
+  const showGroups = groups.some(group => group.name !== '');
+  // Ignore selected ids of programs that were deleted meanwhile
+  const selectedIds = programs.filter(p => selected.has(p.id)).map(p => p.id);
+
+  // Dependencies of a program that are not running yet, in start order
+  const getUnstartedDependencies = (programId: string) => {
+    const graph: DependencyGraph = new Map(programs.map(p => [p.id, p.dependsOn || []]));
+    return collectDependencies(graph, programId)
+      .map(id => programs.find(p => p.id === id)!)
+      .filter(p => p.status !== 'running');
+  };
 
   const handleAction = async (action: string, programId: string) => {
     try {
       switch (action) {
-        case 'start':
-          await startProgram(programId);
+        case 'start': {
+          const unstarted = getUnstartedDependencies(programId);
+          const withDependencies = unstarted.length > 0 &&
+            window.confirm(`The following dependencies are not running: ${unstarted.map(p => p.name).join(', ')}.\n\nStart them first?`);
+          await startProgram(programId, withDependencies);
           break;
+        }
         case 'stop':
           await stopProgram(programId);
           break;
+        case 'run':
+          await runProgramNow(programId);
+          break;
         case 'terminate':
           await terminateProgram(programId);
           break;
@@ -40,6 +101,157 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
     setActiveMenu(null); // Close menu after action
   };
 
+  const reportResults = (label: string, results: BulkResult[]) => {
+    const failures = results.filter(result => !result.success);
+    if (failures.length > 0) {
+      setBulkMessage({
+        text: `${label}: ${failures.length} of ${results.length} failed - ${failures.map(f => `${f.name}: ${f.error || 'failed'}`).join('; ')}`,
+        failed: true
+      });
+    } else {
+      setBulkMessage({ text: `${label}: ${results.length} program${results.length === 1 ? '' : 's'} done`, failed: false });
+    }
+  };
+
+  const handleGroupAction = async (group: string, action: 'start' | 'stop' | 'restart') => {
+    setIsBulkRunning(true);
+    try {
+      reportResults(`${action} ${group || 'ungrouped'}`, await runGroupAction(group, action));
+    } catch (error) {
+      setBulkMessage({ text: error instanceof Error ? error.message : String(error), failed: true });
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    if (action === 'terminate' && !window.confirm(`Terminate ${selectedIds.length} selected programs?`)) return;
+    setIsBulkRunning(true);
+    try {
+      reportResults(`${action} selected`, await runBulkAction(selectedIds, action));
+    } catch (error) {
+      setBulkMessage({ text: error instanceof Error ? error.message : String(error), failed: true });
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const toggleGroup = (group: string) => {
+    setCollapsedGroups(current => {
+      const next = new Set(current);
+      if (next.has(group)) {
+        next.delete(group);
+      } else {
+        next.add(group);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelected = (ids: string[], checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      ids.forEach(id => checked ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const canOperate = hasRole(currentUser?.role, 'operator');
+  const canControl = (program: ProgramState) => canAccessProgram(currentUser, program.acl, 'control');
+  const canUseTerminal = (program: ProgramState) => canAccessProgram(currentUser, program.acl, 'terminal');
+
+  const renderGroupHeader = (group: { name: string, programs: ProgramState[] }) => {
+    const ids = group.programs.map(p => p.id);
+    const running = group.programs.filter(p => p.status === 'running').length;
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="checkbox"
+          checked={ids.every(id => selected.has(id))}
+          onChange={(e) => toggleSelected(ids, e.target.checked)}
+          title="Select the programs of this group"
+        />
+        <button onClick={() => toggleGroup(group.name)} className="text-sm font-semibold flex items-center" style={{ color: 'var(--foreground)' }}>
+          <span className="inline-block w-4">{collapsedGroups.has(group.name) ? '▸' : '▾'}</span>
+          {group.name || 'Ungrouped'}
+        </button>
+        <span className="text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+          {running}/{group.programs.length} running
+        </span>
+        <div className="flex-1" />
+        {group.programs.some(canControl) && (
+          <>
+            <button
+              onClick={() => handleGroupAction(group.name, 'start')}
+              disabled={isBulkRunning}
+              className="px-2 py-1 rounded text-xs"
+              style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+            >
+              Start all
+            </button>
+            <button
+              onClick={() => handleGroupAction(group.name, 'stop')}
+              disabled={isBulkRunning}
+              className="px-2 py-1 rounded text-xs"
+              style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+            >
+              Stop all
+            </button>
+            <button
+              onClick={() => handleGroupAction(group.name, 'restart')}
+              disabled={isBulkRunning}
+              className="px-2 py-1 rounded text-xs"
+              style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+            >
+              Restart all
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderUsage = (program: ProgramState) => {
+    const samples = metrics[program.id];
+    if (program.status !== 'running' || !samples || samples.length === 0) return 'N/A';
+    const latest = samples[samples.length - 1];
+    return (
+      <button onClick={() => onMetrics(program)} className="text-left" title="Show metrics">
+        <div className="flex items-center gap-2">
+          <Sparkline values={samples.map(s => s.cpu)} color="#3b82f6" max={100} />
+          <span>{latest.cpu.toFixed(1)}%</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Sparkline values={samples.map(s => s.rss)} color="#10b981" />
+          <span>{formatBytes(latest.rss)}</span>
+        </div>
+      </button>
+    );
+  };
+
+  const getLimitText = (limit: string) => {
+    switch (limit) {
+      case 'memory':
+        return 'memory MB';
+      case 'cpu':
+        return 'CPU %';
+      case 'openFiles':
+        return 'open files';
+      default:
+        return limit;
+    }
+  };
+
+  const renderTags = (program: ProgramState) => program.tags && program.tags.length > 0 && (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {program.tags.map(tag => (
+        <span key={tag} className="px-1.5 text-xs rounded" style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}>
+          {tag}
+        </span>
+      ))}
+    </div>
+  );
+
   const toggleMenu = (programId: string) => {
     setActiveMenu(activeMenu === programId ? null : programId);
   };
@@ -52,6 +264,8 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
     switch (status) {
       case 'running':
         return 'bg-green-100 text-green-800';
+      case 'stopping':
+        return 'bg-yellow-100 text-yellow-800';
       case 'stopped':
         return 'bg-gray-100 text-gray-800';
       case 'error':
@@ -61,13 +275,88 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
     }
   };
 
-  const getStatusText = (status: string, screenActive: boolean) => {
+  const getStatusText = (status: string, screenActive: boolean, stopProgress?: StopProgress) => {
     if (status === 'stopped' && screenActive) {
       return 'screen only'; // Special case for screen active but program stopped
     }
+    if (status === 'stopping' && stopProgress && stopProgress.total > 1) {
+      return `stopping (step ${stopProgress.step}/${stopProgress.total})`;
+    }
     return status;
   };
 
+  const getHealthClass = (health: string) => {
+    switch (health) {
+      case 'healthy':
+        return 'bg-green-100 text-green-800';
+      case 'unhealthy':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-blue-100 text-blue-800';
+    }
+  };
+
+  // Describe the automatic restart state, e.g. "retry 2/5 in 8s" or "crash loop"
+  const getRestartText = (program: ProgramState) => {
+    const { restart, restartPolicy } = program;
+    if (!restart || !restartPolicy || restartPolicy.mode === 'never') return null;
+    if (restart.crashLoop) {
+      return `crash loop after ${restart.attempts} retries`;
+    }
+    if (restart.nextAttemptAt) {
+      const seconds = Math.max(0, Math.ceil((restart.nextAttemptAt - Date.now()) / 1000));
+      return `retry ${restart.attempts + 1}/${restart.maxRetries} in ${seconds}s`;
+    }
+    if (restart.attempts > 0) {
+      return `restarted ${restart.attempts}/${restart.maxRetries}`;
+    }
+    return null;
+  };
+
+  // How a program that is not running ended, e.g. "exited with code 1 at 10:42:07"
+  const renderLastExit = (program: ProgramState) => {
+    const exit = program.lastExit;
+    if (!exit || program.status === 'running' || program.status === 'stopping') return null;
+    const how = exit.signal ? `killed by ${exit.signal}` : exit.code !== undefined ? `exited with code ${exit.code}` : 'exited';
+    const failed = !!exit.signal || (exit.code !== undefined && exit.code !== 0);
+    return (
+      <button
+        onClick={() => onEvents(program)}
+        className={`block text-xs mt-1 text-left ${failed ? 'text-red-500' : ''}`}
+        style={{ color: failed ? undefined : 'var(--foreground)', opacity: 0.7 }}
+        title="Show events"
+      >
+        {how} at {new Date(exit.time).toLocaleTimeString()}
+      </button>
+    );
+  };
+
+  // Next scheduled start and the outcome of the last run, e.g. "next run 3:00:00 AM · last run failure (exit 1)"
+  const renderSchedule = (program: ProgramState) => {
+    const parts: string[] = [];
+    if (program.nextRunAt) {
+      const sameDay = new Date(program.nextRunAt).toDateString() === new Date().toDateString();
+      parts.push(`next run ${sameDay ? new Date(program.nextRunAt).toLocaleTimeString() : new Date(program.nextRunAt).toLocaleString()}`);
+    } else if (program.schedule?.enabled === false) {
+      parts.push('schedule disabled');
+    }
+    const lastRun = program.lastRun;
+    if ((program.schedule || program.runOnce) && lastRun && lastRun.result !== 'running') {
+      parts.push(`last run ${lastRun.result}${lastRun.exitCode !== undefined ? ` (exit ${lastRun.exitCode})` : ''}`);
+    }
+    if (parts.length === 0) return null;
+    return (
+      <button
+        onClick={() => onRuns(program)}
+        className={`block text-xs mt-1 text-left ${lastRun?.result === 'failure' ? 'text-red-500' : ''}`}
+        style={{ color: lastRun?.result === 'failure' ? undefined : 'var(--foreground)', opacity: 0.7 }}
+        title="Show run history"
+      >
+        {parts.join(' · ')}
+      </button>
+    );
+  };
+
   return (
     <div className="overflow-hidden shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
       <div className="px-4 py-5 sm:px-6">
@@ -77,6 +366,79 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
         </p>
       </div>
       
+      {selectedIds.length > 0 && (
+        <div className="px-4 py-2 flex flex-wrap items-center gap-2 border-t" style={{ borderColor: 'var(--border-color)', background: 'var(--header-bg)' }}>
+          <span className="text-sm" style={{ color: 'var(--foreground)' }}>{selectedIds.length} selected</span>
+          {canOperate && (
+            <>
+              <button
+                onClick={() => handleBulkAction('start')}
+                disabled={isBulkRunning}
+                className="px-2 py-1 rounded text-xs"
+                style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+              >
+                Start
+              </button>
+              <button
+                onClick={() => handleBulkAction('stop')}
+                disabled={isBulkRunning}
+                className="px-2 py-1 rounded text-xs"
+                style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+              >
+                Stop
+              </button>
+              <button
+                onClick={() => handleBulkAction('terminate')}
+                disabled={isBulkRunning}
+                className="px-2 py-1 rounded text-xs bg-red-100 text-red-800"
+              >
+                Terminate
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setSelected(new Set())}
+            className="px-2 py-1 rounded text-xs"
+            style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+      
+      {limitAlerts.length > 0 && (
+        <div className="mx-4 mb-2 p-2 text-sm rounded-lg text-red-700 bg-red-100">
+          <div className="flex justify-between">
+            <span className="font-medium">Resource limits exceeded</span>
+            <button onClick={dismissLimitAlerts} className="ml-2">×</button>
+          </div>
+          {limitAlerts.map((alert, index) => (
+            <div key={index}>
+              {new Date(alert.time).toLocaleTimeString()} {alert.programName}: {getLimitText(alert.limit)} {alert.value} &gt; {alert.max}{alert.action !== 'warn' ? ` (${alert.action})` : ''}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {configReload && (
+        <div className={`mx-4 mb-2 p-2 text-sm rounded-lg flex justify-between ${configReload.error ? 'text-red-700 bg-red-100' : 'text-green-800 bg-green-100'}`}>
+          <span>
+            {new Date(configReload.time).toLocaleTimeString()}{' '}
+            {configReload.error
+              ? `The changed config file was not applied: ${configReload.error}`
+              : `${configReload.reason || 'Config file applied'} (${configReload.actor}): ${summarizeDiff(configReload.diff!)}`}
+          </span>
+          <button onClick={dismissConfigReload} className="ml-2">×</button>
+        </div>
+      )}
+      
+      {bulkMessage && (
+        <div className={`mx-4 mb-2 p-2 text-sm rounded-lg flex justify-between ${bulkMessage.failed ? 'text-red-700 bg-red-100' : 'text-green-800 bg-green-100'}`}>
+          <span>{bulkMessage.text}</span>
+          <button onClick={() => setBulkMessage(null)} className="ml-2">×</button>
+        </div>
+      )}
+      
       {programs.length === 0 ? (
         <div className="p-6 text-center" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
           No programs found. Click 'Add Program' to get started.
@@ -88,90 +450,148 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
             <table className="min-w-full divide-y" style={{ borderColor: 'var(--border-color)' }}>
               <thead style={{ background: 'var(--header-bg)' }}>
                 <tr>
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.length === programs.length}
+                      onChange={(e) => toggleSelected(programs.map(p => p.id), e.target.checked)}
+                      title="Select all programs"
+                    />
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>Name</th>
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>Screen</th>
                   <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>PID</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>Usage</th>
                   <th className="px-6 py-3 text-right text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y" style={{ background: 'var(--card-bg)', borderColor: 'var(--border-color)' }}>
-                {programs.map((program) => (
-                  <tr key={program.id}>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm font-medium" style={{ color: 'var(--foreground)' }}>{program.name}</div>
-                      <div className="text-xs truncate max-w-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>{program.command}</div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(program.status, program.screenActive)}`}>
-                        {getStatusText(program.status, program.screenActive)}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                      {program.screenName || 'N/A'}
-                      {program.screenActive && <span className="ml-1 text-green-500">(active)</span>}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                      {program.pid || 'N/A'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                      <button
-                        onClick={() => handleAction('start', program.id)}
-                        className="px-2 py-1 rounded inline-flex items-center"
-                        style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
-                        disabled={program.status === 'running'}
-                      >
-                        <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-                        </svg>
-                        Start
-                      </button>
-                      <button
-                        onClick={() => handleAction('stop', program.id)}
-                        className="px-2 py-1 rounded inline-flex items-center"
-                        style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
-                        disabled={program.status !== 'running'}
-                      >
-                        <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
-                        </svg>
-                        Stop
-                      </button>
-                      <button
-                        onClick={() => onTerminal(program)}
-                        className="px-2 py-1 rounded inline-flex items-center"
-                        style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
-                        disabled={!program.screenActive}
-                      >
-                        <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M3 5a2 2 0 012-2h10a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V5zm11 1H6v8l4-2 4 2V6z" clipRule="evenodd" />
-                        </svg>
-                        Terminal
-                      </button>
-                      <div className="relative inline-block text-left">
-                        <button
-                          id={`dropdown-anchor-${program.id}`}
-                          onClick={() => toggleMenu(program.id)}
-                          className="px-2 py-1 rounded inline-flex items-center"
-                          style={{ color: 'var(--btn-more-text)', background: 'var(--btn-more-bg)' }}
-                        >
-                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                          </svg>
-                        </button>
-                        {activeMenu === program.id && (
-                          <DarkModeDropdown
-                            program={program}
-                            onClose={() => setActiveMenu(null)}
-                            onEdit={onEdit}
-                            onAction={handleAction}
-                            visible={true}
-                            anchorId={`dropdown-anchor-${program.id}`}
+                {groups.map((group) => (
+                  <React.Fragment key={group.name}>
+                    {showGroups && (
+                      <tr style={{ background: 'var(--header-bg)' }}>
+                        <td colSpan={7} className="px-6 py-2">
+                          {renderGroupHeader(group)}
+                        </td>
+                      </tr>
+                    )}
+                    {!collapsedGroups.has(group.name) && group.programs.map((program) => (
+                      <tr key={program.id}>
+                        <td className="pl-6 py-4 w-4">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(program.id)}
+                            onChange={(e) => toggleSelected([program.id], e.target.checked)}
                           />
-                        )}
-                      </div>
-                    </td>
-                  </tr>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium" style={{ color: 'var(--foreground)' }}>{program.name}</div>
+                          <div className="text-xs truncate max-w-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>{program.command}</div>
+                          {renderTags(program)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(program.status, program.screenActive)}`}>
+                            {getStatusText(program.status, program.screenActive, program.stopProgress)}
+                          </span>
+                          {program.health && (
+                            <span className={`ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getHealthClass(program.health)}`}>
+                              {program.health}
+                            </span>
+                          )}
+                          {program.limitsExceeded && program.limitsExceeded.length > 0 && (
+                            <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                              over {program.limitsExceeded.map(getLimitText).join(', ')}
+                            </span>
+                          )}
+                          {getRestartText(program) && (
+                            <div className={`text-xs mt-1 ${program.restart.crashLoop ? 'text-red-500' : ''}`} style={{ color: program.restart.crashLoop ? undefined : 'var(--foreground)', opacity: 0.7 }}>
+                              {getRestartText(program)}
+                            </div>
+                          )}
+                          {renderLastExit(program)}
+                          {renderSchedule(program)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                          {program.runtime === 'pty' ? 'pty' : program.screenName || 'N/A'}
+                          {program.screenActive && <span className="ml-1 text-green-500">(active)</span>}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                          {program.pid || 'N/A'}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                          {renderUsage(program)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                          {canControl(program) && (
+                            <>
+                              <button
+                                onClick={() => handleAction('start', program.id)}
+                                className="px-2 py-1 rounded inline-flex items-center"
+                                style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+                                disabled={program.status === 'running'}
+                              >
+                                <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                                </svg>
+                                Start
+                              </button>
+                              <button
+                                onClick={() => handleAction('stop', program.id)}
+                                className="px-2 py-1 rounded inline-flex items-center"
+                                style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                                disabled={program.status !== 'running'}
+                              >
+                                <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+                                </svg>
+                                Stop
+                              </button>
+                            </>
+                          )}
+                          {canUseTerminal(program) && (
+                            <button
+                              onClick={() => onTerminal(program)}
+                              className="px-2 py-1 rounded inline-flex items-center"
+                              style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
+                              disabled={!program.screenActive}
+                            >
+                              <svg className="w-4 h-4 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                <path fillRule="evenodd" d="M3 5a2 2 0 012-2h10a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V5zm11 1H6v8l4-2 4 2V6z" clipRule="evenodd" />
+                              </svg>
+                              Terminal
+                            </button>
+                          )}
+                          <div className="relative inline-block text-left">
+                            <button
+                              id={`dropdown-anchor-${program.id}`}
+                              onClick={() => toggleMenu(program.id)}
+                              className="px-2 py-1 rounded inline-flex items-center"
+                              style={{ color: 'var(--btn-more-text)', background: 'var(--btn-more-bg)' }}
+                            >
+                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                              </svg>
+                            </button>
+                            {activeMenu === program.id && (
+                              <DarkModeDropdown
+                                program={program}
+                                onClose={() => setActiveMenu(null)}
+                                onEdit={onEdit}
+                                onLogs={onLogs}
+                                onMetrics={onMetrics}
+                                onRuns={onRuns}
+                                onEvents={onEvents}
+                                onAction={handleAction}
+                                visible={true}
+                                anchorId={`dropdown-anchor-${program.id}`}
+                              />
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -180,89 +600,141 @@ export const ProgramList: React.FC<ProgramListProps> = ({ onEdit, onTerminal })
           {/* Mobile view - Cards */}
           <div className="md:hidden">
             <ul className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
-              {programs.map((program) => (
-                <li key={program.id} className="py-4 px-4" style={{ background: 'var(--card-bg)' }}>
-                  <div className="flex flex-col space-y-3">
-                    <div className="flex justify-between items-start">
-                      <div>
-                        <h3 className="text-sm font-medium" style={{ color: 'var(--foreground)' }}>{program.name}</h3>
-                        <p className="text-xs truncate max-w-[200px]" style={{ color: 'var(--foreground)', opacity: 0.7 }}>{program.command}</p>
-                      </div>
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(program.status, program.screenActive)}`}>
-                        {getStatusText(program.status, program.screenActive)}
-                      </span>
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-2 text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
-                      <div>
-                        <span className="font-medium">Screen:</span> {program.screenName || 'N/A'}
-                        {program.screenActive && <span className="ml-1 text-green-500">(active)</span>}
-                      </div>
-                      <div>
-                        <span className="font-medium">PID:</span> {program.pid || 'N/A'}
-                      </div>
-                    </div>
-                    
-                    <div className="flex flex-wrap gap-2 mt-2">
-                      <button
-                        onClick={() => handleAction('start', program.id)}
-                        className="px-2 py-1 rounded inline-flex items-center text-xs"
-                        style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
-                        disabled={program.status === 'running'}
-                      >
-                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
-                        </svg>
-                        Start
-                      </button>
-                      <button
-                        onClick={() => handleAction('stop', program.id)}
-                        className="px-2 py-1 rounded inline-flex items-center text-xs"
-                        style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
-                        disabled={program.status !== 'running'}
-                      >
-                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
-                        </svg>
-                        Stop
-                      </button>
-                      <button
-                        onClick={() => onTerminal(program)}
-                        className="px-2 py-1 rounded inline-flex items-center text-xs"
-                        style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
-                        disabled={!program.screenActive}
-                      >
-                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path fillRule="evenodd" d="M3 5a2 2 0 012-2h10a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V5zm11 1H6v8l4-2 4 2V6z" clipRule="evenodd" />
-                        </svg>
-                        Terminal
-                      </button>
-                      <div className="relative inline-block text-left">
-                        <button
-                          id={`dropdown-anchor-mobile-${program.id}`}
-                          onClick={() => toggleMenu(program.id)}
-                          className="px-2 py-1 rounded inline-flex items-center text-xs"
-                          style={{ color: 'var(--btn-more-text)', background: 'var(--btn-more-bg)' }}
-                        >
-                          <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
-                          </svg>
-                          More
-                        </button>
-                        {activeMenu === program.id && (
-                          <DarkModeDropdown
-                            program={program}
-                            onClose={() => setActiveMenu(null)}
-                            onEdit={onEdit}
-                            onAction={handleAction}
-                            visible={true}
-                            anchorId={`dropdown-anchor-mobile-${program.id}`}
-                          />
-                        )}
+              {groups.map((group) => (
+                <React.Fragment key={group.name}>
+                  {showGroups && (
+                    <li className="py-2 px-4" style={{ background: 'var(--header-bg)' }}>
+                      {renderGroupHeader(group)}
+                    </li>
+                  )}
+                  {!collapsedGroups.has(group.name) && group.programs.map((program) => (
+                    <li key={program.id} className="py-4 px-4" style={{ background: 'var(--card-bg)' }}>
+                      <div className="flex flex-col space-y-3">
+                        <div className="flex justify-between items-start">
+                          <div className="flex items-start gap-2">
+                            <input
+                              type="checkbox"
+                              className="mt-1"
+                              checked={selected.has(program.id)}
+                              onChange={(e) => toggleSelected([program.id], e.target.checked)}
+                            />
+                            <div>
+                              <h3 className="text-sm font-medium" style={{ color: 'var(--foreground)' }}>{program.name}</h3>
+                              <p className="text-xs truncate max-w-[200px]" style={{ color: 'var(--foreground)', opacity: 0.7 }}>{program.command}</p>
+                              {renderTags(program)}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusClass(program.status, program.screenActive)}`}>
+                              {getStatusText(program.status, program.screenActive, program.stopProgress)}
+                            </span>
+                            {program.health && (
+                              <span className={`ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getHealthClass(program.health)}`}>
+                                {program.health}
+                              </span>
+                            )}
+                            {program.limitsExceeded && program.limitsExceeded.length > 0 && (
+                              <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                                over {program.limitsExceeded.map(getLimitText).join(', ')}
+                              </span>
+                            )}
+                            {getRestartText(program) && (
+                              <div className={`text-xs mt-1 ${program.restart.crashLoop ? 'text-red-500' : ''}`} style={{ color: program.restart.crashLoop ? undefined : 'var(--foreground)', opacity: 0.7 }}>
+                                {getRestartText(program)}
+                              </div>
+                            )}
+                            {renderLastExit(program)}
+                            {renderSchedule(program)}
+                          </div>
+                        </div>
+                        
+                        <div className="grid grid-cols-2 gap-2 text-xs" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                          <div>
+                            <span className="font-medium">Screen:</span> {program.runtime === 'pty' ? 'pty' : program.screenName || 'N/A'}
+                            {program.screenActive && <span className="ml-1 text-green-500">(active)</span>}
+                          </div>
+                          <div>
+                            <span className="font-medium">PID:</span> {program.pid || 'N/A'}
+                          </div>
+                          {program.status === 'running' && metrics[program.id]?.length > 0 && (
+                            <div className="col-span-2">
+                              {renderUsage(program)}
+                            </div>
+                          )}
+                        </div>
+                        
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {canControl(program) && (
+                            <>
+                              <button
+                                onClick={() => handleAction('start', program.id)}
+                                className="px-2 py-1 rounded inline-flex items-center text-xs"
+                                style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+                                disabled={program.status === 'running'}
+                              >
+                                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" />
+                                </svg>
+                                Start
+                              </button>
+                              <button
+                                onClick={() => handleAction('stop', program.id)}
+                                className="px-2 py-1 rounded inline-flex items-center text-xs"
+                                style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                                disabled={program.status !== 'running'}
+                              >
+                                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8 7a1 1 0 00-1 1v4a1 1 0 001 1h4a1 1 0 001-1V8a1 1 0 00-1-1H8z" clipRule="evenodd" />
+                                </svg>
+                                Stop
+                              </button>
+                            </>
+                          )}
+                          {canUseTerminal(program) && (
+                            <button
+                              onClick={() => onTerminal(program)}
+                              className="px-2 py-1 rounded inline-flex items-center text-xs"
+                              style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
+                              disabled={!program.screenActive}
+                            >
+                              <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                <path fillRule="evenodd" d="M3 5a2 2 0 012-2h10a2 2 0 012 2v10a2 2 0 01-2 2H5a2 2 0 01-2-2V5zm11 1H6v8l4-2 4 2V6z" clipRule="evenodd" />
+                              </svg>
+                              Terminal
+                            </button>
+                          )}
+                          <div className="relative inline-block text-left">
+                            <button
+                              id={`dropdown-anchor-mobile-${program.id}`}
+                              onClick={() => toggleMenu(program.id)}
+                              className="px-2 py-1 rounded inline-flex items-center text-xs"
+                              style={{ color: 'var(--btn-more-text)', background: 'var(--btn-more-bg)' }}
+                            >
+                              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M10 6a2 2 0 110-4 2 2 0 010 4zM10 12a2 2 0 110-4 2 2 0 010 4zM10 18a2 2 0 110-4 2 2 0 010 4z" />
+                              </svg>
+                              More
+                            </button>
+                            {activeMenu === program.id && (
+                              <DarkModeDropdown
+                                program={program}
+                                onClose={() => setActiveMenu(null)}
+                                onEdit={onEdit}
+                                onLogs={onLogs}
+                                onMetrics={onMetrics}
+                                onRuns={onRuns}
+                                onEvents={onEvents}
+                                onAction={handleAction}
+                                visible={true}
+                                anchorId={`dropdown-anchor-mobile-${program.id}`}
+                              />
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-                </li>
+                    </li>
+                  ))}
+                </React.Fragment>
               ))}
             </ul>
           </div>
@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useStartupManager } from '@/lib/StartupManagerContext';
+import type { RunRecord, RunResult } from '@/lib/RunHistory';
+import { formatUptime } from './MetricsView';
+import { canAccessProgram } from '@/lib/permissions';
+
+interface RunHistoryViewProps {
+  programId: string;
+}
+
+const MAX_RUNS = 100;
+
+export const getRunResultClass = (result: RunResult) => {
+  switch (result) {
+    case 'running':
+      return 'bg-green-100 text-green-800';
+    case 'success':
+      return 'bg-blue-100 text-blue-800';
+    case 'failure':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export const RunHistoryView: React.FC<RunHistoryViewProps> = ({ programId }) => {
+  const { currentUser, programs, getRunHistory, runProgramNow } = useStartupManager();
+  const program = programs.find(p => p.id === programId);
+  const [runs, setRuns] = useState<RunRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever a run starts or ends
+  const lastRunKey = program?.lastRun ? `${program.lastRun.startedAt}:${program.lastRun.result}` : '';
+  useEffect(() => {
+    getRunHistory(programId, MAX_RUNS)
+      .then(result => {
+        setRuns(result);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load run history'));
+  }, [getRunHistory, programId, lastRunKey]);
+
+  const handleRunNow = async () => {
+    try {
+      await runProgramNow(programId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the program');
+    }
+  };
+
+  const cellStyle = { color: 'var(--foreground)' };
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 flex flex-wrap items-center gap-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6 mr-2" style={{ color: 'var(--foreground)' }}>
+          {program?.name || 'Program'} runs
+        </h3>
+        {program?.schedule && (
+          <span className="text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+            {program.schedule.cron}{program.schedule.timezone ? ` (${program.schedule.timezone})` : ''}
+            {program.schedule.enabled === false ? ' · disabled' : ''}
+            {program.nextRunAt ? ` · next run ${new Date(program.nextRunAt).toLocaleString()}` : ''}
+          </span>
+        )}
+        <div className="flex-1" />
+        {canAccessProgram(currentUser, program?.acl, 'control') && (
+          <button
+            onClick={handleRunNow}
+            className="px-3 py-1 rounded text-sm"
+            style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+            disabled={program?.status === 'running'}
+          >
+            Run now
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {runs.length === 0 ? (
+        <div className="p-4 text-sm" style={{ color: 'var(--foreground)', opacity: 0.7 }}>No runs recorded yet</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead style={{ background: 'var(--header-bg)' }}>
+              <tr>
+                {['Started', 'Ended', 'Duration', 'Exit code', 'Trigger', 'Result'].map(title => (
+                  <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                    {title}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+              {runs.map(run => (
+                <tr key={run.startedAt}>
+                  <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(run.startedAt).toLocaleString()}</td>
+                  <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{run.endedAt ? new Date(run.endedAt).toLocaleString() : '-'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                    {run.durationMs !== undefined ? formatUptime(Math.round(run.durationMs / 1000)) : '-'}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{run.exitCode ?? '-'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{run.trigger}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getRunResultClass(run.result)}`}>
+                      {run.result}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
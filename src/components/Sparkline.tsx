@@ -0,0 +1,31 @@
+"use client";
+
+import React from 'react';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+  max?: number; // fixed upper bound, defaults to the largest value
+}
+
+// Minimal line chart without axes for table cells
+export const Sparkline: React.FC<SparklineProps> = ({ values, width = 80, height = 20, color = '#3b82f6', max }) => {
+  if (values.length < 2) {
+    return <svg width={width} height={height} />;
+  }
+
+  const top = Math.max(max ?? 0, ...values) || 1;
+  const points = values.map((value, i) => {
+    const x = (i / (values.length - 1)) * width;
+    const y = height - 1 - (value / top) * (height - 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg width={width} height={height} className="inline-block align-middle">
+      <polyline points={points.join(' ')} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+};
@@ -9,9 +9,19 @@ import { ThemeToggle } from './ThemeToggle';
 import { ProgramList } from './ProgramList';
 import { ProgramForm } from './ProgramForm';
 import { Terminal } from './Terminal';
+import { LogViewer } from './LogViewer';
+import { MetricsView } from './MetricsView';
+import { RunHistoryView } from './RunHistoryView';
+import { EventTimeline } from './EventTimeline';
+import { UserManagement } from './UserManagement';
+import { AuditLogView } from './AuditLogView';
+import { AccountSettings } from './AccountSettings';
+import { NotificationSettings } from './NotificationSettings';
+import { ConfigView } from './ConfigView';
+import { hasRole } from '@/lib/permissions';
 
 export const TabsContainer: React.FC = () => {
-  const { terminalManager, tabsManager } = useStartupManager();
+  const { terminalManager, tabsManager, stopAllPrograms, currentUser, logout } = useStartupManager();
   const { theme } = useTheme();
   const [tabs, setTabs] = useState<TabInstance[]>([]);
   const [activeTabId, setActiveTabId] = useState<string | null>(null);
@@ -63,16 +73,163 @@ export const TabsContainer: React.FC = () => {
     });
   };
 
+  // Open the audit log tab, reusing it if it is open
+  const handleOpenAudit = () => {
+    const existing = tabs.find(tab => tab.type === 'audit');
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `audit-${Date.now()}`,
+      type: 'audit',
+      title: 'Audit Log',
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the notification settings tab, reusing it if it is open
+  const handleOpenNotifications = () => {
+    const existing = tabs.find(tab => tab.type === 'notifications');
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `notifications-${Date.now()}`,
+      type: 'notifications',
+      title: 'Notifications',
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the config file tab, reusing it if it is open
+  const handleOpenConfig = () => {
+    const existing = tabs.find(tab => tab.type === 'config');
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `config-${Date.now()}`,
+      type: 'config',
+      title: 'Configuration',
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the signed-in user's account tab, reusing it if it is open
+  const handleOpenAccount = () => {
+    const existing = tabs.find(tab => tab.type === 'account');
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `account-${Date.now()}`,
+      type: 'account',
+      title: 'Account',
+      closable: true,
+      active: true,
+    });
+  };
+
   // Only request the terminal from the server; tab creation is handled elsewhere (e.g., listener/effect)
   const handleOpenTerminal = async (program: ProgramState) => {
-    if (!program.screenName) return;
     try {
-      await terminalManager.createTerminalOnServer(program.screenName);
+      await terminalManager.createProgramTerminalOnServer(program.id, program.screenName || program.name);
     } catch (err) {
       console.error('Failed to open terminal for program:', err);
     }
   };
 
+  // Open the logs of a program, reusing its logs tab if one is open
+  const handleOpenLogs = (program: ProgramState) => {
+    const existing = tabs.find(tab => tab.type === 'logs' && tab.programId === program.id);
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `logs-${program.id}-${Date.now()}`,
+      type: 'logs',
+      programId: program.id,
+      title: `Logs: ${program.name}`,
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the resource usage charts of a program, reusing its metrics tab if one is open
+  const handleOpenMetrics = (program: ProgramState) => {
+    const existing = tabs.find(tab => tab.type === 'metrics' && tab.programId === program.id);
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `metrics-${program.id}-${Date.now()}`,
+      type: 'metrics',
+      programId: program.id,
+      title: `Metrics: ${program.name}`,
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the run history of a program, reusing its runs tab if one is open
+  const handleOpenRuns = (program: ProgramState) => {
+    const existing = tabs.find(tab => tab.type === 'runs' && tab.programId === program.id);
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `runs-${program.id}-${Date.now()}`,
+      type: 'runs',
+      programId: program.id,
+      title: `Runs: ${program.name}`,
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the lifecycle event timeline of a program, reusing its events tab if one is open
+  const handleOpenEvents = (program: ProgramState) => {
+    const existing = tabs.find(tab => tab.type === 'events' && tab.programId === program.id);
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `events-${program.id}-${Date.now()}`,
+      type: 'events',
+      programId: program.id,
+      title: `Events: ${program.name}`,
+      closable: true,
+      active: true,
+    });
+  };
+
+  // Open the user management tab, reusing it if it is open
+  const handleOpenUsers = () => {
+    const existing = tabs.find(tab => tab.type === 'users');
+    if (existing) {
+      tabsManager.setActiveTab(existing.id);
+      return;
+    }
+    tabsManager.addTab({
+      id: `users-${Date.now()}`,
+      type: 'users',
+      title: 'Users',
+      closable: true,
+      active: true,
+    });
+  };
+
   // Only request the terminal from the server; tab creation is handled elsewhere (e.g., listener/effect)
   const handleOpenTerminalTab = async () => {
     try {
@@ -84,6 +241,16 @@ export const TabsContainer: React.FC = () => {
     }
   };
 
+  // Stop every running program, dependents before their dependencies
+  const handleStopAll = async () => {
+    if (!window.confirm('Stop all running programs?')) return;
+    try {
+      await stopAllPrograms();
+    } catch (err) {
+      console.error('Failed to stop all programs:', err);
+    }
+  };
+
   // Handle closing a tab
   const handleCloseTab = async (id: string) => {
     // Get the tab before closing it
@@ -145,24 +312,71 @@ export const TabsContainer: React.FC = () => {
       return (
         <div>
           <div className="mb-4 flex justify-end space-x-4">
-            <button
-              onClick={handleOpenTerminalTab}
-              className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
-              style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
-            >
-              Open Terminal
-            </button>
-            <button
-              onClick={handleAddProgram}
-              className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
-              style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
-            >
-              Add Program
-            </button>
+            {hasRole(currentUser?.role, 'admin') && (
+              <>
+                <button
+                  onClick={handleOpenUsers}
+                  className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                >
+                  Users
+                </button>
+                <button
+                  onClick={handleOpenAudit}
+                  className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                >
+                  Audit Log
+                </button>
+                <button
+                  onClick={handleOpenNotifications}
+                  className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                >
+                  Notifications
+                </button>
+                <button
+                  onClick={handleOpenConfig}
+                  className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                >
+                  Configuration
+                </button>
+                <button
+                  onClick={handleOpenTerminalTab}
+                  className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{ background: 'var(--btn-terminal-bg)', color: 'var(--btn-terminal-text)' }}
+                >
+                  Open Terminal
+                </button>
+              </>
+            )}
+            {hasRole(currentUser?.role, 'operator') && (
+              <button
+                onClick={handleStopAll}
+                className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+              >
+                Stop All
+              </button>
+            )}
+            {hasRole(currentUser?.role, 'admin') && (
+              <button
+                onClick={handleAddProgram}
+                className="px-4 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+              >
+                Add Program
+              </button>
+            )}
           </div>
           <ProgramList
             onEdit={handleEditProgram}
             onTerminal={handleOpenTerminal}
+            onLogs={handleOpenLogs}
+            onMetrics={handleOpenMetrics}
+            onRuns={handleOpenRuns}
+            onEvents={handleOpenEvents}
           />
         </div>
       );
@@ -189,6 +403,42 @@ export const TabsContainer: React.FC = () => {
       );
     }
 
+    if (tab.type === 'logs') {
+      return <LogViewer key={tab.id} programId={tab.programId} />;
+    }
+
+    if (tab.type === 'metrics') {
+      return <MetricsView key={tab.id} programId={tab.programId} />;
+    }
+
+    if (tab.type === 'runs') {
+      return <RunHistoryView key={tab.id} programId={tab.programId} />;
+    }
+
+    if (tab.type === 'events') {
+      return <EventTimeline key={tab.id} programId={tab.programId} />;
+    }
+
+    if (tab.type === 'users') {
+      return <UserManagement key={tab.id} />;
+    }
+
+    if (tab.type === 'audit') {
+      return <AuditLogView key={tab.id} />;
+    }
+
+    if (tab.type === 'account') {
+      return <AccountSettings key={tab.id} />;
+    }
+
+    if (tab.type === 'notifications') {
+      return <NotificationSettings key={tab.id} />;
+    }
+
+    if (tab.type === 'config') {
+      return <ConfigView key={tab.id} />;
+    }
+
     return <div>Unknown tab type</div>;
   };
 
@@ -260,7 +510,24 @@ export const TabsContainer: React.FC = () => {
           </div>
         ))}
       </div>
-      <div className="p-2 mr-2">
+      <div className="p-2 mr-2 flex items-center space-x-2 whitespace-nowrap">
+        {currentUser && (
+          <button
+            onClick={handleOpenAccount}
+            className="text-sm hover:underline"
+            style={{ color: 'var(--foreground)', opacity: 0.7 }}
+            title={`Signed in as ${currentUser.role}; open account settings`}
+          >
+            {currentUser.username}
+          </button>
+        )}
+        <button
+          onClick={() => logout()}
+          className="px-2 py-1 text-sm rounded"
+          style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+        >
+          Logout
+        </button>
         <ThemeToggle />
       </div>
     </div>
@@ -0,0 +1,274 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useStartupManager, SessionInfo } from '@/lib/StartupManagerContext';
+import type { UserInfo } from '@/lib/UserStore';
+import { ROLES, Role } from '@/lib/permissions';
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  viewer: 'Can see programs, logs, metrics and history',
+  operator: 'Can also start, stop and kill programs and use terminals',
+  admin: 'Can also add and edit any program and manage users',
+};
+
+export const UserManagement: React.FC = () => {
+  const { currentUser, listUsers, addUser, removeUser, resetUserPassword, setUserRole, setUserGroups, resetUserTotp, listSessions, revokeSession } = useStartupManager();
+  const [users, setUsers] = useState<UserInfo[]>([]);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  // Group fields being edited, by user name
+  const [groupDrafts, setGroupDrafts] = useState<Record<string, string>>({});
+  const [newUser, setNewUser] = useState<{ username: string, password: string, role: Role }>({ username: '', password: '', role: 'viewer' });
+
+  const load = useCallback(async () => {
+    try {
+      setUsers(await listUsers());
+      setSessions(await listSessions());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    }
+  }, [listUsers, listSessions]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Runs a change, then shows its outcome and reloads the list
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      setMessage(success);
+      setError(null);
+    } catch (err) {
+      setMessage(null);
+      setError(err instanceof Error ? err.message : 'Request failed');
+    }
+    await load();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { username, password, role } = newUser;
+    await run(() => addUser(username, password, role), `Added ${username}`);
+    setNewUser({ username: '', password: '', role: 'viewer' });
+  };
+
+  const handleReset = (username: string) => {
+    const password = prompt(`New password for ${username}`);
+    if (!password) return;
+    run(() => resetUserPassword(username, password), `Password of ${username} reset; their other sessions were signed out`);
+  };
+
+  const handleGroupsSave = (user: UserInfo) => {
+    const draft = groupDrafts[user.username];
+    if (draft === undefined || draft === (user.groups || []).join(', ')) return;
+    const groups = draft.split(',').map(group => group.trim()).filter(Boolean);
+    run(() => setUserGroups(user.username, groups), `Groups of ${user.username} saved`);
+    setGroupDrafts(drafts => {
+      const rest = { ...drafts };
+      delete rest[user.username];
+      return rest;
+    });
+  };
+
+  const handleResetTotp = (username: string) => {
+    if (!confirm(`Turn off two-factor authentication for ${username}? They can sign in with their password alone until they set it up again.`)) return;
+    run(() => resetUserTotp(username), `Two-factor authentication of ${username} turned off`);
+  };
+
+  const handleRevoke = (session: SessionInfo) => {
+    if (session.current && !confirm('Revoke your own session? You will be signed out.')) return;
+    run(() => revokeSession(session.id), `Session of ${session.username} revoked`);
+  };
+
+  const handleRemove = (username: string) => {
+    if (!confirm(`Remove user ${username}? Their open sessions are signed out.`)) return;
+    run(() => removeUser(username), `Removed ${username}`);
+  };
+
+  const inputStyle = { background: 'var(--input-bg)', color: 'var(--foreground)', borderColor: 'var(--input-border)' };
+  const cellStyle = { color: 'var(--foreground)' };
+
+  return (
+    <div className="shadow sm:rounded-lg" style={{ background: 'var(--card-bg)' }}>
+      <div className="px-4 py-3 border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6" style={{ color: 'var(--foreground)' }}>Users</h3>
+      </div>
+
+      {error && (
+        <div className="m-4 p-4 text-sm text-red-700 bg-red-100 rounded-lg">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="m-4 p-4 text-sm text-green-700 bg-green-100 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead style={{ background: 'var(--header-bg)' }}>
+            <tr>
+              {['User', 'Role', 'Groups', 'Two-factor', 'Created', ''].map(title => (
+                <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+            {users.map(user => (
+              <tr key={user.username}>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                  {user.username}
+                  {user.username === currentUser?.username && <span style={{ opacity: 0.7 }}> (you)</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <select
+                    value={user.role}
+                    onChange={(e) => run(() => setUserRole(user.username, e.target.value as Role), `${user.username} is now ${e.target.value}`)}
+                    className="border rounded-md py-1 px-2 text-sm"
+                    style={inputStyle}
+                    title={ROLE_DESCRIPTIONS[user.role]}
+                  >
+                    {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                  </select>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  <input
+                    value={groupDrafts[user.username] ?? (user.groups || []).join(', ')}
+                    onChange={(e) => setGroupDrafts({ ...groupDrafts, [user.username]: e.target.value })}
+                    onBlur={() => handleGroupsSave(user)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleGroupsSave(user)}
+                    className="border rounded-md py-1 px-2 text-sm"
+                    style={inputStyle}
+                    placeholder="e.g. backend, ops"
+                    title="Programs grant access to a group as @group"
+                  />
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                  {user.totpEnabled ? (
+                    <>
+                      on
+                      <button onClick={() => handleResetTotp(user.username)} className="ml-2 text-xs underline" style={{ opacity: 0.7 }}>
+                        reset
+                      </button>
+                    </>
+                  ) : 'off'}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(user.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right space-x-2">
+                  <button
+                    onClick={() => handleReset(user.username)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-more-bg)', color: 'var(--btn-more-text)' }}
+                  >
+                    Reset password
+                  </button>
+                  <button
+                    onClick={() => handleRemove(user.username)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleAdd} className="p-4 flex flex-wrap items-end gap-3 border-t" style={{ borderColor: 'var(--border-color)' }}>
+        <label className="text-sm" style={cellStyle}>
+          <span className="block mb-1">Username</span>
+          <input
+            value={newUser.username}
+            onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+            className="border rounded-md py-1 px-2"
+            style={inputStyle}
+            autoComplete="off"
+            required
+          />
+        </label>
+        <label className="text-sm" style={cellStyle}>
+          <span className="block mb-1">Password</span>
+          <input
+            type="password"
+            value={newUser.password}
+            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            className="border rounded-md py-1 px-2"
+            style={inputStyle}
+            autoComplete="new-password"
+            required
+          />
+        </label>
+        <label className="text-sm" style={cellStyle}>
+          <span className="block mb-1">Role</span>
+          <select
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as Role })}
+            className="border rounded-md py-1 px-2"
+            style={inputStyle}
+          >
+            {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+          </select>
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-1.5 rounded-md"
+          style={{ background: 'var(--btn-start-bg)', color: 'var(--btn-start-text)' }}
+        >
+          Add user
+        </button>
+        <span className="text-xs w-full" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+          {ROLE_DESCRIPTIONS[newUser.role]}
+        </span>
+      </form>
+
+      <div className="px-4 py-3 border-t border-b" style={{ borderColor: 'var(--border-color)' }}>
+        <h3 className="text-lg font-medium leading-6" style={{ color: 'var(--foreground)' }}>Active sessions</h3>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead style={{ background: 'var(--header-bg)' }}>
+            <tr>
+              {['User', 'Address', 'Signed in', 'Last refresh', 'Expires', 'Connections', ''].map(title => (
+                <th key={title} className="px-4 py-2 text-left text-xs font-medium uppercase tracking-wider" style={{ color: 'var(--foreground)', opacity: 0.7 }}>
+                  {title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y" style={{ borderColor: 'var(--border-color)' }}>
+            {sessions.map(session => (
+              <tr key={session.id}>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>
+                  {session.username}
+                  {session.current && <span style={{ opacity: 0.7 }}> (this session)</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle} title={session.userAgent}>{session.ip || '-'}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(session.createdAt).toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(session.lastSeenAt).toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{new Date(session.expiresAt).toLocaleString()}</td>
+                <td className="px-4 py-2 whitespace-nowrap" style={cellStyle}>{session.connections}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-right">
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    className="px-3 py-1 rounded text-sm"
+                    style={{ background: 'var(--btn-stop-bg)', color: 'var(--btn-stop-text)' }}
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
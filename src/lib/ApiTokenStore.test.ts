@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiTokenStore } from './ApiTokenStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('ApiTokenStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-tokens-'));
+    file = path.join(dir, 'api-tokens.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should authenticate tokens until they expire', () => {
+    const store = new ApiTokenStore(file);
+    const { token, info } = store.create('alice', 'ci', DAY, 0);
+
+    expect(token).toMatch(/^smt_[0-9a-f]{12}_/);
+    expect(store.authenticate(token, DAY - 1)).toMatchObject({ id: info.id, username: 'alice', lastUsedAt: DAY - 1 });
+    expect(store.authenticate(token, DAY)).toBeNull();
+  });
+
+  it('should reject altered and revoked tokens', () => {
+    const store = new ApiTokenStore(file);
+    const { token, info } = store.create('alice', 'ci', undefined, 0);
+
+    expect(store.authenticate(token.slice(0, -1) + (token.endsWith('a') ? 'b' : 'a'), 0)).toBeNull();
+    expect(store.authenticate('not a token', 0)).toBeNull();
+    expect(store.revoke(info.id)).toMatchObject({ id: info.id });
+    expect(store.authenticate(token, 0)).toBeNull();
+  });
+
+  it('should keep only hashes on disk and reload them', async () => {
+    const store = new ApiTokenStore(file);
+    const { token } = store.create('alice', 'ci', undefined, 0);
+    store.create('bob', 'deploy', undefined, 0);
+    await store.flush();
+
+    const saved = fs.readFileSync(file, 'utf-8');
+    expect(saved).not.toContain(token.slice('smt_'.length + 13));
+
+    const reloaded = new ApiTokenStore(file);
+    expect(reloaded.authenticate(token, 0)).toMatchObject({ username: 'alice' });
+    expect(reloaded.list('bob').map(t => t.name)).toEqual(['deploy']);
+    expect(reloaded.revokeUser('alice')).toHaveLength(1);
+    expect(reloaded.list()).toHaveLength(1);
+  });
+
+  it('should require a name and a future expiry', () => {
+    const store = new ApiTokenStore(file);
+    expect(() => store.create('alice', ' ', undefined, 0)).toThrow('API token name is required');
+    expect(() => store.create('alice', 'ci', 0, 0)).toThrow('must be in the future');
+  });
+});
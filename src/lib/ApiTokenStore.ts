@@ -0,0 +1,134 @@
+// Long-lived tokens for scripts and CI calling the REST API, kept hashed in a JSON file.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+
+export interface ApiTokenRecord {
+  id: string;
+  name: string;
+  username: string;    // the token acts as this user, with their current role
+  hash: string;        // sha256 of the secret part, hex
+  createdAt: number;   // epoch ms
+  expiresAt?: number;
+  lastUsedAt?: number;
+}
+
+// What clients get to see of a token
+export type ApiTokenInfo = Omit<ApiTokenRecord, 'hash'>;
+
+const TOKEN_PREFIX = 'smt';
+// Last use is saved at most this often, not on every request
+const LAST_USED_SAVE_MS = 60 * 1000;
+
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function toInfo(record: ApiTokenRecord): ApiTokenInfo {
+  return {
+    id: record.id,
+    name: record.name,
+    username: record.username,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    lastUsedAt: record.lastUsedAt
+  };
+}
+
+/**
+ * Tokens look like smt_<id>_<secret>. The id finds the record and only a hash
+ * of the secret is stored, so the file does not hold usable tokens.
+ */
+export class ApiTokenStore {
+  private tokens: ApiTokenRecord[] = [];
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.tokens = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      logger.error('auth', `Error reading API tokens ${this.filePath}:`, error);
+      this.tokens = [];
+    }
+  }
+
+  // The token itself is only returned here
+  create(username: string, name: string, expiresAt?: number, now: number = Date.now()): { token: string, info: ApiTokenInfo } {
+    if (typeof name !== 'string' || !name.trim()) throw new Error('API token name is required');
+    if (expiresAt !== undefined && !(expiresAt > now)) throw new Error('API token expiry must be in the future');
+
+    const id = crypto.randomBytes(6).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const record: ApiTokenRecord = { id, name: name.trim(), username, hash: hashSecret(secret), createdAt: now, expiresAt };
+    this.tokens.push(record);
+    this.save();
+    return { token: `${TOKEN_PREFIX}_${id}_${secret}`, info: toInfo(record) };
+  }
+
+  authenticate(token: string, now: number = Date.now()): ApiTokenInfo | null {
+    if (typeof token !== 'string') return null;
+    const match = /^smt_([0-9a-f]{12})_([A-Za-z0-9_-]+)$/.exec(token);
+    if (!match) return null;
+    const record = this.tokens.find(t => t.id === match[1]);
+    if (!record) return null;
+
+    const expected = Buffer.from(record.hash);
+    const actual = Buffer.from(hashSecret(match[2]));
+    if (!crypto.timingSafeEqual(expected, actual)) return null;
+    if (record.expiresAt !== undefined && record.expiresAt <= now) return null;
+
+    const lastSaved = record.lastUsedAt ?? 0;
+    record.lastUsedAt = now;
+    if (now - lastSaved >= LAST_USED_SAVE_MS) this.save();
+    return toInfo(record);
+  }
+
+  // Every token, or a user's
+  list(username?: string): ApiTokenInfo[] {
+    return this.tokens.filter(t => !username || t.username === username).map(toInfo);
+  }
+
+  get(id: string): ApiTokenInfo | undefined {
+    const record = this.tokens.find(t => t.id === id);
+    return record && toInfo(record);
+  }
+
+  revoke(id: string): ApiTokenInfo | undefined {
+    const record = this.tokens.find(t => t.id === id);
+    if (!record) return undefined;
+    this.tokens = this.tokens.filter(t => t !== record);
+    this.save();
+    return toInfo(record);
+  }
+
+  revokeUser(username: string): ApiTokenInfo[] {
+    const revoked = this.tokens.filter(t => t.username === username);
+    if (revoked.length === 0) return [];
+    this.tokens = this.tokens.filter(t => t.username !== username);
+    this.save();
+    return revoked.map(toInfo);
+  }
+
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private save() {
+    const data = JSON.stringify(this.tokens, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, data, { mode: 0o600 });
+      } catch (error) {
+        logger.error('auth', `Error saving API tokens ${this.filePath}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog, isAuditedMethod, sanitizeParams } from './AuditLog';
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+  const key = Buffer.from('audit-test-secret');
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    file = path.join(dir, 'audit.log');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should mask secrets in params', () => {
+    expect(sanitizeParams({ username: 'bob', password: 'hunter22', env: { API_TOKEN: 'abc', PORT: '80' } }))
+      .toEqual({ username: 'bob', password: '********', env: { API_TOKEN: '********', PORT: '80' } });
+    expect(sanitizeParams({ content: 'programs:\n  web:\n    env: { DB_URL: postgres://u:pw@db }\n', format: 'yaml' }))
+      .toEqual({ content: '********', format: 'yaml' });
+    expect(sanitizeParams({ code: 'abcd-efgh' })).toEqual({ code: '********' });
+    expect(sanitizeParams({ username: 'bob', otp: '123456' })).toEqual({ username: 'bob', otp: '********' });
+    expect(isAuditedMethod('startProgram')).toBe(true);
+    expect(isAuditedMethod('listPrograms')).toBe(false);
+  });
+
+  it('should chain entries across restarts and detect edits', async () => {
+    const log = new AuditLog(file, key);
+    log.record({ user: 'alice', ip: '10.0.0.1', method: 'startProgram', params: { id: 'web' }, result: 'success' });
+    log.record({ user: 'bob', method: 'deleteProgram', params: { id: 'web' }, result: 'denied', error: 'Permission denied' });
+    await log.flush();
+
+    const reopened = new AuditLog(file, key);
+    const third = reopened.record({ user: 'alice', method: 'stopProgram', params: { id: 'db' }, result: 'success' });
+    await reopened.flush();
+    expect(third.seq).toBe(3);
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 3 });
+
+    const lines = fs.readFileSync(file, 'utf-8').split('\n');
+    lines[1] = lines[1].replace('"denied"', '"success"');
+    fs.writeFileSync(file, lines.join('\n'));
+    expect(await reopened.verify()).toMatchObject({ valid: false, brokenAt: 2, error: 'Entry was modified' });
+
+    lines.splice(1, 1);
+    fs.writeFileSync(file, lines.join('\n'));
+    expect(await reopened.verify()).toMatchObject({ valid: false, brokenAt: 2, error: 'Entry does not follow the one before' });
+  });
+
+  it('should not accept a chain rewritten without the secret', async () => {
+    const log = new AuditLog(file, key);
+    log.record({ user: 'bob', method: 'deleteProgram', params: { id: 'web' }, result: 'success' });
+    await log.flush();
+    expect(await new AuditLog(file, Buffer.from('other-secret')).verify()).toMatchObject({ valid: false, brokenAt: 1 });
+
+    const forged = { ...JSON.parse(fs.readFileSync(file, 'utf-8')), user: 'alice' };
+    delete forged.hash;
+    forged.hash = crypto.createHash('sha256').update(JSON.stringify(forged)).digest('hex');
+    fs.writeFileSync(file, JSON.stringify(forged) + '\n');
+
+    expect(await log.verify()).toMatchObject({ valid: false, brokenAt: 1, error: 'Entry was modified' });
+  });
+
+  it('should filter and page entries newest first', async () => {
+    const log = new AuditLog(file, key);
+    for (let i = 1; i <= 5; i++) {
+      log.record({ user: i % 2 ? 'alice' : 'bob', method: 'startProgram', params: { id: `p${i}` }, result: 'success', time: i * 1000 });
+    }
+    log.record({ user: 'alice', method: 'bulkProgramAction', params: { ids: ['p1', 'p9'], action: 'stop' }, result: 'success', time: 6000 });
+
+    const first = await log.query({ user: 'alice', limit: 2 });
+    expect(first.entries.map(entry => entry.seq)).toEqual([6, 5]);
+    const second = await log.query({ user: 'alice', limit: 2, before: first.before });
+    expect(second.entries.map(entry => entry.seq)).toEqual([3, 1]);
+    expect(second.before).toBeUndefined();
+
+    expect((await log.query({ programId: 'p1' })).entries.map(entry => entry.seq)).toEqual([6, 1]);
+    expect((await log.query({ search: 'P4' })).entries.map(entry => entry.seq)).toEqual([4]);
+    expect((await log.query({ from: 2000, to: 3000 })).entries.map(entry => entry.seq)).toEqual([3, 2]);
+  });
+
+  it('should record terminal input a line at a time', async () => {
+    const log = new AuditLog(file, key);
+    const base = { user: 'alice', ip: '10.0.0.1', terminalId: 3, programId: 'web' };
+    for (const key of ['l', 's', '\r']) log.recordTerminalInput(base, key);
+    log.recordTerminalInput(base, 'exit');
+    log.flushTerminalInput('alice', '10.0.0.1', 3);
+
+    const { entries } = await log.query({ methods: ['terminal.input'] });
+    expect(entries.map(entry => entry.params)).toEqual([
+      { terminalId: 3, programId: 'web', input: 'exit' },
+      { terminalId: 3, programId: 'web', input: 'ls\r' },
+    ]);
+  });
+});
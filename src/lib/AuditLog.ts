@@ -0,0 +1,275 @@
+// Append-only audit trail of user actions, one JSON line per entry. Each entry
+// carries the hash of the one before, so an edited or removed line breaks the chain.
+// The hashes are HMACs with the server secret, so the chain cannot be rewritten
+// by whoever can write the file but not read the secret.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+import { SECRET_MASK, isSecretKey } from './environment';
+
+export type AuditResult = 'success' | 'error' | 'denied';
+
+export interface AuditEntry {
+  seq: number;
+  time: number;        // epoch ms
+  user?: string;
+  ip?: string;
+  apiToken?: string;   // id of the API token of REST calls
+  method: string;      // RPC method, 'login', or 'terminal.attach', 'terminal.detach', 'terminal.input'
+  params?: unknown;    // with secret values masked
+  result: AuditResult;
+  error?: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  user?: string;
+  methods?: string[];
+  result?: AuditResult;
+  programId?: string;  // entries about this program
+  search?: string;     // text anywhere in the entry, case insensitive
+  from?: number;       // epoch ms
+  to?: number;
+  before?: number;     // only entries with a lower seq, for paging back
+  limit?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];  // newest first
+  before?: number;        // pass back as `before` for older entries
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  brokenAt?: number;   // line number of the first entry that does not match
+  error?: string;
+}
+
+type AuditRecord = Omit<AuditEntry, 'seq' | 'time' | 'prevHash' | 'hash'> & { time?: number };
+
+const GENESIS_HASH = '0'.repeat(64);
+const DEFAULT_AUDIT_PAGE = 200;
+const MAX_AUDIT_PAGE = 1000;
+// Buffered keystrokes are written at a line end, after this long or at this size
+const INPUT_FLUSH_MS = 5000;
+const MAX_INPUT_BUFFER = 1024;
+
+// RPC methods that only read state are not audited
+const READ_ONLY_METHODS = new Set([
+  'listPrograms',
+  'getProgramStatus',
+  'getProgramLogs',
+  'getProgramMetrics',
+  'getRunHistory',
+  'getProgramEvents',
+  'getUnstartedDependencies',
+  'getCurrentUser',
+  'listTerminals',
+  'getTerminalInfo',
+  'listUsers',
+  'listSessions',
+  'listApiTokens',
+  'refreshSession',
+  'queryAudit',
+  'verifyAuditLog',
+  'listNotificationChannels',
+  'listConfigVersions',
+  'diffConfigVersions',
+  'exportConfig',
+]);
+
+export function isAuditedMethod(method: string): boolean {
+  return !READ_ONLY_METHODS.has(method);
+}
+
+// Params that hold whole config files, with env values that are not masked in
+// them, and two-factor and recovery codes
+const MASKED_PARAMS = new Set(['content', 'code', 'otp']);
+
+// Masks passwords, tokens, secret env values, config file contents and two-factor codes, at any depth
+export function sanitizeParams(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sanitizeParams);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const masked = isSecretKey(key) || MASKED_PARAMS.has(key);
+      result[key] = masked && item !== undefined && item !== null && item !== '' ? SECRET_MASK : sanitizeParams(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function hashEntry(entry: Omit<AuditEntry, 'hash'>, key: Buffer): string {
+  return crypto.createHmac('sha256', key).update(JSON.stringify(entry)).digest('hex');
+}
+
+function mentionsProgram(value: unknown, programId: string): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const params = value as { id?: unknown, programId?: unknown, ids?: unknown };
+  return params.id === programId || params.programId === programId
+    || (Array.isArray(params.ids) && params.ids.includes(programId));
+}
+
+function matches(entry: AuditEntry, query: AuditQuery, search?: string): boolean {
+  if (query.before !== undefined && entry.seq >= query.before) return false;
+  if (query.user && entry.user !== query.user) return false;
+  if (query.methods && query.methods.length > 0 && !query.methods.includes(entry.method)) return false;
+  if (query.result && entry.result !== query.result) return false;
+  if (query.from !== undefined && entry.time < query.from) return false;
+  if (query.to !== undefined && entry.time > query.to) return false;
+  if (query.programId && !mentionsProgram(entry.params, query.programId)) return false;
+  if (search && !JSON.stringify(entry).toLowerCase().includes(search)) return false;
+  return true;
+}
+
+/**
+ * Lines are only ever appended; queries read the file, so entries written by
+ * an earlier run of the manager are searchable too.
+ */
+export class AuditLog {
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+  private writing: Promise<void> = Promise.resolve();
+  private inputBuffers: Map<string, { base: AuditRecord, data: string, timer: ReturnType<typeof setTimeout> }> = new Map();
+
+  constructor(readonly filePath: string, private key: Buffer) {
+    this.load();
+  }
+
+  // Continues the chain from the last complete line
+  private load() {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(Boolean);
+      for (let i = lines.length - 1; i >= 0; i--) {
+        try {
+          const last: AuditEntry = JSON.parse(lines[i]);
+          this.seq = last.seq;
+          this.lastHash = last.hash;
+          return;
+        } catch {
+          // A line cut short by a crash
+        }
+      }
+    } catch (error) {
+      logger.error('audit', `Error reading audit log ${this.filePath}:`, error);
+    }
+  }
+
+  record(record: AuditRecord): AuditEntry {
+    const { time, ...rest } = record;
+    const unhashed: Omit<AuditEntry, 'hash'> = {
+      seq: ++this.seq,
+      time: time ?? Date.now(),
+      ...rest,
+      params: rest.params === undefined ? undefined : sanitizeParams(rest.params),
+      prevHash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed, this.key) };
+    this.lastHash = entry.hash;
+
+    const line = JSON.stringify(entry) + '\n';
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+      } catch (error) {
+        logger.error('audit', `Error writing audit log ${this.filePath}:`, error);
+      }
+    });
+    return entry;
+  }
+
+  /**
+   * Collects terminal keystrokes into one entry per typed line, so a session
+   * does not turn into an entry per key.
+   */
+  recordTerminalInput(base: { user?: string, ip?: string, terminalId: number, programId?: string }, data: string) {
+    const key = `${base.user}:${base.ip}:${base.terminalId}`;
+    let buffer = this.inputBuffers.get(key);
+    if (!buffer) {
+      buffer = {
+        base: { user: base.user, ip: base.ip, method: 'terminal.input', params: { terminalId: base.terminalId, programId: base.programId }, result: 'success' },
+        data: '',
+        timer: setTimeout(() => this.flushTerminalInput(base.user, base.ip, base.terminalId), INPUT_FLUSH_MS),
+      };
+      this.inputBuffers.set(key, buffer);
+    }
+    buffer.data += data;
+    if (/[\r\n]/.test(data) || buffer.data.length >= MAX_INPUT_BUFFER) {
+      this.flushTerminalInput(base.user, base.ip, base.terminalId);
+    }
+  }
+
+  flushTerminalInput(user: string | undefined, ip: string | undefined, terminalId: number) {
+    const key = `${user}:${ip}:${terminalId}`;
+    const buffer = this.inputBuffers.get(key);
+    if (!buffer) return;
+    clearTimeout(buffer.timer);
+    this.inputBuffers.delete(key);
+    this.record({ ...buffer.base, params: { ...(buffer.base.params as object), input: buffer.data } });
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditPage> {
+    const limit = Math.min(query.limit ?? DEFAULT_AUDIT_PAGE, MAX_AUDIT_PAGE);
+    const search = query.search?.toLowerCase();
+    const lines = await this.readLines();
+    const entries: AuditEntry[] = [];
+    for (let i = lines.length - 1; i >= 0 && entries.length <= limit; i--) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        continue;
+      }
+      if (matches(entry, query, search)) entries.push(entry);
+    }
+    // One more than asked for tells whether there are older entries
+    const more = entries.length > limit;
+    const page = entries.slice(0, limit);
+    return { entries: page, before: more ? page[page.length - 1].seq : undefined };
+  }
+
+  // Walks the whole chain; any edited, removed or reordered line shows up here
+  async verify(): Promise<AuditVerification> {
+    const lines = await this.readLines();
+    let prevHash = GENESIS_HASH;
+    let prevSeq = 0;
+    for (let i = 0; i < lines.length; i++) {
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        return { valid: false, entries: i, brokenAt: i + 1, error: 'Unreadable line' };
+      }
+      const { hash, ...unhashed } = entry;
+      if (entry.prevHash !== prevHash || entry.seq !== prevSeq + 1) {
+        return { valid: false, entries: i, brokenAt: i + 1, error: 'Entry does not follow the one before' };
+      }
+      if (hashEntry(unhashed, this.key) !== hash) {
+        return { valid: false, entries: i, brokenAt: i + 1, error: 'Entry was modified' };
+      }
+      prevHash = hash;
+      prevSeq = entry.seq;
+    }
+    return { valid: true, entries: lines.length };
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+
+  private async readLines(): Promise<string[]> {
+    await this.writing;
+    try {
+      return (await fs.promises.readFile(this.filePath, 'utf-8')).split('\n').filter(Boolean);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigHistory, writeFileAtomic } from './ConfigHistory';
+import type { ProgramConfig } from './Program';
+
+const program = (id: string): ProgramConfig => ({ id, name: id, command: `run-${id}`, screenName: id });
+
+describe('ConfigHistory', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should number versions and skip saves that change nothing', async () => {
+    const history = new ConfigHistory(path.join(dir, 'config-history'));
+    await history.record([program('web')], { actor: 'alice', reason: 'Added web' }, 1000);
+    expect(await history.record([program('web')], { actor: 'bob' })).toBeUndefined();
+    await history.record([program('web'), program('db')], { actor: 'bob', reason: 'Added db' }, 2000);
+
+    expect(history.list()).toEqual([
+      { version: 2, time: 2000, actor: 'bob', reason: 'Added db', programCount: 2 },
+      { version: 1, time: 1000, actor: 'alice', reason: 'Added web', programCount: 1 }
+    ]);
+    expect((await history.get(1))?.programs).toEqual([program('web')]);
+    expect(await history.get(3)).toBeUndefined();
+    expect(fs.statSync(path.join(dir, 'config-history', '000001.json')).mode & 0o777).toBe(0o600);
+
+    const reopened = new ConfigHistory(path.join(dir, 'config-history'));
+    expect(reopened.latest()?.version).toBe(2);
+    expect(await reopened.record([program('web'), program('db')])).toBeUndefined();
+  });
+
+  it('should remove the oldest versions beyond the limit', async () => {
+    const history = new ConfigHistory(path.join(dir, 'config-history'), 2);
+    for (const id of ['a', 'b', 'c']) {
+      await history.record([program(id)]);
+    }
+
+    expect(history.list().map(info => info.version)).toEqual([3, 2]);
+    expect(fs.readdirSync(path.join(dir, 'config-history')).sort()).toEqual(['000002.json', '000003.json']);
+  });
+
+  it('should replace files whole and keep their permissions', async () => {
+    const file = path.join(dir, 'programs.json');
+    fs.writeFileSync(file, '[]', { mode: 0o640 });
+    await writeFileAtomic(file, '[{"id": "web"}]');
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('[{"id": "web"}]');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o640);
+    expect(fs.readdirSync(dir)).toEqual(['programs.json']);
+  });
+});
@@ -0,0 +1,120 @@
+// Numbered snapshots of the program configuration, one JSON file per version
+// in config-history/ next to the config file, to compare and roll back to.
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+import type { ProgramConfig } from './Program';
+
+// Who made a change and what it was, e.g. "Added web"
+export interface ConfigChange {
+  actor?: string;
+  reason?: string;
+}
+
+export interface ConfigVersionInfo extends ConfigChange {
+  version: number;
+  time: number;          // epoch ms
+  programCount: number;
+}
+
+export interface ConfigVersion extends ConfigVersionInfo {
+  programs: ProgramConfig[];
+}
+
+export const MAX_CONFIG_VERSIONS = 100;
+
+/**
+ * Write through a temporary file that is synced and renamed over the target,
+ * so a crash leaves either the old or the new content, never a partial file.
+ * The target keeps its permissions.
+ */
+export async function writeFileAtomic(filePath: string, data: string, mode?: number): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  if (mode === undefined) {
+    mode = await fs.promises.stat(filePath).then(stats => stats.mode & 0o777, () => undefined);
+  }
+  const handle = await fs.promises.open(tempPath, 'w', mode);
+  try {
+    await handle.writeFile(data);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tempPath, filePath);
+}
+
+const versionFile = (version: number) => `${String(version).padStart(6, '0')}.json`;
+
+/**
+ * Only the version list is kept in memory; the programs of a version are read
+ * when asked for. Snapshots hold env values in the clear, so they are only
+ * readable by their owner. The oldest versions are removed beyond the limit.
+ */
+export class ConfigHistory {
+  private versions: ConfigVersionInfo[] = [];
+  private latestPrograms?: string; // JSON of the newest version, to skip saves that change nothing
+
+  constructor(readonly dir: string, private limit: number = MAX_CONFIG_VERSIONS) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (!fs.existsSync(this.dir)) return;
+      for (const file of fs.readdirSync(this.dir).filter(name => /^\d+\.json$/.test(name)).sort()) {
+        try {
+          const { programs, ...info } = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8')) as ConfigVersion;
+          this.versions.push(info);
+          this.latestPrograms = JSON.stringify(programs);
+        } catch (error) {
+          logger.error('program', `Skipping unreadable config version ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      logger.error('program', `Error reading config history ${this.dir}:`, error);
+      this.versions = [];
+    }
+  }
+
+  /**
+   * Keep the programs as a new version, unless they are the same as the newest.
+   * Returns the new version, or undefined when nothing changed.
+   */
+  async record(programs: ProgramConfig[], change: ConfigChange = {}, now: number = Date.now()): Promise<ConfigVersionInfo | undefined> {
+    const json = JSON.stringify(programs);
+    if (json === this.latestPrograms) return undefined;
+
+    const info: ConfigVersionInfo = {
+      version: (this.latest()?.version ?? 0) + 1,
+      time: now,
+      actor: change.actor,
+      reason: change.reason,
+      programCount: programs.length
+    };
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    await writeFileAtomic(path.join(this.dir, versionFile(info.version)), JSON.stringify({ ...info, programs }, null, 2), 0o600);
+    this.versions.push(info);
+    this.latestPrograms = json;
+
+    const removed = this.versions.splice(0, Math.max(0, this.versions.length - this.limit));
+    for (const old of removed) {
+      await fs.promises.rm(path.join(this.dir, versionFile(old.version)), { force: true });
+    }
+    return info;
+  }
+
+  latest(): ConfigVersionInfo | undefined {
+    return this.versions[this.versions.length - 1];
+  }
+
+  // Newest first
+  list(): ConfigVersionInfo[] {
+    return [...this.versions].reverse();
+  }
+
+  async get(version: number): Promise<ConfigVersion | undefined> {
+    if (!this.versions.some(info => info.version === version)) return undefined;
+    const data = await fs.promises.readFile(path.join(this.dir, versionFile(version)), 'utf-8');
+    return JSON.parse(data);
+  }
+}
@@ -0,0 +1,38 @@
+import { CronExpression, validateTimeZone } from './CronExpression';
+
+describe('CronExpression', () => {
+  const next = (expression: string, after: string, timeZone = 'UTC') =>
+    new CronExpression(expression).next(new Date(after), timeZone).toISOString();
+
+  it('should support steps, ranges, lists and names', () => {
+    expect(next('*/15 * * * *', '2024-01-01T00:07:00Z')).toBe('2024-01-01T00:15:00.000Z');
+    expect(next('0 9-17/4 * * mon-fri', '2024-01-05T14:00:00Z')).toBe('2024-01-05T17:00:00.000Z');
+    expect(next('0 9-17/4 * * mon-fri', '2024-01-05T17:00:00Z')).toBe('2024-01-08T09:00:00.000Z');
+    expect(next('30 6 1,15 jan,jul *', '2024-01-20T00:00:00Z')).toBe('2024-07-01T06:30:00.000Z');
+    expect(next('@weekly', '2024-01-01T00:00:00Z')).toBe('2024-01-07T00:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th or any Friday
+    expect(next('0 0 13 * 5', '2024-01-01T00:00:00Z')).toBe('2024-01-05T00:00:00.000Z');
+    expect(next('0 0 13 * 7', '2024-01-08T00:00:00Z')).toBe('2024-01-13T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should evaluate the expression in the given time zone', () => {
+    expect(next('0 3 * * *', '2024-01-01T05:00:00Z', 'America/New_York')).toBe('2024-01-01T08:00:00.000Z');
+    // 02:30 does not exist on the day clocks move forward
+    expect(next('30 2 * * *', '2024-03-09T12:00:00Z', 'America/New_York')).toBe('2024-03-11T06:30:00.000Z');
+    // 01:30 happens twice on the day clocks move back, the job runs once
+    expect(next('30 1 * * *', '2024-11-02T12:00:00Z', 'America/New_York')).toBe('2024-11-03T05:30:00.000Z');
+    expect(next('30 1 * * *', '2024-11-03T05:30:00Z', 'America/New_York')).toBe('2024-11-04T06:30:00.000Z');
+  });
+
+  it('should reject invalid expressions and time zones', () => {
+    expect(() => new CronExpression('* * * *')).toThrow('expected 5 fields');
+    expect(() => new CronExpression('60 * * * *')).toThrow('bad minute field');
+    expect(() => new CronExpression('* * * * funday')).toThrow('bad day of week field');
+    expect(() => new CronExpression('*/0 * * * *')).toThrow('bad minute field');
+    expect(() => validateTimeZone('Mars/Olympus')).toThrow('Invalid time zone');
+  });
+});
@@ -0,0 +1,203 @@
+// Five field cron expressions (minute hour day-of-month month day-of-week)
+// evaluated in an IANA time zone. No node dependencies, so the program form
+// can use it to preview run times.
+
+const MACROS: { [name: string]: string } = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // names for min, min + 1, ...
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+];
+
+// Upper bound for the search, enough to reach a 29 February five years away
+const MAX_SEARCH_STEPS = 100000;
+const MINUTE_MS = 60 * 1000;
+
+export class CronExpression {
+  readonly source: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  private anyDayOfMonth: boolean;
+  private anyDayOfWeek: boolean;
+
+  constructor(expression: string) {
+    this.source = expression.trim();
+    const expanded = MACROS[this.source.toLowerCase()] || this.source;
+    const parts = expanded.split(/\s+/);
+    if (parts.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const sets = parts.map((part, i) => parseField(part, FIELDS[i], expression));
+    [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = sets;
+    // 7 is another name for Sunday
+    if (this.daysOfWeek.delete(7)) this.daysOfWeek.add(0);
+    this.anyDayOfMonth = parts[2] === '*' || parts[2] === '?';
+    this.anyDayOfWeek = parts[4] === '*' || parts[4] === '?';
+  }
+
+  /**
+   * The first matching minute strictly after `after`, in the given time zone
+   * (the server's zone when omitted). Wall clock times skipped by a daylight
+   * saving change do not run; repeated ones run once.
+   */
+  next(after: Date, timeZone?: string): Date {
+    const afterMs = after.getTime();
+    // Walk through wall clock time, represented as UTC dates
+    const wall = new Date(Math.floor(wallClock(afterMs, timeZone) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+      if (!this.months.has(wall.getUTCMonth() + 1)) {
+        wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(wall)) {
+        wall.setUTCDate(wall.getUTCDate() + 1);
+        wall.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(wall.getUTCHours())) {
+        wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(wall.getUTCMinutes())) {
+        wall.setTime(wall.getTime() + MINUTE_MS);
+        continue;
+      }
+
+      const instant = wallToInstant(wall.getTime(), timeZone);
+      if (instant !== null && instant > afterMs) {
+        return new Date(instant);
+      }
+      wall.setTime(wall.getTime() + MINUTE_MS);
+    }
+    throw new Error(`Cron expression "${this.source}" has no run time in the next years`);
+  }
+
+  private matchesDay(wall: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(wall.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(wall.getUTCDay());
+    if (this.anyDayOfMonth || this.anyDayOfWeek) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
+
+export function validateTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Invalid time zone: ${timeZone}`);
+  }
+}
+
+// Parse one field: *, values, names, ranges (a-b), steps (*/n, a-b/n) and lists
+function parseField(field: string, spec: FieldSpec, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (): never => {
+    throw new Error(`Invalid cron expression "${expression}": bad ${spec.name} field "${field}"`);
+  };
+  const parseValue = (text: string): number => {
+    const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+    if (index >= 0) return spec.min + index;
+    if (!/^\d+$/.test(text)) fail();
+    const value = parseInt(text, 10);
+    if (value < spec.min || value > spec.max) fail();
+    return value;
+  };
+
+  for (const item of field.split(',')) {
+    const [range, stepText, ...rest] = item.split('/');
+    if (rest.length > 0 || range === '') fail();
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) fail();
+
+    let start: number;
+    let end: number;
+    if (range === '*' || range === '?') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) fail();
+    } else {
+      start = parseValue(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall clock time of an instant in a time zone, as milliseconds of a UTC date
+function wallClock(instant: number, timeZone?: string): number {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(key, formatter);
+  }
+  const parts: { [type: string]: number } = {};
+  for (const part of formatter.formatToParts(new Date(instant))) {
+    parts[part.type] = parseInt(part.value, 10);
+  }
+  const seconds = Math.floor(instant / 1000) * 1000;
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) + (instant - seconds);
+}
+
+// The instant showing the given wall clock time, the earlier one if it occurs
+// twice, or null if the time zone skips it
+function wallToInstant(wall: number, timeZone?: string): number | null {
+  const offsets = new Set<number>();
+  for (const probe of [wall - 12 * 60 * MINUTE_MS, wall + 12 * 60 * MINUTE_MS]) {
+    offsets.add(wallClock(probe, timeZone) - probe);
+  }
+  const candidates = Array.from(offsets)
+    .map(offset => wall - offset)
+    .filter(instant => wallClock(instant, timeZone) === wall)
+    .sort((a, b) => a - b);
+  return candidates.length > 0 ? candidates[0] : null;
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventJournal } from './EventJournal';
+
+describe('EventJournal', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'events-'));
+    file = path.join(dir, 'events', 'app.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should append events and read them back after a restart', async () => {
+    const journal = new EventJournal(file);
+    journal.record({ type: 'started', message: 'Started', actor: 'admin', time: 1000 });
+    journal.record({ type: 'crashed', message: 'Crashed with code 1', exitCode: 1, time: 2000 });
+    await journal.flush();
+
+    expect(fs.readFileSync(file, 'utf-8').trim().split('\n')).toHaveLength(2);
+    const reloaded = new EventJournal(file);
+    expect(reloaded.list().map(event => event.type)).toEqual(['crashed', 'started']);
+    expect(reloaded.list()[1]).toEqual({ type: 'started', message: 'Started', actor: 'admin', time: 1000 });
+  });
+
+  it('should page back and filter by type', () => {
+    const journal = new EventJournal(file);
+    for (let i = 1; i <= 5; i++) {
+      journal.record({ type: i % 2 ? 'started' : 'stopped', message: `event ${i}`, time: i * 1000 });
+    }
+
+    expect(journal.list({ limit: 2 }).map(event => event.time)).toEqual([5000, 4000]);
+    expect(journal.list({ before: 4000, limit: 2 }).map(event => event.time)).toEqual([3000, 2000]);
+    expect(journal.list({ types: ['stopped'] }).map(event => event.time)).toEqual([4000, 2000]);
+  });
+
+  it('should rewrite the file with the newest events once it grows past the limit', async () => {
+    const journal = new EventJournal(file, 4);
+    for (let i = 1; i <= 7; i++) {
+      journal.record({ type: 'started', message: `event ${i}`, time: i });
+    }
+    await journal.flush();
+
+    const lines = fs.readFileSync(file, 'utf-8').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line).time)).toEqual([4, 5, 6, 7]);
+    expect(journal.list().map(event => event.time)).toEqual([7, 6, 5, 4]);
+  });
+});
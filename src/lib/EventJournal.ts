@@ -0,0 +1,109 @@
+// Lifecycle events of a program, appended to a JSON lines file per program.
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+
+export type ProgramEventType =
+  | 'created'
+  | 'configChanged'
+  | 'started'
+  | 'stopped'        // ended by a stop or kill request
+  | 'exited'         // ended on its own with exit code 0, or a run-once program finished
+  | 'crashed'        // ended on its own otherwise
+  | 'restarted'      // started again by the restart policy
+  | 'healthChanged'
+  | 'limitExceeded'
+  | 'restartsExhausted'; // the restart policy gave up after its retries
+
+export interface ProgramEvent {
+  time: number;      // epoch ms
+  type: ProgramEventType;
+  message: string;
+  actor?: string;    // user name, or the part of the manager that acted, e.g. 'scheduler'
+  exitCode?: number;
+  signal?: string;   // e.g. 'SIGKILL' when the process was killed by a signal
+}
+
+export interface EventQuery {
+  before?: number;   // only events older than this epoch ms
+  limit?: number;
+  types?: ProgramEventType[];
+}
+
+export const MAX_JOURNAL_EVENTS = 1000;
+const DEFAULT_EVENT_PAGE = 200;
+
+/**
+ * Keeps the newest events in memory and appends each one to the journal file.
+ * The file is rewritten with the newest `limit` events once it holds half as
+ * many again, so it never grows without bound.
+ */
+export class EventJournal {
+  private events: ProgramEvent[] = [];
+  private lines: number = 0;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string, private limit: number = MAX_JOURNAL_EVENTS) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (!fs.existsSync(this.filePath)) return;
+      const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(Boolean);
+      this.lines = lines.length;
+      for (const line of lines) {
+        try {
+          this.events.push(JSON.parse(line));
+        } catch {
+          // A line cut short by a crash
+        }
+      }
+      this.events = this.events.slice(-this.limit);
+    } catch (error) {
+      logger.error('program', `Error reading event journal ${this.filePath}:`, error);
+    }
+  }
+
+  record(event: Omit<ProgramEvent, 'time'> & { time?: number }) {
+    const entry: ProgramEvent = { ...event, time: event.time ?? Date.now() };
+    this.events.push(entry);
+    if (this.events.length > this.limit) {
+      this.events.shift();
+    }
+    this.lines++;
+
+    const compact = this.lines > this.limit * 1.5;
+    const data = compact ? this.events.map(e => JSON.stringify(e) + '\n').join('') : JSON.stringify(entry) + '\n';
+    if (compact) this.lines = this.events.length;
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        if (compact) {
+          await fs.promises.writeFile(this.filePath, data);
+        } else {
+          await fs.promises.appendFile(this.filePath, data);
+        }
+      } catch (error) {
+        logger.error('program', `Error writing event journal ${this.filePath}:`, error);
+      }
+    });
+  }
+
+  // Newest first
+  list(query: EventQuery = {}): ProgramEvent[] {
+    const limit = query.limit ?? DEFAULT_EVENT_PAGE;
+    const result: ProgramEvent[] = [];
+    for (let i = this.events.length - 1; i >= 0 && result.length < limit; i--) {
+      const event = this.events[i];
+      if (query.before !== undefined && event.time >= query.before) continue;
+      if (query.types && !query.types.includes(event.type)) continue;
+      result.push(event);
+    }
+    return result;
+  }
+
+  flush(): Promise<void> {
+    return this.writing;
+  }
+}
@@ -0,0 +1,100 @@
+import * as http from 'http';
+import * as net from 'net';
+import { runProbe } from './HealthCheck';
+
+jest.mock('net', () => {
+  const actual = jest.requireActual('net');
+  return { ...actual, connect: jest.fn(actual.connect) };
+});
+
+const TIMEOUT_MS = 200;
+
+describe('runProbe', () => {
+  describe('http', () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+      // /hang never answers, so the probe times out
+      server = http.createServer((req, res) => {
+        if (req.url === '/hang') return;
+        res.statusCode = req.url === '/ok' ? 200 : 503;
+        res.end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      base = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should pass on a 2xx or the expected status and fail on others', async () => {
+      expect(await runProbe({ type: 'http', url: `${base}/ok` })).toEqual({ ok: true, message: 'HTTP 200' });
+      expect(await runProbe({ type: 'http', url: `${base}/down` })).toEqual({ ok: false, message: 'HTTP 503' });
+      expect(await runProbe({ type: 'http', url: `${base}/down`, expectedStatus: 503 })).toEqual({ ok: true, message: 'HTTP 503' });
+    });
+
+    it('should fail when the server does not answer in time', async () => {
+      expect(await runProbe({ type: 'http', url: `${base}/hang`, timeoutMs: TIMEOUT_MS }))
+        .toEqual({ ok: false, message: `Timed out after ${TIMEOUT_MS}ms` });
+    });
+  });
+
+  describe('tcp', () => {
+    let server: net.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      server = net.createServer(socket => socket.end());
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should pass when the port accepts connections', async () => {
+      expect(await runProbe({ type: 'tcp', port })).toEqual({ ok: true, message: `Connected to 127.0.0.1:${port}` });
+    });
+
+    it('should fail when nothing listens on the port', async () => {
+      const closed = net.createServer();
+      await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+      const closedPort = (closed.address() as net.AddressInfo).port;
+      await new Promise(resolve => closed.close(resolve));
+
+      const result = await runProbe({ type: 'tcp', port: closedPort });
+      expect(result.ok).toBe(false);
+      expect(result.message).toContain('ECONNREFUSED');
+    });
+
+    it('should fail when the connection is not made in time', async () => {
+      // A socket that never connects, as with a host that drops the packets
+      jest.mocked(net.connect).mockReturnValueOnce(new net.Socket());
+
+      expect(await runProbe({ type: 'tcp', port, timeoutMs: TIMEOUT_MS }))
+        .toEqual({ ok: false, message: `Timed out after ${TIMEOUT_MS}ms` });
+    });
+  });
+
+  describe('command', () => {
+    it('should pass when the command exits with code 0 and fail otherwise', async () => {
+      expect(await runProbe({ type: 'command', command: 'true' })).toEqual({ ok: true, message: 'Exit code 0' });
+      expect(await runProbe({ type: 'command', command: 'exit 3' })).toEqual({ ok: false, message: 'Exit code 3' });
+    });
+
+    it('should fail when the command does not finish in time', async () => {
+      expect(await runProbe({ type: 'command', command: 'sleep 5', timeoutMs: TIMEOUT_MS }))
+        .toEqual({ ok: false, message: `Timed out after ${TIMEOUT_MS}ms` });
+    });
+  });
+
+  it('should fail without the setting a probe needs', async () => {
+    expect(await runProbe({ type: 'http' })).toEqual({ ok: false, message: 'No URL configured' });
+    expect(await runProbe({ type: 'tcp' })).toEqual({ ok: false, message: 'No port configured' });
+    expect(await runProbe({ type: 'command' })).toEqual({ ok: false, message: 'No command configured' });
+  });
+});
@@ -0,0 +1,124 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { exec } from 'child_process';
+import { sudoCommand } from './environment';
+
+export type HealthCheckType = 'http' | 'tcp' | 'command';
+
+export interface HealthCheckConfig {
+  type: HealthCheckType;
+  url?: string;                // http: URL to GET
+  expectedStatus?: number;     // http: required status code, any 2xx when omitted
+  host?: string;               // tcp: defaults to 127.0.0.1
+  port?: number;               // tcp: port that must accept connections
+  command?: string;            // command: healthy when it exits with code 0
+  intervalMs?: number;         // time between probes
+  timeoutMs?: number;          // a probe that takes longer counts as a failure
+  healthyThreshold?: number;   // consecutive successes needed to become healthy
+  unhealthyThreshold?: number; // consecutive failures needed to become unhealthy
+  startPeriodMs?: number;      // failures right after start do not count
+  restartOnUnhealthy?: boolean;
+}
+
+export const DEFAULT_HEALTH_CHECK = {
+  intervalMs: 10 * 1000,
+  timeoutMs: 5 * 1000,
+  healthyThreshold: 1,
+  unhealthyThreshold: 3,
+  startPeriodMs: 0
+};
+
+export type HealthStatus = 'starting' | 'healthy' | 'unhealthy';
+
+export interface ProbeResult {
+  ok: boolean;
+  message: string;
+}
+
+function probeHttp(config: HealthCheckConfig, timeoutMs: number): Promise<ProbeResult> {
+  return new Promise((resolve) => {
+    if (!config.url) {
+      resolve({ ok: false, message: 'No URL configured' });
+      return;
+    }
+
+    const client = config.url.startsWith('https:') ? https : http;
+    const req = client.get(config.url, { timeout: timeoutMs }, (res) => {
+      res.resume();
+      const status = res.statusCode || 0;
+      const ok = config.expectedStatus !== undefined
+        ? status === config.expectedStatus
+        : status >= 200 && status < 300;
+      resolve({ ok, message: `HTTP ${status}` });
+    });
+    req.on('timeout', () => {
+      req.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+    });
+    req.on('error', (error) => {
+      resolve({ ok: false, message: error.message });
+    });
+  });
+}
+
+function probeTcp(config: HealthCheckConfig, timeoutMs: number): Promise<ProbeResult> {
+  return new Promise((resolve) => {
+    if (!config.port) {
+      resolve({ ok: false, message: 'No port configured' });
+      return;
+    }
+
+    const host = config.host || '127.0.0.1';
+    const socket = net.connect({ host, port: config.port });
+    socket.setTimeout(timeoutMs);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve({ ok: true, message: `Connected to ${host}:${config.port}` });
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      resolve({ ok: false, message: `Timed out after ${timeoutMs}ms` });
+    });
+    socket.once('error', (error) => {
+      resolve({ ok: false, message: error.message });
+    });
+  });
+}
+
+// The command runs as the program's user, like the program itself
+function probeCommand(config: HealthCheckConfig, timeoutMs: number, runAs?: string): Promise<ProbeResult> {
+  return new Promise((resolve) => {
+    if (!config.command) {
+      resolve({ ok: false, message: 'No command configured' });
+      return;
+    }
+
+    const command = runAs ? sudoCommand(runAs, config.command) : config.command;
+    exec(command, { timeout: timeoutMs }, (error) => {
+      if (error) {
+        resolve({ ok: false, message: error.killed ? `Timed out after ${timeoutMs}ms` : `Exit code ${error.code}` });
+        return;
+      }
+      resolve({ ok: true, message: 'Exit code 0' });
+    });
+  });
+}
+
+// Run a single probe; never rejects, failures are reported in the result
+export async function runProbe(config: HealthCheckConfig, runAs?: string): Promise<ProbeResult> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_HEALTH_CHECK.timeoutMs;
+  try {
+    switch (config.type) {
+      case 'http':
+        return await probeHttp(config, timeoutMs);
+      case 'tcp':
+        return await probeTcp(config, timeoutMs);
+      case 'command':
+        return await probeCommand(config, timeoutMs, runAs);
+      default:
+        return { ok: false, message: `Unknown health check type: ${config.type}` };
+    }
+  } catch (error) {
+    return { ok: false, message: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,93 @@
+// Connection of a command line client to a running manager, over the same
+// Socket.IO RPC and terminal events as the web UI.
+import { io, Socket } from 'socket.io-client';
+import type { RPCRequest, RPCResponse } from './WebSocketServer';
+import { RpcClient, createRpcClient } from './rpcClient';
+import { RpcError } from './rpcErrors';
+
+export interface ManagerConnectionOptions {
+  url: string;          // e.g. http://localhost:3000
+  apiToken?: string;    // preferred for scripts, no session is created
+  username?: string;
+  password?: string;
+  otp?: string;
+  timeoutMs?: number;   // for connecting and for each call
+}
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+
+export class ManagerConnection {
+  private socket: Socket | null = null;
+  private nextId = 1;
+
+  constructor(private options: ManagerConnectionOptions) {}
+
+  private get timeoutMs(): number {
+    return this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  connect(): Promise<void> {
+    const { url, apiToken, username, password, otp } = this.options;
+    if (!apiToken && !(username && password)) {
+      return Promise.reject(new Error('An API token or a username and password are required'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = io(url, {
+        path: '/api/programs/socket.io',
+        transports: ['websocket'],
+        // A lost connection fails the command instead of hanging in a retry loop
+        reconnection: false,
+        timeout: this.timeoutMs,
+        auth: apiToken ? { apiToken } : { username, password, otp }
+      });
+      this.socket = socket;
+      socket.once('connect', () => resolve());
+      socket.once('connect_error', (error) => {
+        socket.close();
+        reject(new Error(`Cannot connect to ${url}: ${error.message}`));
+      });
+    });
+  }
+
+  // Typed calls of the methods in the registry, e.g. connection.rpc.listPrograms()
+  readonly rpc: RpcClient = createRpcClient((method, params) => this.call(method, params));
+
+  async call(method: string, params: unknown = {}): Promise<unknown> {
+    const socket = this.requireSocket();
+    const request: RPCRequest = { id: String(this.nextId++), method, params };
+    let response: RPCResponse;
+    try {
+      response = await socket.timeout(this.timeoutMs).emitWithAck('rpc', request);
+    } catch (error) {
+      // Rejected on timeouts and when the server disconnects
+      throw new Error(`${method} failed: ${error instanceof Error ? error.message : error}`);
+    }
+    if (response.error) throw new RpcError(response.code ?? 'FAILED', response.error, response.details);
+    return response.result;
+  }
+
+  on<T>(event: string, handler: (data: T) => void) {
+    this.requireSocket().on(event, handler);
+  }
+
+  emit(event: string, data: unknown) {
+    this.requireSocket().emit(event, data);
+  }
+
+  // Password sign-ins end their session; API token connections have none
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return;
+    if (socket.connected && !this.options.apiToken) {
+      await this.rpc.logout().catch(() => {});
+    }
+    socket.close();
+    this.socket = null;
+  }
+
+  private requireSocket(): Socket {
+    if (!this.socket || !this.socket.connected) throw new Error('Not connected');
+    return this.socket;
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MetricsCollector, RingBuffer, parseStat } from './MetricsCollector';
+
+describe('MetricsCollector', () => {
+  let procRoot: string;
+  const bootTime = 1700000000;
+
+  // Write a /proc/<pid>/stat line with the fields the collector reads
+  const writeProcess = (pid: number, ppid: number, opts: { ticks?: number, threads?: number, startTicks?: number, rssPages?: number, fds?: number } = {}) => {
+    const { ticks = 0, threads = 1, startTicks = 1000, rssPages = 256, fds = 3 } = opts;
+    const fields = ['S', ppid, 0, 0, 0, 0, 0, 0, 0, 0, 0, ticks, 0, 0, 0, 20, 0, threads, 0, startTicks, 0, rssPages];
+    fs.mkdirSync(path.join(procRoot, String(pid), 'fd'), { recursive: true });
+    fs.writeFileSync(path.join(procRoot, String(pid), 'stat'), `${pid} (my (app) name) ${fields.join(' ')} 0 0\n`);
+    for (let fd = 0; fd < fds; fd++) {
+      fs.writeFileSync(path.join(procRoot, String(pid), 'fd', String(fd)), '');
+    }
+  };
+
+  beforeEach(() => {
+    procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'proc-'));
+    fs.writeFileSync(path.join(procRoot, 'stat'), `cpu  1 2 3 4\nbtime ${bootTime}\nprocesses 10\n`);
+  });
+
+  afterEach(() => {
+    fs.rmSync(procRoot, { recursive: true, force: true });
+  });
+
+  it('should parse stat lines with parentheses in the command name', () => {
+    expect(parseStat('42 (a (b) c) S 1 0 0 0 0 0 0 0 0 0 7 3 0 0 20 0 4 0 500 0 100')).toEqual({
+      pid: 42, ppid: 1, ticks: 10, threads: 4, startTicks: 500, rssPages: 100
+    });
+  });
+
+  it('should sum the whole process tree and compute CPU from tick deltas', async () => {
+    const collector = new MetricsCollector(procRoot, 1000);
+    writeProcess(100, 1, { ticks: 50, threads: 2 });
+    writeProcess(101, 100, { ticks: 10, fds: 2 });
+    writeProcess(102, 101, { ticks: 5 });
+    writeProcess(200, 1, { ticks: 999 });
+
+    const start = (bootTime + 10) * 1000 + 20000;
+    await collector.sample([{ id: 'app', pid: 100 }, { id: 'stopped' }], start);
+
+    // 100 ticks in 10 seconds is 10% of one core
+    writeProcess(100, 1, { ticks: 130, threads: 2 });
+    writeProcess(101, 100, { ticks: 30, fds: 2 });
+    await collector.sample([{ id: 'app', pid: 100 }], start + 10000);
+
+    const samples = collector.getSamples('app');
+    expect(samples).toHaveLength(2);
+    expect(samples[1]).toEqual({
+      time: start + 10000,
+      cpu: 10,
+      rss: 3 * 256 * 4096,
+      threads: 4,
+      fds: 8,
+      processes: 3,
+      uptime: 30
+    });
+    expect(samples[0].cpu).toBe(0);
+    expect(collector.getSamples('stopped')).toEqual([]);
+  });
+
+  it('should record history once per interval and downsample queries', async () => {
+    const collector = new MetricsCollector(procRoot, 1000);
+    writeProcess(100, 1);
+    for (let i = 0; i < 10; i++) {
+      await collector.sample([{ id: 'app', pid: 100 }], 1000 * i);
+      const between = await collector.sample([{ id: 'app', pid: 100 }], 1000 * i + 500);
+      expect(between.get('app')?.time).toBe(1000 * i + 500);
+    }
+
+    expect(collector.getSamples('app')).toHaveLength(10);
+    expect(collector.getSamples('app', { from: 2000, to: 5000 }).map(s => s.time)).toEqual([2000, 3000, 4000, 5000]);
+    expect(collector.getSamples('app', { maxPoints: 3 }).map(s => s.time)).toEqual([3000, 7000, 9000]);
+  });
+
+  it('should keep only the newest entries in the ring buffer', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach(n => buffer.push(n));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.length).toBe(3);
+  });
+});
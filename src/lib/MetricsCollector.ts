@@ -0,0 +1,267 @@
+// Resource usage sampling for program process trees, read from /proc (Linux only).
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+
+export interface MetricsSample {
+  time: number;      // epoch ms
+  cpu: number;       // percent of one core, so a busy tree can exceed 100
+  rss: number;       // resident memory in bytes
+  threads: number;
+  fds: number;       // open file descriptors, 0 when /proc/<pid>/fd is not readable
+  processes: number; // processes in the tree
+  uptime: number;    // seconds since the root process started
+}
+
+export interface MetricsQuery {
+  from?: number;      // epoch ms, inclusive
+  to?: number;        // epoch ms, inclusive
+  maxPoints?: number; // average neighbouring samples down to at most this many points
+}
+
+// Recording a sample every 15 seconds keeps 24 hours at 5760 samples per program
+export const METRICS_INTERVAL_MS = 15 * 1000;
+export const METRICS_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// USER_HZ and the page size are 100 and 4 KiB on every Linux platform the manager runs on
+const CLOCK_TICKS_PER_SECOND = 100;
+const PAGE_SIZE = 4096;
+
+/**
+ * Fixed size buffer that overwrites its oldest entries once full.
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private start: number = 0;
+
+  constructor(readonly capacity: number) {}
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.start] = item;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  // Entries from oldest to newest
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)];
+  }
+}
+
+export interface ProcStat {
+  pid: number;
+  ppid: number;
+  ticks: number; // user + system CPU time
+  threads: number;
+  startTicks: number; // start time in ticks after boot
+  rssPages: number;
+}
+
+// CPU ticks of the tree's processes at the previous sample, keyed by pid and start time
+interface PreviousTicks {
+  time: number;
+  ticks: Map<string, number>;
+}
+
+/**
+ * Samples CPU, memory, thread, file descriptor and uptime figures for the
+ * whole process tree of each program and keeps 24 hours of history.
+ */
+export class MetricsCollector {
+  private history: Map<string, RingBuffer<MetricsSample>> = new Map();
+  private previous: Map<string, PreviousTicks> = new Map();
+  private lastRecordedAt: number = -Infinity;
+  private bootTime?: number;
+  private unavailable: boolean = false;
+
+  constructor(private procRoot: string = '/proc', private intervalMs: number = METRICS_INTERVAL_MS) {}
+
+  /**
+   * Sample every program with a PID. Called on each pass of the monitoring
+   * loop; the samples are added to the history once per sampling interval.
+   */
+  async sample(programs: { id: string, pid?: number }[], now: number = Date.now()): Promise<Map<string, MetricsSample>> {
+    const samples = new Map<string, MetricsSample>();
+    if (this.unavailable) return samples;
+
+    let stats: Map<number, ProcStat>;
+    try {
+      stats = await this.readAllStats();
+      this.bootTime ??= await this.readBootTime();
+    } catch (error) {
+      // No /proc, e.g. when developing on macOS
+      logger.warn('metrics', `Process metrics are not available: ${error instanceof Error ? error.message : error}`);
+      this.unavailable = true;
+      return samples;
+    }
+
+    const children = new Map<number, number[]>();
+    for (const stat of stats.values()) {
+      const siblings = children.get(stat.ppid) || [];
+      siblings.push(stat.pid);
+      children.set(stat.ppid, siblings);
+    }
+
+    const record = now - this.lastRecordedAt >= this.intervalMs;
+    if (record) this.lastRecordedAt = now;
+
+    for (const program of programs) {
+      if (!program.pid || !stats.has(program.pid)) {
+        this.previous.delete(program.id);
+        continue;
+      }
+      const tree = collectTree(program.pid, children).map(pid => stats.get(pid)!);
+      const sample = await this.buildSample(program.id, tree, now);
+      samples.set(program.id, sample);
+      if (record) this.getHistory(program.id).push(sample);
+    }
+    return samples;
+  }
+
+  /**
+   * Samples of a program within the query range, oldest first.
+   */
+  getSamples(programId: string, query: MetricsQuery = {}): MetricsSample[] {
+    const from = query.from ?? 0;
+    const to = query.to ?? Infinity;
+    const samples = (this.history.get(programId)?.toArray() || []).filter(s => s.time >= from && s.time <= to);
+    if (!query.maxPoints || samples.length <= query.maxPoints) {
+      return samples;
+    }
+    return downsample(samples, query.maxPoints);
+  }
+
+  // Forget the history of a deleted program
+  remove(programId: string) {
+    this.history.delete(programId);
+    this.previous.delete(programId);
+  }
+
+  private getHistory(programId: string): RingBuffer<MetricsSample> {
+    let history = this.history.get(programId);
+    if (!history) {
+      history = new RingBuffer(Math.ceil(METRICS_RETENTION_MS / this.intervalMs));
+      this.history.set(programId, history);
+    }
+    return history;
+  }
+
+  private async buildSample(programId: string, tree: ProcStat[], now: number): Promise<MetricsSample> {
+    const ticks = new Map(tree.map(stat => [`${stat.pid}:${stat.startTicks}`, stat.ticks]));
+    const previous = this.previous.get(programId);
+    this.previous.set(programId, { time: now, ticks });
+
+    // Only processes seen in both samples count, so exited children do not make the figure jump
+    let cpu = 0;
+    if (previous && now > previous.time) {
+      let usedTicks = 0;
+      for (const [key, value] of ticks) {
+        const before = previous.ticks.get(key);
+        usedTicks += before === undefined ? 0 : Math.max(0, value - before);
+      }
+      cpu = (usedTicks / CLOCK_TICKS_PER_SECOND) / ((now - previous.time) / 1000) * 100;
+    }
+
+    let fds = 0;
+    for (const stat of tree) {
+      fds += await fs.promises.readdir(path.join(this.procRoot, String(stat.pid), 'fd'))
+        .then(entries => entries.length)
+        .catch(() => 0);
+    }
+
+    const root = tree[0];
+    const startedAt = (this.bootTime! + root.startTicks / CLOCK_TICKS_PER_SECOND) * 1000;
+    return {
+      time: now,
+      cpu: Math.round(cpu * 10) / 10,
+      rss: tree.reduce((sum, stat) => sum + stat.rssPages * PAGE_SIZE, 0),
+      threads: tree.reduce((sum, stat) => sum + stat.threads, 0),
+      fds,
+      processes: tree.length,
+      uptime: Math.max(0, Math.round((now - startedAt) / 1000))
+    };
+  }
+
+  private async readAllStats(): Promise<Map<number, ProcStat>> {
+    const stats = new Map<number, ProcStat>();
+    const entries = await fs.promises.readdir(this.procRoot);
+    for (const entry of entries) {
+      if (!/^\d+$/.test(entry)) continue;
+      try {
+        const content = await fs.promises.readFile(path.join(this.procRoot, entry, 'stat'), 'utf-8');
+        const stat = parseStat(content);
+        if (stat) stats.set(stat.pid, stat);
+      } catch {
+        // The process exited while reading
+      }
+    }
+    return stats;
+  }
+
+  // Boot time in epoch seconds
+  private async readBootTime(): Promise<number> {
+    const content = await fs.promises.readFile(path.join(this.procRoot, 'stat'), 'utf-8');
+    const match = content.match(/^btime (\d+)$/m);
+    if (!match) throw new Error('btime missing from /proc/stat');
+    return parseInt(match[1], 10);
+  }
+}
+
+/**
+ * Parse /proc/<pid>/stat. The command name is in parentheses and may itself
+ * contain spaces and parentheses, so fields are counted from the last ')'.
+ */
+export function parseStat(content: string): ProcStat | null {
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < 0) return null;
+
+  // fields[0] is field 3 (state) in proc(5)
+  const fields = content.slice(close + 2).trim().split(/\s+/);
+  if (fields.length < 22) return null;
+  return {
+    pid: parseInt(content.slice(0, open), 10),
+    ppid: parseInt(fields[1], 10),
+    ticks: parseInt(fields[11], 10) + parseInt(fields[12], 10),
+    threads: parseInt(fields[17], 10),
+    startTicks: parseInt(fields[19], 10),
+    rssPages: parseInt(fields[21], 10)
+  };
+}
+
+// The root pid followed by all its descendants
+function collectTree(rootPid: number, children: Map<number, number[]>): number[] {
+  const tree = [rootPid];
+  for (let i = 0; i < tree.length; i++) {
+    tree.push(...(children.get(tree[i]) || []));
+  }
+  return tree;
+}
+
+// Average consecutive samples into at most maxPoints points
+function downsample(samples: MetricsSample[], maxPoints: number): MetricsSample[] {
+  const size = Math.ceil(samples.length / maxPoints);
+  const points: MetricsSample[] = [];
+  for (let i = 0; i < samples.length; i += size) {
+    const bucket = samples.slice(i, i + size);
+    const average = (key: keyof MetricsSample) => bucket.reduce((sum, s) => sum + s[key], 0) / bucket.length;
+    const last = bucket[bucket.length - 1];
+    points.push({
+      time: last.time,
+      cpu: Math.round(average('cpu') * 10) / 10,
+      rss: Math.round(average('rss')),
+      threads: Math.round(average('threads')),
+      fds: Math.round(average('fds')),
+      processes: Math.round(average('processes')),
+      uptime: last.uptime
+    });
+  }
+  return points;
+}
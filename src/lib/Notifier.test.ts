@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Notifier, normalizeChannel, retryDelay, signPayload, slackPayload } from './Notifier';
+import { channelMatches, Notification, NotificationChannel } from './notifications';
+import { SECRET_MASK } from './environment';
+import type { ProgramEvent } from './EventJournal';
+
+const crash: ProgramEvent = { time: 1700000000000, type: 'crashed', message: 'Crashed with exit code 1', exitCode: 1 };
+const web = { id: 'web', name: 'Web', group: 'frontend' };
+
+describe('Notifier', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'notifier-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should filter events by type, program and group', () => {
+    const channel = { ...normalizeChannel({ name: 'Ops', type: 'slack', url: 'https://hooks.example.com/x' }), id: 'a', createdAt: 0 } as NotificationChannel;
+    const notification: Notification = { event: 'crashed', programId: 'web', programName: 'Web', group: 'frontend', message: '', time: 0, host: 'h' };
+
+    expect(channel.events).toEqual(['crashed', 'healthChanged', 'restartsExhausted']);
+    expect(channelMatches(channel, notification)).toBe(true);
+    expect(channelMatches(channel, { ...notification, event: 'started' })).toBe(false);
+    expect(channelMatches({ ...channel, programIds: ['api'] }, notification)).toBe(false);
+    expect(channelMatches({ ...channel, groups: ['frontend'] }, notification)).toBe(true);
+    expect(channelMatches({ ...channel, groups: ['backend'] }, notification)).toBe(false);
+    expect(channelMatches({ ...channel, enabled: false }, notification)).toBe(false);
+    expect(channelMatches({ ...channel, enabled: false }, { ...notification, event: 'test' })).toBe(true);
+  });
+
+  it('should check channel settings for their type', () => {
+    expect(() => normalizeChannel({ name: 'Hook', type: 'webhook', url: 'ftp://example.com' })).toThrow('needs an http or https URL');
+    expect(() => normalizeChannel({ name: 'Mail', type: 'email', smtp: { host: 'smtp', port: 25 }, from: 'sm@example.com', to: [] })).toThrow('at least one recipient');
+    expect(() => normalizeChannel({ name: 'Mail', type: 'email', smtp: { host: 'smtp', port: 0 }, from: 'sm@example.com', to: ['a@example.com'] })).toThrow('Invalid SMTP port');
+
+    const slack = normalizeChannel({ name: ' Ops ', type: 'slack', url: 'https://hooks.example.com/x', secret: 'ignored', to: ['a@example.com'], groups: [' ', 'ops'] });
+    expect(slack).toEqual({ name: 'Ops', type: 'slack', enabled: true, events: ['crashed', 'healthChanged', 'restartsExhausted'], url: 'https://hooks.example.com/x', groups: ['ops'] });
+  });
+
+  it('should sign webhook bodies and format Slack messages', () => {
+    const body = JSON.stringify({ event: 'crashed' });
+    const expected = crypto.createHmac('sha256', 'key').update(body).digest('hex');
+    expect(signPayload(body, 'key')).toBe(`sha256=${expected}`);
+
+    const notification: Notification = { event: 'restartsExhausted', programId: 'web', programName: 'Web', message: 'Gave up restarting after 5 attempts within 60s', time: 0, host: 'box' };
+    expect(slackPayload(notification).text).toBe('*Web is no longer restarted* on box\nGave up restarting after 5 attempts within 60s');
+  });
+
+  it('should mask secrets and keep them when the mask is sent back', async () => {
+    const notifier = new Notifier(path.join(dir, 'notifications.json'));
+    const added = notifier.add({ name: 'Hook', type: 'webhook', url: 'https://example.com/hook', secret: 's3cret' });
+    expect(added.secret).toBe(SECRET_MASK);
+
+    notifier.update(added.id, { ...added, name: 'Renamed' });
+    await notifier.flush();
+    const saved = JSON.parse(fs.readFileSync(path.join(dir, 'notifications.json'), 'utf-8'));
+    expect(saved[0]).toMatchObject({ name: 'Renamed', secret: 's3cret' });
+    expect(fs.statSync(path.join(dir, 'notifications.json')).mode & 0o777).toBe(0o600);
+
+    expect(new Notifier(path.join(dir, 'notifications.json')).list()[0].name).toBe('Renamed');
+  });
+
+  it('should retry failed sends with backoff', async () => {
+    jest.useFakeTimers();
+    try {
+      const send = jest.fn().mockRejectedValue(new Error('HTTP 500'));
+      const notifier = new Notifier(path.join(dir, 'notifications.json'), { send, host: 'box', retry: { attempts: 3, initialDelayMs: 100, maxDelayMs: 150 } });
+      const { id } = notifier.add({ name: 'Ops', type: 'slack', url: 'https://hooks.example.com/x' });
+
+      await notifier.notify(web, crash);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(send.mock.calls[0][1]).toMatchObject({ event: 'crashed', programName: 'Web', exitCode: 1, host: 'box' });
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(send).toHaveBeenCalledTimes(2);
+      send.mockResolvedValue(undefined);
+      await jest.advanceTimersByTimeAsync(150);
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(notifier.list().find(c => c.id === id)?.lastDelivery).toMatchObject({ ok: true, attempts: 3 });
+
+      await notifier.notify(web, { ...crash, type: 'started' });
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(retryDelay(1)).toBe(1000);
+      expect(retryDelay(10)).toBe(60 * 1000);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should report the outcome of a test send', async () => {
+    const send = jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const notifier = new Notifier(path.join(dir, 'notifications.json'), { send });
+    const { id } = notifier.add({ name: 'Ops', type: 'slack', url: 'https://hooks.example.com/x', enabled: false });
+
+    await expect(notifier.test(id)).rejects.toThrow('Sending to Ops failed: connect ECONNREFUSED');
+    expect(send).toHaveBeenCalledTimes(1);
+    send.mockResolvedValue(undefined);
+    await expect(notifier.test(id)).resolves.toMatchObject({ ok: true });
+    await expect(notifier.test('nope')).rejects.toThrow('not found');
+  });
+});
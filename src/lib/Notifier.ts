@@ -0,0 +1,379 @@
+// Sends program events to webhooks, Slack and email, with channels kept in a JSON file.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import nodemailer from 'nodemailer';
+import logger from './logger';
+import { SECRET_MASK } from './environment';
+import type { ProgramEvent } from './EventJournal';
+import {
+  DEFAULT_NOTIFICATION_EVENTS, DeliveryStatus, Notification, NotificationChannel, NotificationChannelConfig,
+  NotificationEventType, channelMatches, isNotificationEvent
+} from './notifications';
+import { RpcError } from './rpcErrors';
+
+export type NotificationSender = (channel: NotificationChannel, notification: Notification) => Promise<void>;
+
+export interface RetryPolicy {
+  attempts: number;        // including the first one
+  initialDelayMs: number;  // doubled after every failed retry
+  maxDelayMs: number;
+}
+
+export interface NotifierOptions {
+  send?: NotificationSender;
+  retry?: Partial<RetryPolicy>;
+  host?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 5, initialDelayMs: 1000, maxDelayMs: 60 * 1000 };
+export const SIGNATURE_HEADER = 'X-Startup-Manager-Signature';
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const EVENT_TITLES: Record<NotificationEventType, string> = {
+  started: 'started',
+  stopped: 'stopped',
+  exited: 'exited',
+  crashed: 'crashed',
+  restarted: 'was restarted',
+  healthChanged: 'health changed',
+  restartsExhausted: 'is no longer restarted',
+};
+
+// The delay before retry number `attempt`, counting the first send as attempt 1
+export function retryDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  return Math.min(policy.initialDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+}
+
+// Receivers recompute it over the raw body with the shared secret
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export function notificationSubject(notification: Notification): string {
+  if (notification.event === 'test') return 'Test notification';
+  return `${notification.programName} ${EVENT_TITLES[notification.event]}`;
+}
+
+export function notificationText(notification: Notification): string {
+  const lines = [notification.message];
+  if (notification.event !== 'test') {
+    lines.push(`Program: ${notification.programName} (${notification.programId})`);
+    if (notification.group) lines.push(`Group: ${notification.group}`);
+  }
+  lines.push(`Host: ${notification.host}`, `Time: ${new Date(notification.time).toISOString()}`);
+  if (notification.actor) lines.push(`By: ${notification.actor}`);
+  if (notification.exitCode !== undefined) lines.push(`Exit code: ${notification.exitCode}`);
+  if (notification.signal) lines.push(`Signal: ${notification.signal}`);
+  return lines.join('\n');
+}
+
+// The body of a Slack incoming webhook; Mattermost and Rocket.Chat take it too
+export function slackPayload(notification: Notification): { text: string } {
+  return { text: `*${notificationSubject(notification)}* on ${notification.host}\n${notification.message}` };
+}
+
+function postJson(url: string, body: string, headers: Record<string, string>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const client = url.startsWith('https:') ? https : http;
+    const req = client.request(url, {
+      method: 'POST',
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body).toString(), 'User-Agent': 'startup-manager', ...headers }
+    }, (res) => {
+      res.resume();
+      const status = res.statusCode || 0;
+      if (status >= 200 && status < 300) resolve();
+      else reject(new Error(`HTTP ${status}`));
+    });
+    req.on('timeout', () => {
+      req.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS}ms`));
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+export const sendNotification: NotificationSender = async (channel, notification) => {
+  switch (channel.type) {
+    case 'webhook': {
+      const body = JSON.stringify(notification);
+      const headers: Record<string, string> = { 'X-Startup-Manager-Event': notification.event };
+      if (channel.secret) headers[SIGNATURE_HEADER] = signPayload(body, channel.secret);
+      await postJson(channel.url!, body, headers);
+      return;
+    }
+    case 'slack':
+      await postJson(channel.url!, JSON.stringify(slackPayload(notification)), {});
+      return;
+    case 'email': {
+      const smtp = channel.smtp!;
+      const transport = nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: !!smtp.secure,
+        auth: smtp.username ? { user: smtp.username, pass: smtp.password } : undefined,
+        connectionTimeout: REQUEST_TIMEOUT_MS,
+      });
+      await transport.sendMail({
+        from: channel.from,
+        to: channel.to!.join(', '),
+        subject: `[startup-manager] ${notificationSubject(notification)}`,
+        text: notificationText(notification),
+      });
+      return;
+    }
+  }
+};
+
+function isHttpUrl(value: string | undefined): boolean {
+  try {
+    return !!value && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function cleanList(values: string[] | undefined): string[] | undefined {
+  const cleaned = (values || []).map(value => value.trim()).filter(Boolean);
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+/**
+ * Checks a channel and keeps only the settings of its type. Secrets sent back
+ * as the mask keep the stored values of `current`.
+ */
+export function normalizeChannel(config: NotificationChannelConfig, current?: NotificationChannel): NotificationChannelConfig {
+  if (typeof config.name !== 'string' || !config.name.trim()) throw new Error('Channel name is required');
+  const events = config.events ?? DEFAULT_NOTIFICATION_EVENTS;
+  for (const event of events) {
+    if (!isNotificationEvent(event)) throw new Error(`Unknown notification event: ${event}`);
+  }
+
+  const channel: NotificationChannelConfig = {
+    name: config.name.trim(),
+    type: config.type,
+    enabled: config.enabled ?? true,
+    events: [...new Set(events)],
+    programIds: cleanList(config.programIds),
+    groups: cleanList(config.groups),
+  };
+
+  switch (config.type) {
+    case 'webhook':
+    case 'slack':
+      if (!isHttpUrl(config.url)) throw new Error(`A ${config.type} channel needs an http or https URL`);
+      channel.url = config.url!.trim();
+      if (config.type === 'webhook' && config.secret) {
+        channel.secret = config.secret === SECRET_MASK ? current?.secret : config.secret;
+      }
+      break;
+    case 'email': {
+      const smtp = config.smtp;
+      if (!smtp?.host?.trim()) throw new Error('An email channel needs an SMTP host');
+      if (!Number.isInteger(smtp.port) || smtp.port < 1 || smtp.port > 65535) throw new Error(`Invalid SMTP port: ${smtp.port}`);
+      const to = cleanList(config.to);
+      if (!config.from?.includes('@')) throw new Error('An email channel needs a from address');
+      if (!to) throw new Error('An email channel needs at least one recipient');
+      const invalid = to.find(address => !address.includes('@'));
+      if (invalid) throw new Error(`Invalid email address: ${invalid}`);
+      channel.smtp = {
+        host: smtp.host.trim(),
+        port: smtp.port,
+        secure: !!smtp.secure,
+        username: smtp.username?.trim() || undefined,
+        password: smtp.password === SECRET_MASK ? current?.smtp?.password : smtp.password || undefined,
+      };
+      channel.from = config.from.trim();
+      channel.to = to;
+      break;
+    }
+    default:
+      throw new Error(`Unknown channel type: ${config.type}`);
+  }
+  return channel;
+}
+
+// What clients get to see of a channel
+function toInfo(channel: NotificationChannel): NotificationChannel {
+  return {
+    ...channel,
+    secret: channel.secret ? SECRET_MASK : undefined,
+    smtp: channel.smtp && { ...channel.smtp, password: channel.smtp.password ? SECRET_MASK : undefined },
+  };
+}
+
+/**
+ * Matches each program event against the channels' filters and sends it to
+ * the ones it passes. Failed sends are retried with exponential backoff; a
+ * retry reads the channel again, so edits apply and removed channels stop.
+ */
+export class Notifier {
+  private channels: NotificationChannel[] = [];
+  private saving: Promise<void> = Promise.resolve();
+  private timers = new Set<NodeJS.Timeout>();
+  private send: NotificationSender;
+  private retry: RetryPolicy;
+  private host: string;
+
+  constructor(readonly filePath: string, options: NotifierOptions = {}) {
+    this.send = options.send || sendNotification;
+    this.retry = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.host = options.host || os.hostname();
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.channels = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      logger.error('notify', `Error reading notification channels ${this.filePath}:`, error);
+      this.channels = [];
+    }
+  }
+
+  list(): NotificationChannel[] {
+    return this.channels.map(toInfo);
+  }
+
+  add(config: NotificationChannelConfig, now: number = Date.now()): NotificationChannel {
+    const channel = {
+      ...normalizeChannel(config),
+      id: crypto.randomBytes(6).toString('hex'),
+      createdAt: now
+    } as NotificationChannel;
+    this.channels.push(channel);
+    this.save();
+    return toInfo(channel);
+  }
+
+  // Replaces the settings of a channel; its delivery status is kept
+  update(id: string, config: NotificationChannelConfig): NotificationChannel {
+    const current = this.find(id);
+    const channel = {
+      ...normalizeChannel(config, current),
+      id,
+      createdAt: current.createdAt,
+      lastDelivery: current.lastDelivery
+    } as NotificationChannel;
+    this.channels = this.channels.map(c => c.id === id ? channel : c);
+    this.save();
+    return toInfo(channel);
+  }
+
+  remove(id: string): NotificationChannel {
+    const channel = this.find(id);
+    this.channels = this.channels.filter(c => c !== channel);
+    this.save();
+    return toInfo(channel);
+  }
+
+  // Resolves once the first attempt of every matching channel is done
+  async notify(program: { id: string, name: string, group?: string }, event: ProgramEvent): Promise<void> {
+    if (!isNotificationEvent(event.type)) return;
+    const notification: Notification = {
+      event: event.type,
+      programId: program.id,
+      programName: program.name,
+      group: program.group,
+      message: event.message,
+      time: event.time,
+      host: this.host,
+      actor: event.actor,
+      exitCode: event.exitCode,
+      signal: event.signal,
+    };
+    const channels = this.channels.filter(channel => channelMatches(channel, notification));
+    await Promise.all(channels.map(channel => this.deliver(channel.id, notification, 1)));
+  }
+
+  // Sends once, without retries, so the settings tab can show the outcome
+  async test(id: string, now: number = Date.now()): Promise<DeliveryStatus> {
+    const channel = this.find(id);
+    const notification: Notification = {
+      event: 'test',
+      programId: '',
+      programName: '',
+      message: `Test notification for channel ${channel.name}`,
+      time: now,
+      host: this.host,
+    };
+    try {
+      await this.send(channel, notification);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordDelivery(id, { time: now, ok: false, error: message, attempts: 1 });
+      throw new Error(`Sending to ${channel.name} failed: ${message}`);
+    }
+    const status = { time: now, ok: true, attempts: 1 };
+    this.recordDelivery(id, status);
+    return status;
+  }
+
+  private find(id: string): NotificationChannel {
+    const channel = this.channels.find(c => c.id === id);
+    if (!channel) throw new RpcError('NOT_FOUND', `Notification channel ${id} not found`);
+    return channel;
+  }
+
+  private async deliver(id: string, notification: Notification, attempt: number): Promise<void> {
+    const channel = this.channels.find(c => c.id === id);
+    // Removed, turned off or refiltered while waiting for a retry
+    if (!channel || !channelMatches(channel, notification)) return;
+
+    try {
+      await this.send(channel, notification);
+      this.recordDelivery(id, { time: Date.now(), ok: true, attempts: attempt });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const what = `${notification.event} of ${notification.programName} to ${channel.name}`;
+      if (attempt >= this.retry.attempts) {
+        logger.error('notify', `Giving up sending ${what} after ${attempt} attempts: ${message}`);
+        this.recordDelivery(id, { time: Date.now(), ok: false, error: message, attempts: attempt });
+        return;
+      }
+      const delay = retryDelay(attempt, this.retry);
+      logger.warn('notify', `Sending ${what} failed, retrying in ${delay}ms: ${message}`);
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        this.deliver(id, notification, attempt + 1);
+      }, delay);
+      timer.unref();
+      this.timers.add(timer);
+    }
+  }
+
+  private recordDelivery(id: string, status: DeliveryStatus) {
+    const channel = this.channels.find(c => c.id === id);
+    if (!channel) return;
+    channel.lastDelivery = status;
+    this.save();
+  }
+
+  // Drops the pending retries
+  shutdown() {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private save() {
+    const data = JSON.stringify(this.channels, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, data, { mode: 0o600 });
+      } catch (error) {
+        logger.error('notify', `Error saving notification channels ${this.filePath}:`, error);
+      }
+    });
+  }
+}
@@ -1,6 +1,16 @@
-import { Program, ProgramConfig } from './Program';
+import { Program, ProgramConfig, ProgramManager, ProgramStatus } from './Program';
 import * as childProcess from 'child_process';
 import treeKill from 'tree-kill';
+import { runProbe } from './HealthCheck';
+import { PtyProcess } from './PtyProcess';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MetricsSample } from './MetricsCollector';
+import { LimitExceededEvent } from './ResourceLimits';
+import { RunHistory } from './RunHistory';
+import { EventJournal } from './EventJournal';
+import * as environment from './environment';
 
 // Mock the dependencies
 jest.mock('child_process', () => ({
@@ -16,10 +26,38 @@ jest.mock('child_process', () => ({
 }));
 
 jest.mock('tree-kill', () => jest.fn((pid, signal, cb) => cb(null)));
+jest.mock('./HealthCheck', () => ({
+  ...jest.requireActual('./HealthCheck'),
+  runProbe: jest.fn()
+}));
+jest.mock('./PtyProcess', () => {
+  const { EventEmitter } = jest.requireActual('events');
+  return {
+    PtyProcess: jest.fn().mockImplementation(() => {
+      const mockPty = new EventEmitter();
+      mockPty.pid = 4321;
+      mockPty.alive = true;
+      mockPty.write = jest.fn();
+      mockPty.on('exit', () => { mockPty.alive = false; });
+      return mockPty;
+    })
+  };
+});
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'mock-uuid')
 }));
 
+// The private state and steps of a program that tests set or stub
+interface ProgramInternals {
+  status: ProgramStatus;
+  pid?: number;
+  updateStatus(status: ProgramStatus): void;
+  launch(): Promise<boolean>;
+  buildScreenCommand(): Promise<string>;
+  waitForExit(timeoutMs: number): Promise<boolean>;
+}
+const internals = (program: Program) => program as unknown as ProgramInternals;
+
 describe('Program', () => {
   let program: Program;
   const mockConfig: ProgramConfig = {
@@ -79,11 +117,21 @@ describe('Program', () => {
         name: 'Test Program',
         command: 'echo "Hello World"',
         screenName: 'test-screen',
+        runtime: 'screen',
         maxChildDepth: 1,
         autoStart: false,
+        restartPolicy: { mode: 'never' },
+        dependsOn: [],
+        env: {},
         pid: undefined,
         status: 'stopped',
-        screenActive: false
+        screenActive: false,
+        restart: {
+          attempts: 0,
+          maxRetries: 5,
+          nextAttemptAt: undefined,
+          crashLoop: false
+        }
       });
     });
   });
@@ -202,4 +250,775 @@ describe('Program', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('stop sequence', () => {
+    let killMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      killMock = jest.spyOn(process, 'kill').mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      killMock.mockRestore();
+    });
+
+    const runningProgram = (stopSequence: ProgramConfig['stopSequence']) => {
+      const p = new Program({ ...mockConfig, stopSequence }, './config.json');
+      internals(p).status = 'running';
+      internals(p).pid = 12345;
+      return p;
+    };
+
+    it('should escalate through the steps and report progress', async () => {
+      const escalating = runningProgram([
+        { signal: 'SIGINT', timeoutMs: 0 },
+        { signal: 'SIGTERM', timeoutMs: 0 },
+        { signal: 'SIGKILL', timeoutMs: 0 }
+      ]);
+      let killed = false;
+      (treeKill as unknown as jest.Mock).mockImplementationOnce((pid, signal, cb) => {
+        killed = true;
+        cb(null);
+      });
+      jest.spyOn(escalating, 'findProcessPid').mockImplementation(async () => killed ? undefined : 12345);
+      const progress: string[] = [];
+      escalating.setStatusChangeCallback(state => {
+        progress.push(state.stopProgress ? `${state.status} ${state.stopProgress.step}/${state.stopProgress.total}` : state.status);
+      });
+
+      expect(await escalating.stop()).toBe(true);
+
+      expect(killMock.mock.calls).toEqual([[12345, 'SIGINT'], [12345, 'SIGTERM']]);
+      expect(treeKill).toHaveBeenCalledWith(12345, 'SIGKILL', expect.any(Function));
+      expect(progress).toEqual(['stopping 1/3', 'stopping 2/3', 'stopping 3/3', 'stopped']);
+    });
+
+    it('should stop at the first step the process exits on', async () => {
+      const graceful = runningProgram([
+        { signal: 'SIGTERM', timeoutMs: 0 },
+        { signal: 'SIGKILL', timeoutMs: 0 }
+      ]);
+      jest.spyOn(graceful, 'findProcessPid').mockResolvedValue(undefined);
+
+      expect(await graceful.stop()).toBe(true);
+      expect(killMock).toHaveBeenCalledWith(12345, 'SIGTERM');
+      expect(treeKill).not.toHaveBeenCalled();
+      expect(graceful.getState().status).toBe('stopped');
+    });
+
+    it('should report failure and keep running when every step fails', async () => {
+      const stubborn = runningProgram([{ signal: 'SIGQUIT', timeoutMs: 0 }]);
+      jest.spyOn(stubborn, 'findProcessPid').mockResolvedValue(12345);
+
+      expect(await stubborn.stop()).toBe(false);
+      expect(stubborn.getState()).toEqual(expect.objectContaining({ status: 'running', stopProgress: undefined }));
+    });
+  });
+
+  describe('restart policy', () => {
+    const crash = (p: Program) => {
+      internals(p).status = 'running';
+      internals(p).updateStatus('stopped');
+    };
+
+    it('should not schedule a restart with the default policy', () => {
+      crash(program);
+      expect(program.getState().restart.nextAttemptAt).toBeUndefined();
+    });
+
+    it('should schedule restarts with exponential backoff', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      const crashing = new Program({
+        ...mockConfig,
+        restartPolicy: { mode: 'on-failure', initialDelayMs: 100, maxDelayMs: 1000 }
+      }, './config.json');
+      jest.spyOn(internals(crashing), 'launch').mockResolvedValue(true);
+
+      crash(crashing);
+      expect(crashing.getState().restart.nextAttemptAt).toBe(1100);
+
+      expect(await crashing.restartIfDue(1050)).toBe(false);
+      expect(await crashing.restartIfDue(1100)).toBe(true);
+      expect(crashing.getState().restart.attempts).toBe(1);
+
+      crash(crashing);
+      expect(crashing.getState().restart.nextAttemptAt).toBe(1200);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should enter crash loop state after maxRetries attempts in the window', async () => {
+      const crashing = new Program({
+        ...mockConfig,
+        restartPolicy: { mode: 'always', maxRetries: 2, initialDelayMs: 0 }
+      }, './config.json');
+      jest.spyOn(internals(crashing), 'launch').mockResolvedValue(true);
+
+      for (let i = 0; i < 2; i++) {
+        crash(crashing);
+        await crashing.restartIfDue(Number.MAX_SAFE_INTEGER);
+      }
+      crash(crashing);
+
+      const { restart } = crashing.getState();
+      expect(restart.crashLoop).toBe(true);
+      expect(restart.nextAttemptAt).toBeUndefined();
+
+      // A manual start clears the crash loop
+      await crashing.start();
+      expect(crashing.getState().restart).toEqual(expect.objectContaining({ attempts: 0, crashLoop: false }));
+    });
+
+    it('should not restart a program that was stopped on request', async () => {
+      const stopped = new Program({
+        ...mockConfig,
+        restartPolicy: { mode: 'always' }
+      }, './config.json');
+      internals(stopped).status = 'running';
+      internals(stopped).pid = 12345;
+
+      const kill = jest.spyOn(process, 'kill').mockReturnValue(true);
+      await stopped.stop();
+      kill.mockRestore();
+
+      expect(stopped.getState().restart.nextAttemptAt).toBeUndefined();
+    });
+  });
+
+  describe('pty runtime', () => {
+    const ptyConfig: ProgramConfig = {
+      ...mockConfig,
+      runtime: 'pty',
+      restartPolicy: { mode: 'on-failure', initialDelayMs: 0 }
+    };
+
+    it('should spawn the command under a pty and track its PID', async () => {
+      const ptyProgram = new Program(ptyConfig, './config.json');
+      expect(await ptyProgram.start()).toBe(true);
+
+      expect(PtyProcess).toHaveBeenCalledWith('echo "Hello World"', expect.objectContaining({ cwd: undefined }));
+      expect(childProcess.exec).not.toHaveBeenCalled();
+      expect(ptyProgram.getState()).toEqual(expect.objectContaining({ status: 'running', pid: 4321, screenActive: true }));
+    });
+
+    it('should not restart after a clean exit with on-failure', async () => {
+      const ptyProgram = new Program(ptyConfig, './config.json');
+      await ptyProgram.start();
+
+      ptyProgram.getPtyProcess()!.emit('exit', { exitCode: 0 });
+
+      const state = ptyProgram.getState();
+      expect(state.status).toBe('stopped');
+      expect(state.pid).toBeUndefined();
+      expect(state.restart.nextAttemptAt).toBeUndefined();
+    });
+
+    it('should schedule a restart after a non-zero exit code with on-failure', async () => {
+      const ptyProgram = new Program(ptyConfig, './config.json');
+      await ptyProgram.start();
+
+      ptyProgram.getPtyProcess()!.emit('exit', { exitCode: 1 });
+
+      expect(ptyProgram.getState().restart.nextAttemptAt).toBeDefined();
+    });
+
+    it('should pass the working directory and environment to the pty', async () => {
+      const ptyProgram = new Program({ ...ptyConfig, cwd: '/srv/app', env: { PORT: '8080' } }, './config.json');
+      await ptyProgram.start();
+
+      const options = (PtyProcess as unknown as jest.Mock).mock.calls[0][1];
+      expect(options.cwd).toBe('/srv/app');
+      expect(options.env.PORT).toBe('8080');
+      expect(options.env.PATH).toBe(process.env.PATH);
+    });
+
+    it('should run a runAs program through sudo with the limits outside it', async () => {
+      const lookup = jest.spyOn(environment, 'lookupUser').mockReturnValue({ uid: 1001, gid: 1001, home: '/home/deploy' });
+      const write = jest.spyOn(environment, 'writeFileAs').mockResolvedValue();
+      const ptyProgram = new Program({ ...ptyConfig, runAs: 'deploy', env: { PORT: '8080' }, limits: { nice: -5 } }, './config.json');
+      await ptyProgram.start();
+
+      const [command, options] = (PtyProcess as unknown as jest.Mock).mock.calls[0];
+      expect(command).toBe(`exec /usr/bin/nice -n -5 /usr/bin/sudo -n -H -u deploy -- sh -c '. '\\''/home/deploy/.startup-manager/env/test-id.env'\\'' && exec sh -c '\\''echo "Hello World"'\\'''`);
+      expect(options).toEqual({ cwd: '/home/deploy' });
+      expect(write).toHaveBeenCalledWith('deploy', '/home/deploy/.startup-manager/env/test-id.env', `export PORT='8080'\n`);
+      lookup.mockRestore();
+      write.mockRestore();
+    });
+
+    it('should write commands to the pty', async () => {
+      const ptyProgram = new Program(ptyConfig, './config.json');
+      await ptyProgram.start();
+
+      expect(await ptyProgram.sendCommandToScreen('status')).toBe(true);
+      expect(ptyProgram.getPtyProcess()!.write).toHaveBeenCalledWith('status\r');
+    });
+  });
+
+  describe('schedules and run history', () => {
+    let dir: string;
+    const jobConfig: ProgramConfig = {
+      ...mockConfig,
+      runtime: 'pty',
+      runOnce: true,
+      restartPolicy: { mode: 'always', initialDelayMs: 0 },
+      schedule: { cron: '*/10 * * * *', timezone: 'UTC' }
+    };
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should compute the next run time and start the program when it is due', async () => {
+      const job = new Program(jobConfig, './config.json');
+      const start = jest.spyOn(job, 'start').mockResolvedValue(true);
+      const now = Date.UTC(2024, 0, 1, 12, 3);
+
+      expect(job.getNextRunAt(now)).toBe(Date.UTC(2024, 0, 1, 12, 10));
+      expect(await job.runScheduleIfDue(now)).toBe(false);
+      expect(await job.runScheduleIfDue(Date.UTC(2024, 0, 1, 12, 10, 2))).toBe(true);
+
+      expect(start).toHaveBeenCalledWith('schedule');
+      expect(job.getNextRunAt()).toBe(Date.UTC(2024, 0, 1, 12, 20));
+    });
+
+    it('should skip a scheduled run while the previous one is still running', async () => {
+      const job = new Program(jobConfig, './config.json');
+      const start = jest.spyOn(job, 'start');
+      internals(job).status = 'running';
+      job.getNextRunAt(Date.UTC(2024, 0, 1, 12, 3));
+
+      expect(await job.runScheduleIfDue(Date.UTC(2024, 0, 1, 12, 10))).toBe(false);
+      expect(start).not.toHaveBeenCalled();
+    });
+
+    it('should treat the exit of a run-once program as a completed run', async () => {
+      const job = new Program(jobConfig, './config.json');
+      job.runHistory = new RunHistory(path.join(dir, 'job.json'));
+      await job.start('schedule');
+
+      job.getPtyProcess()!.emit('exit', { exitCode: 0 });
+
+      const state = job.getState();
+      expect(state.restart.nextAttemptAt).toBeUndefined();
+      expect(state.lastRun).toEqual(expect.objectContaining({ trigger: 'schedule', exitCode: 0, result: 'success' }));
+      expect(state.lastRun!.durationMs).toBeGreaterThanOrEqual(0);
+
+      await job.runHistory!.flush();
+      expect(JSON.parse(fs.readFileSync(path.join(dir, 'job.json'), 'utf-8'))).toHaveLength(1);
+    });
+
+    it('should retry a run-once program only after a non-zero exit code', async () => {
+      const job = new Program(jobConfig, './config.json');
+      await job.start();
+
+      job.getPtyProcess()!.emit('exit', { exitCode: 2 });
+
+      expect(job.getState().restart.nextAttemptAt).toBeDefined();
+    });
+  });
+
+  describe('exit status and events', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'program-events-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should record who started and stopped a program', async () => {
+      const ptyProgram = new Program({ ...mockConfig, runtime: 'pty' }, './config.json');
+      ptyProgram.eventJournal = new EventJournal(path.join(dir, 'events.jsonl'));
+      await ptyProgram.start('manual', 'alice');
+      jest.spyOn(internals(ptyProgram), 'waitForExit').mockImplementation(async () => {
+        ptyProgram.getPtyProcess()!.emit('exit', { exitCode: 0, signal: 2 });
+        return true;
+      });
+
+      await ptyProgram.stop('bob');
+
+      const events = ptyProgram.eventJournal.list();
+      expect(events.map(event => [event.type, event.actor])).toEqual([['stopped', 'bob'], ['started', 'alice']]);
+      expect(events[0]).toEqual(expect.objectContaining({ message: 'Stopped by SIGINT', signal: 'SIGINT' }));
+    });
+
+    it('should record an unrequested non-zero exit as a crash', async () => {
+      const ptyProgram = new Program({ ...mockConfig, runtime: 'pty' }, './config.json');
+      ptyProgram.eventJournal = new EventJournal(path.join(dir, 'events.jsonl'));
+      await ptyProgram.start();
+
+      ptyProgram.getPtyProcess()!.emit('exit', { exitCode: 1 });
+
+      expect(ptyProgram.eventJournal.list()[0]).toEqual(expect.objectContaining({ type: 'crashed', message: 'Crashed with code 1', exitCode: 1 }));
+      expect(ptyProgram.getState().lastExit).toEqual(expect.objectContaining({ code: 1 }));
+    });
+
+    it('should read the exit status written by the screen session', async () => {
+      const screenProgram = new Program(mockConfig, './config.json');
+      screenProgram.exitStatusFile = path.join(dir, 'exit');
+      fs.writeFileSync(screenProgram.exitStatusFile, '137\n');
+      internals(screenProgram).status = 'running';
+
+      internals(screenProgram).updateStatus('stopped');
+
+      expect(screenProgram.getState().lastExit).toEqual(expect.objectContaining({ code: 137, signal: 'SIGKILL' }));
+    });
+
+    it('should type the command with the exit status capture into the screen session', async () => {
+      const screenProgram = new Program(mockConfig, path.join(dir, 'config.json'));
+      screenProgram.exitStatusFile = path.join(dir, 'exit', 'test');
+
+      const command = await internals(screenProgram).buildScreenCommand();
+
+      expect(command).toBe(`( echo "Hello World" ); echo \\$? > '${screenProgram.exitStatusFile}'`);
+    });
+  });
+
+  describe('environment', () => {
+    it('should mask secret values in the state but not in the config', () => {
+      const withSecrets = new Program({ ...mockConfig, env: { API_KEY: 'abc', PORT: '80' } }, './config.json');
+      expect(withSecrets.getState().env).toEqual({ API_KEY: '********', PORT: '80' });
+      expect(withSecrets.toJSON().env).toEqual({ API_KEY: 'abc', PORT: '80' });
+    });
+
+    it('should run the screen command in its working directory as another user', async () => {
+      const configured = new Program({ ...mockConfig, cwd: "/srv/o'app", runAs: 'deploy' }, './config.json');
+      const command = await internals(configured).buildScreenCommand();
+      expect(command).toBe(`( cd '/srv/o'\\''app' && exec /usr/bin/sudo -n -H -u deploy -- sh -c 'echo "Hello World"' )`);
+    });
+
+    it('should source the variables of a runAs program only in the shell that runs as the user', async () => {
+      const lookup = jest.spyOn(environment, 'lookupUser').mockReturnValue({ uid: 1001, gid: 1001, home: '/home/deploy' });
+      const write = jest.spyOn(environment, 'writeFileAs').mockResolvedValue();
+      const configured = new Program({ ...mockConfig, runAs: 'deploy', env: { PATH: '/home/deploy/bin' }, limits: { nice: -5 } }, './config.json');
+
+      const command = await internals(configured).buildScreenCommand();
+
+      const envPath = '/home/deploy/.startup-manager/env/test-id.env';
+      expect(write).toHaveBeenCalledWith('deploy', envPath, `export PATH='/home/deploy/bin'\n`);
+      expect(command).toBe(`( exec /usr/bin/nice -n -5 /usr/bin/sudo -n -H -u deploy -- sh -c '. '\\''${envPath}'\\'' && exec sh -c '\\''echo "Hello World"'\\''' )`);
+      lookup.mockRestore();
+      write.mockRestore();
+    });
+
+    it('should type the plain command without environment settings', async () => {
+      expect(await internals(program).buildScreenCommand()).toBe('echo "Hello World"');
+    });
+  });
+
+  describe('resource limits', () => {
+    const sample = (overrides: Partial<MetricsSample> = {}): MetricsSample => ({
+      time: 0, cpu: 0, rss: 0, threads: 1, fds: 3, processes: 1, uptime: 10, ...overrides
+    });
+    let limited: Program;
+
+    beforeEach(() => {
+      limited = new Program({
+        ...mockConfig,
+        limits: {
+          memoryMb: { max: 100, action: 'restart' },
+          cpuPercent: { max: 80, sustainedMs: 30000 },
+          openFiles: { max: 64 },
+          nice: 10
+        }
+      }, './config.json');
+      internals(limited).status = 'running';
+      internals(limited).pid = 12345;
+    });
+
+    it('should apply nice and the open file limit when launching', async () => {
+      expect(await internals(limited).buildScreenCommand()).toBe(`( exec /usr/bin/nice -n 10 /usr/bin/prlimit --nofile=64:64 -- sh -c 'echo "Hello World"' )`);
+    });
+
+    it('should restart once when memory goes over the limit', async () => {
+      const events: LimitExceededEvent[] = [];
+      limited.on('limitExceeded', (event: LimitExceededEvent) => events.push(event));
+      const stopSpy = jest.spyOn(limited, 'stop').mockResolvedValue(true);
+
+      await limited.checkLimits(sample({ rss: 150 * 1024 * 1024 }));
+      expect(events).toEqual([{ programId: 'test-id', programName: 'Test Program', limit: 'memory', value: 150, max: 100, action: 'restart', time: 0 }]);
+      expect(stopSpy).toHaveBeenCalledTimes(1);
+      expect(limited.getState().restart.nextAttemptAt).toBeDefined();
+
+      // Still over the limit: no new event until usage drops below it
+      internals(limited).status = 'running';
+      await limited.checkLimits(sample({ time: 3000, rss: 150 * 1024 * 1024 }));
+      expect(events).toHaveLength(1);
+      expect(limited.getState().limitsExceeded).toEqual(['memory']);
+    });
+
+    it('should only report CPU usage that stays over the limit', async () => {
+      const events: LimitExceededEvent[] = [];
+      limited.on('limitExceeded', (event: LimitExceededEvent) => events.push(event));
+      const stopSpy = jest.spyOn(limited, 'stop');
+
+      await limited.checkLimits(sample({ time: 0, cpu: 95 }));
+      await limited.checkLimits(sample({ time: 15000, cpu: 20 }));
+      await limited.checkLimits(sample({ time: 18000, cpu: 95 }));
+      expect(events).toHaveLength(0);
+
+      await limited.checkLimits(sample({ time: 48000, cpu: 90 }));
+      expect(events.map(event => [event.limit, event.action])).toEqual([['cpu', 'warn']]);
+      expect(stopSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('health checks', () => {
+    let checked: Program;
+
+    beforeEach(() => {
+      checked = new Program({
+        ...mockConfig,
+        healthCheck: { type: 'tcp', port: 8080, intervalMs: 0, unhealthyThreshold: 2 }
+      }, './config.json');
+      internals(checked).status = 'running';
+    });
+
+    it('should become healthy after a successful probe', async () => {
+      (runProbe as jest.Mock).mockResolvedValue({ ok: true, message: 'ok' });
+      await checked.checkHealth();
+      expect(checked.getState().health).toBe('healthy');
+    });
+
+    it('should become unhealthy after unhealthyThreshold failures', async () => {
+      (runProbe as jest.Mock).mockResolvedValue({ ok: false, message: 'refused' });
+      await checked.checkHealth();
+      expect(checked.getState().health).toBe('starting');
+      await checked.checkHealth();
+      expect(checked.getState().health).toBe('unhealthy');
+    });
+
+    it('should restart an unhealthy program when configured', async () => {
+      checked.healthCheck = { ...checked.healthCheck!, unhealthyThreshold: 1, restartOnUnhealthy: true };
+      (runProbe as jest.Mock).mockResolvedValue({ ok: false, message: 'refused' });
+      const stopSpy = jest.spyOn(checked, 'stop').mockResolvedValue(true);
+
+      await checked.checkHealth();
+
+      expect(stopSpy).toHaveBeenCalled();
+      expect(checked.getState().restart.nextAttemptAt).toBeDefined();
+    });
+
+    it('should not probe a stopped program', async () => {
+      internals(checked).status = 'stopped';
+      await checked.checkHealth();
+      expect(runProbe).not.toHaveBeenCalled();
+      expect(checked.getState().health).toBeUndefined();
+    });
+  });
+});
+
+describe('ProgramManager bulk actions', () => {
+  let dir: string;
+  let manager: ProgramManager;
+  const config = (id: string, group: string, dependsOn: string[] = []): ProgramConfig => ({
+    id, name: id, command: `run-${id}`, screenName: id, group, dependsOn
+  });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'program-manager-'));
+    const configPath = path.join(dir, 'programs.json');
+    fs.writeFileSync(configPath, JSON.stringify([
+      config('web', 'app', ['db']),
+      config('db', 'app'),
+      config('worker', 'app', ['db']),
+      config('other', 'tools')
+    ]));
+    manager = new ProgramManager(configPath);
+    await manager.loadPrograms();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start a group in dependency order with bounded concurrency', async () => {
+    const started: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+    for (const program of manager.getPrograms()) {
+      jest.spyOn(program, 'start').mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        started.push(program.id);
+        return true;
+      });
+    }
+
+    const results = await manager.startGroup('app', 1);
+
+    expect(started).toEqual(['db', 'web', 'worker']);
+    expect(maxRunning).toBe(1);
+    expect(results.map(r => [r.id, r.success])).toEqual([['web', true], ['db', true], ['worker', true]]);
+  });
+
+  it('should skip programs whose dependency failed to start', async () => {
+    jest.spyOn(manager.getProgram('db')!, 'start').mockResolvedValue(false);
+    const webStart = jest.spyOn(manager.getProgram('web')!, 'start').mockResolvedValue(true);
+
+    const results = await manager.runBulk(['web', 'db', 'missing'], 'start');
+
+    expect(webStart).not.toHaveBeenCalled();
+    expect(results).toEqual([
+      { id: 'web', name: 'web', success: false, error: 'Dependency db did not start' },
+      { id: 'db', name: 'db', success: false, error: 'Failed to start db' },
+      { id: 'missing', name: 'missing', success: false, error: 'Program with id missing not found' }
+    ]);
+  });
+
+  it('should fail starts and stops of programs that did not start or stop', async () => {
+    jest.spyOn(manager.getProgram('db')!, 'start').mockResolvedValue(false);
+    const webStart = jest.spyOn(manager.getProgram('web')!, 'start').mockResolvedValue(true);
+    const workerStop = jest.spyOn(manager.getProgram('worker')!, 'stop').mockResolvedValue(false);
+
+    await expect(manager.startProgram('db')).rejects.toMatchObject({ code: 'FAILED', message: 'Failed to start db' });
+    await expect(manager.startProgram('web', true)).rejects.toThrow('Failed to start web');
+    expect(webStart).not.toHaveBeenCalled();
+    await expect(manager.startProgram('web')).resolves.toBe(manager.getProgram('web'));
+    await expect(manager.stopProgram('worker')).resolves.toBe(manager.getProgram('worker'));
+    expect(workerStop).not.toHaveBeenCalled();
+    const worker = manager.getProgram('worker')!;
+    jest.spyOn(worker, 'getState').mockReturnValue({ ...worker.getState(), status: 'running' });
+    await expect(manager.stopProgram('worker')).rejects.toThrow('Failed to stop worker');
+    await expect(manager.stopProgram('missing')).rejects.toMatchObject({ code: 'NOT_FOUND', message: 'Program with id missing not found' });
+  });
+
+  it('should stop a running program before deleting it', async () => {
+    const other = manager.getProgram('other')!;
+    jest.spyOn(other, 'getState').mockReturnValue({ ...other.getState(), status: 'running' });
+    const stop = jest.spyOn(other, 'stop').mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+
+    await expect(manager.deleteProgram('other', 'alice')).rejects.toThrow('Failed to stop other, so it was not deleted');
+    expect(manager.getProgram('other')).toBe(other);
+
+    await expect(manager.deleteProgram('other', 'alice')).resolves.toBe(true);
+    expect(stop).toHaveBeenLastCalledWith('alice');
+    expect(manager.getProgram('other')).toBeUndefined();
+  });
+
+  it('should stop dependents first and skip programs that are not running', async () => {
+    const stopped: string[] = [];
+    for (const id of ['web', 'db']) {
+      const program = manager.getProgram(id)!;
+      internals(program).status = 'running';
+      jest.spyOn(program, 'stop').mockImplementation(async () => {
+        stopped.push(id);
+        return true;
+      });
+    }
+
+    const results = await manager.stopGroup('app');
+
+    expect(stopped).toEqual(['web', 'db']);
+    expect(results.find(r => r.id === 'worker')).toEqual({ id: 'worker', name: 'worker', success: true, skipped: true });
+  });
+
+  it('should save normalized access lists and clear them with null', async () => {
+    await manager.updateProgram('web', { acl: { control: [' @backend ', 'alice', 'alice'], edit: [] } });
+    expect(manager.getProgram('web')!.getState().acl).toEqual({ control: ['@backend', 'alice'] });
+
+    // As sent by editProgram, whose params clear a setting with null
+    const cleared = { acl: null } as unknown as Partial<ProgramConfig>;
+    await manager.updateProgram('web', cleared);
+    expect(manager.getProgram('web')!.acl).toBeUndefined();
+  });
+
+  it('should refuse a screen name another program has', async () => {
+    await expect(manager.updateProgram('web', { screenName: 'db' })).rejects.toThrow('Screen name db is used by db');
+    await expect(manager.addProgram({ name: 'db2', command: 'run-db2', screenName: 'db' })).rejects.toThrow('Screen name db is used by db');
+    expect((await manager.addProgram({ name: 'db', command: 'run-db2', screenName: 'db2' })).screenName).toBe('db2');
+    await expect(manager.updateProgram('web', { screenName: 'web' })).resolves.toBeDefined();
+  });
+});
+
+describe('ProgramManager config reload', () => {
+  let dir: string;
+  let configPath: string;
+  let manager: ProgramManager;
+  const config = (id: string, overrides: Partial<ProgramConfig> = {}): ProgramConfig => ({
+    id, name: id, command: `run-${id}`, screenName: id, ...overrides
+  });
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-reload-'));
+    configPath = path.join(dir, 'programs.json');
+    fs.writeFileSync(configPath, JSON.stringify([config('web', { dependsOn: ['db'] }), config('db'), config('old')]));
+    manager = new ProgramManager(configPath);
+    await manager.loadPrograms();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply only what changed in the file', async () => {
+    const web = manager.getProgram('web')!;
+    const old = manager.getProgram('old')!;
+    Object.assign(web, { status: 'running' });
+    Object.assign(old, { status: 'running' });
+    const webStop = jest.spyOn(web, 'stop').mockResolvedValue(true);
+    const oldStop = jest.spyOn(old, 'stop').mockResolvedValue(true);
+    const notices: unknown[] = [];
+    manager.setConfigReloadCallback(notice => notices.push(notice));
+    fs.writeFileSync(configPath, JSON.stringify([
+      config('new', { name: 'New' }),
+      config('web', { dependsOn: ['db'], command: 'run-web --port 8080' }),
+      config('db')
+    ]));
+
+    const dryRun = await manager.reloadPrograms({ dryRun: true, actor: 'alice' });
+    expect(dryRun).toEqual({
+      applied: false,
+      actor: 'alice',
+      diff: {
+        added: [{ id: 'new', name: 'New' }],
+        removed: [{ id: 'old', name: 'old' }],
+        changed: [{ id: 'web', name: 'web', fields: ['command'], running: true }],
+        unchanged: 1
+      }
+    });
+    expect(manager.getPrograms().map(p => p.id)).toEqual(['web', 'db', 'old']);
+
+    const result = await manager.reloadPrograms({ actor: 'alice' });
+    expect(result.applied).toBe(true);
+    expect(manager.getPrograms().map(p => p.id)).toEqual(['new', 'web', 'db']);
+    expect(manager.getProgram('web')).toBe(web);
+    expect(web.command).toBe('run-web --port 8080');
+    expect(webStop).not.toHaveBeenCalled();
+    expect(oldStop).toHaveBeenCalledWith('alice');
+    expect(notices).toEqual([expect.objectContaining({ actor: 'alice', diff: result.diff })]);
+    expect(JSON.parse(fs.readFileSync(configPath, 'utf-8'))[0]).toMatchObject({ id: 'new', runtime: 'screen' });
+  });
+
+  it('should reject an invalid file without changing anything', async () => {
+    fs.writeFileSync(configPath, JSON.stringify([config('web', { dependsOn: ['db'] })]));
+    await expect(manager.reloadPrograms()).rejects.toThrow('web: Dependency with id db not found');
+
+    fs.writeFileSync(configPath, JSON.stringify([config('web', { dependsOn: ['db'] }), config('db', { dependsOn: ['web'] })]));
+    await expect(manager.reloadPrograms()).rejects.toThrow('Dependency cycle detected');
+
+    fs.writeFileSync(configPath, JSON.stringify([config('web'), { ...config('db'), comand: 'typo' }]));
+    await expect(manager.reloadPrograms()).rejects.toThrow('Invalid config file: program 2: Unrecognized key(s) in object: \'comand\'');
+
+    fs.writeFileSync(configPath, JSON.stringify([config('web'), config('db', { screenName: 'web' })]));
+    await expect(manager.reloadPrograms()).rejects.toThrow('Screen name web is used by web and db');
+
+    fs.writeFileSync(configPath, '[{"id": "web",');
+    await expect(manager.reloadPrograms()).rejects.toThrow('Invalid config file');
+    expect(manager.getPrograms().map(p => p.id)).toEqual(['web', 'db', 'old']);
+  });
+
+  it('should terminate a removed program that does not stop, and keep it if that fails too', async () => {
+    const old = manager.getProgram('old')!;
+    internals(old).status = 'running';
+    jest.spyOn(old, 'stop').mockResolvedValue(false);
+    const terminate = jest.spyOn(old, 'terminate').mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    fs.writeFileSync(configPath, JSON.stringify([config('web', { dependsOn: ['db'] }), config('db')]));
+
+    await expect(manager.reloadPrograms({ actor: 'alice' })).rejects.toThrow('Failed to stop old, so the config was not applied');
+    expect(manager.getProgram('old')).toBe(old);
+
+    await expect(manager.reloadPrograms({ actor: 'alice' })).resolves.toMatchObject({ applied: true });
+    expect(terminate).toHaveBeenLastCalledWith('alice');
+    expect(manager.getProgram('old')).toBeUndefined();
+  });
+
+  it('should keep every saved change as a version to roll back to', async () => {
+    await manager.deleteProgram('old', 'alice');
+    await manager.updateProgram('db', { command: 'run-db --fast' }, 'alice');
+
+    expect(manager.listConfigVersions().map(info => [info.version, info.actor, info.reason])).toEqual([
+      [3, 'alice', 'Changed db: command'],
+      [2, 'alice', 'Deleted old'],
+      [1, 'config file', 'Loaded at startup']
+    ]);
+    expect(await manager.diffConfigVersions(1)).toEqual({
+      added: [], removed: [{ id: 'old', name: 'old' }], changed: [{ id: 'db', name: 'db', fields: ['command'] }], unchanged: 1
+    });
+    await expect(manager.diffConfigVersions(9)).rejects.toThrow('Config version 9 not found');
+
+    const result = await manager.rollbackConfig(1, { actor: 'bob' });
+    expect(result.diff.added).toEqual([{ id: 'old', name: 'old' }]);
+    expect(manager.getPrograms().map(p => p.id)).toEqual(['web', 'db', 'old']);
+    expect(manager.getProgram('db')!.command).toBe('run-db');
+    expect(manager.listConfigVersions()[0]).toMatchObject({ version: 4, actor: 'bob', reason: 'Rolled back to version 1: 1 added, 1 changed' });
+    expect(JSON.parse(fs.readFileSync(configPath, 'utf-8')).map((c: ProgramConfig) => c.id)).toEqual(['web', 'db', 'old']);
+  });
+
+  it('should merge imported programs and report the conflicts', async () => {
+    const stack = 'programs:\n  web:\n    command: run-web --port 8080\n    dependsOn: [db]\n  cache:\n    command: run-cache\n    dependsOn: [web]\n';
+
+    const check = await manager.importConfig(stack, 'yaml', { dryRun: true });
+    expect(check.conflicts).toEqual([{ id: 'web', name: 'web', fields: ['command'] }]);
+    expect(check.diff).toMatchObject({ added: [{ id: 'cache', name: 'cache' }], removed: [], unchanged: 2 });
+    await expect(manager.importConfig(stack, 'yaml')).rejects.toThrow('web: a program already exists with other settings');
+
+    const skipped = await manager.importConfig(stack, 'yaml', { conflicts: 'skip', actor: 'alice' });
+    expect(skipped.diff.changed).toEqual([]);
+    expect(manager.getProgram('web')!.command).toBe('run-web');
+    expect(manager.getProgram('cache')!.dependsOn).toEqual(['web']);
+    expect(manager.listConfigVersions()[0]).toMatchObject({ actor: 'alice', reason: 'Imported programs: 1 added' });
+
+    await manager.importConfig(stack, 'yaml', { conflicts: 'overwrite' });
+    expect(manager.getProgram('web')!.command).toBe('run-web --port 8080');
+    expect(manager.getPrograms().map(p => p.id)).toEqual(['web', 'db', 'old', 'cache']);
+    expect(manager.exportConfig('toml')).toContain('[programs.cache]\ncommand = "run-cache"\ndependsOn = [ "web" ]');
+  });
+
+  it('should load a YAML stack file and never rewrite it', async () => {
+    const stackPath = path.join(dir, 'stack.yaml');
+    process.env.STACK_TEST_PORT = '9000';
+    const text = [
+      '# Services of the host',
+      'defaults:',
+      '  runtime: pty',
+      'programs:',
+      '  api:',
+      '    command: node api.js --port ${STACK_TEST_PORT}',
+      '  worker:',
+      '    command: ./worker.sh',
+      '    dependsOn: [api]',
+      ''
+    ].join('\n');
+    fs.writeFileSync(stackPath, text);
+    const stackManager = new ProgramManager(stackPath);
+    await stackManager.loadPrograms();
+    delete process.env.STACK_TEST_PORT;
+
+    expect(stackManager.getPrograms().map(p => p.toJSON())).toEqual([
+      expect.objectContaining({ id: 'api', name: 'api', screenName: 'api', runtime: 'pty', command: 'node api.js --port 9000' }),
+      expect.objectContaining({ id: 'worker', runtime: 'pty', dependsOn: ['api'] }),
+    ]);
+
+    const edited = text.replace('--port ${STACK_TEST_PORT}', '--port ${STACK_TEST_PORT:-8080}');
+    fs.writeFileSync(stackPath, edited);
+    const result = await stackManager.reloadPrograms();
+    expect(result.diff.changed).toEqual([{ id: 'api', name: 'api', fields: ['command'] }]);
+
+    // Saves keep the variables, defaults and comments of the stack file
+    await stackManager.updateProgram('worker', { autoStart: true });
+    expect(fs.readFileSync(stackPath, 'utf-8')).toBe(edited);
+    expect(fs.statSync(`${stackPath}.state.json`).mode & 0o777).toBe(0o600);
+
+    const restarted = new ProgramManager(stackPath);
+    await restarted.loadPrograms();
+    expect(restarted.getProgram('worker')!.autoStart).toBe(true);
+    expect(restarted.getProgram('api')!.command).toBe('node api.js --port 8080');
+
+    // Until the stack file changes, which replaces the changes made in the manager
+    fs.writeFileSync(stackPath, edited.replace('./worker.sh', './worker.sh --verbose'));
+    const reloaded = new ProgramManager(stackPath);
+    await reloaded.loadPrograms();
+    expect(reloaded.getProgram('worker')!.toJSON()).toMatchObject({ command: './worker.sh --verbose', autoStart: false });
+  });
+
 });
@@ -2,42 +2,202 @@ import { spawn } from 'child_process';
 import { v4 as uuidv4 } from 'uuid';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
 import { exec } from 'child_process';
 import logger from './logger';
 import treeKill from 'tree-kill';
 import { EventEmitter } from 'events';
+import { DependencyGraph, collectDependencies, findCycle, topologicalOrder } from './dependencyGraph';
+import { DEFAULT_HEALTH_CHECK, HealthCheckConfig, HealthStatus, runProbe } from './HealthCheck';
+import { PtyExit, PtyProcess } from './PtyProcess';
+import { ProgramLog } from './ProgramLog';
+import { EnvMap, lookupUser, maskEnv, mergeMaskedEnv, parseEnvFile, shellQuote, sudoCommand, validateEnvironment, writeFileAs } from './environment';
+import { createLimiter } from './concurrency';
+import { MetricsCollector, MetricsQuery, MetricsSample } from './MetricsCollector';
+import { LimitExceededEvent, LimitName, ResourceLimits, findViolations, limitCommandPrefix, validateLimits } from './ResourceLimits';
+import { CronExpression, validateTimeZone } from './CronExpression';
+import { RunHistory, RunRecord, RunResult, RunTrigger } from './RunHistory';
+import { EventJournal, EventQuery, ProgramEvent, ProgramEventType } from './EventJournal';
+import { ProgramAcl, normalizeAcl } from './permissions';
+import { SCREEN_NAME_PATTERN, programConfigSchema } from './rpcMethods';
+import { ConfigDiff, ConfigImportResult, ConfigReloadNotice, ConfigReloadResult, diffPrograms, isEmptyDiff, summarizeDiff } from './configDiff';
+import { ConfigChange, ConfigHistory, ConfigVersionInfo, writeFileAtomic } from './ConfigHistory';
+import { ConfigFormat, ConflictMode, StackProgram, defaultScreenName, formatOfPath, resolveDependencies } from './stackFile';
+import { ParsedConfig, parseConfig, serializeConfig } from './configFormats';
+import { RpcError } from './rpcErrors';
 
-export type StopMethod = 'SIGINT' | 'SIGHUP' | 'CTRL_C';
+export type StopMethod = 'SIGINT' | 'SIGHUP' | 'SIGTERM' | 'SIGQUIT' | 'CTRL_C';
+
+// A stop sequence step may also kill the whole process tree
+export type StopSignal = StopMethod | 'SIGKILL';
+
+export interface StopStep {
+  signal: StopSignal;
+  timeoutMs?: number; // time to wait for the process to exit before the next step
+}
+
+export const STOP_SIGNALS: StopSignal[] = ['SIGINT', 'SIGHUP', 'SIGTERM', 'SIGQUIT', 'CTRL_C', 'SIGKILL'];
+export const DEFAULT_STOP_STEP_TIMEOUT_MS = 5000;
+const STOP_POLL_INTERVAL_MS = 500;
+
+export interface StopProgress {
+  step: number;  // 1-based index of the step being waited on
+  total: number;
+  signal: StopSignal;
+}
+
+// 'screen' runs the command inside a GNU screen session, 'pty' spawns it
+// directly under node-pty so the manager owns the PID and sees the exit code.
+export type ProgramRuntime = 'screen' | 'pty';
+
+// 'never' leaves a dead program alone, 'on-failure' restarts it when it exits
+// without being asked to with a non-zero exit code (the screen runtime cannot
+// see exit codes, so there every unrequested exit counts as a failure) and
+// 'always' restarts it on any unrequested exit.
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+export interface RestartPolicy {
+  mode: RestartMode;
+  maxRetries?: number;     // restart attempts allowed inside windowMs before giving up
+  windowMs?: number;       // sliding window the attempts are counted in
+  initialDelayMs?: number; // delay before the first attempt, doubled for each further attempt
+  maxDelayMs?: number;     // upper bound for the backoff delay
+}
+
+export const DEFAULT_RESTART_POLICY: Required<RestartPolicy> = {
+  mode: 'never',
+  maxRetries: 5,
+  windowMs: 5 * 60 * 1000,
+  initialDelayMs: 1000,
+  maxDelayMs: 60 * 1000
+};
+
+export interface RestartState {
+  attempts: number;       // restart attempts made inside the current window
+  maxRetries: number;     // effective retry budget from the policy
+  nextAttemptAt?: number; // epoch ms of the pending restart, if one is scheduled
+  crashLoop: boolean;     // maxRetries exhausted, no further automatic restarts
+  total: number;          // automatic restarts since the manager started
+}
+
+export interface ProgramSchedule {
+  cron: string;      // five field cron expression or a macro such as @daily
+  timezone?: string; // IANA zone the expression is evaluated in, defaults to the server's
+  enabled?: boolean; // defaults to true
+}
 
 export interface ProgramConfig {
   id: string;
   name: string;
   command: string;
+  group?: string;   // programs with the same group are listed and controlled together
+  tags?: string[];
   screenName: string;
+  runtime?: ProgramRuntime;
   maxChildDepth?: number;
   autoStart?: boolean;
   stopMethod?: StopMethod;
+  stopSequence?: StopStep[]; // replaces stopMethod, e.g. SIGINT, wait, SIGTERM, wait, SIGKILL
+  restartPolicy?: RestartPolicy;
+  dependsOn?: string[]; // ids of programs that must be started before this one
+  healthCheck?: HealthCheckConfig;
+  cwd?: string;     // working directory, defaults to the manager's (screen) or HOME (pty)
+  env?: EnvMap;     // variables added to the inherited environment
+  envFile?: string; // dotenv file read at every start, relative to cwd; env takes precedence
+  runAs?: string;   // user to run the command as (the manager needs root or passwordless sudo)
+  limits?: ResourceLimits;
+  schedule?: ProgramSchedule; // start the program at the times of a cron expression
+  runOnce?: boolean; // the program exits when its work is done, so an exit is not a crash
+  acl?: ProgramAcl; // who may view, control, open a terminal to or edit the program
+}
+
+export type ProgramStatus = 'running' | 'stopping' | 'stopped' | 'error';
+
+// How the last run ended. The screen runtime learns the exit status from the
+// session's shell, so it is missing when the process was not started by the
+// manager or the shell itself was killed.
+export interface ProgramExit {
+  code?: number;
+  signal?: string;
+  time: number;
 }
 
-export type ProgramStatus = 'running' | 'stopped' | 'error';
+// Who acted when the manager itself started or stopped a program
+const TRIGGER_ACTORS: { [trigger in RunTrigger]?: string } = {
+  schedule: 'scheduler',
+  boot: 'auto-start',
+  restart: 'restart policy'
+};
 
 export interface ProgramState extends ProgramConfig {
   pid?: number;
   status: ProgramStatus;
   screenActive: boolean;
+  restart: RestartState;
+  stopProgress?: StopProgress; // only set while stopping
+  health?: HealthStatus; // only set while a program with a health check is running
+  limitsExceeded?: LimitName[]; // limits the running program is currently over
+  nextRunAt?: number; // epoch ms of the next scheduled start
+  lastRun?: RunRecord;
+  lastExit?: ProgramExit;
 }
 
 export class Program extends EventEmitter {
   id: string;
   name: string;
   command: string;
+  group?: string;
+  tags: string[];
   screenName: string;
+  runtime: ProgramRuntime;
   maxChildDepth: number;
   autoStart: boolean;
   stopMethod: StopMethod;
+  stopSequence?: StopStep[];
+  restartPolicy: RestartPolicy;
+  dependsOn: string[];
+  healthCheck?: HealthCheckConfig;
+  cwd?: string;
+  env: EnvMap;
+  envFile?: string;
+  runAs?: string;
+  limits?: ResourceLimits;
+  schedule?: ProgramSchedule;
+  runOnce: boolean;
+  acl?: ProgramAcl;
   private pid?: number;
   private status: ProgramStatus = 'stopped';
   private screenActive: boolean = false;
+  private stopRequested: boolean = false;
+  private restartAttempts: number[] = [];
+  private restartTotal: number = 0;
+  private nextRestartAt?: number;
+  private crashLoop: boolean = false;
+  private health?: HealthStatus;
+  private healthSuccesses: number = 0;
+  private healthFailures: number = 0;
+  private lastProbeAt: number = 0;
+  private probing: boolean = false;
+  private startedAt?: number;
+  private ptyProcess?: PtyProcess;
+  private lastExitCode?: number;
+  private stopProgress?: StopProgress;
+  private exceededLimits: Set<LimitName> = new Set();
+  private cpuOverSince?: number;
+  private lastExitSignal?: string;
+  private lastExit?: ProgramExit;
+  private runTrigger?: RunTrigger; // unset when the manager finds the program running on its own
+  private startActor?: string;
+  private stopActor?: string;
+  private nextRun?: { key: string, at?: number };
+  // File that screen sessions copy their output to, set by ProgramManager
+  screenLogFile?: string;
+  // File the screen session's shell writes the exit status to, set by ProgramManager
+  exitStatusFile?: string;
+  // Set by ProgramManager
+  runHistory?: RunHistory;
+  eventJournal?: EventJournal;
   private statusChangeCallback: ((program: ProgramState) => void) | null = null;
   private configPath: string;
   
@@ -46,10 +206,25 @@ export class Program extends EventEmitter {
     this.id = config.id || uuidv4();
     this.name = config.name;
     this.command = config.command;
+    this.group = config.group || undefined;
+    this.tags = config.tags || [];
     this.screenName = config.screenName;
+    this.runtime = config.runtime || 'screen';
     this.maxChildDepth = config.maxChildDepth || 1;
     this.autoStart = config.autoStart || false;
     this.stopMethod = config.stopMethod || 'SIGHUP';
+    this.stopSequence = config.stopSequence;
+    this.restartPolicy = config.restartPolicy || { mode: DEFAULT_RESTART_POLICY.mode };
+    this.dependsOn = config.dependsOn || [];
+    this.healthCheck = config.healthCheck;
+    this.cwd = config.cwd || undefined;
+    this.env = config.env || {};
+    this.envFile = config.envFile || undefined;
+    this.runAs = config.runAs || undefined;
+    this.limits = config.limits || undefined;
+    this.schedule = config.schedule || undefined;
+    this.runOnce = config.runOnce || false;
+    this.acl = config.acl || undefined;
     this.configPath = configPath;
   }
   
@@ -58,13 +233,41 @@ export class Program extends EventEmitter {
       id: this.id,
       name: this.name,
       command: this.command,
+      group: this.group,
+      tags: this.tags,
       screenName: this.screenName,
+      runtime: this.runtime,
       maxChildDepth: this.maxChildDepth,
       autoStart: this.autoStart,
       stopMethod: this.stopMethod,
+      stopSequence: this.stopSequence,
       pid: this.pid,
+      restartPolicy: this.restartPolicy,
+      dependsOn: this.dependsOn,
+      healthCheck: this.healthCheck,
+      cwd: this.cwd,
+      env: maskEnv(this.env),
+      envFile: this.envFile,
+      runAs: this.runAs,
+      limits: this.limits,
+      schedule: this.schedule,
+      runOnce: this.runOnce,
+      acl: this.acl,
       status: this.status,
-      screenActive: this.screenActive
+      screenActive: this.screenActive,
+      restart: {
+        attempts: this.restartAttempts.length,
+        maxRetries: this.restartPolicy.maxRetries ?? DEFAULT_RESTART_POLICY.maxRetries,
+        nextAttemptAt: this.nextRestartAt,
+        crashLoop: this.crashLoop,
+        total: this.restartTotal
+      },
+      stopProgress: this.status === 'stopping' ? this.stopProgress : undefined,
+      health: this.health,
+      limitsExceeded: this.status === 'running' && this.exceededLimits.size > 0 ? Array.from(this.exceededLimits) : undefined,
+      nextRunAt: this.getNextRunAt(),
+      lastRun: this.runHistory?.latest(),
+      lastExit: this.lastExit
     };
   }
   
@@ -79,13 +282,161 @@ export class Program extends EventEmitter {
   }
   
   private updateStatus(newStatus: ProgramStatus) {
+    // Process lookups while a stop sequence runs must not flip the status back
+    if (this.stopProgress && newStatus === 'running') return;
     if (this.status !== newStatus) {
+      const wasRunning = this.status === 'running';
+      const wasActive = wasRunning || this.status === 'stopping';
       this.status = newStatus;
+      if (newStatus !== 'running') {
+        this.resetHealth();
+      }
+      if (newStatus === 'running' && !wasActive) {
+        this.recordStart();
+      } else if (wasActive && newStatus !== 'running' && newStatus !== 'stopping') {
+        this.recordExit();
+      }
+      if (wasRunning && !this.stopRequested) {
+        if (this.runOnce) {
+          logger.info('program', `Run-once program ${this.name} finished${this.lastExitCode !== undefined ? ` with code ${this.lastExitCode}` : ''}`);
+        } else {
+          logger.info('program', `Program ${this.name} exited without a stop request`);
+        }
+        if (this.shouldRestartAfterExit()) {
+          this.scheduleRestart();
+        }
+      }
       this.notifyStatusChange();
     }
   }
   
+  // Journaled, and passed on to the manager for notifications
+  recordEvent(type: ProgramEventType, message: string, details: Partial<ProgramEvent> = {}) {
+    const event: ProgramEvent = { time: Date.now(), type, message, ...details };
+    this.eventJournal?.record(event);
+    this.emit('event', event);
+  }
+  
+  private recordStart() {
+    const trigger = this.runTrigger;
+    this.runHistory?.start(trigger || 'manual');
+    if (trigger === 'restart') {
+      this.recordEvent('restarted', `Restarted (attempt ${this.restartAttempts.length})`, { actor: TRIGGER_ACTORS.restart });
+    } else if (trigger) {
+      this.recordEvent('started', trigger === 'manual' ? 'Started' : `Started by ${TRIGGER_ACTORS[trigger]}`, { actor: this.startActor || TRIGGER_ACTORS[trigger] });
+    } else {
+      this.recordEvent('started', 'Found running');
+    }
+    this.runTrigger = undefined;
+    this.startActor = undefined;
+  }
+  
+  private recordExit() {
+    this.readScreenExitStatus();
+    this.lastExit = { code: this.lastExitCode, signal: this.lastExitSignal, time: Date.now() };
+    const result = this.getRunResult();
+    this.runHistory?.finish(result, this.lastExitCode);
+    
+    const details = { exitCode: this.lastExitCode, signal: this.lastExitSignal };
+    const how = describeExit(this.lastExit);
+    if (this.stopRequested) {
+      this.recordEvent('stopped', `Stopped${how}`, { ...details, actor: this.stopActor });
+    } else if (result === 'success') {
+      this.recordEvent('exited', `Exited${how}`, details);
+    } else {
+      this.recordEvent('crashed', `Crashed${how}`, details);
+    }
+  }
+  
+  // Pick up the status the screen session's shell wrote when the command ended
+  private readScreenExitStatus() {
+    if (this.runtime !== 'screen' || !this.exitStatusFile || this.lastExitCode !== undefined) return;
+    let status: number;
+    try {
+      status = parseInt(fs.readFileSync(this.exitStatusFile, 'utf-8').trim(), 10);
+    } catch {
+      // Not written (yet), e.g. the shell was killed along with the command
+      return;
+    }
+    if (isNaN(status)) return;
+    this.lastExitCode = status;
+    // Shells report a death by signal n as 128 + n
+    this.lastExitSignal = status > 128 ? signalName(status - 128) : undefined;
+    logger.info('program', `Program ${this.name} exited with code ${status}${this.lastExitSignal ? ` (signal ${this.lastExitSignal})` : ''}`);
+  }
+  
+  private getRunResult(): Exclude<RunResult, 'running'> {
+    if (this.stopRequested) return 'stopped';
+    if (this.lastExitSignal) return 'failure';
+    if (this.lastExitCode !== undefined) return this.lastExitCode === 0 ? 'success' : 'failure';
+    return this.runOnce ? 'success' : 'failure';
+  }
+  
+  private shouldRestartAfterExit(): boolean {
+    // A run-once program is only retried after a known non-zero exit code
+    if (this.runOnce) {
+      return this.restartPolicy.mode !== 'never' && this.lastExitCode !== undefined && this.lastExitCode !== 0;
+    }
+    switch (this.restartPolicy.mode) {
+      case 'always':
+        return true;
+      case 'on-failure':
+        // An unknown exit code (screen runtime) counts as a failure
+        return this.lastExitCode !== 0;
+      default:
+        return false;
+    }
+  }
+  
+  // Schedule the next restart attempt using the backoff settings of the restart policy
+  private scheduleRestart() {
+    const policy = { ...DEFAULT_RESTART_POLICY, ...this.restartPolicy };
+    const now = Date.now();
+    this.restartAttempts = this.restartAttempts.filter(t => now - t < policy.windowMs);
+    
+    if (this.restartAttempts.length >= policy.maxRetries) {
+      logger.warn('program', `Program ${this.name} restarted ${this.restartAttempts.length} times within ${policy.windowMs}ms, entering crash loop state`);
+      this.nextRestartAt = undefined;
+      this.crashLoop = true;
+      this.recordEvent('restartsExhausted', `Gave up restarting after ${this.restartAttempts.length} attempts within ${Math.round(policy.windowMs / 1000)}s`, { actor: TRIGGER_ACTORS.restart });
+      return;
+    }
+    
+    const delay = Math.min(policy.initialDelayMs * 2 ** this.restartAttempts.length, policy.maxDelayMs);
+    this.nextRestartAt = now + delay;
+    logger.info('program', `Scheduling restart ${this.restartAttempts.length + 1}/${policy.maxRetries} of ${this.name} in ${delay}ms`);
+  }
+  
+  private resetRestartState() {
+    this.restartAttempts = [];
+    this.nextRestartAt = undefined;
+    this.crashLoop = false;
+  }
+  
+  // Runs a pending automatic restart once its backoff delay has elapsed
+  async restartIfDue(now: number = Date.now()): Promise<boolean> {
+    if (this.nextRestartAt === undefined || now < this.nextRestartAt) return false;
+    
+    this.nextRestartAt = undefined;
+    this.restartAttempts.push(now);
+    this.restartTotal++;
+    logger.info('program', `Restarting program ${this.name} (attempt ${this.restartAttempts.length})`);
+    
+    this.runTrigger = 'restart';
+    const started = await this.launch();
+    if (!started) {
+      this.scheduleRestart();
+      this.notifyStatusChange();
+    }
+    return started;
+  }
+  
   async startScreen(): Promise<boolean> {
+    if (this.runtime === 'pty') {
+      logger.info('program', `Program ${this.name} uses the pty runtime and has no screen session`);
+      return false;
+    }
+    
     return new Promise((resolve) => {
       // First check if screen is already active
       exec(`screen -list | grep "${this.screenName}"`, async (error, stdout) => {
@@ -93,6 +444,7 @@ export class Program extends EventEmitter {
           // Screen already exists, mark as active and resolve
           logger.info('program', `Screen ${this.screenName} already exists, using existing session`);
           this.screenActive = true;
+          await this.enableScreenLog();
           resolve(true);
           return;
         }
@@ -106,13 +458,44 @@ export class Program extends EventEmitter {
           }
           
           await this.checkScreenActive();
+          if (this.screenActive) {
+            await this.enableScreenLog();
+          }
           resolve(this.screenActive);
         });
       });
     });
   }
   
+  // Make screen copy the session output to screenLogFile
+  private async enableScreenLog(): Promise<void> {
+    if (!this.screenLogFile) return;
+    
+    try {
+      await fs.promises.mkdir(path.dirname(this.screenLogFile), { recursive: true });
+    } catch (error) {
+      logger.error('program', `Failed to create log directory for ${this.name}:`, error);
+      return;
+    }
+    
+    const screen = `screen -S ${this.screenName} -X`;
+    return new Promise((resolve) => {
+      exec(`${screen} logfile '${this.screenLogFile}' && ${screen} logfile flush 1 && ${screen} log on`, (error) => {
+        if (error) {
+          logger.error('program', `Failed to enable output logging for screen ${this.screenName}:`, error);
+        }
+        resolve();
+      });
+    });
+  }
+  
   async sendCommandToScreen(command: string): Promise<boolean> {
+    if (this.runtime === 'pty') {
+      if (!this.ptyProcess?.alive) return false;
+      this.ptyProcess.write(`${command}\r`);
+      return true;
+    }
+    
     return new Promise((resolve) => {
       exec(`screen -S ${this.screenName} -X stuff "${command}\n"`, (error) => {
         if (error) {
@@ -129,10 +512,291 @@ export class Program extends EventEmitter {
     const screenStarted = await this.startScreen();
     if (!screenStarted) return false;
     
-    return this.sendCommandToScreen(this.command);
+    return this.sendCommandToScreen(await this.buildScreenCommand());
+  }
+  
+  // Variables from envFile overridden by env. The file is read at every start
+  // so edits to it apply on the next start.
+  private resolveEnv(): EnvMap {
+    let fileEnv: EnvMap = {};
+    if (this.envFile) {
+      const envFilePath = path.resolve(this.cwd || process.cwd(), this.envFile);
+      fileEnv = parseEnvFile(fs.readFileSync(envFilePath, 'utf-8'));
+    }
+    return { ...fileEnv, ...this.env };
+  }
+  
+  // The command typed into the screen session. It runs in a subshell so cd and
+  // the variables do not stick to the session's shell. Variables are sourced from
+  // a private file next to the config so their values never reach the scrollback.
+  private async buildScreenCommand(): Promise<string> {
+    const env = this.resolveEnv();
+    const limitPrefix = limitCommandPrefix(this.limits);
+    if (!this.cwd && !this.runAs && Object.keys(env).length === 0 && !limitPrefix && !this.exitStatusFile) {
+      return this.command;
+    }
+    
+    const steps: string[] = [];
+    if (this.cwd) {
+      steps.push(`cd ${shellQuote(this.cwd)}`);
+    }
+    if (this.runAs) {
+      steps.push(await this.runAsCommand(env));
+    } else {
+      if (Object.keys(env).length > 0) {
+        const envPath = path.join(path.resolve(path.dirname(this.configPath)), 'env', `${this.id}.env`);
+        await fs.promises.mkdir(path.dirname(envPath), { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(envPath, envFileContent(env), { mode: 0o600 });
+        steps.push(`. ${shellQuote(envPath)}`);
+      }
+      steps.push(this.limitedCommand());
+    }
+    const command = `( ${steps.join(' && ')} )`;
+    if (!this.exitStatusFile) return command;
+    
+    // The session's shell records the exit status once the command ends; $ is
+    // escaped for the shell that runs screen -X stuff
+    await fs.promises.mkdir(path.dirname(this.exitStatusFile), { recursive: true });
+    await fs.promises.rm(this.exitStatusFile, { force: true });
+    return `${command}; echo \\$? > ${shellQuote(this.exitStatusFile)}`;
   }
   
-  async start(): Promise<boolean> {
+  // The command run as runAs. Its variables are sourced by the shell sudo
+  // starts, from a file the user writes in their home, so they apply only after
+  // the privileges are dropped and never to sudo or the limit tools, which run
+  // as the manager. Limits are applied outside sudo so a lower nice level or a
+  // higher open file limit is allowed.
+  private async runAsCommand(env: EnvMap): Promise<string> {
+    let command = this.command;
+    if (Object.keys(env).length > 0) {
+      const envPath = path.join(lookupUser(this.runAs!).home, '.startup-manager', 'env', `${this.id}.env`);
+      await writeFileAs(this.runAs!, envPath, envFileContent(env));
+      command = `. ${shellQuote(envPath)} && exec sh -c ${shellQuote(this.command)}`;
+    }
+    return `exec ${limitCommandPrefix(this.limits)}${sudoCommand(this.runAs!, command)}`;
+  }
+  
+  // The command with the spawn time limits (nice level, open files) applied
+  private limitedCommand(): string {
+    const limitPrefix = limitCommandPrefix(this.limits);
+    return limitPrefix ? `exec ${limitPrefix}sh -c ${shellQuote(this.command)}` : this.command;
+  }
+  
+  // The PTY of a program using the pty runtime, for attaching terminals
+  getPtyProcess(): PtyProcess | undefined {
+    return this.ptyProcess;
+  }
+  
+  // A runAs program goes through sudo like in a screen session, which also
+  // drops the manager's supplementary groups; its variables are not given to the pty
+  private async spawnPty(): Promise<boolean> {
+    try {
+      const ptyProcess = this.runAs
+        ? new PtyProcess(await this.runAsCommand(this.resolveEnv()), { cwd: this.cwd || lookupUser(this.runAs).home })
+        : new PtyProcess(this.limitedCommand(), { cwd: this.cwd, env: { ...process.env as EnvMap, ...this.resolveEnv() } });
+      this.ptyProcess = ptyProcess;
+      this.pid = ptyProcess.pid;
+      this.screenActive = true;
+      ptyProcess.on('data', (data: string) => this.emit('output', data));
+      ptyProcess.on('exit', (exit: PtyExit) => this.handlePtyExit(ptyProcess, exit));
+      logger.info('program', `Spawned ${this.name} under pty with PID ${ptyProcess.pid}`);
+      return true;
+    } catch (error) {
+      logger.error('program', `Failed to spawn pty for ${this.name}:`, error);
+      return false;
+    }
+  }
+  
+  private handlePtyExit(ptyProcess: PtyProcess, exit: PtyExit) {
+    // Ignore late exits of a process that has already been replaced
+    if (this.ptyProcess !== ptyProcess) return;
+    
+    logger.info('program', `Program ${this.name} exited with code ${exit.exitCode}${exit.signal ? ` (signal ${exit.signal})` : ''}`);
+    this.lastExitCode = exit.exitCode;
+    this.lastExitSignal = exit.signal ? signalName(exit.signal) : undefined;
+    this.pid = undefined;
+    this.screenActive = false;
+    this.updateStatus('stopped');
+  }
+  
+  private resetHealth() {
+    this.health = undefined;
+    this.healthSuccesses = 0;
+    this.healthFailures = 0;
+    this.lastProbeAt = 0;
+  }
+  
+  private updateHealth(newHealth: HealthStatus) {
+    if (this.health !== newHealth) {
+      logger.info('program', `Health of ${this.name} changed: ${this.health} -> ${newHealth}`);
+      this.health = newHealth;
+      this.recordEvent('healthChanged', `Health changed to ${newHealth}`, { actor: 'health check' });
+      this.emit('healthChanged', newHealth);
+      this.notifyStatusChange();
+    }
+  }
+  
+  // Run the configured health probe if it is due; called from the monitoring loop
+  async checkHealth(now: number = Date.now()): Promise<void> {
+    if (!this.healthCheck || this.status !== 'running' || this.probing) return;
+    
+    const check = { ...DEFAULT_HEALTH_CHECK, ...this.healthCheck };
+    if (now - this.lastProbeAt < check.intervalMs) return;
+    
+    if (!this.health) {
+      this.updateHealth('starting');
+    }
+    
+    this.probing = true;
+    this.lastProbeAt = now;
+    let result;
+    try {
+      result = await runProbe(check, this.runAs);
+    } finally {
+      this.probing = false;
+    }
+    
+    // The program may have been stopped while the probe was running
+    if (this.status !== 'running') return;
+    
+    if (result.ok) {
+      this.healthFailures = 0;
+      this.healthSuccesses++;
+      if (this.healthSuccesses >= check.healthyThreshold) {
+        this.updateHealth('healthy');
+      }
+      return;
+    }
+    
+    this.healthSuccesses = 0;
+    const inStartPeriod = this.health === 'starting' && this.startedAt !== undefined && now - this.startedAt < check.startPeriodMs;
+    if (inStartPeriod) return;
+    
+    this.healthFailures++;
+    logger.info('program', `Health check for ${this.name} failed (${this.healthFailures}/${check.unhealthyThreshold}): ${result.message}`);
+    if (this.healthFailures >= check.unhealthyThreshold && this.health !== 'unhealthy') {
+      this.updateHealth('unhealthy');
+      if (check.restartOnUnhealthy) {
+        await this.restartWithBackoff('unhealthy', 'health check');
+      }
+    }
+  }
+  
+  // Stop the program and hand it to the restart backoff
+  private async restartWithBackoff(reason: string, actor: string): Promise<void> {
+    logger.warn('program', `Restarting program ${this.name}: ${reason}`);
+    if (!await this.stop(actor)) {
+      await this.terminate(actor);
+    }
+    this.scheduleRestart();
+    this.notifyStatusChange();
+  }
+  
+  /**
+   * Compare the latest usage sample with the limits and apply the action of
+   * each newly exceeded limit; called from the monitoring loop. A limit fires
+   * again only after usage went back under it.
+   */
+  async checkLimits(sample?: MetricsSample): Promise<void> {
+    if (!this.limits || this.status !== 'running' || !sample) {
+      this.cpuOverSince = undefined;
+      this.exceededLimits.clear();
+      return;
+    }
+    
+    if (this.limits.cpuPercent && sample.cpu > this.limits.cpuPercent.max) {
+      this.cpuOverSince ??= sample.time;
+    } else {
+      this.cpuOverSince = undefined;
+    }
+    
+    const violations = findViolations(this.limits, sample, this.cpuOverSince);
+    const newViolations = violations.filter(violation => !this.exceededLimits.has(violation.limit));
+    const changed = violations.length !== this.exceededLimits.size || newViolations.length > 0;
+    this.exceededLimits = new Set(violations.map(violation => violation.limit));
+    if (changed) {
+      this.notifyStatusChange();
+    }
+    
+    for (const violation of newViolations) {
+      logger.warn('program', `Program ${this.name} exceeded its ${violation.limit} limit: ${violation.value} > ${violation.max}, action: ${violation.action}`);
+      const event: LimitExceededEvent = {
+        programId: this.id,
+        programName: this.name,
+        ...violation,
+        time: sample.time
+      };
+      this.recordEvent('limitExceeded', `Exceeded its ${violation.limit} limit: ${violation.value} > ${violation.max}, action: ${violation.action}`, { actor: 'resource limits' });
+      this.emit('limitExceeded', event);
+    }
+    
+    // The strongest action of the new violations wins
+    if (newViolations.some(violation => violation.action === 'stop')) {
+      if (!await this.stop('resource limits')) {
+        await this.terminate('resource limits');
+      }
+    } else if (newViolations.some(violation => violation.action === 'restart')) {
+      await this.restartWithBackoff(`exceeded its ${newViolations.map(violation => violation.limit).join(', ')} limit`, 'resource limits');
+    }
+  }
+  
+  // actor is the user who asked for the start, recorded in the event journal
+  async start(trigger: RunTrigger = 'manual', actor?: string): Promise<boolean> {
+    // A manual start clears the crash loop and gives the program a fresh retry budget
+    this.resetRestartState();
+    this.runTrigger = trigger;
+    this.startActor = actor;
+    return this.launch();
+  }
+  
+  // Epoch ms of the next scheduled start, recomputed when the schedule changes
+  getNextRunAt(now: number = Date.now()): number | undefined {
+    if (!this.schedule || this.schedule.enabled === false) return undefined;
+    const key = `${this.schedule.cron}|${this.schedule.timezone || ''}`;
+    if (this.nextRun?.key !== key) {
+      this.nextRun = { key, at: this.computeNextRun(now) };
+    }
+    return this.nextRun.at;
+  }
+  
+  private computeNextRun(now: number): number | undefined {
+    try {
+      return new CronExpression(this.schedule!.cron).next(new Date(now), this.schedule!.timezone).getTime();
+    } catch (error) {
+      // A hand-edited config can contain an invalid expression
+      logger.error('program', `Invalid schedule of ${this.name}:`, error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Start the program if its scheduled time has come; called by the scheduler.
+   * A run that is due while the previous one is still going is skipped, and
+   * times missed while the manager was down are not made up for.
+   */
+  async runScheduleIfDue(now: number = Date.now()): Promise<boolean> {
+    const at = this.getNextRunAt(now);
+    if (at === undefined || now < at) return false;
+    
+    this.nextRun!.at = this.computeNextRun(now);
+    if (this.status === 'running' || this.status === 'stopping') {
+      logger.info('program', `Skipping scheduled run of ${this.name}, it is still running`);
+      this.notifyStatusChange();
+      return false;
+    }
+    
+    logger.info('program', `Starting scheduled run of ${this.name}`);
+    const started = await this.start('schedule');
+    this.notifyStatusChange();
+    return started;
+  }
+  
+  private async launch(): Promise<boolean> {
+    this.stopRequested = false;
+    this.stopActor = undefined;
+    this.startedAt = Date.now();
+    this.lastExitCode = undefined;
+    this.lastExitSignal = undefined;
     try {
       // First check if screen already exists and has our process running
       const existingPid = await this.findProcessPid();
@@ -142,8 +806,9 @@ export class Program extends EventEmitter {
         return true;
       }
       
-      // Start the program in a screen
-      if (await this.runInScreen()) {
+      // Start the program in a screen or directly under a pty
+      const launched = this.runtime === 'pty' ? await this.spawnPty() : await this.runInScreen();
+      if (launched) {
         // We need to get the PID of the actual process running in the screen
         await this.findProcessPid();
         this.updateStatus('running');
@@ -157,12 +822,24 @@ export class Program extends EventEmitter {
     }
   }
   
-  async stop(): Promise<boolean> {
+  // The configured stop sequence, or a single step with the stop method
+  private getStopSequence(): StopStep[] {
+    if (this.stopSequence && this.stopSequence.length > 0) {
+      return this.stopSequence;
+    }
+    return [{ signal: this.stopMethod, timeoutMs: 1000 }];
+  }
+  
+  async stop(actor?: string): Promise<boolean> {
+    this.stopRequested = true;
+    this.stopActor = actor;
+    this.nextRestartAt = undefined;
     try {
-      logger.info('program', `Stopping program ${this.name} (screen: ${this.screenName}) using method: ${this.stopMethod}`);
+      const steps = this.getStopSequence();
+      logger.info('program', `Stopping program ${this.name} (screen: ${this.screenName}) using: ${steps.map(step => step.signal).join(' -> ')}`);
       
-      // Check if we have a PID for signal methods
-      if (this.stopMethod !== 'CTRL_C' && !this.pid) {
+      // Signals need a PID
+      if (!this.pid) {
         logger.info('program', `No PID found for ${this.name}, trying to find it`);
         await this.findProcessPid();
         
@@ -178,39 +855,85 @@ export class Program extends EventEmitter {
         }
       }
       
-      // Use the configured stop method
-      if (this.stopMethod === 'SIGINT') {
-        logger.info('program', `Sending SIGINT to process ${this.pid}`);
-        process.kill(this.pid!, 'SIGINT');
-      } else if (this.stopMethod === 'SIGHUP') {
-        logger.info('program', `Sending SIGHUP to process ${this.pid}`);
-        process.kill(this.pid!, 'SIGHUP');
-      } else if (this.stopMethod === 'CTRL_C') {
-        return this.stopWithCtrlC();
+      for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        this.stopProgress = { step: i + 1, total: steps.length, signal: step.signal };
+        if (this.status === 'stopping') {
+          this.notifyStatusChange();
+        } else {
+          this.updateStatus('stopping');
+        }
+        
+        await this.sendStopSignal(step.signal);
+        if (await this.waitForExit(step.timeoutMs ?? DEFAULT_STOP_STEP_TIMEOUT_MS)) {
+          logger.info('program', `Program ${this.name} stopped successfully after ${step.signal}`);
+          this.stopProgress = undefined;
+          this.updateStatus('stopped');
+          return true;
+        }
+        logger.info('program', `Program ${this.name} is still running after ${step.signal} (step ${i + 1}/${steps.length})`);
       }
       
-      // Wait a moment for the process to terminate
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Check if the process is still running
-      await this.findProcessPid();
-      
-      if (!this.pid) {
-        logger.info('program', `Program ${this.name} stopped successfully`);
-        this.updateStatus('stopped');
-        return true;
-      } else {
-        logger.info('program', `Program ${this.name} is still running after stop attempt`);
-        return false;
-      }
+      logger.info('program', `Program ${this.name} is still running after stop attempt`);
+      this.stopProgress = undefined;
+      this.updateStatus('running');
+      return false;
     } catch (error) {
       logger.error('program', `Error stopping program ${this.name}:`, error);
+      this.stopProgress = undefined;
+      await this.findProcessPid();
       return false;
     }
   }
   
-  private async stopWithCtrlC(): Promise<boolean> {
-    logger.info('program', `Stopping ${this.name} by sending Ctrl+C to screen ${this.screenName}`);
+  private async sendStopSignal(signal: StopSignal): Promise<void> {
+    if (signal === 'CTRL_C') {
+      await this.sendCtrlC();
+      return;
+    }
+    
+    const pid = this.pid;
+    if (!pid) return;
+    
+    if (signal === 'SIGKILL') {
+      logger.info('program', `Killing process tree of ${pid}`);
+      await new Promise<void>((resolve) => {
+        treeKill(pid, 'SIGKILL', (err?: Error) => {
+          if (err) {
+            logger.error('program', `Error killing process tree for ${this.name}:`, err);
+          }
+          resolve();
+        });
+      });
+      return;
+    }
+    
+    logger.info('program', `Sending ${signal} to process ${pid}`);
+    try {
+      process.kill(pid, signal);
+    } catch (error) {
+      // The process may have exited on its own in the meantime
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') throw error;
+    }
+  }
+  
+  // Poll until the process is gone or the timeout passes
+  private async waitForExit(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    do {
+      const remaining = Math.max(deadline - Date.now(), 0);
+      await new Promise(resolve => setTimeout(resolve, Math.min(STOP_POLL_INTERVAL_MS, remaining)));
+      if (!await this.findProcessPid()) return true;
+    } while (Date.now() < deadline);
+    return false;
+  }
+  
+  private async sendCtrlC(): Promise<boolean> {
+    if (this.runtime === 'pty') {
+      if (!this.ptyProcess?.alive) return false;
+      this.ptyProcess.write('\x03');
+      return true;
+    }
     
     // Check if screen is active
     if (!this.screenActive) {
@@ -224,24 +947,30 @@ export class Program extends EventEmitter {
     // Send Ctrl+C to the screen session
     const ctrlCSent = await this.sendCommandToScreen('\x03');
     logger.info('program', `Sent Ctrl+C to screen ${this.screenName}: ${ctrlCSent ? 'success' : 'failed'}`);
+    return ctrlCSent;
+  }
+  
+  // Fallback when no PID can be found but the screen session is still there
+  private async stopWithCtrlC(): Promise<boolean> {
+    logger.info('program', `Stopping ${this.name} by sending Ctrl+C`);
+    if (!await this.sendCtrlC()) return false;
     
-    // Wait a moment for the process to terminate
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Check if the process is still running
-    await this.findProcessPid();
-    
-    if (!this.pid) {
+    if (await this.waitForExit(1000)) {
       logger.info('program', `Program ${this.name} stopped successfully with Ctrl+C`);
       this.updateStatus('stopped');
       return true;
-    } else {
-      logger.info('program', `Program ${this.name} is still running after Ctrl+C`);
-      return false;
     }
+    logger.info('program', `Program ${this.name} is still running after Ctrl+C`);
+    return false;
   }
   
-  async terminate(): Promise<boolean> {
+  async terminate(actor?: string): Promise<boolean> {
+    this.stopRequested = true;
+    this.stopActor = actor;
+    this.nextRestartAt = undefined;
+    if (this.runtime === 'pty') {
+      return this.terminatePty();
+    }
     try {
       logger.info('program', `Terminating program ${this.name} (screen: ${this.screenName})`);
       
@@ -315,7 +1044,37 @@ export class Program extends EventEmitter {
     }
   }
   
+  private async terminatePty(): Promise<boolean> {
+    logger.info('program', `Terminating program ${this.name} (pty)`);
+    const ptyProcess = this.ptyProcess;
+    if (ptyProcess?.alive) {
+      await new Promise<void>((resolve) => {
+        treeKill(ptyProcess.pid, 'SIGKILL', (err?: Error) => {
+          if (err) {
+            logger.error('program', `Error killing process tree for ${this.name}:`, err);
+          } else {
+            logger.info('program', `Process tree for ${this.name} killed successfully`);
+          }
+          resolve();
+        });
+      });
+    }
+    
+    this.pid = undefined;
+    this.screenActive = false;
+    this.updateStatus('stopped');
+    return true;
+  }
+  
   async findProcessPid(): Promise<number | undefined> {
+    if (this.runtime === 'pty') {
+      // The pty runtime knows its PID, no need to scrape ps
+      this.pid = this.ptyProcess?.alive ? this.ptyProcess.pid : undefined;
+      this.screenActive = !!this.pid;
+      this.updateStatus(this.pid ? 'running' : 'stopped');
+      return this.pid;
+    }
+    
     return new Promise((resolve) => {
       // First check if the screen is active
       this.checkScreenActive().then(screenActive => {
@@ -364,6 +1123,9 @@ export class Program extends EventEmitter {
   }
   
   async monitor(): Promise<void> {
+    // A running stop sequence tracks the process itself
+    if (this.stopProgress) return;
+    
     // First check if screen session still exists
     const prevStatus = this.status;
     const prevPid = this.pid;
@@ -420,6 +1182,11 @@ export class Program extends EventEmitter {
   }
   
   async checkScreenActive(): Promise<boolean> {
+    if (this.runtime === 'pty') {
+      this.screenActive = !!this.ptyProcess?.alive;
+      return this.screenActive;
+    }
+    
     return new Promise<boolean>((resolve) => {
       exec(`screen -list | grep "${this.screenName}"`, (error, stdout) => {
         const wasActive = this.screenActive;
@@ -439,10 +1206,25 @@ export class Program extends EventEmitter {
       id: this.id,
       name: this.name,
       command: this.command,
+      group: this.group,
+      tags: this.tags,
       screenName: this.screenName,
+      runtime: this.runtime,
       maxChildDepth: this.maxChildDepth,
       autoStart: this.autoStart,
-      stopMethod: this.stopMethod
+      stopMethod: this.stopMethod,
+      stopSequence: this.stopSequence,
+      restartPolicy: this.restartPolicy,
+      dependsOn: this.dependsOn,
+      healthCheck: this.healthCheck,
+      cwd: this.cwd,
+      env: this.env,
+      envFile: this.envFile,
+      runAs: this.runAs,
+      limits: this.limits,
+      schedule: this.schedule,
+      runOnce: this.runOnce,
+      acl: this.acl
     };
   }
   
@@ -451,14 +1233,154 @@ export class Program extends EventEmitter {
   }
 }
 
+// Signal name for a signal number, e.g. 9 -> 'SIGKILL'
+function signalName(signal: number): string {
+  const entry = Object.entries(os.constants.signals).find(([, number]) => number === signal);
+  return entry ? entry[0] : String(signal);
+}
+
+// The variables as shell exports, for a file that is sourced before the command
+function envFileContent(env: EnvMap): string {
+  return Object.entries(env).map(([key, value]) => `export ${key}=${shellQuote(value)}\n`).join('');
+}
+
+// " with code 1", " by SIGKILL" or "" when nothing is known
+function describeExit(exit: ProgramExit): string {
+  if (exit.signal) return ` by ${exit.signal}`;
+  if (exit.code !== undefined) return ` with code ${exit.code}`;
+  return '';
+}
+
+function validateStopSequence(steps?: StopStep[] | null) {
+  for (const step of steps || []) {
+    if (!STOP_SIGNALS.includes(step.signal)) {
+      throw new Error(`Invalid stop signal: ${step.signal}`);
+    }
+    if (step.timeoutMs !== undefined && !(step.timeoutMs >= 0)) {
+      throw new Error(`Invalid stop timeout: ${step.timeoutMs}`);
+    }
+  }
+}
+
+function validateScreenName(screenName?: string) {
+  if (screenName !== undefined && !SCREEN_NAME_PATTERN.test(screenName)) {
+    throw new Error(`Invalid screen name: ${screenName}`);
+  }
+}
+
+function validateSchedule(schedule?: ProgramSchedule | null) {
+  if (!schedule) return;
+  new CronExpression(schedule.cron);
+  if (schedule.timezone) {
+    validateTimeZone(schedule.timezone);
+  }
+}
+
+function normalizeTags(tags?: string[] | null): string[] {
+  return Array.from(new Set((tags || []).map(tag => tag.trim()).filter(Boolean)));
+}
+
+function normalizeConfig(config: ProgramConfig): ProgramConfig {
+  return {
+    ...config,
+    // An empty screen name would have screen pick any session to attach to
+    screenName: config.screenName || defaultScreenName(config.name),
+    group: config.group?.trim() || undefined,
+    tags: normalizeTags(config.tags),
+    acl: normalizeAcl(config.acl)
+  };
+}
+
+function readConfigFile(data: string, format: ConfigFormat, source: string = 'config file'): ParsedConfig {
+  try {
+    return parseConfig(data, format, process.env);
+  } catch (error) {
+    throw new Error(`Invalid ${source}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * The programs of a config file or an import; those added by hand may not have
+ * an id yet. The dependencies of a stack may name the programs.
+ */
+function validateConfigFile(document: ParsedConfig, source: string = 'config file'): StackProgram[] {
+  const parsed = programConfigSchema.array().safeParse(document.programs);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => {
+      const [index, ...field] = issue.path;
+      if (index === undefined) return issue.message;
+      return `program ${Number(index) + 1}${field.length ? ` ${field.join('.')}` : ''}: ${issue.message}`;
+    });
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+  const programs = parsed.data as StackProgram[];
+  return document.stack ? resolveDependencies(programs as ProgramConfig[]) : programs;
+}
+
+export type BulkAction = 'start' | 'stop' | 'restart' | 'terminate';
+
+// Outcome of a bulk action for one program
+export interface BulkResult {
+  id: string;
+  name: string;
+  success: boolean;
+  skipped?: boolean; // nothing to do, e.g. stopping a program that is not running
+  error?: string;
+}
+
+// Programs acted on at the same time by bulk actions
+export const BULK_CONCURRENCY = 4;
+
+// Actor of the changes made by editing the config file
+const CONFIG_FILE_ACTOR = 'config file';
+// Editors and deploys write a file in several steps; reload once they are done
+const CONFIG_RELOAD_DELAY_MS = 500;
+
+// The programs of a stack file as changed since in the UI or the API, and the
+// hash of the stack file they were changed from
+interface StackState {
+  source: string;
+  programs: ProgramConfig[];
+}
+
+const sourceHash = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+// Settings a program gets when they are missing, left out of stack files
+const PROGRAM_DEFAULTS: Partial<ProgramConfig> = Program.fromJSON({ id: '', name: '', command: '', screenName: '' }).toJSON();
+delete PROGRAM_DEFAULTS.id;
+delete PROGRAM_DEFAULTS.name;
+delete PROGRAM_DEFAULTS.command;
+delete PROGRAM_DEFAULTS.screenName;
+
 export class ProgramManager {
   private programs: Map<string, Program> = new Map();
+  private logs: Map<string, ProgramLog> = new Map();
+  private metrics: MetricsCollector = new MetricsCollector();
+  private latestSamples: Map<string, MetricsSample> = new Map();
   private configPath: string;
+  private format: ConfigFormat; // of the config file, from its extension
+  // Stack files are written by hand and never by the manager; changes to their
+  // programs are saved to statePath instead, until the stack file changes
+  private declarative: boolean;
+  private statePath: string;
   private statusChangeCallback: ((program: ProgramState) => void) | null = null;
+  private limitExceededCallback: ((event: LimitExceededEvent) => void) | null = null;
+  private programEventCallback: ((program: Program, event: ProgramEvent) => void) | null = null;
+  private configReloadCallback: ((notice: ConfigReloadNotice) => void) | null = null;
+  private configWatcher?: fs.FSWatcher;
+  private configReloadTimer?: NodeJS.Timeout;
+  private lastConfigText?: string; // as last read or written, to tell other writers' changes apart
+  private reloading: Promise<unknown> = Promise.resolve();
+  private saving: Promise<void> = Promise.resolve();
+  private history: ConfigHistory;
   
   constructor(configPath: string) {
     this.configPath = path.resolve(configPath);
+    this.format = formatOfPath(this.configPath);
+    this.declarative = this.format !== 'json';
+    this.statePath = `${this.configPath}.state.json`;
     logger.info('program', this.configPath);
+    this.history = new ConfigHistory(path.join(path.dirname(this.configPath), 'config-history'));
 
     this.ensureConfigDir();
   }
@@ -478,6 +1400,20 @@ export class ProgramManager {
     }
   }
   
+  setLimitExceededCallback(callback: (event: LimitExceededEvent) => void) {
+    this.limitExceededCallback = callback;
+  }
+  
+  // Lifecycle events of every program, as they are journaled
+  setProgramEventCallback(callback: (program: Program, event: ProgramEvent) => void) {
+    this.programEventCallback = callback;
+  }
+  
+  // Reloads of the config file that changed the programs, and failed reloads of a changed file
+  setConfigReloadCallback(callback: (notice: ConfigReloadNotice) => void) {
+    this.configReloadCallback = callback;
+  }
+  
   async loadPrograms(): Promise<void> {
     try {
       logger.info('program', `Loading programs from config: ${this.configPath}`);
@@ -485,47 +1421,379 @@ export class ProgramManager {
       if (!fs.existsSync(this.configPath)) {
         // If config doesn't exist yet, create an empty one
         logger.info('program', `Config file doesn't exist, creating empty config at: ${this.configPath}`);
-        await this.savePrograms();
+        if (this.declarative) {
+          this.lastConfigText = serializeConfig([], this.format);
+          await writeFileAtomic(this.configPath, this.lastConfigText);
+        }
+        await this.savePrograms({ actor: CONFIG_FILE_ACTOR, reason: 'Created' });
         return;
       }
       
       const data = await fs.promises.readFile(this.configPath, 'utf-8');
-      logger.info('program', `Read config data: ${data}`);
+      logger.info('program', `Read config file ${this.configPath}`);
       
       try {
-        const configs: ProgramConfig[] = JSON.parse(data);
+        // Lists of programs in JSON load as they always did; stack files are checked as a reload checks them
+        const document = readConfigFile(data, this.format);
+        this.declarative = this.format !== 'json' || document.stack;
+        const configs: ProgramConfig[] = this.declarative
+          ? await this.readStackState(data) ?? this.checkConfigs(validateConfigFile(document))
+          : document.programs as ProgramConfig[];
         logger.info('program', `Parsed ${configs.length} program configs`);
         
         this.programs.clear();
+        this.logs.forEach(log => log.close());
+        this.logs.clear();
         for (const config of configs) {
-          logger.info('program', `Creating program from config: ${JSON.stringify(config)}`);
-          const program = new Program(config, this.configPath);
-          if (this.statusChangeCallback) {
-            program.setStatusChangeCallback(this.statusChangeCallback);
-          }
-          this.programs.set(program.id, program);
+          // Not the config itself: its env can hold secrets
+          logger.info('program', `Creating program ${config.name} (${config.id})`);
+          this.attachProgram(new Program(config, this.configPath));
         }
+        this.lastConfigText = data;
         
         logger.info('program', `Loaded ${this.programs.size} programs from config`);
       } catch (parseError) {
-        logger.error('program', 'Error parsing config JSON:', parseError);
+        logger.error('program', 'Error parsing the config file:', parseError);
+        if (this.history.latest()) {
+          logger.error('program', `Saved versions of the config can be rolled back to, the newest is ${this.history.latest()!.version}`);
+        }
         throw parseError;
       }
+      // Changes made while the manager was not running become a version of their own
+      await this.history.record(this.getPrograms().map(p => p.toJSON()), { actor: CONFIG_FILE_ACTOR, reason: 'Loaded at startup' });
     } catch (error) {
       logger.error('program', 'Error loading programs:', error);
     }
   }
   
-  async savePrograms(): Promise<void> {
+  // The programs saved for a stack file, unless the stack file changed since
+  private async readStackState(stackText: string): Promise<ProgramConfig[] | undefined> {
+    let state: StackState;
+    try {
+      state = JSON.parse(await fs.promises.readFile(this.statePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error('program', `Ignoring unreadable saved programs ${this.statePath}:`, error);
+      }
+      return undefined;
+    }
+    if (state.source !== sourceHash(stackText)) {
+      logger.info('program', 'The stack file changed since its programs were last changed in the manager; loading the stack file');
+      return undefined;
+    }
+    return state.programs;
+  }
+  
+  /**
+   * Saves are queued, so they reach the file in the order they were made, and
+   * each replaces the file atomically. Every save that changes the programs
+   * is kept as a new version. Resolves once the file is written and rejects
+   * when it could not be. The programs of a stack file are saved next to it,
+   * so its defaults, variables and comments stay as they were written.
+   */
+  savePrograms(change: ConfigChange = {}): Promise<void> {
+    const configs = Array.from(this.programs.values()).map(p => p.toJSON());
+    const declarative = this.declarative;
+    const data = declarative
+      ? JSON.stringify({ source: sourceHash(this.lastConfigText ?? ''), programs: configs } satisfies StackState, null, 2)
+      : JSON.stringify(configs, null, 2);
+    const run = this.saving.then(async () => {
+      try {
+        if (declarative) {
+          // Like the history, it holds the env values taken from the environment
+          await writeFileAtomic(this.statePath, data, 0o600);
+        } else {
+          // Set before writing, so the watcher ignores the change
+          this.lastConfigText = data;
+          await writeFileAtomic(this.configPath, data);
+        }
+        logger.info('program', `Saved ${configs.length} programs to ${declarative ? this.statePath : 'config'}`);
+      } catch (error) {
+        logger.error('program', 'Error saving programs:', error);
+        throw new RpcError('INTERNAL', `Saving the config failed: ${error instanceof Error ? error.message : error}`);
+      }
+      try {
+        await this.history.record(configs, change);
+      } catch (error) {
+        // The config itself is saved
+        logger.error('program', 'Error saving a config version:', error);
+      }
+    });
+    this.saving = run.catch(() => undefined);
+    return run;
+  }
+  
+  // Newest first
+  listConfigVersions(): ConfigVersionInfo[] {
+    return this.history.list();
+  }
+  
+  // Programs added, removed and changed from one version to another, or to the loaded programs
+  async diffConfigVersions(from: number, to?: number): Promise<ConfigDiff> {
+    const before = await this.getConfigVersion(from);
+    const after = to === undefined ? this.getPrograms().map(p => p.toJSON()) : await this.getConfigVersion(to);
+    return diffPrograms(before, after);
+  }
+  
+  private async getConfigVersion(version: number): Promise<ProgramConfig[]> {
+    const snapshot = await this.history.get(version);
+    if (!snapshot) throw new RpcError('NOT_FOUND', `Config version ${version} not found`);
+    return snapshot.programs;
+  }
+  
+  /**
+   * Apply the programs of an earlier version as a reload of the file would,
+   * then save them as a new version. A dry run only returns the differences.
+   */
+  rollbackConfig(version: number, options: { dryRun?: boolean, actor?: string } = {}): Promise<ConfigReloadResult> {
+    return this.enqueueReload(async () => {
+      const configs = this.checkConfigs(await this.getConfigVersion(version));
+      return this.applyPrograms(configs, options.dryRun ?? false, options.actor, `Rolled back to version ${version}`);
+    });
+  }
+  
+  /**
+   * Merge the programs of an export or a stack file into the loaded ones. They
+   * are matched by id and then by name, and the others are added; programs the
+   * import leaves out are kept. An imported program is a whole configuration,
+   * so a matched program with other settings is a conflict, which fails the
+   * import, is skipped or is overwritten. A dry run only returns the
+   * differences and the conflicts.
+   */
+  importConfig(content: string, format: ConfigFormat, options: { dryRun?: boolean, conflicts?: ConflictMode, actor?: string } = {}): Promise<ConfigImportResult> {
+    return this.enqueueReload(async () => {
+      const current = this.getPrograms().map(p => p.toJSON());
+      const imported = validateConfigFile(readConfigFile(content, format, 'import'), 'import');
+
+      const merged = new Map(current.map(config => [config.id, config]));
+      const ids = new Map<string, string>(); // ids of the import to the ids they get
+      const importedIds = new Set<string>();
+      for (const program of imported) {
+        const byName = current.filter(config => config.name === program.name);
+        const match = (program.id && merged.get(program.id)) || (byName.length === 1 ? byName[0] : undefined);
+        const id = match?.id ?? program.id ?? uuidv4();
+        if (importedIds.has(id)) throw new Error(`${program.name} is in the import twice`);
+        importedIds.add(id);
+        if (program.id) ids.set(program.id, id);
+        // Exported secrets are masked; they keep the values of the program they update
+        const env = match && program.env ? mergeMaskedEnv(match.env || {}, program.env) : program.env;
+        merged.set(id, { ...program, id, env });
+      }
+      for (const id of importedIds) {
+        const config = merged.get(id)!;
+        if (config.dependsOn) merged.set(id, { ...config, dependsOn: config.dependsOn.map(dep => ids.get(dep) ?? dep) });
+      }
+
+      // Dependencies may also name programs that are not in the import
+      let configs = this.checkConfigs(resolveDependencies([...merged.values()]));
+      const conflicts = diffPrograms(current, configs).changed;
+      if (conflicts.length > 0 && options.conflicts === 'skip') {
+        const skipped = new Set(conflicts.map(conflict => conflict.id));
+        const currentById = new Map(current.map(config => [config.id, config]));
+        configs = this.checkConfigs(configs.map(config => skipped.has(config.id) ? currentById.get(config.id)! : config));
+      } else if (conflicts.length > 0 && (options.conflicts ?? 'fail') === 'fail' && !options.dryRun) {
+        throw new RpcError('CONFLICT', `${conflicts.map(conflict => conflict.name).join(', ')}: a program already exists with other settings; skip or overwrite the conflicts`);
+      }
+      const result = await this.applyPrograms(configs, options.dryRun ?? false, options.actor, 'Imported programs');
+      return { ...result, conflicts };
+    });
+  }
+  
+  // The programs as an export in the format, with secret env values masked
+  exportConfig(format: ConfigFormat): string {
+    const configs = this.getPrograms().map(p => ({ ...p.toJSON(), env: maskEnv(p.env) }));
+    return serializeConfig(configs, format, PROGRAM_DEFAULTS);
+  }
+  
+  /**
+   * Re-read the config file and apply what changed: removed programs are
+   * stopped and dropped, added ones are created and auto-started, and changed
+   * settings take effect at the next start, as when editing a program.
+   * Programs the file leaves alone are not touched. The whole file is checked
+   * first, so an invalid file changes nothing.
+   */
+  reloadPrograms(options: { dryRun?: boolean, actor?: string } = {}): Promise<ConfigReloadResult> {
+    return this.enqueueReload(async () => {
+      const data = await fs.promises.readFile(this.configPath, 'utf-8');
+      return this.applyConfig(data, options.dryRun ?? false, options.actor ?? CONFIG_FILE_ACTOR);
+    });
+  }
+  
+  // Reload the config file when someone else changes it, e.g. a text editor or a deploy
+  watchConfig() {
+    if (this.configWatcher) return;
+    const file = path.basename(this.configPath);
+    // The directory is watched, as editors often replace the file rather than write to it
+    this.configWatcher = fs.watch(path.dirname(this.configPath), (_event, filename) => {
+      if (filename && filename !== file) return;
+      if (this.configReloadTimer) clearTimeout(this.configReloadTimer);
+      this.configReloadTimer = setTimeout(() => this.reloadChangedConfig(), CONFIG_RELOAD_DELAY_MS);
+    });
+    this.configWatcher.on('error', error => logger.error('program', 'Error watching the config file:', error));
+  }
+  
+  unwatchConfig() {
+    this.configWatcher?.close();
+    this.configWatcher = undefined;
+    if (this.configReloadTimer) clearTimeout(this.configReloadTimer);
+    this.configReloadTimer = undefined;
+  }
+  
+  private async reloadChangedConfig() {
+    this.configReloadTimer = undefined;
+    try {
+      await this.enqueueReload(async () => {
+        let data: string;
+        try {
+          data = await fs.promises.readFile(this.configPath, 'utf-8');
+        } catch (error) {
+          // Removing the file does not remove the programs; it is written again at the next change
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+          throw error;
+        }
+        if (data === this.lastConfigText) return;
+        await this.applyConfig(data, false, CONFIG_FILE_ACTOR);
+      });
+    } catch (error) {
+      logger.error('program', 'Not reloading the changed config file:', error);
+      this.configReloadCallback?.({
+        time: Date.now(),
+        actor: CONFIG_FILE_ACTOR,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  
+  // Reloads run one at a time, so a reload always diffs against the previous one's result
+  private enqueueReload<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.reloading.then(task);
+    this.reloading = run.catch(() => undefined);
+    return run;
+  }
+  
+  // Check the programs of a config file as addProgram would, but against each other
+  private checkConfigs(programs: (Omit<ProgramConfig, 'id'> & { id?: string })[]): ProgramConfig[] {
+    const configs = programs.map(config => ({ ...config, id: config.id || uuidv4() }));
+    const ids = new Set<string>();
+    for (const config of configs) {
+      if (ids.has(config.id)) throw new Error(`Program id ${config.id} is in the config file twice`);
+      ids.add(config.id);
+    }
+    
+    const graph: DependencyGraph = new Map();
+    for (const config of configs) {
+      try {
+        validateEnvironment(config);
+        validateScreenName(config.screenName);
+        validateStopSequence(config.stopSequence);
+        validateLimits(config.limits);
+        validateSchedule(config.schedule);
+        for (const depId of config.dependsOn || []) {
+          if (depId === config.id) throw new Error('A program cannot depend on itself');
+          if (!ids.has(depId)) throw new Error(`Dependency with id ${depId} not found`);
+        }
+      } catch (error) {
+        throw new Error(`${config.name}: ${error instanceof Error ? error.message : error}`);
+      }
+      graph.set(config.id, config.dependsOn || []);
+    }
+    const cycle = findCycle(graph);
+    if (cycle) {
+      const names = cycle.map(cycleId => configs.find(c => c.id === cycleId)?.name || cycleId);
+      throw new Error(`Dependency cycle detected: ${names.join(' -> ')}`);
+    }
+    // Through a program, so the defaults are filled in as for the loaded programs
+    const checked = configs.map(config => Program.fromJSON(normalizeConfig(config)).toJSON());
+    const screenNames = new Map<string, string>();
+    for (const config of checked) {
+      const other = screenNames.get(config.screenName);
+      if (other !== undefined) throw new Error(`Screen name ${config.screenName} is used by ${other} and ${config.name}`);
+      screenNames.set(config.screenName, config.name);
+    }
+    return checked;
+  }
+  
+  private async applyConfig(data: string, dryRun: boolean, actor: string): Promise<ConfigReloadResult> {
+    const document = readConfigFile(data, this.format);
+    const configs = this.checkConfigs(validateConfigFile(document));
+    if (dryRun) return this.applyPrograms(configs, dryRun, actor, 'Reloaded the config file');
+    
+    const { lastConfigText, declarative } = this;
+    this.lastConfigText = data;
+    this.declarative = this.format !== 'json' || document.stack;
     try {
-      const configs = Array.from(this.programs.values()).map(p => p.toJSON());
-      await fs.promises.writeFile(this.configPath, JSON.stringify(configs, null, 2));
-      logger.info('program', `Saved ${configs.length} programs to config`);
+      return await this.applyPrograms(configs, dryRun, actor, 'Reloaded the config file');
     } catch (error) {
-      logger.error('program', 'Error saving programs:', error);
+      // Not applied, so the same file is tried again at the next change
+      this.lastConfigText = lastConfigText;
+      this.declarative = declarative;
+      throw error;
     }
   }
   
+  private async applyPrograms(configs: ProgramConfig[], dryRun: boolean, actor: string | undefined, reason: string): Promise<ConfigReloadResult> {
+    const diff = diffPrograms(this.getPrograms().map(p => p.toJSON()), configs);
+    for (const change of diff.changed) {
+      if (this.programs.get(change.id)!.getState().status === 'running') change.running = true;
+    }
+    if (dryRun) return { diff, applied: false, actor };
+    
+    if (isEmptyDiff(diff)) {
+      // Only the order, the formatting or the ids given to new programs can differ
+      this.programs = new Map(configs.map(config => [config.id, this.programs.get(config.id)!]));
+      // The saved programs of a stack file are also tied to the stack file they come from
+      if (this.declarative || this.lastConfigText !== JSON.stringify(configs, null, 2)) {
+        await this.savePrograms({ actor, reason });
+      }
+      return { diff, applied: true, actor };
+    }
+    logger.info('program', `${reason} for ${actor}: ${summarizeDiff(diff)}`);
+    
+    // Removed programs are stopped first, since nothing would be left to stop
+    // them once detached; one that is still running stops the reload before it
+    // changes anything
+    const removed = new Set(diff.removed.map(p => p.id));
+    const removedPrograms = this.getStartOrder().reverse().filter(p => removed.has(p.id));
+    for (const program of removedPrograms) {
+      if (program.getState().status !== 'running' || await program.stop(actor)) continue;
+      logger.warn('program', `Failed to stop removed program ${program.name}, terminating it`);
+      if (!await program.terminate(actor)) {
+        throw new RpcError('FAILED', `Failed to stop ${program.name}, so the config was not applied`);
+      }
+    }
+    for (const program of removedPrograms) {
+      this.detachProgram(program.id);
+    }
+    
+    const byId = new Map(configs.map(config => [config.id, config]));
+    for (const { id } of diff.added) {
+      this.attachProgram(new Program(byId.get(id)!, this.configPath)).recordEvent('created', 'Created', { actor });
+    }
+    for (const change of diff.changed) {
+      const program = this.programs.get(change.id)!;
+      const config = byId.get(change.id)!;
+      Object.assign(program, Object.fromEntries(change.fields.map(field => [field, config[field]])));
+      program.recordEvent('configChanged', `Changed ${change.fields.join(', ')}`, { actor });
+    }
+    // In the order of the file
+    this.programs = new Map(configs.map(config => [config.id, this.programs.get(config.id)!]));
+    await this.savePrograms({ actor, reason: `${reason}: ${summarizeDiff(diff)}` });
+    this.configReloadCallback?.({ time: Date.now(), actor: actor || CONFIG_FILE_ACTOR, diff, reason });
+    
+    // Added auto-start programs start as they would at boot, with their dependencies
+    for (const { id } of diff.added) {
+      const program = this.programs.get(id)!;
+      if (!program.autoStart) continue;
+      for (const dep of this.getUnstartedDependencies(id)) {
+        await dep.start('boot');
+      }
+      if (program.getState().status !== 'running') {
+        await program.start('boot');
+      }
+    }
+    return { diff, applied: true, actor };
+  }
+  
   getPrograms(): Program[] {
     return Array.from(this.programs.values());
   }
@@ -540,55 +1808,430 @@ export class ProgramManager {
     return this.programs.get(id);
   }
   
-  addProgram(config: Omit<ProgramConfig, 'id'>): Program {
-    const program = new Program({
-      ...config,
-      id: uuidv4()
-    }, this.configPath);
+  async addProgram(config: Omit<ProgramConfig, 'id'>, actor?: string): Promise<Program> {
+    const id = uuidv4();
+    this.validateDependencies(id, config.dependsOn || []);
+    validateEnvironment(config);
+    validateScreenName(config.screenName);
+    this.validateScreenNameUnused(id, config.screenName || defaultScreenName(config.name));
+    validateStopSequence(config.stopSequence);
+    validateLimits(config.limits);
+    validateSchedule(config.schedule);
     
-    if (this.statusChangeCallback) {
-      program.setStatusChangeCallback(this.statusChangeCallback);
-    }
-    
-    this.programs.set(program.id, program);
-    this.savePrograms();
+    const program = this.attachProgram(new Program(normalizeConfig({ ...config, id }), this.configPath));
+    program.recordEvent('created', 'Created', { actor });
+    await this.savePrograms({ actor, reason: `Added ${program.name}` });
     return program;
   }
   
-  updateProgram(id: string, config: Partial<ProgramConfig>): Program | undefined {
+  async updateProgram(id: string, config: Partial<ProgramConfig>, actor?: string): Promise<Program | undefined> {
     const program = this.programs.get(id);
     if (!program) return undefined;
     
+    if (config.dependsOn !== undefined) {
+      this.validateDependencies(id, config.dependsOn);
+    }
+    validateEnvironment(config);
+    validateScreenName(config.screenName);
+    if (config.screenName !== undefined) {
+      this.validateScreenNameUnused(id, config.screenName);
+    }
+    validateStopSequence(config.stopSequence);
+    validateLimits(config.limits);
+    validateSchedule(config.schedule);
+    
+    const before = program.toJSON();
     if (config.name !== undefined) program.name = config.name;
     if (config.command !== undefined) program.command = config.command;
+    if (config.group !== undefined) program.group = config.group?.trim() || undefined;
+    if (config.tags !== undefined) program.tags = normalizeTags(config.tags);
     if (config.screenName !== undefined) program.screenName = config.screenName;
+    if (config.runtime !== undefined) program.runtime = config.runtime;
     if (config.maxChildDepth !== undefined) program.maxChildDepth = config.maxChildDepth;
     if (config.autoStart !== undefined) program.autoStart = config.autoStart;
     if (config.stopMethod !== undefined) program.stopMethod = config.stopMethod;
+    if (config.stopSequence !== undefined) program.stopSequence = config.stopSequence?.length ? config.stopSequence : undefined;
+    if (config.restartPolicy !== undefined) program.restartPolicy = config.restartPolicy;
+    if (config.dependsOn !== undefined) program.dependsOn = config.dependsOn;
+    if (config.healthCheck !== undefined) program.healthCheck = config.healthCheck || undefined;
+    if (config.cwd !== undefined) program.cwd = config.cwd || undefined;
+    if (config.env !== undefined) program.env = mergeMaskedEnv(program.env, config.env);
+    if (config.envFile !== undefined) program.envFile = config.envFile || undefined;
+    if (config.runAs !== undefined) program.runAs = config.runAs || undefined;
+    if (config.limits !== undefined) program.limits = config.limits || undefined;
+    if (config.schedule !== undefined) program.schedule = config.schedule || undefined;
+    if (config.runOnce !== undefined) program.runOnce = config.runOnce;
+    if (config.acl !== undefined) program.acl = normalizeAcl(config.acl);
+    
+    const after = program.toJSON();
+    const changed = (Object.keys(after) as (keyof ProgramConfig)[])
+      .filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+    if (changed.length > 0) {
+      program.recordEvent('configChanged', `Changed ${changed.join(', ')}`, { actor });
+    }
+    
+    await this.savePrograms({ actor, reason: `Changed ${program.name}: ${changed.join(', ')}` });
+    return program;
+  }
+  
+  async deleteProgram(id: string, actor?: string): Promise<boolean> {
+    const dependents = this.getPrograms().filter(p => p.id !== id && p.dependsOn.includes(id));
+    if (dependents.length > 0) {
+      throw new RpcError('CONFLICT', `Program is required by ${dependents.map(p => p.name).join(', ')}`);
+    }
     
-    this.savePrograms();
+    const program = this.programs.get(id);
+    if (!program) return false;
+    // Nothing would be left to stop its process or its pending restarts
+    if (program.getState().status === 'running' && !await program.stop(actor)) {
+      throw new RpcError('FAILED', `Failed to stop ${program.name}, so it was not deleted`);
+    }
+    this.detachProgram(id);
+    await this.savePrograms({ actor, reason: `Deleted ${program.name}` });
+    return true;
+  }
+  
+  private attachProgram(program: Program): Program {
+    if (this.statusChangeCallback) {
+      program.setStatusChangeCallback(this.statusChangeCallback);
+    }
+    this.attachLog(program);
+    this.attachHistory(program);
+    this.watchLimits(program);
+    this.watchEvents(program);
+    this.programs.set(program.id, program);
     return program;
   }
   
-  deleteProgram(id: string): boolean {
+  private detachProgram(id: string): boolean {
     const result = this.programs.delete(id);
     if (result) {
-      this.savePrograms();
+      // The log files are kept on disk
+      this.logs.get(id)?.close();
+      this.logs.delete(id);
+      this.metrics.remove(id);
     }
     return result;
   }
   
-  async startAllAutoStart(): Promise<void> {
+  // Capture the program's output into its log: pty output is streamed,
+  // screen output goes through the capture file polled by monitorAll
+  private attachLog(program: Program) {
+    const log = new ProgramLog(program.id);
+    program.screenLogFile = log.screenCapturePath;
+    program.on('output', (data: string) => log.write(data));
+    this.logs.set(program.id, log);
+  }
+  
+  getProgramLog(id: string): ProgramLog | undefined {
+    return this.logs.get(id);
+  }
+  
+  // Runs, lifecycle events and the last screen exit status are kept next to
+  // the config file, in runs/, events/ and exit/
+  private attachHistory(program: Program) {
+    const dir = path.dirname(this.configPath);
+    program.runHistory = new RunHistory(path.join(dir, 'runs', `${program.id}.json`));
+    program.eventJournal = new EventJournal(path.join(dir, 'events', `${program.id}.jsonl`));
+    program.exitStatusFile = path.join(dir, 'exit', program.id);
+  }
+  
+  getRunHistory(id: string, limit?: number): RunRecord[] | undefined {
+    return this.programs.get(id)?.runHistory?.list(limit);
+  }
+  
+  getProgramEvents(id: string, query: EventQuery = {}): ProgramEvent[] | undefined {
+    return this.programs.get(id)?.eventJournal?.list(query);
+  }
+  
+  private watchLimits(program: Program) {
+    program.on('limitExceeded', (event: LimitExceededEvent) => this.limitExceededCallback?.(event));
+  }
+  
+  private watchEvents(program: Program) {
+    program.on('event', (event: ProgramEvent) => this.programEventCallback?.(program, event));
+  }
+  
+  getProgramMetrics(id: string, query: MetricsQuery = {}): MetricsSample[] {
+    return this.metrics.getSamples(id, query);
+  }
+  
+  // Samples of the running programs from the last pass of the monitoring loop
+  getLatestMetrics(): Map<string, MetricsSample> {
+    return this.latestSamples;
+  }
+  
+  private getDependencyGraph(): DependencyGraph {
+    const graph: DependencyGraph = new Map();
     for (const program of this.programs.values()) {
-      if (program.autoStart) {
-        await program.start();
+      graph.set(program.id, program.dependsOn);
+    }
+    return graph;
+  }
+  
+  // Terminals attach to programs by their screen session, so no two programs may share one
+  private validateScreenNameUnused(id: string, screenName: string) {
+    const other = Array.from(this.programs.values()).find(program => program.id !== id && program.screenName === screenName);
+    if (other) throw new RpcError('CONFLICT', `Screen name ${screenName} is used by ${other.name}`);
+  }
+  
+  // Reject unknown ids, self references and changes that would create a cycle
+  private validateDependencies(id: string, dependsOn: string[]) {
+    for (const depId of dependsOn) {
+      if (depId === id) throw new Error('A program cannot depend on itself');
+      if (!this.programs.has(depId)) throw new Error(`Dependency with id ${depId} not found`);
+    }
+    
+    const graph = this.getDependencyGraph();
+    graph.set(id, dependsOn);
+    const cycle = findCycle(graph);
+    if (cycle) {
+      const names = cycle.map(cycleId => this.programs.get(cycleId)?.name || cycleId);
+      throw new Error(`Dependency cycle detected: ${names.join(' -> ')}`);
+    }
+  }
+  
+  // Programs in start order, dependencies first
+  private getStartOrder(): Program[] {
+    return topologicalOrder(this.getDependencyGraph()).map(id => this.programs.get(id)!);
+  }
+  
+  // Dependencies of a program that are not running yet, in start order
+  getUnstartedDependencies(id: string): Program[] {
+    return collectDependencies(this.getDependencyGraph(), id)
+      .map(depId => this.programs.get(depId)!)
+      .filter(dep => dep.getState().status !== 'running');
+  }
+  
+  async startWithDependencies(id: string, actor?: string): Promise<boolean> {
+    const program = this.programs.get(id);
+    if (!program) return false;
+    
+    for (const dep of this.getUnstartedDependencies(id)) {
+      logger.info('program', `Starting ${dep.name} as a dependency of ${program.name}`);
+      if (!await dep.start('manual', actor)) {
+        logger.error('program', `Failed to start dependency ${dep.name} of ${program.name}`);
+        return false;
+      }
+    }
+    return program.start('manual', actor);
+  }
+
+  // Start or stop a program for a caller, who is told when it did not start or stop
+  async startProgram(id: string, withDependencies: boolean = false, actor?: string): Promise<Program> {
+    const program = this.requireProgram(id);
+    const started = withDependencies
+      ? await this.startWithDependencies(id, actor)
+      : await program.start('manual', actor);
+    if (!started) throw new RpcError('FAILED', `Failed to start ${program.name}`);
+    return program;
+  }
+
+  async stopProgram(id: string, actor?: string): Promise<Program> {
+    const program = this.requireProgram(id);
+    // Like bulk stops, stopping a stopped program is not a failure
+    if (program.getState().status === 'stopped') return program;
+    if (!await program.stop(actor)) throw new RpcError('FAILED', `Failed to stop ${program.name}`);
+    return program;
+  }
+
+  private requireProgram(id: string): Program {
+    const program = this.programs.get(id);
+    if (!program) throw new RpcError('NOT_FOUND', `Program with id ${id} not found`);
+    return program;
+  }
+
+  async startAllAutoStart(): Promise<void> {
+    let order: Program[];
+    const required = new Set<string>();
+    try {
+      // Auto-start programs pull in their dependencies even if those are not auto-started themselves
+      const graph = this.getDependencyGraph();
+      for (const program of this.programs.values()) {
+        if (program.autoStart) {
+          required.add(program.id);
+          collectDependencies(graph, program.id).forEach(depId => required.add(depId));
+        }
+      }
+      order = this.getStartOrder();
+    } catch (error) {
+      // A hand-edited config can contain a cycle; fall back to the config file order
+      logger.error('program', 'Cannot order programs by dependencies, using config order:', error);
+      order = this.getPrograms().filter(p => p.autoStart);
+      order.forEach(p => required.add(p.id));
+    }
+    
+    for (const program of order) {
+      if (required.has(program.id)) {
+        await program.start('boot');
+      }
+    }
+  }
+  
+  // Stop all running programs, dependents before the programs they depend on
+  async stopAll(actor?: string): Promise<void> {
+    for (const program of this.getStartOrder().reverse()) {
+      if (program.getState().status === 'running') {
+        await program.stop(actor);
+      }
+    }
+  }
+  
+  // Programs in a group, in config order
+  getGroupPrograms(group: string): Program[] {
+    return this.getPrograms().filter(p => (p.group || '') === group);
+  }
+  
+  async startGroup(group: string, concurrency?: number, actor?: string): Promise<BulkResult[]> {
+    return this.runBulk(this.getGroupPrograms(group).map(p => p.id), 'start', concurrency, actor);
+  }
+  
+  async stopGroup(group: string, concurrency?: number, actor?: string): Promise<BulkResult[]> {
+    return this.runBulk(this.getGroupPrograms(group).map(p => p.id), 'stop', concurrency, actor);
+  }
+  
+  async restartGroup(group: string, concurrency?: number, actor?: string): Promise<BulkResult[]> {
+    return this.runBulk(this.getGroupPrograms(group).map(p => p.id), 'restart', concurrency, actor);
+  }
+  
+  /**
+   * Run an action on several programs, at most `concurrency` at a time.
+   * Starts wait for the selected programs they depend on and are skipped when
+   * one of those fails; stops wait for the selected programs that depend on them.
+   * A restart stops all selected programs before starting them again.
+   * Results are returned in the order of `ids`.
+   */
+  async runBulk(ids: string[], action: BulkAction, concurrency: number = BULK_CONCURRENCY, actor?: string): Promise<BulkResult[]> {
+    const programs: Program[] = [];
+    const results = new Map<string, BulkResult>();
+    for (const id of ids) {
+      const program = this.programs.get(id);
+      if (program) {
+        programs.push(program);
+      } else {
+        results.set(id, { id, name: id, success: false, error: `Program with id ${id} not found` });
+      }
+    }
+    logger.info('program', `Running ${action} on ${programs.length} programs: ${programs.map(p => p.name).join(', ')}`);
+    
+    switch (action) {
+      case 'start':
+        (await this.startOrdered(programs, concurrency, actor)).forEach(result => results.set(result.id, result));
+        break;
+      case 'stop':
+        (await this.stopOrdered(programs, concurrency, actor)).forEach(result => results.set(result.id, result));
+        break;
+      case 'restart': {
+        const stopped = new Map((await this.stopOrdered(programs, concurrency, actor)).map(result => [result.id, result]));
+        const restartable = programs.filter(p => stopped.get(p.id)!.success);
+        stopped.forEach(result => {
+          if (!result.success) results.set(result.id, result);
+        });
+        (await this.startOrdered(restartable, concurrency, actor)).forEach(result => results.set(result.id, result));
+        break;
       }
+      case 'terminate': {
+        const limit = createLimiter(concurrency);
+        await Promise.all(programs.map(async program => {
+          results.set(program.id, await limit(() => this.runAction(program, 'terminate', async () => {
+            await program.terminate(actor);
+            return true;
+          })));
+        }));
+        break;
+      }
+      default:
+        throw new Error(`Unknown bulk action: ${action}`);
+    }
+    
+    return ids.map(id => results.get(id)!);
+  }
+  
+  private async startOrdered(programs: Program[], concurrency: number, actor?: string): Promise<BulkResult[]> {
+    const limit = createLimiter(concurrency);
+    const selected = new Map(programs.map(p => [p.id, p.dependsOn]));
+    const tasks = new Map<string, Promise<BulkResult>>();
+    
+    for (const id of topologicalOrder(selected)) {
+      const program = this.programs.get(id)!;
+      const dependencies = program.dependsOn.filter(depId => tasks.has(depId)).map(depId => tasks.get(depId)!);
+      tasks.set(id, Promise.all(dependencies).then(depResults => {
+        const failed = depResults.find(result => !result.success);
+        if (failed) {
+          return { id, name: program.name, success: false, error: `Dependency ${failed.name} did not start` };
+        }
+        if (program.getState().status === 'running') {
+          return { id, name: program.name, success: true, skipped: true };
+        }
+        return limit(() => this.runAction(program, 'start', () => program.start('manual', actor)));
+      }));
+    }
+    return Promise.all(tasks.values());
+  }
+  
+  private async stopOrdered(programs: Program[], concurrency: number, actor?: string): Promise<BulkResult[]> {
+    const limit = createLimiter(concurrency);
+    const selected = new Map(programs.map(p => [p.id, p.dependsOn]));
+    const tasks = new Map<string, Promise<BulkResult>>();
+    
+    for (const id of topologicalOrder(selected).reverse()) {
+      const program = this.programs.get(id)!;
+      const dependents = programs.filter(p => p.dependsOn.includes(id) && tasks.has(p.id)).map(p => tasks.get(p.id)!);
+      tasks.set(id, Promise.all(dependents).then(() => {
+        if (program.getState().status !== 'running') {
+          return { id, name: program.name, success: true, skipped: true };
+        }
+        return limit(() => this.runAction(program, 'stop', () => program.stop(actor)));
+      }));
+    }
+    return Promise.all(tasks.values());
+  }
+  
+  private async runAction(program: Program, action: string, run: () => Promise<boolean>): Promise<BulkResult> {
+    try {
+      const success = await run();
+      return { id: program.id, name: program.name, success, error: success ? undefined : `Failed to ${action} ${program.name}` };
+    } catch (error) {
+      logger.error('program', `Error running ${action} on ${program.name}:`, error);
+      return { id: program.id, name: program.name, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  
+  // Start the scheduled programs whose time has come; called by the scheduler
+  async runSchedules(now: number = Date.now()): Promise<void> {
+    for (const program of this.programs.values()) {
+      await program.runScheduleIfDue(now).catch(error => {
+        logger.error('program', `Error running schedule of ${program.name}:`, error);
+      });
     }
   }
   
   async monitorAll(): Promise<void> {
     for (const program of this.programs.values()) {
       await program.monitor();
+      await program.restartIfDue();
+      // Probes can take up to their timeout, so they run alongside the loop instead of blocking it
+      program.checkHealth().catch(error => {
+        logger.error('program', `Error checking health of ${program.name}:`, error);
+      });
+      if (program.runtime === 'screen') {
+        await this.logs.get(program.id)?.pollScreenCapture().catch(error => {
+          logger.error('program', `Error reading screen output of ${program.name}:`, error);
+        });
+      }
+    }
+    
+    // One pass over /proc covers the process trees of all programs
+    const samples = await this.metrics.sample(this.getProgramStates()).catch(error => {
+      logger.error('program', 'Error sampling program metrics:', error);
+      return new Map<string, MetricsSample>();
+    });
+    this.latestSamples = samples;
+    for (const program of this.programs.values()) {
+      // Like health probes, limit actions can take a while and must not block the loop
+      program.checkLimits(samples.get(program.id)).catch(error => {
+        logger.error('program', `Error checking limits of ${program.name}:`, error);
+      });
     }
   }
 }
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProgramLog } from './ProgramLog';
+
+describe('ProgramLog', () => {
+  let baseDir: string;
+  let log: ProgramLog;
+
+  // Write numbered lines one second apart starting at the given time
+  const writeFile = (name: string, start: number, count: number, startTime = Date.UTC(2024, 0, 1)) => {
+    const lines = [];
+    for (let i = start; i < start + count; i++) {
+      lines.push(`${new Date(startTime + i * 1000).toISOString()} line ${i}\n`);
+    }
+    fs.writeFileSync(path.join(log.dir, name), lines.join(''));
+  };
+
+  beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'program-log-'));
+    log = new ProgramLog('test-id', baseDir);
+    fs.mkdirSync(log.dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    log.close();
+    fs.rmSync(baseDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty page when nothing was captured', async () => {
+    const page = await log.read();
+    expect(page).toEqual({ lines: [], before: undefined, after: '' });
+  });
+
+  it('should page backwards through rotated files', async () => {
+    writeFile('2024-01-01.log', 0, 3000);
+    writeFile('2024-01-01.log.1', 3000, 3000);
+
+    const first = await log.read({ limit: 1000 });
+    expect(first.lines).toHaveLength(1000);
+    expect(first.lines[0].text).toBe('line 5000');
+    expect(first.lines[999].text).toBe('line 5999');
+
+    const texts: string[] = first.lines.map(line => line.text);
+    let before = first.before;
+    while (before) {
+      const page = await log.read({ limit: 1000, before });
+      texts.unshift(...page.lines.map(line => line.text));
+      before = page.before;
+    }
+    expect(texts).toHaveLength(6000);
+    expect(texts.every((text, i) => text === `line ${i}`)).toBe(true);
+  });
+
+  it('should filter by search text and time range', async () => {
+    writeFile('2024-01-01.log', 0, 100);
+
+    const searched = await log.read({ search: 'LINE 9' });
+    expect(searched.lines.map(line => line.text)).toEqual(['line 9', ...Array.from({ length: 10 }, (_, i) => `line ${90 + i}`)]);
+
+    const ranged = await log.read({
+      from: new Date(Date.UTC(2024, 0, 1) + 10 * 1000).toISOString(),
+      to: new Date(Date.UTC(2024, 0, 1) + 12 * 1000).toISOString()
+    });
+    expect(ranged.lines.map(line => line.text)).toEqual(['line 10', 'line 11', 'line 12']);
+    expect(ranged.before).toBeUndefined();
+  });
+
+  it('should return lines written after a cursor', async () => {
+    writeFile('2024-01-01.log', 0, 5);
+    const page = await log.read();
+
+    fs.appendFileSync(path.join(log.dir, '2024-01-01.log'), `${new Date().toISOString()} new line\n${new Date().toISOString()} partial`);
+    const tail = await log.read({ after: page.after });
+    expect(tail.lines.map(line => line.text)).toEqual(['new line']);
+
+    // The incomplete line is returned once it is finished
+    fs.appendFileSync(path.join(log.dir, '2024-01-01.log'), ' line\n');
+    const next = await log.read({ after: tail.after });
+    expect(next.lines.map(line => line.text)).toEqual(['partial line']);
+  });
+
+  it('should reject an invalid cursor', async () => {
+    writeFile('2024-01-01.log', 0, 5);
+    await expect(log.read({ before: 'missing.log:10' })).rejects.toThrow('Invalid log cursor');
+  });
+});
@@ -0,0 +1,362 @@
+import { createLogger, format, Logger } from 'winston';
+import DailyRotateFile from 'winston-daily-rotate-file';
+import * as fs from 'fs';
+import * as path from 'path';
+import config from './config';
+
+// Bytes read per step when paging through a log file
+const READ_CHUNK_SIZE = 64 * 1024;
+// Output without a trailing newline is written as a line after this delay
+const PARTIAL_LINE_FLUSH_MS = 1000;
+// The screen capture file is emptied once it has been read and grows past this size
+const SCREEN_CAPTURE_MAX_SIZE = 1024 * 1024;
+// Rotated files are named YYYY-MM-DD.log, YYYY-MM-DD.log.1, ...
+const LOG_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.log(?:\.(\d+))?$/;
+// Colour codes and other terminal escape sequences
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*(?:\x07|\x1b\\)|\x1b[()][0-9A-Za-z]|\x1b[=>78DEHM]/g;
+
+export const DEFAULT_LOG_PAGE_SIZE = 200;
+export const MAX_LOG_PAGE_SIZE = 1000;
+
+export interface LogLine {
+  time: string; // ISO timestamp of when the line was captured
+  text: string;
+}
+
+export interface LogQuery {
+  before?: string;  // cursor returned by a previous page, loads older lines
+  after?: string;   // cursor returned by a previous page, loads newer lines (tailing)
+  limit?: number;
+  search?: string;  // case-insensitive substring
+  from?: string;    // ISO timestamp, inclusive
+  to?: string;      // ISO timestamp, inclusive
+}
+
+export interface LogPage {
+  lines: LogLine[];
+  before?: string; // cursor for older lines, undefined when the start of the history was reached
+  after: string;   // cursor for lines written after this page
+}
+
+interface LogPosition {
+  fileIndex: number;
+  offset: number;
+}
+
+/**
+ * Captured output of one program, written to daily rotating files under
+ * LOG_DIR/programs/<program id> using the rotation settings of the main log.
+ * Each line is stored as "<ISO timestamp> <text>" with escape sequences removed.
+ *
+ * Pages are read backwards from the end of the newest file in fixed size chunks,
+ * so a page never needs more than a few reads regardless of the history size.
+ */
+export class ProgramLog {
+  readonly dir: string;
+  private logger?: Logger;
+  private pending = '';
+  private flushTimer?: NodeJS.Timeout;
+  private captureOffset = 0;
+
+  constructor(programId: string, baseDir: string = path.join(config.LOG_DIR, 'programs')) {
+    this.dir = path.resolve(baseDir, programId);
+  }
+
+  // File that screen writes the session output to; read by pollScreenCapture
+  get screenCapturePath(): string {
+    return path.join(this.dir, '.screen-capture');
+  }
+
+  private ensureDir() {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+  }
+
+  // Append raw program output; lines are written once they are complete
+  write(data: string) {
+    const text = (this.pending + data.replace(ANSI_PATTERN, '')).replace(/\r\n/g, '\n');
+    const parts = text.split('\n');
+    this.pending = parts.pop() || '';
+
+    for (const part of parts) {
+      this.writeLine(part);
+    }
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.pending) {
+      this.flushTimer = setTimeout(() => this.flush(), PARTIAL_LINE_FLUSH_MS);
+      this.flushTimer.unref();
+    }
+  }
+
+  flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.pending) {
+      this.writeLine(this.pending);
+      this.pending = '';
+    }
+  }
+
+  private writeLine(line: string) {
+    // Progress output redraws the line with \r; keep what ends up visible
+    const visible = line.substring(line.lastIndexOf('\r') + 1);
+    this.getLogger().info(visible);
+  }
+
+  private getLogger(): Logger {
+    if (!this.logger) {
+      this.ensureDir();
+      this.logger = createLogger({
+        format: format.combine(
+          format.timestamp(),
+          format.printf((info) => `${info.timestamp} ${info.message}`)
+        ),
+        transports: [
+          new DailyRotateFile({
+            dirname: this.dir,
+            filename: '%DATE%.log',
+            datePattern: 'YYYY-MM-DD',
+            maxSize: config.LOG_ROTATE_MAX_SIZE,
+            maxFiles: config.LOG_ROTATE_MAX_FILES,
+            auditFile: path.join(this.dir, '.audit.json')
+          })
+        ]
+      });
+    }
+    return this.logger;
+  }
+
+  // Move new output from the screen capture file into the log
+  async pollScreenCapture(): Promise<void> {
+    let handle: fs.promises.FileHandle;
+    try {
+      handle = await fs.promises.open(this.screenCapturePath, 'r+');
+    } catch {
+      return; // Nothing captured yet
+    }
+
+    try {
+      const { size } = await handle.stat();
+      if (size < this.captureOffset) {
+        // The file was recreated by screen
+        this.captureOffset = 0;
+      }
+      if (size > this.captureOffset) {
+        const buffer = Buffer.alloc(size - this.captureOffset);
+        await handle.read(buffer, 0, buffer.length, this.captureOffset);
+        this.captureOffset = size;
+        this.write(buffer.toString('utf-8'));
+      }
+      if (this.captureOffset > SCREEN_CAPTURE_MAX_SIZE) {
+        // screen appends to the file, so emptying it keeps it small
+        await handle.truncate(0);
+        this.captureOffset = 0;
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  close() {
+    this.flush();
+    this.logger?.close();
+    this.logger = undefined;
+  }
+
+  // Log files from oldest to newest
+  private listFiles(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .map(name => ({ name, match: LOG_FILE_PATTERN.exec(name) }))
+      .filter(entry => entry.match)
+      .sort((a, b) => a.match![1].localeCompare(b.match![1]) || Number(a.match![2] || 0) - Number(b.match![2] || 0))
+      .map(entry => entry.name);
+  }
+
+  private fileSize(name: string): number {
+    try {
+      return fs.statSync(path.join(this.dir, name)).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private parseCursor(files: string[], cursor: string): LogPosition | undefined {
+    const separator = cursor.lastIndexOf(':');
+    const fileIndex = files.indexOf(cursor.substring(0, separator));
+    const offset = parseInt(cursor.substring(separator + 1), 10);
+    if (fileIndex === -1 || isNaN(offset) || offset < 0) return undefined;
+    return { fileIndex, offset };
+  }
+
+  private formatCursor(files: string[], position: LogPosition): string {
+    return `${files[position.fileIndex]}:${position.offset}`;
+  }
+
+  // Read a page of lines; without cursors the newest lines are returned
+  async read(query: LogQuery = {}): Promise<LogPage> {
+    const files = this.listFiles();
+    const limit = Math.min(Math.max(query.limit || DEFAULT_LOG_PAGE_SIZE, 1), MAX_LOG_PAGE_SIZE);
+    const search = query.search?.toLowerCase();
+    const from = query.from ? this.parseTime(query.from) : undefined;
+    const to = query.to ? this.parseTime(query.to) : undefined;
+    const matches = (line: LogLine) =>
+      (!search || line.text.toLowerCase().includes(search)) &&
+      (!from || line.time >= from) &&
+      (!to || line.time <= to);
+
+    const end: LogPosition = files.length > 0
+      ? { fileIndex: files.length - 1, offset: this.fileSize(files[files.length - 1]) }
+      : { fileIndex: -1, offset: 0 };
+
+    if (query.after !== undefined) {
+      // An unknown cursor means the file was rotated away, continue from the oldest file
+      const start = this.parseCursor(files, query.after) || { fileIndex: 0, offset: 0 };
+      const { lines, position } = await this.readForward(files, start, limit, matches);
+      return {
+        lines,
+        after: files.length > 0 ? this.formatCursor(files, position) : ''
+      };
+    }
+
+    const start = query.before !== undefined ? this.parseCursor(files, query.before) : end;
+    if (!start) {
+      throw new Error('Invalid log cursor');
+    }
+    const { lines, position } = await this.readBackward(files, start, limit, matches, from);
+    return {
+      lines,
+      before: position ? this.formatCursor(files, position) : undefined,
+      after: files.length > 0 ? this.formatCursor(files, end) : ''
+    };
+  }
+
+  private parseTime(value: string): string {
+    const time = new Date(value);
+    if (isNaN(time.getTime())) {
+      throw new Error(`Invalid time: ${value}`);
+    }
+    return time.toISOString();
+  }
+
+  private parseLine(raw: string): LogLine {
+    const separator = raw.indexOf(' ');
+    if (separator === -1) return { time: '', text: raw };
+    return { time: raw.substring(0, separator), text: raw.substring(separator + 1) };
+  }
+
+  // Collect matching lines that end before a position, stopping at `from` when given.
+  // Returns the lines oldest first and the position of the oldest one when more may follow.
+  private async readBackward(
+    files: string[],
+    start: LogPosition,
+    limit: number,
+    matches: (line: LogLine) => boolean,
+    from?: string
+  ): Promise<{ lines: LogLine[], position?: LogPosition }> {
+    const lines: LogLine[] = [];
+    let fileIndex = start.fileIndex;
+    let offset = start.offset;
+
+    while (fileIndex >= 0) {
+      const handle = await fs.promises.open(path.join(this.dir, files[fileIndex]), 'r');
+      try {
+        // Bytes of a line that started before the chunk read last
+        let carry = Buffer.alloc(0);
+        let firstChunk = true;
+        while (offset > 0) {
+          const chunkStart = Math.max(offset - READ_CHUNK_SIZE, 0);
+          const chunk = Buffer.alloc(offset - chunkStart);
+          await handle.read(chunk, 0, chunk.length, chunkStart);
+          const data = Buffer.concat([chunk, carry]);
+          offset = chunkStart;
+
+          // Walk the lines in this chunk from the last to the first
+          let lineEnd = data.length;
+          if (firstChunk && data[lineEnd - 1] === 0x0a) lineEnd--;
+          firstChunk = false;
+          for (let i = lineEnd - 1; i >= -1; i--) {
+            if (i >= 0 && data[i] !== 0x0a) continue;
+            if (i === -1 && chunkStart > 0) break; // the line continues in the previous chunk
+
+            const line = this.parseLine(data.toString('utf-8', i + 1, lineEnd));
+            const lineStart = chunkStart + i + 1;
+            lineEnd = i;
+
+            if (from && line.time && line.time < from) {
+              // Everything older is before the requested range
+              return { lines: lines.reverse() };
+            }
+            if (matches(line)) {
+              lines.push(line);
+              if (lines.length === limit) {
+                const more = lineStart > 0 || fileIndex > 0;
+                return { lines: lines.reverse(), position: more ? { fileIndex, offset: lineStart } : undefined };
+              }
+            }
+          }
+          carry = data.subarray(0, Math.max(lineEnd, 0));
+        }
+      } finally {
+        await handle.close();
+      }
+
+      fileIndex--;
+      if (fileIndex >= 0) offset = this.fileSize(files[fileIndex]);
+    }
+
+    return { lines: lines.reverse() };
+  }
+
+  // Collect matching complete lines after a position
+  private async readForward(
+    files: string[],
+    start: LogPosition,
+    limit: number,
+    matches: (line: LogLine) => boolean
+  ): Promise<{ lines: LogLine[], position: LogPosition }> {
+    const lines: LogLine[] = [];
+    let position = { ...start };
+
+    for (let fileIndex = start.fileIndex; fileIndex < files.length; fileIndex++) {
+      let offset = fileIndex === start.fileIndex ? start.offset : 0;
+      position = { fileIndex, offset };
+      const size = this.fileSize(files[fileIndex]);
+      if (offset >= size) continue;
+
+      const handle = await fs.promises.open(path.join(this.dir, files[fileIndex]), 'r');
+      try {
+        let carry = Buffer.alloc(0);
+        while (offset < size) {
+          const chunk = Buffer.alloc(Math.min(READ_CHUNK_SIZE, size - offset));
+          await handle.read(chunk, 0, chunk.length, offset);
+          const data = Buffer.concat([carry, chunk]);
+          const dataStart = offset - carry.length;
+          offset += chunk.length;
+
+          let lineStart = 0;
+          let newline = data.indexOf(0x0a, lineStart);
+          while (newline !== -1) {
+            const line = this.parseLine(data.toString('utf-8', lineStart, newline));
+            if (matches(line)) {
+              if (lines.length === limit) return { lines, position };
+              lines.push(line);
+            }
+            lineStart = newline + 1;
+            position = { fileIndex, offset: dataStart + lineStart };
+            newline = data.indexOf(0x0a, lineStart);
+          }
+          // An incomplete last line is read again by the next call
+          carry = data.subarray(lineStart);
+        }
+      } finally {
+        await handle.close();
+      }
+    }
+
+    return { lines, position };
+  }
+}
@@ -0,0 +1,91 @@
+import type { Request, Response } from 'express';
+import { PrometheusMetrics, createMetricsHandler } from './PrometheusMetrics';
+import type { ProgramState } from './Program';
+import type { MetricsSample } from './MetricsCollector';
+
+function state(id: string, overrides: Partial<ProgramState> = {}): ProgramState {
+  return {
+    id, name: id.toUpperCase(), command: 'run', screenName: id, status: 'stopped', screenActive: false,
+    restart: { attempts: 0, maxRetries: 5, crashLoop: false, total: 0 },
+    ...overrides
+  } as ProgramState;
+}
+
+const sample: MetricsSample = { time: 0, cpu: 12.5, rss: 1048576, threads: 3, fds: 10, processes: 2, uptime: 90 };
+
+function createMetrics(programs: ProgramState[]) {
+  return new PrometheusMetrics({
+    programs: () => programs,
+    samples: () => new Map([['web', sample]]),
+    terminals: () => 2,
+    sockets: () => 3,
+  }, { defaultMetrics: false });
+}
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: '',
+    status(code: number) { res.statusCode = code; return res; },
+    type() { return res; },
+    setHeader(name: string, value: string) { res.headers[name] = value; },
+    send(body: string) { res.body = body; return res; },
+  };
+  return res;
+}
+
+describe('PrometheusMetrics', () => {
+  it('should expose program state and resource use', async () => {
+    const programs = [
+      state('web', { status: 'running', group: 'frontend', health: 'unhealthy', restart: { attempts: 1, maxRetries: 5, crashLoop: false, total: 4 } }),
+      state('job'),
+    ];
+    const text = await createMetrics(programs).render();
+
+    expect(text).toContain('startup_manager_program_up{id="web",name="WEB",group="frontend"} 1');
+    expect(text).toContain('startup_manager_program_up{id="job",name="JOB",group=""} 0');
+    expect(text).toContain('startup_manager_program_restarts_total{id="web",name="WEB",group="frontend"} 4');
+    expect(text).toContain('startup_manager_program_health{id="web",name="WEB",group="frontend",state="unhealthy"} 1');
+    expect(text).toContain('startup_manager_program_health{id="web",name="WEB",group="frontend",state="healthy"} 0');
+    expect(text).not.toContain('startup_manager_program_health{id="job"');
+    expect(text).toContain('startup_manager_program_memory_bytes{id="web",name="WEB",group="frontend"} 1048576');
+    expect(text).toContain('startup_manager_program_uptime_seconds{id="web",name="WEB",group="frontend"} 90');
+    expect(text).toContain('startup_manager_terminals_open 2');
+    expect(text).toContain('startup_manager_sockets_connected 3');
+  });
+
+  it('should drop deleted programs and count calls and failures', async () => {
+    const programs = [state('web'), state('job')];
+    const metrics = createMetrics(programs);
+    await metrics.render();
+    programs.pop();
+
+    metrics.recordRpc('startProgram', 'success');
+    metrics.recordRpc('startProgram', 'success');
+    metrics.recordRpc('doesNotExist', 'error');
+    metrics.recordAuthFailure('password');
+    const text = await metrics.render();
+
+    expect(text).not.toContain('id="job"');
+    expect(text).toContain('startup_manager_rpc_calls_total{method="startProgram",result="success"} 2');
+    expect(text).toContain('startup_manager_rpc_calls_total{method="unknown",result="error"} 1');
+    expect(text).toContain('startup_manager_auth_failures_total{reason="password"} 1');
+  });
+
+  it('should require the token when one is set', async () => {
+    const metrics = createMetrics([]);
+    const handler = createMetricsHandler(metrics, 's3cret');
+    const request = (authorization?: string) => ({ headers: { authorization }, socket: {} }) as unknown as Request;
+
+    const denied = mockResponse();
+    await handler(request('Bearer wrong'), denied as unknown as Response);
+    expect(denied.statusCode).toBe(401);
+    expect(denied.headers['WWW-Authenticate']).toBe('Bearer');
+
+    const allowed = mockResponse();
+    await handler(request('Bearer s3cret'), allowed as unknown as Response);
+    expect(allowed.statusCode).toBe(200);
+    expect(allowed.body).toContain('startup_manager_auth_failures_total{reason="metrics_token"} 1');
+  });
+});
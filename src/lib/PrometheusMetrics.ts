@@ -0,0 +1,145 @@
+// Prometheus exposition of program state and the manager's own activity, served at /metrics.
+import * as crypto from 'crypto';
+import type { Request, Response } from 'express';
+import { Counter, Gauge, Registry, collectDefaultMetrics } from 'prom-client';
+import type { ProgramState } from './Program';
+import type { MetricsSample } from './MetricsCollector';
+import type { AuditResult } from './AuditLog';
+import { isRpcMethod } from './rpcMethods';
+import { logWithIP } from './logger';
+
+// What the gauges are read from at each scrape
+export interface MetricsSource {
+  programs(): ProgramState[];
+  samples(): Map<string, MetricsSample>; // of the running programs
+  terminals(): number;
+  sockets(): number;
+}
+
+export type AuthFailureReason =
+  | 'rate_limited'   // refused by the login rate limit before checking anything
+  | 'password'
+  | 'second_factor'
+  | 'session'        // an expired or revoked session token
+  | 'api_token'
+  | 'metrics_token';
+
+const PROGRAM_LABELS = ['id', 'name', 'group'] as const;
+const HEALTH_STATES = ['starting', 'healthy', 'unhealthy'] as const;
+
+/**
+ * Program gauges are rebuilt from the source on every scrape, so deleted
+ * programs drop out. RPC and authentication counters are kept since startup.
+ */
+export class PrometheusMetrics {
+  readonly registry = new Registry();
+  private programUp: Gauge<typeof PROGRAM_LABELS[number]>;
+  private programHealth: Gauge<typeof PROGRAM_LABELS[number] | 'state'>;
+  private programRestarts: Counter<typeof PROGRAM_LABELS[number]>;
+  private programUptime: Gauge<typeof PROGRAM_LABELS[number]>;
+  private programCpu: Gauge<typeof PROGRAM_LABELS[number]>;
+  private programMemory: Gauge<typeof PROGRAM_LABELS[number]>;
+  private terminalsOpen: Gauge;
+  private socketsConnected: Gauge;
+  private rpcCalls: Counter<'method' | 'result'>;
+  private authFailures: Counter<'reason'>;
+
+  constructor(private source: MetricsSource, options: { defaultMetrics?: boolean } = {}) {
+    const registers = [this.registry];
+    const labelNames = PROGRAM_LABELS;
+    this.programUp = new Gauge({ name: 'startup_manager_program_up', help: 'Whether the program is running', labelNames, registers });
+    this.programHealth = new Gauge({
+      name: 'startup_manager_program_health', help: 'Health check state of the running program, one series per state',
+      labelNames: [...labelNames, 'state'], registers
+    });
+    this.programRestarts = new Counter({
+      name: 'startup_manager_program_restarts_total', help: 'Automatic restarts of the program since the manager started', labelNames, registers
+    });
+    this.programUptime = new Gauge({ name: 'startup_manager_program_uptime_seconds', help: 'Seconds since the running program started', labelNames, registers });
+    this.programCpu = new Gauge({ name: 'startup_manager_program_cpu_percent', help: 'CPU use of the process tree in percent of one core', labelNames, registers });
+    this.programMemory = new Gauge({ name: 'startup_manager_program_memory_bytes', help: 'Resident memory of the process tree', labelNames, registers });
+    this.terminalsOpen = new Gauge({ name: 'startup_manager_terminals_open', help: 'Open terminal sessions', registers });
+    this.socketsConnected = new Gauge({ name: 'startup_manager_sockets_connected', help: 'Connected UI and CLI sockets', registers });
+    this.rpcCalls = new Counter({
+      name: 'startup_manager_rpc_calls_total', help: 'RPC calls over the socket and the REST API, by method and result',
+      labelNames: ['method', 'result'], registers
+    });
+    this.authFailures = new Counter({
+      name: 'startup_manager_auth_failures_total', help: 'Failed authentications, by reason', labelNames: ['reason'], registers
+    });
+    // CPU, memory, event loop lag and handles of the manager process
+    if (options.defaultMetrics ?? true) collectDefaultMetrics({ register: this.registry });
+  }
+
+  recordRpc(method: string, result: AuditResult) {
+    // Unknown method names come from callers, so they share a label
+    this.rpcCalls.inc({ method: isRpcMethod(method) ? method : 'unknown', result });
+  }
+
+  recordAuthFailure(reason: AuthFailureReason) {
+    this.authFailures.inc({ reason });
+  }
+
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  async render(): Promise<string> {
+    this.update();
+    return this.registry.metrics();
+  }
+
+  private update() {
+    for (const metric of [this.programUp, this.programHealth, this.programRestarts, this.programUptime, this.programCpu, this.programMemory]) {
+      metric.reset();
+    }
+    const samples = this.source.samples();
+    for (const program of this.source.programs()) {
+      const labels = { id: program.id, name: program.name, group: program.group || '' };
+      this.programUp.set(labels, program.status === 'running' ? 1 : 0);
+      this.programRestarts.inc(labels, program.restart.total);
+      if (program.health) {
+        for (const state of HEALTH_STATES) this.programHealth.set({ ...labels, state }, program.health === state ? 1 : 0);
+      }
+      const sample = program.status === 'running' ? samples.get(program.id) : undefined;
+      if (sample) {
+        this.programUptime.set(labels, sample.uptime);
+        this.programCpu.set(labels, sample.cpu);
+        this.programMemory.set(labels, sample.rss);
+      }
+    }
+    this.terminalsOpen.set(this.source.terminals());
+    this.socketsConnected.set(this.source.sockets());
+  }
+}
+
+function sameToken(expected: string, actual: string): boolean {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(expected), hash(actual));
+}
+
+/**
+ * Serves the metrics; with a token, only to scrapers sending it as a bearer
+ * token, e.g. with `authorization: {credentials: ...}` in the scrape config.
+ */
+export function createMetricsHandler(metrics: PrometheusMetrics, token?: string) {
+  return async (req: Request, res: Response) => {
+    if (token) {
+      const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+      if (!match || !sameToken(token, match[1])) {
+        metrics.recordAuthFailure('metrics_token');
+        logWithIP('warn', 'Metrics token authentication failed', req.socket.remoteAddress || 'unknown', { withToken: !!match });
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        res.status(401).type('text/plain').send(match ? 'Invalid metrics token\n' : 'Metrics token required\n');
+        return;
+      }
+    }
+    try {
+      const body = await metrics.render();
+      res.setHeader('Content-Type', metrics.contentType);
+      res.send(body);
+    } catch (error) {
+      res.status(500).type('text/plain').send(`Error collecting metrics: ${error instanceof Error ? error.message : error}\n`);
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import * as pty from 'node-pty';
+import { EventEmitter } from 'events';
+
+// Number of output chunks kept for terminals that attach after the program started
+const SCROLLBACK_CHUNKS = 1000;
+
+export interface PtyProcessOptions {
+  cwd?: string;
+  env?: { [key: string]: string };
+  cols?: number;
+  rows?: number;
+}
+
+export interface PtyExit {
+  exitCode: number;
+  signal?: number;
+}
+
+/**
+ * A program command running directly under node-pty, used by the 'pty' runtime.
+ * Unlike a screen session the manager owns the real PID, sees the exit code and
+ * receives the output stream.
+ *
+ * Events:
+ *   'data' (data: string)  - output from the program
+ *   'exit' (exit: PtyExit) - the process exited
+ */
+export class PtyProcess extends EventEmitter {
+  readonly pty: pty.IPty;
+  readonly startedAt: Date = new Date();
+  exit?: PtyExit;
+  private buffer: string[] = [];
+
+  constructor(command: string, options: PtyProcessOptions = {}) {
+    super();
+    this.pty = pty.spawn('/bin/sh', ['-c', command], {
+      name: 'xterm-color',
+      cols: options.cols || 80,
+      rows: options.rows || 30,
+      cwd: options.cwd || process.env.HOME,
+      env: options.env || process.env as { [key: string]: string }
+    });
+
+    this.pty.onData((data) => {
+      this.buffer.push(data);
+      if (this.buffer.length > SCROLLBACK_CHUNKS) {
+        this.buffer.splice(0, this.buffer.length - SCROLLBACK_CHUNKS);
+      }
+      this.emit('data', data);
+    });
+
+    this.pty.onExit(({ exitCode, signal }) => {
+      this.exit = { exitCode, signal: signal || undefined };
+      this.emit('exit', this.exit);
+    });
+  }
+
+  get pid(): number {
+    return this.pty.pid;
+  }
+
+  get alive(): boolean {
+    return !this.exit;
+  }
+
+  getScrollback(): string {
+    return this.buffer.join('');
+  }
+
+  write(data: string) {
+    if (this.alive) {
+      this.pty.write(data);
+    }
+  }
+
+  resize(cols: number, rows: number) {
+    if (this.alive) {
+      this.pty.resize(cols, rows);
+    }
+  }
+}
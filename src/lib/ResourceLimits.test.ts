@@ -0,0 +1,18 @@
+import { LimitAction, limitCommandPrefix, validateLimits } from './ResourceLimits';
+
+describe('ResourceLimits', () => {
+  it('should reject invalid limits', () => {
+    expect(() => validateLimits({ memoryMb: { max: 0 } })).toThrow('Invalid memoryMb limit');
+    expect(() => validateLimits({ cpuPercent: { max: 50, action: 'explode' as LimitAction } })).toThrow('Invalid limit action');
+    expect(() => validateLimits({ openFiles: { max: 10.5 } })).toThrow('Invalid openFiles limit');
+    expect(() => validateLimits({ nice: 20 })).toThrow('Invalid nice level');
+    expect(() => validateLimits({ memoryMb: { max: 512, action: 'stop' }, nice: -5 })).not.toThrow();
+  });
+
+  it('should only build a prefix for spawn time limits', () => {
+    expect(limitCommandPrefix(undefined)).toBe('');
+    expect(limitCommandPrefix({ memoryMb: { max: 512 } })).toBe('');
+    expect(limitCommandPrefix({ nice: 5 })).toBe('/usr/bin/nice -n 5 ');
+    expect(limitCommandPrefix({ openFiles: { max: 4096 }, nice: 0 })).toBe('/usr/bin/nice -n 0 /usr/bin/prlimit --nofile=4096:4096 -- ');
+  });
+});
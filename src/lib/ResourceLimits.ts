@@ -0,0 +1,105 @@
+// Per-program resource limits. The open file limit and nice level are applied
+// when the command is launched; memory, CPU and open files of the whole process
+// tree are watched by the monitoring loop.
+import type { MetricsSample } from './MetricsCollector';
+
+// 'warn' only reports the limit, 'restart' stops the program and hands it to the
+// restart backoff, 'stop' stops it for good.
+export type LimitAction = 'warn' | 'restart' | 'stop';
+
+export type LimitName = 'memory' | 'cpu' | 'openFiles';
+
+export interface LimitRule {
+  max: number;
+  action?: LimitAction; // defaults to 'warn'
+}
+
+export interface ResourceLimits {
+  memoryMb?: LimitRule;   // resident memory of the process tree
+  cpuPercent?: LimitRule & { sustainedMs?: number }; // percent of one core, must stay above max for sustainedMs
+  openFiles?: LimitRule;  // also set as RLIMIT_NOFILE of the command
+  nice?: number;          // -20 (highest priority) to 19
+}
+
+export const DEFAULT_CPU_SUSTAINED_MS = 30 * 1000;
+
+export interface LimitExceededEvent {
+  programId: string;
+  programName: string;
+  limit: LimitName;
+  value: number; // MB for memory, percent for cpu, count for open files
+  max: number;
+  action: LimitAction;
+  time: number;
+}
+
+export interface LimitViolation {
+  limit: LimitName;
+  value: number;
+  max: number;
+  action: LimitAction;
+}
+
+const LIMIT_ACTIONS: LimitAction[] = ['warn', 'restart', 'stop'];
+
+export function validateLimits(limits?: ResourceLimits | null) {
+  if (!limits) return;
+  const rules: [string, LimitRule | undefined][] = [
+    ['memoryMb', limits.memoryMb],
+    ['cpuPercent', limits.cpuPercent],
+    ['openFiles', limits.openFiles]
+  ];
+  for (const [name, rule] of rules) {
+    if (!rule) continue;
+    if (!(rule.max > 0)) {
+      throw new Error(`Invalid ${name} limit: ${rule.max}`);
+    }
+    if (rule.action !== undefined && !LIMIT_ACTIONS.includes(rule.action)) {
+      throw new Error(`Invalid limit action: ${rule.action}`);
+    }
+  }
+  if (limits.openFiles && !Number.isInteger(limits.openFiles.max)) {
+    throw new Error(`Invalid openFiles limit: ${limits.openFiles.max}`);
+  }
+  if (limits.nice !== undefined && !(Number.isInteger(limits.nice) && limits.nice >= -20 && limits.nice <= 19)) {
+    throw new Error(`Invalid nice level: ${limits.nice}`);
+  }
+}
+
+/**
+ * Prefix that applies the spawn time limits to the command that follows it,
+ * e.g. "/usr/bin/nice -n 10 /usr/bin/prlimit --nofile=1024:1024 -- ". Both
+ * tools exec the command, so the program keeps the PID of the shell that runs
+ * the prefix. They are run by absolute path, as the prefix usually runs as root.
+ */
+export function limitCommandPrefix(limits?: ResourceLimits): string {
+  if (!limits) return '';
+  let prefix = '';
+  if (limits.nice !== undefined) {
+    prefix += `/usr/bin/nice -n ${limits.nice} `;
+  }
+  if (limits.openFiles) {
+    prefix += `/usr/bin/prlimit --nofile=${limits.openFiles.max}:${limits.openFiles.max} -- `;
+  }
+  return prefix;
+}
+
+/**
+ * The limits a sample exceeds. `cpuOverSince` is when CPU usage first went over
+ * the limit, kept by the caller between samples.
+ */
+export function findViolations(limits: ResourceLimits, sample: MetricsSample, cpuOverSince: number | undefined): LimitViolation[] {
+  const violations: LimitViolation[] = [];
+  const memoryMb = sample.rss / (1024 * 1024);
+  if (limits.memoryMb && memoryMb > limits.memoryMb.max) {
+    violations.push({ limit: 'memory', value: Math.round(memoryMb), max: limits.memoryMb.max, action: limits.memoryMb.action || 'warn' });
+  }
+  const sustainedMs = limits.cpuPercent?.sustainedMs ?? DEFAULT_CPU_SUSTAINED_MS;
+  if (limits.cpuPercent && cpuOverSince !== undefined && sample.time - cpuOverSince >= sustainedMs) {
+    violations.push({ limit: 'cpu', value: sample.cpu, max: limits.cpuPercent.max, action: limits.cpuPercent.action || 'warn' });
+  }
+  if (limits.openFiles && sample.fds > limits.openFiles.max) {
+    violations.push({ limit: 'openFiles', value: sample.fds, max: limits.openFiles.max, action: limits.openFiles.action || 'warn' });
+  }
+  return violations;
+}
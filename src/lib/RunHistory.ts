@@ -0,0 +1,94 @@
+// Start and end of each run of a program, kept in a small JSON file per program.
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+
+// What started a run: the cron schedule, a user (start or "run now"), the
+// auto-start at boot or an automatic restart
+export type RunTrigger = 'schedule' | 'manual' | 'boot' | 'restart';
+
+// 'stopped' means the run was ended by a stop request; an unknown exit code
+// (screen runtime) counts as success for run-once programs and as failure otherwise
+export type RunResult = 'running' | 'success' | 'failure' | 'stopped';
+
+export interface RunRecord {
+  trigger: RunTrigger;
+  startedAt: number;   // epoch ms
+  endedAt?: number;
+  durationMs?: number;
+  exitCode?: number;   // only known for the pty runtime
+  result: RunResult;
+}
+
+export const MAX_RUN_RECORDS = 100;
+
+export class RunHistory {
+  private runs: RunRecord[] = [];
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string, private limit: number = MAX_RUN_RECORDS) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.runs = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      logger.error('program', `Error reading run history ${this.filePath}:`, error);
+      this.runs = [];
+    }
+  }
+
+  /**
+   * Record the start of a run. A run still open from before a manager restart
+   * is continued, since screen programs keep running while the manager is down.
+   */
+  start(trigger: RunTrigger, now: number = Date.now()) {
+    if (this.latest()?.result === 'running') return;
+    this.runs.push({ trigger, startedAt: now, result: 'running' });
+    if (this.runs.length > this.limit) {
+      this.runs.splice(0, this.runs.length - this.limit);
+    }
+    this.save();
+  }
+
+  // Close the open run, if any
+  finish(result: Exclude<RunResult, 'running'>, exitCode?: number, now: number = Date.now()) {
+    const run = this.latest();
+    if (!run || run.result !== 'running') return;
+    run.endedAt = now;
+    run.durationMs = now - run.startedAt;
+    run.exitCode = exitCode;
+    run.result = result;
+    this.save();
+  }
+
+  latest(): RunRecord | undefined {
+    return this.runs[this.runs.length - 1];
+  }
+
+  // Newest first
+  list(limit?: number): RunRecord[] {
+    const runs = [...this.runs].reverse();
+    return limit ? runs.slice(0, limit) : runs;
+  }
+
+  // Writes are chained so a slow write cannot overwrite a newer one
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private save() {
+    const data = JSON.stringify(this.runs, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, data);
+      } catch (error) {
+        logger.error('program', `Error saving run history ${this.filePath}:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SessionStore, loadSessionSecret } from './SessionStore';
+
+const MINUTE = 60 * 1000;
+
+describe('SessionStore', () => {
+  let dir: string;
+  let file: string;
+  const secret = Buffer.from('test-secret');
+  const options = { ttlMs: 30 * MINUTE, maxAgeMs: 120 * MINUTE };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    file = path.join(dir, 'sessions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should issue tokens that verify until they expire', () => {
+    const store = new SessionStore(file, secret, options);
+    const session = store.create('alice', { ip: '127.0.0.1' }, 0);
+    // Active before its first token, which the client asks for right after signing in
+    expect(store.isActive(session.id, 0)).toBe(true);
+    const { token, expiresAt } = store.issueToken(session.id, 0);
+
+    expect(expiresAt).toBe(30 * MINUTE);
+    expect(store.verify(token, 10 * MINUTE)).toMatchObject({ id: session.id, username: 'alice' });
+    expect(store.verify(token, 30 * MINUTE)).toBeNull();
+  });
+
+  it('should reject tampered tokens and tokens signed with another secret', () => {
+    const store = new SessionStore(file, secret, options);
+    const session = store.create('alice', {}, 0);
+    const { token } = store.issueToken(session.id, 0);
+    const [version, payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sid: session.id, sub: 'admin', exp: 60 * MINUTE })).toString('base64url');
+
+    expect(store.verify(`${version}.${forged}.${signature}`, 0)).toBeNull();
+    expect(store.verify(`${version}.${payload}.${signature}x`, 0)).toBeNull();
+    expect(store.verify('not a token', 0)).toBeNull();
+    expect(new SessionStore(file, Buffer.from('other-secret'), options).verify(token, 0)).toBeNull();
+  });
+
+  it('should extend sessions on refresh up to the maximum age', () => {
+    const store = new SessionStore(file, secret, options);
+    const session = store.create('alice', {}, 0);
+    store.issueToken(session.id, 0);
+
+    expect(store.issueToken(session.id, 20 * MINUTE).expiresAt).toBe(50 * MINUTE);
+    expect(store.issueToken(session.id, 100 * MINUTE).expiresAt).toBe(120 * MINUTE);
+    expect(() => store.issueToken(session.id, 120 * MINUTE)).toThrow('maximum age');
+  });
+
+  it('should revoke sessions and keep them across restarts', async () => {
+    const store = new SessionStore(file, secret, options);
+    const now = Date.now();
+    const first = store.create('alice', {}, now);
+    const second = store.create('alice', {}, now);
+    const other = store.create('bob', {}, now);
+    const { token } = store.issueToken(first.id, now);
+    store.issueToken(second.id, now);
+    store.issueToken(other.id, now);
+
+    expect(store.revokeUser('alice', first.id).map(session => session.id)).toEqual([second.id]);
+    expect(store.revoke(other.id)?.username).toBe('bob');
+    await store.flush();
+
+    const reloaded = new SessionStore(file, secret, options);
+    expect(reloaded.list(now).map(session => session.id)).toEqual([first.id]);
+    expect(reloaded.verify(token, now)?.id).toBe(first.id);
+    reloaded.revoke(first.id);
+    expect(reloaded.verify(token, now)).toBeNull();
+  });
+
+  it('should keep the generated secret', () => {
+    const secretFile = path.join(dir, 'session-secret');
+    const first = loadSessionSecret(secretFile);
+
+    expect(first).toHaveLength(32);
+    expect(loadSessionSecret(secretFile).equals(first)).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+// Signed session tokens issued after a password login, with the sessions kept
+// in a JSON file so they survive a manager restart and can be revoked.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+import { RpcError } from './rpcErrors';
+
+export interface Session {
+  id: string;
+  username: string;
+  createdAt: number;   // epoch ms
+  expiresAt: number;   // moved forward by every refresh, up to the maximum age
+  lastSeenAt: number;  // last login or refresh
+  ip?: string;
+  userAgent?: string;
+}
+
+// A session as listed for admins
+export interface SessionInfo extends Session {
+  connections: number;
+  current: boolean;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: number;
+}
+
+export interface SessionOptions {
+  ttlMs: number;       // how long a token is valid without a refresh
+  maxAgeMs: number;    // how long a session can be refreshed before the password is needed again
+}
+
+interface TokenPayload {
+  sid: string;
+  sub: string;
+  exp: number;
+}
+
+const TOKEN_VERSION = 'v1';
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+/**
+ * The key tokens are signed with: SESSION_SECRET when set, otherwise a random
+ * key created once next to the config file, so tokens stay valid across restarts.
+ */
+export function loadSessionSecret(filePath: string): Buffer {
+  if (process.env.SESSION_SECRET) {
+    return Buffer.from(process.env.SESSION_SECRET);
+  }
+  try {
+    if (fs.existsSync(filePath)) {
+      return Buffer.from(fs.readFileSync(filePath, 'utf-8').trim(), 'hex');
+    }
+    const secret = crypto.randomBytes(32);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, secret.toString('hex'), { mode: 0o600 });
+    return secret;
+  } catch (error) {
+    // Sessions then end with the process, which is safe if inconvenient
+    logger.error('auth', `Error reading session secret ${filePath}, using a temporary one:`, error);
+    return crypto.randomBytes(32);
+  }
+}
+
+export class SessionStore {
+  private sessions: Map<string, Session> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string, private secret: Buffer, private options: SessionOptions) {
+    this.load();
+  }
+
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const sessions: Session[] = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        this.sessions = new Map(sessions.map(session => [session.id, session]));
+      }
+    } catch (error) {
+      logger.error('auth', `Error reading sessions ${this.filePath}:`, error);
+      this.sessions = new Map();
+    }
+  }
+
+  // A new session after a password login; it gets a token from issueToken
+  create(username: string, details: { ip?: string, userAgent?: string } = {}, now: number = Date.now()): Session {
+    const session: Session = {
+      id: crypto.randomBytes(16).toString('hex'),
+      username,
+      createdAt: now,
+      // Active right away, so the first RPC can be the refresh that issues a token
+      expiresAt: now + Math.min(this.options.ttlMs, this.options.maxAgeMs),
+      lastSeenAt: now,
+      ...details
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  // Extends the session and signs a token for it; also used to refresh
+  issueToken(sessionId: string, now: number = Date.now()): SessionToken {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new RpcError('NOT_FOUND', 'Session not found');
+    if (session.createdAt + this.options.maxAgeMs <= now) {
+      throw new Error('Session has reached its maximum age, sign in again');
+    }
+    session.expiresAt = Math.min(now + this.options.ttlMs, session.createdAt + this.options.maxAgeMs);
+    session.lastSeenAt = now;
+    this.save();
+
+    const payload: TokenPayload = { sid: session.id, sub: session.username, exp: session.expiresAt };
+    const body = `${TOKEN_VERSION}.${base64url(JSON.stringify(payload))}`;
+    return { token: `${body}.${this.sign(body)}`, expiresAt: session.expiresAt };
+  }
+
+  // The session of a token that is correctly signed, unexpired and not revoked
+  verify(token: string, now: number = Date.now()): Session | null {
+    if (typeof token !== 'string') return null;
+    const [version, payloadPart, signature] = token.split('.');
+    if (version !== TOKEN_VERSION || !payloadPart || !signature) return null;
+
+    const expected = Buffer.from(this.sign(`${version}.${payloadPart}`));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf-8'));
+    } catch {
+      return null;
+    }
+    if (!(payload.exp > now)) return null;
+    const session = this.sessions.get(payload.sid);
+    if (!session || session.username !== payload.sub || !this.isActive(session.id, now)) return null;
+    return session;
+  }
+
+  isActive(sessionId: string | undefined, now: number = Date.now()): boolean {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    return !!session && session.expiresAt > now;
+  }
+
+  get(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  // Active sessions, newest first; expired ones are dropped
+  list(now: number = Date.now()): Session[] {
+    const expired = [...this.sessions.values()].filter(session => session.expiresAt <= now);
+    if (expired.length > 0) {
+      expired.forEach(session => this.sessions.delete(session.id));
+      this.save();
+    }
+    return [...this.sessions.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  revoke(sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      this.sessions.delete(sessionId);
+      this.save();
+    }
+    return session;
+  }
+
+  // Revokes every session of a user except one, e.g. the caller's own
+  revokeUser(username: string, exceptSessionId?: string): Session[] {
+    const revoked = [...this.sessions.values()]
+      .filter(session => session.username === username && session.id !== exceptSessionId);
+    revoked.forEach(session => this.sessions.delete(session.id));
+    if (revoked.length > 0) this.save();
+    return revoked;
+  }
+
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private sign(body: string): string {
+    return crypto.createHmac('sha256', this.secret).update(body).digest('base64url');
+  }
+
+  // Holds session ids, which are not enough to forge a token, but keep it private anyway
+  private save() {
+    const data = JSON.stringify([...this.sessions.values()], null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, data, { mode: 0o600 });
+      } catch (error) {
+        logger.error('auth', `Error saving sessions ${this.filePath}:`, error);
+      }
+    });
+  }
+}
@@ -1,31 +1,98 @@
   "use client";
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { WebSocketClient } from './WebSocketClient';
 import { TerminalManagerClass } from './TerminalManager';
 import { TabsManagerClass } from './TabsManager';
 import { ProgramState } from './Program';
+import type { BulkAction, BulkResult } from './Program';
+import type { LogPage, LogQuery } from './ProgramLog';
+import type { MetricsQuery, MetricsSample } from './MetricsCollector';
+import type { LimitExceededEvent } from './ResourceLimits';
+import type { RunRecord } from './RunHistory';
+import type { EventQuery, ProgramEvent } from './EventJournal';
+import type { TotpEnrollment, UserInfo } from './UserStore';
+import type { SessionInfo } from './SessionStore';
+import type { AuditPage, AuditQuery, AuditVerification } from './AuditLog';
+import type { ApiTokenInfo } from './ApiTokenStore';
+import type { DeliveryStatus, NotificationChannel, NotificationChannelConfig } from './notifications';
+import type { Role } from './permissions';
+import type { ConfigDiff, ConfigImportResult, ConfigReloadNotice, ConfigReloadResult } from './configDiff';
+import type { ConfigFormat, ConflictMode } from './stackFile';
+import type { ConfigVersionInfo } from './ConfigHistory';
+
+// Limit alerts kept for display, newest first
+const MAX_LIMIT_ALERTS = 20;
+// Where the session token is kept between page loads; the password never is
+const SESSION_STORAGE_KEY = 'startup-manager-session';
 
 interface StartupManagerContextType {
   client: WebSocketClient | null;
   isConnected: boolean;
   isAuthenticated: boolean;
+  isRestoringSession: boolean;
+  sessionEndedReason: string | null;
+  currentUser: UserInfo | null;
   error: Error | null;
   programs: ProgramState[];
-  login: (username: string, password: string) => Promise<void>;
+  limitAlerts: LimitExceededEvent[];
+  dismissLimitAlerts: () => void;
+  configReload: ConfigReloadNotice | null; // the last reload of the config file, for admins
+  dismissConfigReload: () => void;
+  login: (username: string, password: string, otp?: string) => Promise<void>;
+  logout: () => Promise<void>;
   refreshPrograms: () => Promise<void>;
   addProgram: (program: any) => Promise<void>;
   updateProgram: (id: string, program: any) => Promise<void>;
   deleteProgram: (id: string) => Promise<void>;
-  startProgram: (id: string) => Promise<void>;
+  startProgram: (id: string, withDependencies?: boolean) => Promise<void>;
   stopProgram: (id: string) => Promise<void>;
+  runProgramNow: (id: string) => Promise<void>;
+  stopAllPrograms: () => Promise<void>;
+  runGroupAction: (group: string, action: 'start' | 'stop' | 'restart') => Promise<BulkResult[]>;
+  runBulkAction: (ids: string[], action: BulkAction) => Promise<BulkResult[]>;
   terminateProgram: (id: string) => Promise<void>;
   startScreen: (id: string) => Promise<void>;
   sendCommandToScreen: (id: string, command: string) => Promise<void>;
+  getProgramLogs: (id: string, query?: LogQuery) => Promise<LogPage>;
+  getProgramMetrics: (ids: string[], query?: MetricsQuery) => Promise<Record<string, MetricsSample[]>>;
+  getRunHistory: (id: string, limit?: number) => Promise<RunRecord[]>;
+  getProgramEvents: (id: string, query?: EventQuery) => Promise<ProgramEvent[]>;
+  listUsers: () => Promise<UserInfo[]>;
+  addUser: (username: string, password: string, role: Role) => Promise<UserInfo>;
+  removeUser: (username: string) => Promise<void>;
+  resetUserPassword: (username: string, password: string) => Promise<void>;
+  setUserRole: (username: string, role: Role) => Promise<void>;
+  setUserGroups: (username: string, groups: string[]) => Promise<void>;
+  listSessions: () => Promise<SessionInfo[]>;
+  revokeSession: (id: string) => Promise<void>;
+  beginTotpEnrollment: () => Promise<TotpEnrollment & { qrCode: string }>;
+  enableTotp: (code: string) => Promise<string[]>;
+  disableTotp: (code: string) => Promise<void>;
+  regenerateRecoveryCodes: (code: string) => Promise<string[]>;
+  resetUserTotp: (username: string) => Promise<void>;
+  listApiTokens: () => Promise<ApiTokenInfo[]>;
+  createApiToken: (name: string, expiresInDays?: number) => Promise<{ token: string, info: ApiTokenInfo }>;
+  revokeApiToken: (id: string) => Promise<void>;
+  queryAudit: (query?: AuditQuery) => Promise<AuditPage>;
+  verifyAuditLog: () => Promise<AuditVerification>;
+  listNotificationChannels: () => Promise<NotificationChannel[]>;
+  addNotificationChannel: (channel: NotificationChannelConfig) => Promise<NotificationChannel>;
+  updateNotificationChannel: (id: string, channel: NotificationChannelConfig) => Promise<NotificationChannel>;
+  deleteNotificationChannel: (id: string) => Promise<void>;
+  testNotificationChannel: (id: string) => Promise<DeliveryStatus>;
+  reloadConfig: (dryRun?: boolean) => Promise<ConfigReloadResult>;
+  listConfigVersions: () => Promise<ConfigVersionInfo[]>;
+  diffConfigVersions: (from: number, to?: number) => Promise<ConfigDiff>;
+  rollbackConfig: (version: number, dryRun?: boolean) => Promise<ConfigReloadResult>;
+  exportConfig: (format: ConfigFormat) => Promise<string>;
+  importConfig: (content: string, format: ConfigFormat, conflicts?: ConflictMode, dryRun?: boolean) => Promise<ConfigImportResult>;
   terminalManager: TerminalManagerClass;
   tabsManager: TabsManagerClass;
 }
 
+export type { SessionInfo };
+
 const StartupManagerContext = createContext<StartupManagerContextType | undefined>(undefined);
 
 export const useStartupManager = () => {
@@ -48,8 +115,13 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
   const [tabsManager] = useState(() => new TabsManagerClass());
   const [isConnected, setIsConnected] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  const [sessionEndedReason, setSessionEndedReason] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<UserInfo | null>(null);
   const [error, setError] = useState<Error | null>(null);
   const [programs, setPrograms] = useState<ProgramState[]>([]);
+  const [limitAlerts, setLimitAlerts] = useState<LimitExceededEvent[]>([]);
+  const [configReload, setConfigReload] = useState<ConfigReloadNotice | null>(null);
   const [terminalManager, setTerminalManager] = useState<TerminalManagerClass>(new TerminalManagerClass(null, tabsManager));
   const [client, setClient] = useState<WebSocketClient | null>(null);
 
@@ -59,7 +131,6 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
 
     const ws = new WebSocketClient({
       url: wsUrl,
-      credentials: { username: '', password: '' },
       terminalManager
     });
     terminalManager.setClientWebSocket(ws);
@@ -76,10 +147,19 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
       setIsConnected(false);
     });
 
+    // Connection errors leave the session alone, the client reconnects with its token
     ws.onError((err) => {
       setError(err instanceof Error ? err : new Error(String(err)));
       setIsConnected(false);
-      setIsAuthenticated(false);
+    });
+
+    ws.onSessionEnded((reason) => {
+      endSession(reason);
+    });
+
+    ws.onTokenChanged((session) => {
+      if (session) localStorage.setItem(SESSION_STORAGE_KEY, session.token);
+      else localStorage.removeItem(SESSION_STORAGE_KEY);
     });
 
     ws.onStatusChange((program) => {
@@ -97,6 +177,18 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
       });
     });
 
+    ws.onLimitExceeded((event: LimitExceededEvent) => {
+      setLimitAlerts(current => [event, ...current].slice(0, MAX_LIMIT_ALERTS));
+    });
+
+    ws.onConfigReloaded((notice: ConfigReloadNotice) => {
+      setConfigReload(notice);
+    });
+
+    ws.onCurrentUserChanged((user: UserInfo) => {
+      setCurrentUser(user);
+    });
+
     ws.onInitialProgramList((programsList) => {
       console.log('Initial program list received in context:', programsList);
       setPrograms(programsList);
@@ -109,6 +201,16 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
 
     setClient(ws);
 
+    const storedToken = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (storedToken) {
+      ws.resume(storedToken)
+        .then(() => signedIn(ws))
+        .catch((err) => console.log('Could not restore the session:', err))
+        .finally(() => setIsRestoringSession(false));
+    } else {
+      setIsRestoringSession(false);
+    }
+
     return () => {
       ws.disconnect();
     };
@@ -119,27 +221,50 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     setTerminalManager(new TerminalManagerClass(client,tabsManager));
   }, [client]);
 
-  const login = async (username: string, password: string) => {
+  const signedIn = async (ws: WebSocketClient) => {
+    setCurrentUser(await ws.rpc.getCurrentUser() ?? null);
+    setSessionEndedReason(null);
+    setIsAuthenticated(true);
+  };
+
+  // Back to the login form; the program list belonged to the signed-out user
+  const endSession = (reason: string | null) => {
+    setIsAuthenticated(false);
+    setCurrentUser(null);
+    setPrograms([]);
+    setLimitAlerts([]);
+    setConfigReload(null);
+    setSessionEndedReason(reason);
+  };
+
+  const login = async (username: string, password: string, otp?: string) => {
     if (!client) throw new Error('WebSocket client not initialized');
     
-    // Update credentials
-    client['options'].credentials = { username, password };
-    
     try {
-      await client.connect( );
-      setIsAuthenticated(true);
-      await refreshPrograms();
+      await client.login(username, password, otp);
+      await signedIn(client);
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
     }
   };
 
+  const logout = async () => {
+    if (!client) return;
+    try {
+      await client.logout();
+    } catch (err) {
+      // Signed out locally either way; the token is gone from this browser
+      console.error('Error signing out:', err);
+    }
+    endSession(null);
+  };
+
   const refreshPrograms = async () => {
     if (!client || !isAuthenticated) return;
     
     try {
-      const programsList = await client.callRPC('listPrograms');
+      const programsList = await client.rpc.listPrograms();
       setPrograms(programsList);
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
@@ -150,7 +275,7 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('addProgram', program);
+      await client.rpc.addProgram(program);
       await refreshPrograms();
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
@@ -162,7 +287,7 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('editProgram', { id, ...program });
+      await client.rpc.editProgram({ id, ...program });
       await refreshPrograms();
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
@@ -174,7 +299,7 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('deleteProgram', { id });
+      await client.rpc.deleteProgram({ id });
       await refreshPrograms();
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
@@ -182,11 +307,11 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     }
   };
 
-  const startProgram = async (id: string) => {
+  const startProgram = async (id: string, withDependencies = false) => {
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('startProgram', { id });
+      await client.rpc.startProgram({ id, withDependencies });
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
@@ -197,7 +322,52 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('stopProgram', { id });
+      await client.rpc.stopProgram({ id });
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    }
+  };
+
+  const runProgramNow = async (id: string) => {
+    if (!client || !isAuthenticated) return;
+    
+    try {
+      await client.rpc.runProgramNow({ id });
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    }
+  };
+
+  const stopAllPrograms = async () => {
+    if (!client || !isAuthenticated) return;
+    
+    try {
+      await client.rpc.stopAllPrograms();
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    }
+  };
+
+  // Start, stop or restart every program of a group; '' is the programs without a group
+  const runGroupAction = async (group: string, action: 'start' | 'stop' | 'restart'): Promise<BulkResult[]> => {
+    if (!client || !isAuthenticated) return [];
+    
+    try {
+      return await client.rpc[`${action}Group` as const]({ group });
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    }
+  };
+
+  const runBulkAction = async (ids: string[], action: BulkAction): Promise<BulkResult[]> => {
+    if (!client || !isAuthenticated) return [];
+    
+    try {
+      return await client.rpc.bulkProgramAction({ ids, action });
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
@@ -208,7 +378,7 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('terminateProgram', { id });
+      await client.rpc.terminateProgram({ id });
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
@@ -219,7 +389,7 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('startScreen', { id });
+      await client.rpc.startScreen({ id });
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
@@ -230,30 +400,255 @@ export const StartupManagerProvider: React.FC<StartupManagerProviderProps> = ({
     if (!client || !isAuthenticated) return;
     
     try {
-      await client.callRPC('sendCommandToScreen', { id, command });
+      await client.rpc.sendCommandToScreen({ id, command });
     } catch (err) {
       setError(err instanceof Error ? err : new Error(String(err)));
       throw err;
     }
   };
 
+  // Errors are left to the caller, the log viewer shows them itself.
+  // Loaders that views call from effects keep their identity between renders.
+  const getProgramLogs = useCallback(async (id: string, query: LogQuery = {}): Promise<LogPage> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.getProgramLogs({ id, ...query });
+  }, [client, isAuthenticated]);
+
+  // Errors are left to the caller like getProgramLogs
+  const getProgramMetrics = useCallback(async (ids: string[], query: MetricsQuery = {}): Promise<Record<string, MetricsSample[]>> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.getProgramMetrics({ ids, ...query });
+  }, [client, isAuthenticated]);
+
+  // Errors are left to the caller like getProgramLogs
+  const getRunHistory = useCallback(async (id: string, limit?: number): Promise<RunRecord[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.getRunHistory({ id, limit });
+  }, [client, isAuthenticated]);
+
+  // Errors are left to the caller like getProgramLogs
+  const getProgramEvents = useCallback(async (id: string, query: EventQuery = {}): Promise<ProgramEvent[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.getProgramEvents({ id, ...query });
+  }, [client, isAuthenticated]);
+
+  const listUsers = useCallback(async (): Promise<UserInfo[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.listUsers();
+  }, [client, isAuthenticated]);
+
+  const addUser = async (username: string, password: string, role: Role): Promise<UserInfo> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.addUser({ username, password, role });
+  };
+
+  const removeUser = async (username: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.removeUser({ username });
+  };
+
+  const resetUserPassword = async (username: string, password: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.resetUserPassword({ username, password });
+  };
+
+  const setUserRole = async (username: string, role: Role) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.setUserRole({ username, role });
+  };
+
+  const setUserGroups = async (username: string, groups: string[]) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.setUserGroups({ username, groups });
+  };
+
+  const listSessions = useCallback(async (): Promise<SessionInfo[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.listSessions();
+  }, [client, isAuthenticated]);
+
+  const revokeSession = async (id: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.revokeSession({ id });
+  };
+
+  const beginTotpEnrollment = async (): Promise<TotpEnrollment & { qrCode: string }> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.beginTotpEnrollment();
+  };
+
+  // Returns the recovery codes to show once
+  const enableTotp = async (code: string): Promise<string[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return (await client.rpc.enableTotp({ code })).recoveryCodes;
+  };
+
+  const disableTotp = async (code: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.disableTotp({ code });
+  };
+
+  const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return (await client.rpc.regenerateRecoveryCodes({ code })).recoveryCodes;
+  };
+
+  const resetUserTotp = async (username: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.resetUserTotp({ username });
+  };
+
+  const listApiTokens = useCallback(async (): Promise<ApiTokenInfo[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.listApiTokens();
+  }, [client, isAuthenticated]);
+
+  // The token is only returned here
+  const createApiToken = async (name: string, expiresInDays?: number): Promise<{ token: string, info: ApiTokenInfo }> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.createApiToken({ name, expiresInDays });
+  };
+
+  const revokeApiToken = async (id: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.revokeApiToken({ id });
+  };
+
+  // Errors are left to the caller like getProgramLogs
+  const queryAudit = useCallback(async (query: AuditQuery = {}): Promise<AuditPage> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.queryAudit(query);
+  }, [client, isAuthenticated]);
+
+  const verifyAuditLog = async (): Promise<AuditVerification> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.verifyAuditLog();
+  };
+
+  const listNotificationChannels = useCallback(async (): Promise<NotificationChannel[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.listNotificationChannels();
+  }, [client, isAuthenticated]);
+
+  const addNotificationChannel = async (channel: NotificationChannelConfig): Promise<NotificationChannel> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.addNotificationChannel(channel);
+  };
+
+  // Secrets still holding the mask keep their stored values
+  const updateNotificationChannel = async (id: string, channel: NotificationChannelConfig): Promise<NotificationChannel> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.updateNotificationChannel({ ...channel, id });
+  };
+
+  const deleteNotificationChannel = async (id: string) => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    await client.rpc.deleteNotificationChannel({ id });
+  };
+
+  // Rejects with the error of the failed send
+  const testNotificationChannel = async (id: string): Promise<DeliveryStatus> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.testNotificationChannel({ id });
+  };
+
+  // A dry run only returns the differences between the file and the loaded programs
+  const reloadConfig = async (dryRun?: boolean): Promise<ConfigReloadResult> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.reloadConfig({ dryRun });
+  };
+
+  const listConfigVersions = useCallback(async (): Promise<ConfigVersionInfo[]> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.listConfigVersions();
+  }, [client, isAuthenticated]);
+
+  // Without `to`, compares with the loaded programs
+  const diffConfigVersions = async (from: number, to?: number): Promise<ConfigDiff> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.diffConfigVersions({ from, to });
+  };
+
+  const rollbackConfig = async (version: number, dryRun?: boolean): Promise<ConfigReloadResult> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.rollbackConfig({ version, dryRun });
+  };
+
+  const exportConfig = async (format: ConfigFormat): Promise<string> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return (await client.rpc.exportConfig({ format })).content;
+  };
+
+  const importConfig = async (content: string, format: ConfigFormat, conflicts?: ConflictMode, dryRun?: boolean): Promise<ConfigImportResult> => {
+    if (!client || !isAuthenticated) throw new Error('Not connected');
+    return client.rpc.importConfig({ content, format, conflicts, dryRun });
+  };
+
+  const dismissLimitAlerts = () => setLimitAlerts([]);
+  const dismissConfigReload = () => setConfigReload(null);
+
   return (
     <StartupManagerContext.Provider value={{
       client,
       isConnected,
       isAuthenticated,
+      isRestoringSession,
+      sessionEndedReason,
+      currentUser,
       error,
       programs,
+      limitAlerts,
+      dismissLimitAlerts,
+      configReload,
+      dismissConfigReload,
       login,
+      logout,
       refreshPrograms,
       addProgram,
       updateProgram,
       deleteProgram,
       startProgram,
       stopProgram,
+      runProgramNow,
+      stopAllPrograms,
+      runGroupAction,
+      runBulkAction,
       terminateProgram,
       startScreen,
       sendCommandToScreen,
+      getProgramLogs,
+      getProgramMetrics,
+      getRunHistory,
+      getProgramEvents,
+      listUsers,
+      addUser,
+      removeUser,
+      resetUserPassword,
+      setUserRole,
+      setUserGroups,
+      listSessions,
+      revokeSession,
+      beginTotpEnrollment,
+      enableTotp,
+      disableTotp,
+      regenerateRecoveryCodes,
+      resetUserTotp,
+      listApiTokens,
+      createApiToken,
+      revokeApiToken,
+      queryAudit,
+      verifyAuditLog,
+      listNotificationChannels,
+      addNotificationChannel,
+      updateNotificationChannel,
+      deleteNotificationChannel,
+      testNotificationChannel,
+      reloadConfig,
+      listConfigVersions,
+      diffConfigVersions,
+      rollbackConfig,
+      exportConfig,
+      importConfig,
       terminalManager,
       tabsManager
     }}>
@@ -21,7 +21,38 @@ export interface TerminalTabInstance extends BaseTabInstance {
   type: 'terminal';
   terminalInstance: TerminalInstance;
 }
-export type TabInstance = ListTabInstance | FormTabInstance | TerminalTabInstance;
+export interface LogsTabInstance extends BaseTabInstance {
+  type: 'logs';
+  programId: string;
+}
+export interface MetricsTabInstance extends BaseTabInstance {
+  type: 'metrics';
+  programId: string;
+}
+export interface RunsTabInstance extends BaseTabInstance {
+  type: 'runs';
+  programId: string;
+}
+export interface EventsTabInstance extends BaseTabInstance {
+  type: 'events';
+  programId: string;
+}
+export interface UsersTabInstance extends BaseTabInstance {
+  type: 'users';
+}
+export interface AuditTabInstance extends BaseTabInstance {
+  type: 'audit';
+}
+export interface AccountTabInstance extends BaseTabInstance {
+  type: 'account';
+}
+export interface NotificationsTabInstance extends BaseTabInstance {
+  type: 'notifications';
+}
+export interface ConfigTabInstance extends BaseTabInstance {
+  type: 'config';
+}
+export type TabInstance = ListTabInstance | FormTabInstance | TerminalTabInstance | LogsTabInstance | MetricsTabInstance | RunsTabInstance | EventsTabInstance | UsersTabInstance | AuditTabInstance | AccountTabInstance | NotificationsTabInstance | ConfigTabInstance;
 
 // Singleton class to manage tabs
 export class TabsManagerClass {
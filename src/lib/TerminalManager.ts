@@ -99,10 +99,10 @@ export class TerminalManagerClass {
       if (screenName) {
         console.log(`Creating new terminal: screenName=${screenName}`);
         // Request a new terminal from the server
-        response = await this.client.callRPC('createTerminal', { shell: `screen -x ${screenName}`, titleNote: screenName });
+        response = await this.client.rpc.createTerminal({ shell: `screen -x ${screenName}`, titleNote: screenName });
       } else {
         console.log('Creating new terminal');
-        response = await this.client.callRPC('createTerminal', { shell: 'bash' });
+        response = await this.client.rpc.createTerminal({ shell: 'bash' });
       }
 
       // We need to get the full terminal info using the ID
@@ -120,6 +120,25 @@ export class TerminalManagerClass {
     }
   }
 
+  // Open the terminal of a program: its screen session, or its own PTY for the pty runtime.
+  // The server returns the existing terminal when one is already attached to the program.
+  async createProgramTerminalOnServer(programId: string, titleNote?: string): Promise<TerminalInstance> {
+    if (!this.client) throw new Error('TerminalManager: No client available');
+    try {
+      console.log(`Opening terminal for program: programId=${programId}`);
+      const response: TerminalSessionInfo | undefined = await this.client.rpc.createTerminal({ programId, titleNote });
+      if (!response || !response.id) {
+        throw new Error('Invalid response from server: missing terminalId');
+      }
+      const instance = this.instances.get(response.id) || this.addTerminalInstance(response);
+      this.addTabOrActivateTerminal(instance);
+      return instance;
+    } catch (err) {
+      console.error('Failed to request program terminal from server:', err);
+      throw err;
+    }
+  }
+
   // Store a terminal instance
   setInstance(id: number, instance: TerminalInstance): void {
     // Ensure id is number
@@ -141,7 +160,7 @@ export class TerminalManagerClass {
   async listTerminals(): Promise<TerminalSessionInfo[]> {
     if (!this.client) throw new Error('TerminalManager: No client available');
     try {
-      const terminals = await this.client.callRPC('listTerminals', {});
+      const terminals = await this.client.rpc.listTerminals({});
       return terminals;
     } catch (err) {
       console.error('Failed to list terminals from server:', err);
@@ -199,10 +218,10 @@ export class TerminalManagerClass {
 
 
   // Get detailed information about a specific terminal
-  async getTerminalInfo(terminalId: string): Promise<TerminalSessionInfo> {
+  async getTerminalInfo(terminalId: number): Promise<TerminalSessionInfo> {
     if (!this.client) throw new Error('TerminalManager: No client available');
     try {
-      const terminalInfo = await this.client.callRPC('getTerminalInfo', { id: terminalId });
+      const terminalInfo = await this.client.rpc.getTerminalInfo({ id: terminalId });
       return terminalInfo;
     } catch (err) {
       console.error(`Failed to get info for terminal ${terminalId}:`, err);
@@ -278,7 +297,7 @@ export class TerminalManagerClass {
         // Use the main WebSocketClient to call the closeTerminal RPC method
         if (this.client) {
           console.log(`Calling closeTerminal RPC for terminal ${id} (${instance.programName}) from TerminalManager`);
-          await this.client.callRPC('closeTerminal', { id });
+          await this.client.rpc.closeTerminal({ id });
         } else {
           console.warn('TerminalManager: No WebSocketClient available to call closeTerminal RPC');
         }
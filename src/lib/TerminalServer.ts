@@ -1,7 +1,9 @@
 import { Socket, Namespace } from 'socket.io';
 import * as pty from 'node-pty';
 import { WebSocketServer } from './WebSocketServer';
+import { Program } from './Program';
 import logger, { logWithIP } from './logger';
+import { RpcError } from './rpcErrors';
 
 interface TerminalInstance {
   id: number;
@@ -12,6 +14,9 @@ interface TerminalInstance {
   buffer: string[];
   programName?: string;
   titleNote?: string; // <-- Added titleNote
+  programId?: string; // set when attached to a program using the pty runtime
+  screenProgramId?: string; // set when attached to a program's screen session
+  release?: () => void; // detaches from the program's pty without killing it
 }
 
 
@@ -21,6 +26,15 @@ export interface TerminalSessionInfo {
   programName?: string;
   createdAt: Date;
   titleNote?: string; // <-- Added titleNote
+  programId?: string;
+  screenProgramId?: string;
+}
+
+export interface TerminalActivity {
+  type: 'attach' | 'detach' | 'input';
+  terminalId: number;
+  programId?: string;
+  data?: string;       // the input
 }
 
 export class TerminalServer {
@@ -41,6 +55,7 @@ export class TerminalServer {
     // Periodically check program name for all open PTYs every 3 seconds
     setInterval(() => {
       this.terminals.forEach((terminal) => {
+        if (terminal.programId) return;
         const pid = terminal.ptyProcess.pid;
 
         this.getForegroundProcessName(pid).then((name) => {
@@ -82,7 +97,14 @@ export class TerminalServer {
     }
   }
 
-  public setupSocketHandlers(socket: Socket) {
+  // canUse is asked on each event with the terminal's program, so a user who
+  // loses access to the program loses its terminal at once. onActivity hears
+  // attaches, detaches and input, for the audit log.
+  public setupSocketHandlers(
+    socket: Socket,
+    canUse: (programId?: string) => boolean = () => true,
+    onActivity: (activity: TerminalActivity) => void = () => {}
+  ) {
 
     logger.info(`Terminal client connected: ${socket.id}`);
 
@@ -96,6 +118,10 @@ export class TerminalServer {
         socket.emit('error', { id: data?.id || null, data: 'Terminal ID missing or terminal not found' });
         return;
       }
+      if (!canUse(accessProgramId(term))) {
+        socket.emit('error', { id: term.id, data: 'Permission denied: no terminal access to this program' });
+        return;
+      }
 
       if (term.connections.indexOf(socket) !== -1) {
         socket.emit('error', { id: data?.id || null, data: 'Terminal already attached to this connection' });
@@ -113,6 +139,7 @@ export class TerminalServer {
       }
 
       term.connections.push(socket);
+      onActivity({ type: 'attach', terminalId: term.id, programId: accessProgramId(term) });
 
       // attachedTerminals[data.id] = term;
       socket.emit('output', { id: term.id, data: term.buffer.join('') });
@@ -138,6 +165,7 @@ export class TerminalServer {
         return;
       }
       term.connections.splice(index, 1);
+      onActivity({ type: 'detach', terminalId: term.id, programId: accessProgramId(term) });
 
       socket.emit('disconnected', {
         id: term.id,
@@ -152,11 +180,40 @@ export class TerminalServer {
         socket.emit('error', { id: data?.id || null, data: 'Terminal not found' });
         return;
       }
+      if (!canUse(accessProgramId(term))) {
+        socket.emit('error', { id: term.id, data: 'Permission denied: no terminal access to this program' });
+        return;
+      }
       if (term.connections.indexOf(socket) === -1) {
         socket.emit('error', { id: data?.id || null, data: 'Terminal not attached in this connection' });
         return;
       }
       term.ptyProcess.write(data.data);
+      onActivity({ type: 'input', terminalId: term.id, programId: accessProgramId(term), data: data.data });
+    });
+
+    // Sets the size of the pty, for clients like the CLI that show it full screen
+    socket.on('resize', (data: { id: number, cols: number, rows: number }) => {
+      const term = this.terminals.find((t) => t.id === data.id);
+      if (!term) {
+        socket.emit('error', { id: data?.id || null, data: 'Terminal not found' });
+        return;
+      }
+      if (!canUse(accessProgramId(term))) {
+        socket.emit('error', { id: term.id, data: 'Permission denied: no terminal access to this program' });
+        return;
+      }
+      if (term.connections.indexOf(socket) === -1) {
+        socket.emit('error', { id: data?.id || null, data: 'Terminal not attached in this connection' });
+        return;
+      }
+      const cols = Math.floor(Number(data.cols));
+      const rows = Math.floor(Number(data.rows));
+      if (!(cols > 0 && rows > 0 && cols <= 1000 && rows <= 1000)) {
+        socket.emit('error', { id: term.id, data: 'Invalid terminal size' });
+        return;
+      }
+      term.ptyProcess.resize(cols, rows);
     });
 
     socket.on('refresh', (data: { id: number }) => {
@@ -165,6 +222,10 @@ export class TerminalServer {
         socket.emit('error', { id: data?.id || null, data: 'Terminal not found' });
         return;
       }
+      if (!canUse(accessProgramId(term))) {
+        socket.emit('error', { id: term.id, data: 'Permission denied: no terminal access to this program' });
+        return;
+      }
       if (term.connections.indexOf(socket) === -1) {
         socket.emit('error', { id: data?.id || null, data: 'Terminal not attached in this connection' });
         return;
@@ -178,6 +239,7 @@ export class TerminalServer {
         const index = term.connections.indexOf(socket);
         if (index !== -1) {
           term.connections.splice(index, 1);
+          onActivity({ type: 'detach', terminalId: term.id, programId: accessProgramId(term) });
         }
       }
     }
@@ -193,11 +255,13 @@ export class TerminalServer {
       programName: term.programName,
       createdAt: term.createdAt,
       titleNote: term.titleNote || '',
+      programId: term.programId,
+      screenProgramId: term.screenProgramId,
     }));
   }
 
   // Create a new terminal (for RPC)
-  public createTerminal({ shell, titleNote }: { shell?: string, titleNote?: string }): TerminalSessionInfo {
+  public createTerminal({ shell, titleNote, screenProgramId }: { shell?: string, titleNote?: string, screenProgramId?: string }): TerminalSessionInfo {
     const terminalId = this.nextTerminalId++;
     let command: string[];
     
@@ -251,6 +315,7 @@ export class TerminalServer {
       buffer,
       programName: '',
       titleNote: titleNote || '',
+      screenProgramId,
     };
     
     const pid = terminal.ptyProcess.pid;
@@ -272,18 +337,7 @@ export class TerminalServer {
       this.broadcastOutput(terminal, data);
     });
 
-    ptyProcess.onExit(() => {
-      this.broadcastOutput(terminal, '\r\n\x1b[1;31mTerminal process exited\x1b[0m\r\n');
-      terminal.connections.map((socket) => {
-        socket.emit('terminal_exited', { id: terminal.id });
-      });
-      terminal.connections.length = 0;
-      let terminalFound = this.terminals.indexOf(terminal);
-      if (terminalFound !== -1) {
-        this.terminals.splice(terminalFound, 1);
-      }
-      this.broadcastTerminalListChanged();
-    });
+    ptyProcess.onExit(() => this.handleTerminalExit(terminal));
 
     this.broadcastTerminalListChanged();
 
@@ -301,9 +355,79 @@ export class TerminalServer {
       programName: terminal.programName || '',
       createdAt: terminal.createdAt,
       titleNote: terminal.titleNote || '',
+      screenProgramId: terminal.screenProgramId,
     };
   }
 
+  // Attach a terminal to the PTY of a program using the pty runtime (for RPC).
+  // There is one terminal per program; closing it leaves the program running.
+  public createProgramTerminal(program: Program, titleNote?: string): TerminalSessionInfo {
+    const programPty = program.getPtyProcess();
+    if (!programPty?.alive) {
+      throw new Error(`Program ${program.name} is not running`);
+    }
+
+    let terminal = this.terminals.find(t => t.programId === program.id && t.ptyProcess === programPty.pty);
+    if (!terminal) {
+      const terminalId = this.nextTerminalId++;
+      logger.info('Attaching terminal to program pty', { terminalId, programId: program.id });
+      const buffer: string[] = [programPty.getScrollback()];
+      const newTerminal: TerminalInstance = {
+        id: terminalId,
+        ptyProcess: programPty.pty,
+        connections: [],
+        createdAt: new Date(),
+        initialCommand: [program.command],
+        buffer,
+        programName: program.name,
+        titleNote: titleNote || program.name,
+        programId: program.id,
+      };
+
+      const onData = (data: string) => {
+        buffer.push(data);
+        if (buffer.length > 1000) {
+          buffer.splice(0, buffer.length - 1000);
+        }
+        this.broadcastOutput(newTerminal, data);
+      };
+      const onExit = () => this.handleTerminalExit(newTerminal);
+      programPty.on('data', onData);
+      programPty.once('exit', onExit);
+      newTerminal.release = () => {
+        programPty.off('data', onData);
+        programPty.off('exit', onExit);
+      };
+
+      this.terminals.push(newTerminal);
+      this.broadcastTerminalListChanged();
+      terminal = newTerminal;
+    }
+
+    return {
+      id: terminal.id,
+      pid: terminal.ptyProcess.pid,
+      programName: terminal.programName || '',
+      createdAt: terminal.createdAt,
+      titleNote: terminal.titleNote || '',
+      programId: terminal.programId,
+    };
+  }
+
+  private handleTerminalExit(terminal: TerminalInstance) {
+    terminal.release?.();
+    this.broadcastOutput(terminal, '\r\n\x1b[1;31mTerminal process exited\x1b[0m\r\n');
+    terminal.connections.map((socket) => {
+      socket.emit('terminal_exited', { id: terminal.id });
+    });
+    terminal.connections.length = 0;
+    let terminalFound = this.terminals.indexOf(terminal);
+    if (terminalFound !== -1) {
+      this.terminals.splice(terminalFound, 1);
+    }
+    this.broadcastTerminalListChanged();
+  }
+
   private broadcastOutput(terminal: TerminalInstance, data: string) {
     if (terminal) {
       terminal.connections.forEach((socket) => {
@@ -327,6 +451,8 @@ export class TerminalServer {
       pid: term.ptyProcess.pid,
       programName: term.programName || '',
       createdAt: term.createdAt,
+      programId: term.programId,
+      screenProgramId: term.screenProgramId,
     };
   }
 
@@ -349,10 +475,15 @@ export class TerminalServer {
     logger.info(`Closing terminal`, { terminalId });
     const terminal = this.terminals.find(t => t.id === terminalId);
     if (!terminal) {
-      throw new Error("Terminal not found");
+      throw new RpcError('NOT_FOUND', 'Terminal not found');
     }
 
-    terminal.ptyProcess.kill();
+    if (terminal.release) {
+      // Program terminals only detach, the program keeps running
+      terminal.release();
+    } else {
+      terminal.ptyProcess.kill();
+    }
 
     // Emit terminal_closed event to all connections
     terminal.connections.forEach((socket) => {
@@ -388,5 +519,7 @@ export class TerminalServer {
   }
 }
 
-
-
+// The program whose terminal access rules apply; plain shells have none
+export function accessProgramId(term: { programId?: string, screenProgramId?: string }): string | undefined {
+  return term.programId ?? term.screenProgramId;
+}
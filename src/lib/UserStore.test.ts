@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { UserStore, hashPassword, verifyPassword } from './UserStore';
+import { totpCode, totpStep } from './totp';
+
+describe('UserStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'users-'));
+    file = path.join(dir, 'users.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should hash passwords with a random salt', async () => {
+    const first = await hashPassword('correct horse');
+    const second = await hashPassword('correct horse');
+
+    expect(first).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(first).not.toEqual(second);
+    expect(await verifyPassword('correct horse', first)).toBe(true);
+    expect(await verifyPassword('wrong horse', first)).toBe(false);
+    expect(await verifyPassword('correct horse', 'plaintext')).toBe(false);
+  });
+
+  it('should create the bootstrap admin without storing the password', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+    await store.flush();
+
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('"password"');
+    const reloaded = new UserStore(file, { username: 'other', password: 'ignored-password' });
+    expect(reloaded.listUsers().map(user => user.username)).toEqual(['admin']);
+    expect(await reloaded.authenticate('admin', 'password')).toMatchObject({ username: 'admin', role: 'admin' });
+    expect(await reloaded.authenticate('admin', 'wrong')).toBeNull();
+    expect(await reloaded.authenticate('other', 'ignored-password')).toBeNull();
+  });
+
+  it('should add, reset and remove users', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+    const added = await store.addUser('alice', 'alice-password', 'viewer');
+
+    expect(added).toEqual({ username: 'alice', role: 'viewer', createdAt: expect.any(Number) });
+    await expect(store.addUser('alice', 'alice-password', 'viewer')).rejects.toThrow('already exists');
+    await expect(store.addUser('bob', 'short', 'viewer')).rejects.toThrow('at least 8');
+    await expect(store.addUser('bob smith', 'bob-password', 'viewer')).rejects.toThrow('Username');
+
+    await store.resetPassword('alice', 'new-password');
+    expect(await store.authenticate('alice', 'alice-password')).toBeNull();
+    expect(await store.authenticate('alice', 'new-password')).not.toBeNull();
+
+    store.removeUser('alice');
+    expect(store.getUser('alice')).toBeUndefined();
+  });
+
+  it('should keep at least one admin', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+
+    expect(() => store.removeUser('admin')).toThrow('last admin');
+    expect(() => store.setRole('admin', 'operator')).toThrow('last admin');
+
+    await store.addUser('root', 'root-password', 'admin');
+    store.setRole('admin', 'operator');
+    expect(store.getUser('admin')?.role).toBe('operator');
+  });
+
+  it('should set groups without the @ prefix', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+    await store.addUser('alice', 'alice-password', 'operator');
+
+    expect(store.setGroups('alice', ['@backend', ' ops ', 'backend']).groups).toEqual(['backend', 'ops']);
+    expect(() => store.setGroups('alice', ['bad group'])).toThrow('Invalid group name');
+    expect(store.setGroups('alice', []).groups).toBeUndefined();
+  });
+
+  it('should enroll two-factor authentication and accept each code once', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+    const now = 1700000000000;
+    const { secret, uri } = store.beginTotpEnrollment('admin');
+
+    expect(uri).toContain(`secret=${secret}`);
+    expect(() => store.enableTotp('admin', '000000', now)).toThrow('Invalid two-factor code');
+    const recoveryCodes = store.enableTotp('admin', totpCode(secret, totpStep(now)), now);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(store.getUser('admin')).toMatchObject({ totpEnabled: true, recoveryCodesLeft: 10 });
+
+    // The code that confirmed the enrollment cannot sign in again
+    expect(store.verifySecondFactor('admin', totpCode(secret, totpStep(now)), now)).toBe(false);
+    const later = now + 60 * 1000;
+    expect(store.verifySecondFactor('admin', totpCode(secret, totpStep(later)), later)).toBe(true);
+    expect(store.verifySecondFactor('admin', totpCode(secret, totpStep(later)), later)).toBe(false);
+  });
+
+  it('should use up recovery codes', async () => {
+    const store = new UserStore(file, { username: 'admin', password: 'password' });
+    const now = Date.now();
+    const { secret } = store.beginTotpEnrollment('admin');
+    const [first] = store.enableTotp('admin', totpCode(secret, totpStep(now)), now);
+
+    expect(store.verifySecondFactor('admin', first.toUpperCase(), now)).toBe(true);
+    expect(store.verifySecondFactor('admin', first, now)).toBe(false);
+    expect(store.getUser('admin')?.recoveryCodesLeft).toBe(9);
+
+    store.disableTotp('admin');
+    await store.flush();
+    expect(new UserStore(file).getUser('admin')?.totpEnabled).toBeUndefined();
+  });
+});
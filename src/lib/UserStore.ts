@@ -0,0 +1,322 @@
+// Manager user accounts with scrypt password hashes, kept in a JSON file.
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from './logger';
+import { Role, SECOND_FACTOR_INVALID, isRole } from './permissions';
+import { base32Encode, generateTotpSecret, totpUri, verifyTotp } from './totp';
+import { RpcError } from './rpcErrors';
+
+export interface UserRecord {
+  username: string;
+  passwordHash: string;  // scrypt$N$r$p$salt$hash, salt and hash in base64
+  role: Role;
+  groups?: string[];     // named in program access lists as '@group'
+  createdAt: number;     // epoch ms
+  updatedAt?: number;
+  totp?: {
+    secret: string;      // base32
+    enabledAt: number;
+    lastStep?: number;   // last accepted time step, so a code works only once
+  };
+  pendingTotpSecret?: string;  // shown for enrollment until a code confirms it
+  recoveryCodes?: string[];    // sha256 of the unused recovery codes
+}
+
+// What clients get to see of a user
+export interface UserInfo {
+  username: string;
+  role: Role;
+  groups?: string[];
+  createdAt: number;
+  updatedAt?: number;
+  totpEnabled?: boolean;
+  recoveryCodesLeft?: number;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  uri: string;
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const RECOVERY_CODE_COUNT = 10;
+// Also used for group names
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const SCRYPT_COST = 16384;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function scrypt(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, { N, r, p }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+function encodeHash(salt: Buffer, key: Buffer): string {
+  return ['scrypt', SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  return encodeHash(salt, await scrypt(password, salt, SCRYPT_COST, SCRYPT_BLOCK_SIZE, SCRYPT_PARALLELIZATION));
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !hash) return false;
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p));
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+function validatePassword(password: string) {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function toInfo(user: UserRecord): UserInfo {
+  return {
+    username: user.username,
+    role: user.role,
+    groups: user.groups,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+    totpEnabled: user.totp ? true : undefined,
+    recoveryCodesLeft: user.totp ? (user.recoveryCodes || []).length : undefined
+  };
+}
+
+// Recovery codes are random, so a plain hash is enough to store them
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+// Like abcde-fghij, in lower case base32
+function generateRecoveryCode(): string {
+  const code = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+/**
+ * The users allowed to sign in to the manager. When the file does not exist
+ * yet, it is created with a single admin from the given bootstrap credentials
+ * (ADMIN_USERNAME / ADMIN_PASSWORD), so existing setups keep working.
+ */
+export class UserStore {
+  private users: UserRecord[] = [];
+  private saving: Promise<void> = Promise.resolve();
+  // Compared against for unknown users, so a failed login takes as long either way
+  private dummyHash: Promise<string> = hashPassword(crypto.randomBytes(SALT_LENGTH).toString('hex'));
+
+  constructor(readonly filePath: string, bootstrap?: { username: string, password: string }) {
+    this.load(bootstrap);
+  }
+
+  private load(bootstrap?: { username: string, password: string }) {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.users = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+        return;
+      }
+    } catch (error) {
+      // Refuse everyone rather than fall back to the bootstrap admin
+      logger.error('auth', `Error reading users ${this.filePath}:`, error);
+      this.users = [];
+      return;
+    }
+
+    if (bootstrap) {
+      const salt = crypto.randomBytes(SALT_LENGTH);
+      const key = crypto.scryptSync(bootstrap.password, salt, KEY_LENGTH, {
+        N: SCRYPT_COST, r: SCRYPT_BLOCK_SIZE, p: SCRYPT_PARALLELIZATION
+      });
+      this.users = [{ username: bootstrap.username, passwordHash: encodeHash(salt, key), role: 'admin', createdAt: Date.now() }];
+      this.save();
+      logger.info('auth', `Created user store ${this.filePath} with admin "${bootstrap.username}"`);
+    }
+  }
+
+  // The user, when the password matches
+  async authenticate(username: string, password: string): Promise<UserInfo | null> {
+    const user = this.find(username);
+    if (typeof password !== 'string') return null;
+    const matches = await verifyPassword(password, user ? user.passwordHash : await this.dummyHash);
+    return user && matches ? toInfo(user) : null;
+  }
+
+  getUser(username: string): UserInfo | undefined {
+    const user = this.find(username);
+    return user && toInfo(user);
+  }
+
+  listUsers(): UserInfo[] {
+    return this.users.map(toInfo);
+  }
+
+  async addUser(username: string, password: string, role: Role): Promise<UserInfo> {
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      throw new Error('Username may only contain letters, digits, dots, dashes and underscores');
+    }
+    if (this.find(username)) throw new RpcError('CONFLICT', `User ${username} already exists`);
+    if (!isRole(role)) throw new Error(`Unknown role: ${role}`);
+    validatePassword(password);
+
+    const user: UserRecord = { username, passwordHash: await hashPassword(password), role, createdAt: Date.now() };
+    this.users.push(user);
+    this.save();
+    return toInfo(user);
+  }
+
+  removeUser(username: string) {
+    const user = this.require(username);
+    this.ensureAdminRemains(user, 'remove');
+    this.users = this.users.filter(u => u !== user);
+    this.save();
+  }
+
+  async resetPassword(username: string, password: string): Promise<UserInfo> {
+    const user = this.require(username);
+    validatePassword(password);
+    user.passwordHash = await hashPassword(password);
+    user.updatedAt = Date.now();
+    this.save();
+    return toInfo(user);
+  }
+
+  setRole(username: string, role: Role): UserInfo {
+    const user = this.require(username);
+    if (!isRole(role)) throw new Error(`Unknown role: ${role}`);
+    if (role !== 'admin') this.ensureAdminRemains(user, 'demote');
+    user.role = role;
+    user.updatedAt = Date.now();
+    this.save();
+    return toInfo(user);
+  }
+
+  setGroups(username: string, groups: string[]): UserInfo {
+    const user = this.require(username);
+    if (!Array.isArray(groups)) throw new Error('Groups must be a list of names');
+    const cleaned = Array.from(new Set(groups.map(group => String(group).trim().replace(/^@/, '')).filter(Boolean)));
+    const invalid = cleaned.find(group => !USERNAME_PATTERN.test(group));
+    if (invalid) throw new Error(`Invalid group name: ${invalid}`);
+    user.groups = cleaned.length > 0 ? cleaned : undefined;
+    user.updatedAt = Date.now();
+    this.save();
+    return toInfo(user);
+  }
+
+  hasTotp(username: string): boolean {
+    return !!this.find(username)?.totp;
+  }
+
+  // A new secret to show as a QR code; two-factor is on once enableTotp confirms a code
+  beginTotpEnrollment(username: string): TotpEnrollment {
+    const user = this.require(username);
+    if (user.totp) throw new Error('Two-factor authentication is already enabled');
+    user.pendingTotpSecret = generateTotpSecret();
+    this.save();
+    return { secret: user.pendingTotpSecret, uri: totpUri(user.pendingTotpSecret, user.username) };
+  }
+
+  // Returns the recovery codes, which are only ever shown this once
+  enableTotp(username: string, code: string, now: number = Date.now()): string[] {
+    const user = this.require(username);
+    if (!user.pendingTotpSecret) throw new Error('Start the enrollment first');
+    const step = verifyTotp(user.pendingTotpSecret, code, now);
+    if (step === null) throw new Error(SECOND_FACTOR_INVALID);
+    user.totp = { secret: user.pendingTotpSecret, enabledAt: now, lastStep: step };
+    delete user.pendingTotpSecret;
+    return this.newRecoveryCodes(user);
+  }
+
+  disableTotp(username: string) {
+    const user = this.require(username);
+    delete user.totp;
+    delete user.pendingTotpSecret;
+    delete user.recoveryCodes;
+    user.updatedAt = Date.now();
+    this.save();
+  }
+
+  regenerateRecoveryCodes(username: string): string[] {
+    const user = this.require(username);
+    if (!user.totp) throw new Error('Two-factor authentication is not enabled');
+    return this.newRecoveryCodes(user);
+  }
+
+  /**
+   * Checks the second factor of a login: a code from the authenticator app,
+   * or an unused recovery code, which is used up.
+   */
+  verifySecondFactor(username: string, code: string, now: number = Date.now()): boolean {
+    const user = this.find(username);
+    if (!user?.totp || typeof code !== 'string') return false;
+
+    const step = verifyTotp(user.totp.secret, code, now);
+    if (step !== null) {
+      if (user.totp.lastStep !== undefined && step <= user.totp.lastStep) return false;
+      user.totp.lastStep = step;
+      this.save();
+      return true;
+    }
+
+    const hash = hashRecoveryCode(code);
+    const index = (user.recoveryCodes || []).findIndex(stored =>
+      crypto.timingSafeEqual(Buffer.from(stored), Buffer.from(hash)));
+    if (index === -1) return false;
+    user.recoveryCodes!.splice(index, 1);
+    this.save();
+    logger.info('auth', `User ${username} signed in with a recovery code, ${user.recoveryCodes!.length} left`);
+    return true;
+  }
+
+  flush(): Promise<void> {
+    return this.saving;
+  }
+
+  private newRecoveryCodes(user: UserRecord): string[] {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    user.recoveryCodes = codes.map(hashRecoveryCode);
+    user.updatedAt = Date.now();
+    this.save();
+    return codes;
+  }
+
+  private find(username: string): UserRecord | undefined {
+    return this.users.find(u => u.username === username);
+  }
+
+  private require(username: string): UserRecord {
+    const user = this.find(username);
+    if (!user) throw new RpcError('NOT_FOUND', `User ${username} not found`);
+    return user;
+  }
+
+  // Nobody could manage users any more without an admin
+  private ensureAdminRemains(user: UserRecord, action: string) {
+    if (user.role === 'admin' && this.users.filter(u => u.role === 'admin').length === 1) {
+      throw new Error(`Cannot ${action} the last admin`);
+    }
+  }
+
+  // The file holds password hashes and two-factor secrets, so only the owner may read it
+  private save() {
+    const data = JSON.stringify(this.users, null, 2);
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, data, { mode: 0o600 });
+      } catch (error) {
+        logger.error('auth', `Error saving users ${this.filePath}:`, error);
+      }
+    });
+  }
+}
@@ -1,16 +1,21 @@
 import { io, Socket } from 'socket.io-client';
 import { RPCRequest, RPCResponse, RPCNotification } from './WebSocketServer';
 import { TerminalManagerClass } from './TerminalManager';
+import type { LimitExceededEvent } from './ResourceLimits';
+import type { UserInfo } from './UserStore';
+import type { SessionToken } from './SessionStore';
+import type { ConfigReloadNotice } from './configDiff';
+import { RpcClient, createRpcClient } from './rpcClient';
+import { RpcError } from './rpcErrors';
 
 export interface WebSocketClientOptions {
   url: string;
-  credentials: {
-    username: string;
-    password: string;
-  };
   terminalManager: TerminalManagerClass
 }
 
+// Refresh when this share of the token's remaining lifetime has passed
+const REFRESH_AT = 0.5;
+
 export class WebSocketClient {
   // Add event subscription methods for arbitrary events
   public on(event: string, handler: (...args: any[]) => void): void {
@@ -44,10 +49,18 @@ export class WebSocketClient {
   private statusChangeHandler: ((program: any) => void) | null = null;
   private initialProgramListHandler: ((programs: any[]) => void) | null = null;
   private programListUpdatedHandler: ((programs: any[]) => void) | null = null;
+  private limitExceededHandler: ((event: LimitExceededEvent) => void) | null = null;
+  private currentUserChangedHandler: ((user: UserInfo) => void) | null = null;
+  private configReloadedHandler: ((notice: ConfigReloadNotice) => void) | null = null;
   private connectedHandler: (() => void) | null = null;
   private disconnectedHandler: (() => void) | null = null;
   private errorHandler: ((error: any) => void) | null = null;
-  private authCredentials: { username: string, password: string } | null = null;
+  private sessionEndedHandler: ((reason: string) => void) | null = null;
+  private tokenChangedHandler: ((session: SessionToken | null) => void) | null = null;
+  // The password is only held until the server has issued a token
+  private credentials: { username: string, password: string, otp?: string } | null = null;
+  private session: SessionToken | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
   private terminalManager:TerminalManagerClass | null = null;
 
   constructor(options: WebSocketClientOptions) {
@@ -72,28 +85,34 @@ export class WebSocketClient {
           reconnection: true,
           reconnectionDelay: 1000,
           reconnectionAttempts: Infinity,
-          auth: {
-            username: this.options.credentials.username,
-            password: this.options.credentials.password
-          }
+          // Evaluated on every reconnect, so it picks up refreshed tokens
+          auth: (cb) => cb(this.session ? { token: this.session.token } : { ...this.credentials })
         });
 
         this.socket.on('connect', () => {
           console.log('WebSocket connected');
           this.connected = true;
           if (this.connectedHandler) this.connectedHandler();
+          // A refresh that fell due while disconnected
+          if (this.session && this.session.expiresAt > 0 && !this.refreshTimer) {
+            this.refreshSession().catch(error => console.error('Session refresh failed:', error));
+          }
           resolve();
         });
 
-        this.socket.on('disconnect', () => {
+        this.socket.on('disconnect', (reason) => {
           console.log('WebSocket disconnected');
           this.connected = false;
           if (this.disconnectedHandler) this.disconnectedHandler();
+          // The server only closes a socket itself on logout, revocation or a removed user
+          if (reason === 'io server disconnect') this.endSession('Your session was ended');
         });
 
         this.socket.on('connect_error', (error) => {
           console.error('Connection error:', error);
           if (this.errorHandler) this.errorHandler(error);
+          // A rejected token is not retried; the user has to sign in again
+          if (this.session && error.message === 'Authentication failed') this.endSession('Your session has expired');
           reject(error);
         });
 
@@ -141,6 +160,17 @@ export class WebSocketClient {
             } else {
               console.warn('Updated program list is not an array:', notification.params);
             }
+          }
+          // A program went over one of its resource limits
+          else if (notification.method === 'limitExceeded' && this.limitExceededHandler) {
+            this.limitExceededHandler(notification.params);
+          }
+          else if (notification.method === 'currentUserChanged' && this.currentUserChangedHandler) {
+            this.currentUserChangedHandler(notification.params);
+          }
+          // The config file was reloaded, or a changed file could not be; only sent to admins
+          else if (notification.method === 'configReloaded' && this.configReloadedHandler) {
+            this.configReloadedHandler(notification.params);
           } else {
             console.log('Unhandled notification method:', notification.method);
           }
@@ -153,7 +183,10 @@ export class WebSocketClient {
     });
   }
 
-  async callRPC(method: string, params: any = {}): Promise<any> {
+  // Typed calls of the methods in the registry, e.g. client.rpc.startProgram({ id })
+  public readonly rpc: RpcClient = createRpcClient((method, params) => this.callRPC(method, params));
+
+  async callRPC(method: string, params: unknown = {}): Promise<unknown> {
     if (!this.socket || !this.connected) {
       throw new Error('WebSocket not connected');
     }
@@ -164,7 +197,7 @@ export class WebSocketClient {
     return new Promise((resolve, reject) => {
       this.socket!.emit('rpc', request, (response: RPCResponse) => {
         if (response.error) {
-          reject(new Error(response.error));
+          reject(new RpcError(response.code ?? 'FAILED', response.error, response.details));
         } else {
           resolve(response.result);
         }
@@ -172,31 +205,79 @@ export class WebSocketClient {
     });
   }
 
-  async login(username: string, password: string): Promise<void> {
-    if (!this.socket) {
-      throw new Error('Socket not connected');
+  // Signs in with a password, and the two-factor code when the user has one,
+  // and swaps them for a session token
+  async login(username: string, password: string, otp?: string): Promise<SessionToken> {
+    this.session = null;
+    this.credentials = { username, password, otp };
+    try {
+      await this.connect();
+      return await this.refreshSession();
+    } catch (error) {
+      // Reconnecting would only fail without the password
+      this.disconnect();
+      throw error;
+    } finally {
+      this.credentials = null;
     }
+  }
 
-    this.authCredentials = { username, password };
+  // Reconnects with a token kept from an earlier sign-in
+  async resume(token: string): Promise<SessionToken> {
+    this.credentials = null;
+    this.session = { token, expiresAt: 0 };
+    try {
+      await this.connect();
+    } catch (error) {
+      // A token the server rejected is dropped already; others are kept for the next try
+      this.session = null;
+      this.disconnect();
+      throw error;
+    }
+    return this.refreshSession();
+  }
 
-    return new Promise((resolve, reject) => {
-      this.socket!.emit('rpc', {
-        jsonrpc: '2.0',
-        method: 'login',
-        params: { username, password },
-        id: Math.random().toString(36).substr(2, 9)
-      }, (response: any) => {
-        if (response.error) {
-          reject(new Error(response.error.message));
-        } else {
-          resolve();
-        }
-      });
-    });
+  async refreshSession(): Promise<SessionToken> {
+    const session = await this.rpc.refreshSession();
+    this.session = session;
+    if (this.tokenChangedHandler) this.tokenChangedHandler(session);
+    this.scheduleRefresh();
+    return session;
   }
 
-  getAuthCredentials(): { username: string, password: string } | null {
-    return this.authCredentials;
+  async logout(): Promise<void> {
+    try {
+      if (this.connected) await this.rpc.logout();
+    } finally {
+      this.clearSession();
+      this.disconnect();
+    }
+  }
+
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    if (!this.session) return;
+    const delay = Math.max((this.session.expiresAt - Date.now()) * REFRESH_AT, 1000);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      // While disconnected the token is refreshed after the reconnect instead
+      if (!this.connected) return;
+      this.refreshSession().catch(error => console.error('Session refresh failed:', error));
+    }, delay);
+  }
+
+  private clearSession() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    if (this.session && this.tokenChangedHandler) this.tokenChangedHandler(null);
+    this.session = null;
+  }
+
+  private endSession(reason: string) {
+    if (!this.session) return;
+    this.clearSession();
+    this.disconnect();
+    if (this.sessionEndedHandler) this.sessionEndedHandler(reason);
   }
 
   onStatusChange(handler: (program: any) => void) {
@@ -211,6 +292,18 @@ export class WebSocketClient {
     this.programListUpdatedHandler = handler;
   }
 
+  onLimitExceeded(handler: (event: LimitExceededEvent) => void): void {
+    this.limitExceededHandler = handler;
+  }
+
+  onCurrentUserChanged(handler: (user: UserInfo) => void): void {
+    this.currentUserChangedHandler = handler;
+  }
+
+  onConfigReloaded(handler: (notice: ConfigReloadNotice) => void): void {
+    this.configReloadedHandler = handler;
+  }
+
   onConnected(handler: () => void) {
     this.connectedHandler = handler;
   }
@@ -223,6 +316,16 @@ export class WebSocketClient {
     this.errorHandler = handler;
   }
 
+  // The server ended the session: logout elsewhere, revocation or expiry
+  onSessionEnded(handler: (reason: string) => void) {
+    this.sessionEndedHandler = handler;
+  }
+
+  // A new token to keep, or null once it is no longer valid
+  onTokenChanged(handler: (session: SessionToken | null) => void) {
+    this.tokenChangedHandler = handler;
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
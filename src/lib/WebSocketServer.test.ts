@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Namespace } from 'socket.io';
+import { RPCResponse, WebSocketServer } from './WebSocketServer';
+import type { ProgramConfig } from './Program';
+import config from './config';
+import { SECOND_FACTOR_INVALID, SECOND_FACTOR_REQUIRED } from './permissions';
+import { totpCode, totpStep } from './totp';
+
+type Middleware = (socket: FakeSocket, next: (error?: Error) => void) => Promise<void>;
+type Handler = (...args: unknown[]) => void;
+
+// The parts of a socket.io socket the server uses; what it emits is kept in `sent`
+class FakeSocket {
+  data: Record<string, unknown> = {};
+  sent: { event: string, payload: unknown }[] = [];
+  disconnected = false;
+  private handlers = new Map<string, Handler>();
+
+  constructor(readonly id: string, readonly handshake: { auth: Record<string, unknown>, headers: Record<string, string>, address: string }) {}
+
+  emit(event: string, payload?: unknown) {
+    this.sent.push({ event, payload });
+    return true;
+  }
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, handler);
+    return this;
+  }
+
+  disconnect() {
+    this.disconnected = true;
+    return this;
+  }
+
+  rpc(method: string, params: unknown = {}): Promise<RPCResponse> {
+    return new Promise(resolve => this.handlers.get('rpc')!({ id: '1', method, params }, resolve));
+  }
+
+  // The params of the notifications sent with a method
+  notifications(method: string): unknown[] {
+    return this.sent
+      .filter(({ event, payload }) => event === 'notification' && (payload as { method: string }).method === method)
+      .map(({ payload }) => (payload as { params: unknown }).params);
+  }
+}
+
+// A namespace that hands the server's middleware and connection handler to the tests
+class FakeNamespace {
+  sockets = new Map<string, FakeSocket>();
+  middleware?: Middleware;
+  connection?: (socket: FakeSocket) => void;
+
+  use(middleware: Middleware) {
+    this.middleware = middleware;
+  }
+
+  on(event: string, handler: (socket: FakeSocket) => void) {
+    if (event === 'connection') this.connection = handler;
+  }
+
+  emit() {
+    return true;
+  }
+
+  disconnectSockets() {
+    this.sockets.clear();
+  }
+}
+
+const program = (id: string, overrides: Partial<ProgramConfig> = {}): ProgramConfig => ({
+  id, name: id, command: `run-${id}`, screenName: id, ...overrides
+});
+
+describe('WebSocketServer access', () => {
+  let dir: string;
+  let namespace: FakeNamespace;
+  let server: WebSocketServer;
+  let connections = 0;
+  const configPath = process.env.CONFIG_PATH;
+  const admin = config.ADMIN_USERNAME;
+
+  const call = (username: string, method: string, params: unknown = {}) =>
+    server.call({ username, ip: '127.0.0.1' }, { id: '1', method, params });
+  const ids = (states: unknown) => (states as { id: string }[]).map(({ id }) => id);
+
+  // Runs a sign-in through the middleware, from an address of its own so the rate limit is not reached
+  const connect = async (auth: Record<string, unknown>): Promise<{ socket: FakeSocket, error?: Error }> => {
+    connections++;
+    const socket = new FakeSocket(`socket-${connections}`, { auth, headers: { 'x-forwarded-for': `10.0.0.${connections}` }, address: '127.0.0.1' });
+    const error = await new Promise<Error | undefined>(resolve => namespace.middleware!(socket, resolve));
+    if (!error) {
+      namespace.sockets.set(socket.id, socket);
+      namespace.connection!(socket);
+    }
+    return { socket, error };
+  };
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'websocket-server-'));
+    process.env.CONFIG_PATH = path.join(dir, 'programs.json');
+    // alice may control and edit web, bob may control db and is the only operator to see secret
+    fs.writeFileSync(process.env.CONFIG_PATH, JSON.stringify([
+      program('web', { acl: { control: ['alice'], edit: ['alice'] }, env: { API_TOKEN: 'abc' } }),
+      program('db', { acl: { control: ['bob'] } }),
+      program('secret', { acl: { view: ['bob'] } })
+    ]));
+    namespace = new FakeNamespace();
+    server = new WebSocketServer(namespace as unknown as Namespace);
+    await server.initialize();
+    await call(admin, 'addUser', { username: 'vera', password: 'vera-password', role: 'viewer' });
+    await call(admin, 'addUser', { username: 'alice', password: 'alice-password', role: 'operator' });
+    await call(admin, 'addUser', { username: 'bob', password: 'bob-password', role: 'operator' });
+  });
+
+  afterEach(() => {
+    server.shutdown();
+    process.env.CONFIG_PATH = configPath;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('roles', () => {
+    it('should refuse methods that need a higher role', async () => {
+      await expect(call('vera', 'startProgram', { id: 'web' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: startProgram requires the operator role' });
+      await expect(call('alice', 'addUser', { username: 'eve', password: 'eve-password', role: 'admin' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: addUser requires the admin role' });
+
+      expect(ids(await call('vera', 'listPrograms'))).toEqual(['web', 'db']);
+      expect(await call('alice', 'stopProgram', { id: 'web' })).toMatchObject({ id: 'web', status: 'stopped' });
+    });
+
+    it('should check the role before the params', async () => {
+      await expect(call('vera', 'editProgram', { id: 'web', unknown: true })).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+      await expect(call('vera', 'noSuchMethod')).rejects.toMatchObject({ code: 'UNKNOWN_METHOD' });
+    });
+
+    it('should check the role of calls made over a socket', async () => {
+      const { socket, error } = await connect({ username: 'vera', password: 'vera-password' });
+      expect(error).toBeUndefined();
+
+      expect(await socket.rpc('stopProgram', { id: 'web' })).toEqual({
+        id: '1', error: 'Permission denied: stopProgram requires the operator role', code: 'PERMISSION_DENIED', details: undefined
+      });
+      expect(ids((await socket.rpc('listPrograms')).result)).toEqual(['web', 'db']);
+    });
+  });
+
+  describe('access lists', () => {
+    it('should refuse an operator who is not on the access list of a program', async () => {
+      await expect(call('alice', 'stopProgram', { id: 'db' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: no control access to db' });
+      expect(await call('bob', 'stopProgram', { id: 'db' })).toMatchObject({ id: 'db', status: 'stopped' });
+      await expect(call('bob', 'stopProgram', { id: 'web' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: no control access to web' });
+    });
+
+    it('should refuse an editor who changes a setting only admins may change', async () => {
+      await expect(call('alice', 'editProgram', { id: 'web', runAs: 'root' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: only admins can change the user a program runs as' });
+      await expect(call('alice', 'editProgram', { id: 'web', env: { API_TOKEN: 'stolen' } }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: only admins can change the environment' });
+      await expect(call('alice', 'editProgram', { id: 'web', screenName: 'other' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: only admins can change the screen session' });
+      await expect(call('bob', 'editProgram', { id: 'web', command: 'run-other' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED', message: 'Permission denied: no edit access to web' });
+
+      // The environment as listed, with its secret masked, is no change
+      const [web] = await call('alice', 'listPrograms') as ProgramConfig[];
+      expect(web.env).not.toEqual({ API_TOKEN: 'abc' });
+      expect(await call('alice', 'editProgram', { id: 'web', command: 'run-other', env: web.env }))
+        .toMatchObject({ id: 'web', command: 'run-other' });
+    });
+
+    it('should list only the programs a user may view', async () => {
+      expect(ids(await call('alice', 'listPrograms'))).toEqual(['web', 'db']);
+      expect(ids(await call('bob', 'listPrograms'))).toEqual(['web', 'db', 'secret']);
+      expect(ids(await call(admin, 'listPrograms'))).toEqual(['web', 'db', 'secret']);
+    });
+
+    it('should send each socket only the programs its user may view', async () => {
+      const { socket: alice } = await connect({ username: 'alice', password: 'alice-password' });
+      const { socket: bob } = await connect({ username: 'bob', password: 'bob-password' });
+      expect(ids(alice.notifications('initialProgramList')[0])).toEqual(['web', 'db']);
+      expect(ids(bob.notifications('initialProgramList')[0])).toEqual(['web', 'db', 'secret']);
+
+      const programs = JSON.parse(fs.readFileSync(process.env.CONFIG_PATH!, 'utf-8'));
+      fs.writeFileSync(process.env.CONFIG_PATH!, JSON.stringify([...programs, program('vault', { acl: { view: ['alice'] } })]));
+      await call(admin, 'reloadConfig');
+
+      expect(ids(alice.notifications('programListUpdated').at(-1))).toEqual(['web', 'db', 'vault']);
+      expect(ids(bob.notifications('programListUpdated').at(-1))).toEqual(['web', 'db', 'secret']);
+    });
+  });
+
+  describe('sign-in', () => {
+    it('should sign in with a password and refuse a wrong one', async () => {
+      const { socket, error } = await connect({ username: 'alice', password: 'alice-password' });
+      expect(error).toBeUndefined();
+      expect(socket.data).toMatchObject({ username: 'alice', sessionId: expect.any(String) });
+
+      expect((await connect({ username: 'alice', password: 'wrong-password' })).error?.message).toBe('Authentication failed');
+      expect((await connect({ username: 'nobody', password: 'alice-password' })).error?.message).toBe('Authentication failed');
+      expect((await connect({})).error?.message).toBe('Authentication failed');
+    });
+  });
+
+  describe('two-factor sign-in', () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    // The code of the step before is used up by the enrollment, so the current one is left for signing in
+    beforeEach(async () => {
+      ({ secret } = await call('alice', 'beginTotpEnrollment') as { secret: string });
+      ({ recoveryCodes } = await call('alice', 'enableTotp', { code: totpCode(secret, totpStep() - 1) }) as { recoveryCodes: string[] });
+    });
+
+    it('should ask for the code after the password', async () => {
+      expect((await connect({ username: 'alice', password: 'alice-password' })).error?.message).toBe(SECOND_FACTOR_REQUIRED);
+    });
+
+    it('should refuse a wrong code', async () => {
+      const { error } = await connect({ username: 'alice', password: 'alice-password', otp: totpCode(secret, totpStep() - 10) });
+      expect(error?.message).toBe(SECOND_FACTOR_INVALID);
+    });
+
+    it('should sign in with a valid code', async () => {
+      const { socket, error } = await connect({ username: 'alice', password: 'alice-password', otp: totpCode(secret) });
+      expect(error).toBeUndefined();
+      expect(socket.data).toMatchObject({ username: 'alice', sessionId: expect.any(String) });
+    });
+
+    it('should accept a recovery code only once', async () => {
+      expect((await connect({ username: 'alice', password: 'alice-password', otp: recoveryCodes[0] })).error).toBeUndefined();
+      expect((await connect({ username: 'alice', password: 'alice-password', otp: recoveryCodes[0] })).error?.message).toBe(SECOND_FACTOR_INVALID);
+      expect((await connect({ username: 'alice', password: 'alice-password', otp: recoveryCodes[1] })).error).toBeUndefined();
+    });
+  });
+
+  describe('sessions', () => {
+    it('should reconnect with a session token until the session is revoked', async () => {
+      const { socket } = await connect({ username: 'alice', password: 'alice-password' });
+      const { result: token } = await socket.rpc('refreshSession') as { result: { token: string } };
+      expect(token).toEqual({ token: expect.any(String), expiresAt: expect.any(Number) });
+
+      const reconnected = await connect({ token: token.token });
+      expect(reconnected.error).toBeUndefined();
+      expect(reconnected.socket.data).toMatchObject({ username: 'alice', sessionId: socket.data.sessionId });
+      expect(await call(admin, 'listSessions')).toEqual([
+        expect.objectContaining({ id: socket.data.sessionId, username: 'alice', connections: 2 })
+      ]);
+
+      expect(await call(admin, 'revokeSession', { id: socket.data.sessionId })).toEqual({ success: true });
+      expect(socket.disconnected).toBe(true);
+      expect(reconnected.socket.disconnected).toBe(true);
+      expect(await socket.rpc('listPrograms')).toMatchObject({ code: 'UNAUTHENTICATED', error: 'Session expired, sign in again' });
+      expect((await connect({ token: token.token })).error?.message).toBe('Authentication failed');
+    });
+
+    it('should refuse a token that was not issued', async () => {
+      expect((await connect({ token: 'not-a-token' })).error?.message).toBe('Authentication failed');
+    });
+  });
+});
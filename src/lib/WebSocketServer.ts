@@ -1,11 +1,23 @@
 import { Server, Namespace, Socket } from 'socket.io';
-import { Program, ProgramManager, ProgramState } from './Program';
+import { BulkAction, BulkResult, Program, ProgramConfig, ProgramManager, ProgramState } from './Program';
 import path from 'path';
 import os from 'os';
 import { v4 as uuidv4 } from 'uuid';
-import { TerminalServer } from './TerminalServer';
+import { TerminalActivity, TerminalServer, TerminalSessionInfo, accessProgramId } from './TerminalServer';
+import { MetricsSample } from './MetricsCollector';
 import logger, { logWithIP } from './logger';
 import config from './config';
+import { UserInfo, UserStore } from './UserStore';
+import { SessionStore, loadSessionSecret } from './SessionStore';
+import { AuditLog, AuditResult, isAuditedMethod } from './AuditLog';
+import { ApiTokenStore } from './ApiTokenStore';
+import { Notifier } from './Notifier';
+import { PrometheusMetrics } from './PrometheusMetrics';
+import { RpcCall, RpcMethodName, isRpcMethod, parseRpcCall } from './rpcMethods';
+import { RpcError, RpcErrorCode, RpcErrorDetail, errorCode } from './rpcErrors';
+import QRCode from 'qrcode';
+import { mergeMaskedEnv } from './environment';
+import { ProgramPermission, SECOND_FACTOR_INVALID, SECOND_FACTOR_REQUIRED, canAccessProgram, guardedSettingChange, hasRole, programPermission, requiredRole } from './permissions';
 
 // Define the RPC message types
 export interface RPCRequest {
@@ -18,21 +30,35 @@ export interface RPCResponse {
   id: string;
   result?: any;
   error?: string;
+  code?: RpcErrorCode;
+  details?: RpcErrorDetail[]; // the params that failed validation
 }
 
 export interface RPCNotification {
   method: string;
   params: any;
 }
+
+// Who a call comes from: a signed-in socket, or a script with an API token
+export interface RPCCaller {
+  username: string;
+  ip: string;
+  socket?: Socket;
+  apiTokenId?: string;
+}
+
 export class WebSocketServer {
   private io: Namespace;
   private programManager: ProgramManager;
   private terminalServer: TerminalServer | null = null;
   private monitoringInterval: NodeJS.Timeout | null = null;
-  private authCredentials = {
-    username: process.env.ADMIN_USERNAME || 'admin',
-    password: process.env.ADMIN_PASSWORD || 'password'
-  };
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private userStore: UserStore;
+  private sessionStore: SessionStore;
+  private auditLog: AuditLog;
+  private apiTokenStore: ApiTokenStore;
+  private notifier: Notifier;
+  public readonly prometheus: PrometheusMetrics;
   
   // Track connection attempts for rate limiting
   private connectionAttempts: Record<string, {count: number, lastAttempt: number}> = {};
@@ -42,19 +68,50 @@ export class WebSocketServer {
     
     const configPath = process.env.CONFIG_PATH || path.join(os.homedir(), '.startup-manager', 'programs.json');
     this.programManager = new ProgramManager(configPath);
+    // The env credentials only seed the first admin; users.json is authoritative after that
+    this.userStore = new UserStore(path.join(path.dirname(configPath), 'users.json'), {
+      username: config.ADMIN_USERNAME,
+      password: config.ADMIN_PASSWORD
+    });
+    const secret = loadSessionSecret(path.join(path.dirname(configPath), 'session-secret'));
+    this.sessionStore = new SessionStore(
+      path.join(path.dirname(configPath), 'sessions.json'),
+      secret,
+      { ttlMs: config.SESSION_TTL_MINUTES * 60 * 1000, maxAgeMs: config.SESSION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000 }
+    );
+    this.auditLog = new AuditLog(path.join(path.dirname(configPath), 'audit.log'), secret);
+    this.apiTokenStore = new ApiTokenStore(path.join(path.dirname(configPath), 'api-tokens.json'));
+    this.notifier = new Notifier(path.join(path.dirname(configPath), 'notifications.json'));
+    this.prometheus = new PrometheusMetrics({
+      programs: () => this.programManager.getProgramStates(),
+      samples: () => this.programManager.getLatestMetrics(),
+      terminals: () => this.terminalServer?.listTerminals().length ?? 0,
+      sockets: () => this.io.sockets.size,
+    });
     
     // Set up status change callback
     this.programManager.setStatusChangeCallback((program) => {
       this.broadcastStatusChange(program);
     });
+    this.programManager.setLimitExceededCallback((event) => {
+      this.emitToViewers(event.programId, { method: 'limitExceeded', params: event });
+    });
+    this.programManager.setProgramEventCallback((program, event) => {
+      this.notifier.notify(program, event);
+    });
+    this.programManager.setConfigReloadCallback((notice) => {
+      if (notice.diff) this.broadcastProgramList();
+      this.emitToAdmins({ method: 'configReloaded', params: notice });
+    });
     
     this.setupSocketHandlers();
     this.startMonitoring();
+    this.startScheduler();
     
   }
   
   private setupSocketHandlers() {
-    this.io.use((socket, next) => {
+    this.io.use(async (socket, next) => {
       try {
         // Get client IP address
         const ip = this.getClientIP(socket);
@@ -64,27 +121,73 @@ export class WebSocketServer {
           logWithIP('warn', 'Rate limit exceeded for authentication attempts', ip, {
             socketId: socket.id
           });
+          this.prometheus.recordAuthFailure('rate_limited');
           return next(new Error('Too many authentication attempts'));
         }
         
-        const { username, password } = socket.handshake.auth;
+        const { token, apiToken, username, password, otp } = socket.handshake.auth;
         
-        if (!username || !password || 
-            username !== this.authCredentials.username || 
-            password !== this.authCredentials.password) {
+        // Reconnects present the session token; only a sign-in sends the password.
+        // Scripts like the CLI may connect with an API token instead, without a session.
+        let sessionId: string | undefined;
+        let apiTokenId: string | undefined;
+        let user = null;
+        if (apiToken) {
+          const caller = this.authenticateApiToken(apiToken);
+          user = caller ? this.userStore.getUser(caller.username) ?? null : null;
+          apiTokenId = caller?.tokenId;
+        } else if (token) {
+          const session = this.sessionStore.verify(token);
+          user = session ? this.userStore.getUser(session.username) ?? null : null;
+          sessionId = session?.id;
+        } else if (username && password) {
+          user = await this.userStore.authenticate(username, password);
+          // With two-factor on, the client asks for the code and signs in again with it
+          if (user && this.userStore.hasTotp(user.username)) {
+            if (!otp) {
+              return next(new Error(SECOND_FACTOR_REQUIRED));
+            }
+            if (!this.userStore.verifySecondFactor(user.username, String(otp))) {
+              logWithIP('warn', 'Two-factor verification failed', ip, { socketId: socket.id, username });
+              this.prometheus.recordAuthFailure('second_factor');
+              this.auditLog.record({ user: username, ip, method: 'login', result: 'denied', error: SECOND_FACTOR_INVALID });
+              return next(new Error(SECOND_FACTOR_INVALID));
+            }
+          }
+          if (user) {
+            sessionId = this.sessionStore.create(user.username, {
+              ip,
+              userAgent: socket.handshake.headers['user-agent']
+            }).id;
+          }
+        }
+        if (!token && !apiToken) {
+          this.auditLog.record({ user: username, ip, method: 'login', result: user ? 'success' : 'denied' });
+        }
+        if (!user || (!sessionId && !apiTokenId)) {
           logWithIP('warn', 'Authentication failed', ip, {
             socketId: socket.id,
-            username
+            username,
+            withToken: !!token,
+            withApiToken: !!apiToken
           });
+          this.prometheus.recordAuthFailure(apiToken ? 'api_token' : token ? 'session' : 'password');
           return next(new Error('Authentication failed'));
         }
+        this.forgiveAttempt(ip);
         
         // Log successful authentication
         logWithIP('info', 'Authentication successful', ip, {
           socketId: socket.id,
-          username
+          username: user.username,
+          role: user.role,
+          withToken: !!token
         });
         
+        // Recorded as the actor of the program events this socket causes
+        socket.data.username = user.username;
+        socket.data.sessionId = sessionId;
+        socket.data.apiTokenId = apiTokenId;
         next();
       } catch (error) {
         logger.error('Error in socket middleware', { error });
@@ -97,7 +200,7 @@ export class WebSocketServer {
       logWithIP('info', 'Client connected', ip, { socketId: socket.id });
       
       // Send initial program list to the client upon successful connection
-      const programStates = this.programManager.getProgramStates();
+      const programStates = this.visibleProgramStates(socket.data.username);
       if (process.env.NODE_ENV !== 'production') logWithIP('debug', 'Sending initial program list to client', this.getClientIP(socket), {
         socketId: socket.id,
         programCount: programStates.length
@@ -117,7 +220,7 @@ export class WebSocketServer {
             requestId: request.id
           });
           
-          const result = await this.handleRPC(request, socket.id);
+          const result = await this.call({ username: socket.data.username, ip, socket, apiTokenId: socket.data.apiTokenId }, request);
           
           if (process.env.NODE_ENV !== 'production') logWithIP('debug', `Sending RPC response`, ip, {
             socketId: socket.id,
@@ -136,11 +239,20 @@ export class WebSocketServer {
             error: errorMessage
           });
           
-          callback({ id: request.id, error: errorMessage });
+          callback({
+            id: request.id,
+            error: errorMessage,
+            code: errorCode(error),
+            details: error instanceof RpcError ? error.details : undefined
+          });
         }
       });
 
-      const onDisconnect: ()=>void = this.terminalServer?.setupSocketHandlers(socket) || (() => {});
+      const onDisconnect: ()=>void = this.terminalServer?.setupSocketHandlers(
+        socket,
+        (programId) => this.canUseTerminal(socket.data.username, programId),
+        (activity) => this.auditTerminal(socket, activity)
+      ) || (() => {});
       socket.on('disconnect', () => {
         const ip = this.getClientIP(socket);
         logWithIP('info', 'Client disconnected', ip, { socketId: socket.id });
@@ -150,100 +262,587 @@ export class WebSocketServer {
     });
   }
   
-  private async handleRPC(request: RPCRequest, socketId: string): Promise<any> {
-    const { method, params } = request;
+  /**
+   * Runs an RPC for a socket or a REST request: checks the caller may make it,
+   * runs it and records it in the audit log.
+   */
+  public async call(caller: RPCCaller, request: RPCRequest): Promise<unknown> {
+    try {
+      // Only the methods of the registry exist, so the REST API and its document cover them all
+      if (!isRpcMethod(request.method)) {
+        throw new RpcError('UNKNOWN_METHOD', `Unknown method: ${request.method}`);
+      }
+      const user = this.authorize(caller, request.method);
+      // Params are checked after the role, so callers without it learn nothing about them
+      const call = parseRpcCall(request.method, request.params);
+      this.authorizeProgram(caller, user, call);
+      const result = await this.handleRPC(call, caller);
+      this.audit(caller, request, 'success');
+      this.prometheus.recordRpc(request.method, 'success');
+      return result;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const result = errorCode(error) === 'PERMISSION_DENIED' ? 'denied' : 'error';
+      this.audit(caller, request, result, errorMessage);
+      this.prometheus.recordRpc(request.method, result);
+      throw error;
+    }
+  }
+
+  // The user an API token acts as, while both still exist
+  public authenticateApiToken(token: string): { username: string, tokenId: string } | null {
+    const info = this.apiTokenStore.authenticate(token);
+    if (!info || !this.userStore.getUser(info.username)) return null;
+    return { username: info.username, tokenId: info.id };
+  }
+
+  private apiTokenActive(id: string): boolean {
+    const info = this.apiTokenStore.get(id);
+    return !!info && (info.expiresAt === undefined || info.expiresAt > Date.now());
+  }
+
+  // Calls that change something, including refused ones; reads are not recorded
+  private audit(caller: RPCCaller, request: RPCRequest, result: AuditResult, error?: string) {
+    if (!isAuditedMethod(request.method)) return;
+    this.auditLog.record({
+      user: caller.username,
+      ip: caller.ip,
+      apiToken: caller.apiTokenId,
+      method: request.method,
+      params: request.params,
+      result,
+      error
+    });
+  }
+
+  private auditTerminal(socket: Socket, activity: TerminalActivity) {
+    const user = socket.data.username;
+    const ip = this.getClientIP(socket);
+    const { terminalId, programId } = activity;
+    if (activity.type === 'input') {
+      if (config.AUDIT_TERMINAL_INPUT) this.auditLog.recordTerminalInput({ user, ip, terminalId, programId }, activity.data || '');
+      return;
+    }
+    if (activity.type === 'detach') this.auditLog.flushTerminalInput(user, ip, terminalId);
+    this.auditLog.record({ user, ip, method: `terminal.${activity.type}`, params: { terminalId, programId }, result: 'success' });
+  }
+
+  // Users are looked up on every call, so changes to roles and groups apply to open connections
+  private canAccess(username: string | undefined, program: Program, permission: ProgramPermission): boolean {
+    return canAccessProgram(username ? this.userStore.getUser(username) : undefined, program.acl, permission);
+  }
+
+  // Terminals of a program follow its terminal access; plain shells on the host are for admins
+  private canUseTerminal(username: string | undefined, programId?: string): boolean {
+    if (!programId) {
+      return hasRole(username ? this.userStore.getUser(username)?.role : undefined, 'admin');
+    }
+    const program = this.programManager.getProgram(programId);
+    return !!program && this.canAccess(username, program, 'terminal');
+  }
+
+  private visibleProgramStates(username: string | undefined, states: ProgramState[] = this.programManager.getProgramStates()): ProgramState[] {
+    const user = username ? this.userStore.getUser(username) : undefined;
+    return states.filter(state => canAccessProgram(user, state.acl, 'view'));
+  }
+
+  // The caller's user, once its session or token and its role allow the method
+  private authorize(caller: RPCCaller, method: RpcMethodName): UserInfo {
+    const { socket } = caller;
+    // REST callers were checked for this request already; sockets may outlive their session or token
+    if (socket && !(socket.data.apiTokenId ? this.apiTokenActive(socket.data.apiTokenId) : this.sessionStore.isActive(socket.data.sessionId))) {
+      socket.disconnect(true);
+      throw new RpcError('UNAUTHENTICATED', socket.data.apiTokenId ? 'API token revoked or expired' : 'Session expired, sign in again');
+    }
+    const user = this.userStore.getUser(caller.username);
+    if (!user) {
+      throw new RpcError('UNAUTHENTICATED', 'User no longer exists');
+    }
+
+    const required = requiredRole(method);
+    if (!hasRole(user.role, required)) {
+      this.deny(caller, user, method, `${method} requires the ${required} role`);
+    }
+    return user;
+  }
+
+  // Access to the program of calls that take a program id
+  private authorizeProgram(caller: RPCCaller, user: UserInfo, call: RpcCall) {
+    const permission = programPermission(call.method);
+    const program = permission && 'id' in call.params && call.params.id !== undefined
+      ? this.programManager.getProgram(String(call.params.id))
+      : undefined;
+    if (permission && program && !canAccessProgram(user, program.acl, permission)) {
+      this.deny(caller, user, call.method, `no ${permission} access to ${program.name}`);
+    }
+    if (call.method === 'editProgram' && program) {
+      // Editors send masked secrets back as they got them
+      const { env } = call.params;
+      const denied = guardedSettingChange(user, program, env ? { ...call.params, env: mergeMaskedEnv(program.env, env) } : call.params);
+      if (denied) this.deny(caller, user, call.method, denied);
+    }
+  }
+
+  private deny(caller: RPCCaller, user: UserInfo, method: string, message: string): never {
+    logWithIP('warn', 'Permission denied', caller.ip, {
+      socketId: caller.socket?.id,
+      apiToken: caller.apiTokenId,
+      username: user.username,
+      role: user.role,
+      method
+    });
+    throw new RpcError('PERMISSION_DENIED', `Permission denied: ${message}`);
+  }
+
+  /**
+   * Runs a bulk action on the programs the user may control. The others are
+   * reported as failed, in the order of ids.
+   */
+  private async runPermittedBulk(ids: string[], action: BulkAction, concurrency: number | undefined, actor?: string): Promise<BulkResult[]> {
+    const denied = new Map<string, BulkResult>();
+    for (const id of ids) {
+      const program = this.programManager.getProgram(id);
+      if (program && !this.canAccess(actor, program, 'control')) {
+        denied.set(id, { id, name: program.name, success: false, error: `Permission denied: no control access to ${program.name}` });
+      }
+    }
+    const results = await this.programManager.runBulk(ids.filter(id => !denied.has(id)), action, concurrency, actor);
+    const byId = new Map(results.map(result => [result.id, result]));
+    return ids.map(id => denied.get(id) || byId.get(id)!);
+  }
+
+  private groupProgramIds(group: string, actor?: string): string[] {
+    return this.programManager.getGroupPrograms(group)
+      .filter(program => this.canAccess(actor, program, 'view'))
+      .map(program => program.id);
+  }
+
+  private visibleTerminal(info: TerminalSessionInfo | null, actor?: string): TerminalSessionInfo | null {
+    return info && this.canUseTerminal(actor, accessProgramId(info)) ? info : null;
+  }
+
+  private userSockets(username: string): Socket[] {
+    return [...this.io.sockets.values()].filter(socket => socket.data.username === username);
+  }
+
+  // Sends the user's open sessions their updated account
+  private notifyUserChanged(username: string) {
+    const user = this.userStore.getUser(username);
+    for (const socket of this.userSockets(username)) {
+      socket.emit('notification', { method: 'currentUserChanged', params: user });
+    }
+  }
+
+  // Sign out a user everywhere after removal
+  private disconnectUser(username: string) {
+    for (const socket of this.userSockets(username)) {
+      socket.disconnect(true);
+    }
+  }
+
+  // Every tab and reconnect of a session shares its id
+  private disconnectSession(sessionId: string) {
+    for (const socket of this.io.sockets.values()) {
+      if (socket.data.sessionId === sessionId) socket.disconnect(true);
+    }
+  }
+
+  private async handleRPC(call: RpcCall, caller: RPCCaller): Promise<unknown> {
+    const { method, params } = call;
+    const actor = caller.username;
+    const ownSessionId: string | undefined = caller.socket?.data.sessionId;
     
     switch (method) {
       case 'listPrograms':
-        return this.programManager.getProgramStates();
+        return this.visibleProgramStates(actor);
         
+      // A null setting is left out like a missing one, or cleared when editing
       case 'addProgram':
-        return this.programManager.addProgram(params).getState();
+        return (await this.programManager.addProgram(params as Omit<ProgramConfig, 'id'>, actor)).getState();
         
       case 'editProgram':
         const { id, ...config } = params;
-        const updated = this.programManager.updateProgram(id, config);
-        if (!updated) throw new Error(`Program with id ${id} not found`);
+        const updated = await this.programManager.updateProgram(id, config as Partial<ProgramConfig>, actor);
+        if (!updated) throw new RpcError('NOT_FOUND', `Program with id ${id} not found`);
         return updated.getState();
         
       case 'deleteProgram':
-        const deleted = this.programManager.deleteProgram(params.id);
-        if (!deleted) throw new Error(`Program with id ${params.id} not found`);
+        const deleted = await this.programManager.deleteProgram(params.id, actor);
+        if (!deleted) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
         return { success: true };
         
       case 'startProgram':
         const startProgram = this.programManager.getProgram(params.id);
-        if (!startProgram) throw new Error(`Program with id ${params.id} not found`);
-        await startProgram.start();
-        return startProgram.getState();
+        if (!startProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        if (params.withDependencies) {
+          const forbidden = this.programManager.getUnstartedDependencies(params.id)
+            .filter(dep => !this.canAccess(actor, dep, 'control'));
+          if (forbidden.length > 0) {
+            throw new RpcError('PERMISSION_DENIED', `Permission denied: starting ${startProgram.name} also starts ${forbidden.map(p => p.name).join(', ')}`);
+          }
+        }
+        return (await this.programManager.startProgram(params.id, params.withDependencies, actor)).getState();
+        
+      case 'runProgramNow':
+        // Start a run of a scheduled or run-once program outside its schedule
+        const runProgram = this.programManager.getProgram(params.id);
+        if (!runProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        if (runProgram.getState().status === 'running') throw new RpcError('CONFLICT', `Program ${runProgram.name} is already running`);
+        return (await this.programManager.startProgram(params.id, false, actor)).getState();
+        
+      case 'getRunHistory':
+        const runs = this.programManager.getRunHistory(params.id, params.limit);
+        if (!runs) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        return runs;
+        
+      case 'getProgramEvents':
+        // Lifecycle events, newest first; pass the time of the oldest event as before to page back
+        const events = this.programManager.getProgramEvents(params.id, {
+          before: params.before,
+          limit: params.limit,
+          types: params.types
+        });
+        if (!events) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        return events;
         
       case 'stopProgram':
-        const stopProgram = this.programManager.getProgram(params.id);
-        if (!stopProgram) throw new Error(`Program with id ${params.id} not found`);
-        await stopProgram.stop();
-        return stopProgram.getState();
+        return (await this.programManager.stopProgram(params.id, actor)).getState();
+        
+      case 'stopAllPrograms': {
+        const controllable = this.programManager.getPrograms().filter(p => this.canAccess(actor, p, 'control'));
+        if (controllable.length === this.programManager.getPrograms().length) {
+          await this.programManager.stopAll(actor);
+        } else {
+          // Only the programs this user controls, still in reverse dependency order
+          await this.programManager.runBulk(controllable.map(p => p.id), 'stop', undefined, actor);
+        }
+        return this.visibleProgramStates(actor);
+      }
+        
+      case 'startGroup':
+        return this.runPermittedBulk(this.groupProgramIds(params.group, actor), 'start', params.concurrency, actor);
+        
+      case 'stopGroup':
+        return this.runPermittedBulk(this.groupProgramIds(params.group, actor), 'stop', params.concurrency, actor);
+        
+      case 'restartGroup':
+        return this.runPermittedBulk(this.groupProgramIds(params.group, actor), 'restart', params.concurrency, actor);
+        
+      case 'bulkProgramAction':
+        return this.runPermittedBulk(params.ids, params.action, params.concurrency, actor);
+        
+      case 'getUnstartedDependencies':
+        if (!this.programManager.getProgram(params.id)) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        return this.programManager.getUnstartedDependencies(params.id)
+          .filter(p => this.canAccess(actor, p, 'view'))
+          .map(p => p.getState());
         
       case 'terminateProgram':
         const termProgram = this.programManager.getProgram(params.id);
-        if (!termProgram) throw new Error(`Program with id ${params.id} not found`);
-        await termProgram.terminate();
+        if (!termProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        await termProgram.terminate(actor);
         return termProgram.getState();
         
       case 'getProgramStatus':
         const program = this.programManager.getProgram(params.id);
-        if (!program) throw new Error(`Program with id ${params.id} not found`);
+        if (!program) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
         await program.monitor();
         return program.getState();
       
       case 'startScreen':
         const screenProgram = this.programManager.getProgram(params.id);
-        if (!screenProgram) throw new Error(`Program with id ${params.id} not found`);
+        if (!screenProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
         const success = await screenProgram.startScreen();
         return { success, state: screenProgram.getState() };
         
       case 'sendCommandToScreen':
         const cmdProgram = this.programManager.getProgram(params.id);
-        if (!cmdProgram) throw new Error(`Program with id ${params.id} not found`);
+        if (!cmdProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
         const sent = await cmdProgram.sendCommandToScreen(params.command);
         return { success: sent, state: cmdProgram.getState() };
 
+      case 'getProgramLogs':
+        const programLog = this.programManager.getProgramLog(params.id);
+        if (!programLog) throw new RpcError('NOT_FOUND', `Program with id ${params.id} not found`);
+        return programLog.read({
+          before: params.before,
+          after: params.after,
+          limit: params.limit,
+          search: params.search,
+          from: params.from,
+          to: params.to
+        });
+
+      case 'getProgramMetrics':
+        // Samples keyed by program id, for one program (id) or several (ids)
+        const metricIds: string[] = params.ids || [params.id as string];
+        const metrics: Record<string, MetricsSample[]> = {};
+        for (const metricId of metricIds) {
+          const metricProgram = this.programManager.getProgram(metricId);
+          if (!metricProgram) throw new RpcError('NOT_FOUND', `Program with id ${metricId} not found`);
+          if (!this.canAccess(actor, metricProgram, 'view')) throw new RpcError('PERMISSION_DENIED', `Permission denied: no view access to ${metricProgram.name}`);
+          metrics[metricId] = this.programManager.getProgramMetrics(metricId, {
+            from: params.from,
+            to: params.to,
+            maxPoints: params.maxPoints
+          });
+        }
+        return metrics;
+
       case 'listTerminals':
         if (!this.terminalServer) {
-          throw new Error('Terminal server not initialized');
+          throw new RpcError('INTERNAL', 'Terminal server not initialized');
         }
-        return this.terminalServer.listTerminals();
+        return this.terminalServer.listTerminals().filter(info => this.visibleTerminal(info, actor));
         
       case 'createTerminal':
         if (!this.terminalServer) {
-          throw new Error('Terminal server not initialized');
+          throw new RpcError('INTERNAL', 'Terminal server not initialized');
+        }
+        if (params.programId) {
+          // Open the program's own terminal: its pty, or its screen session
+          const terminalProgram = this.programManager.getProgram(params.programId);
+          if (!terminalProgram) throw new RpcError('NOT_FOUND', `Program with id ${params.programId} not found`);
+          if (!this.canAccess(actor, terminalProgram, 'terminal')) {
+            throw new RpcError('PERMISSION_DENIED', `Permission denied: no terminal access to ${terminalProgram.name}`);
+          }
+          if (terminalProgram.runtime === 'pty') {
+            return this.terminalServer.createProgramTerminal(terminalProgram, params.titleNote);
+          }
+          return this.terminalServer.createTerminal({
+            shell: `screen -x ${terminalProgram.screenName}`,
+            titleNote: params.titleNote,
+            screenProgramId: terminalProgram.id
+          });
+        }
+        if (!this.canUseTerminal(actor)) {
+          throw new RpcError('PERMISSION_DENIED', 'Permission denied: only admins can open a shell on the host');
         }
         // Create a terminal with the provided options (screenName or shell)
-        const terminalInfo = this.terminalServer.createTerminal(params);
+        const terminalInfo = this.terminalServer.createTerminal({ shell: params.shell, titleNote: params.titleNote });
         return terminalInfo;
         
       case 'getTerminalInfo':
         if (!this.terminalServer) {
-          throw new Error('Terminal server not initialized');
+          throw new RpcError('INTERNAL', 'Terminal server not initialized');
         }
         // Get information about a specific terminal
         const terminalId = params.id;
-        const info = this.terminalServer.getTerminalInfo(terminalId);
+        const info = this.visibleTerminal(this.terminalServer.getTerminalInfo(terminalId), actor);
         if (!info) {
-          throw new Error(`Terminal with ID ${terminalId} not found`);
+          throw new RpcError('NOT_FOUND', `Terminal with ID ${terminalId} not found`);
         }
         return info;
 
       case 'closeTerminal':
         if (!this.terminalServer) {
-          throw new Error('Terminal server not initialized');
+          throw new RpcError('INTERNAL', 'Terminal server not initialized');
         }
         // Close the specified terminal
+        if (!this.visibleTerminal(this.terminalServer.getTerminalInfo(params.id), actor)) {
+          throw new RpcError('NOT_FOUND', `Terminal with ID ${params.id} not found`);
+        }
         logger.info(`Closing terminal`, { terminalId: params.id });
         this.terminalServer.closeTerminal(params.id);
         return { success: true };
+
+      case 'getCurrentUser':
+        if (!actor) throw new RpcError('UNAUTHENTICATED', 'Not signed in');
+        return this.userStore.getUser(actor);
+
+      case 'listUsers':
+        return this.userStore.listUsers();
+
+      case 'addUser': {
+        const user = await this.userStore.addUser(params.username, params.password, params.role);
+        logger.info('auth', `User ${user.username} added as ${user.role} by ${actor}`);
+        return user;
+      }
+
+      case 'removeUser':
+        this.userStore.removeUser(params.username);
+        logger.info('auth', `User ${params.username} removed by ${actor}`);
+        this.sessionStore.revokeUser(params.username);
+        this.apiTokenStore.revokeUser(params.username);
+        this.disconnectUser(params.username);
+        return { success: true };
+
+      case 'resetUserPassword': {
+        const user = await this.userStore.resetPassword(params.username, params.password);
+        logger.info('auth', `Password of ${user.username} reset by ${actor}`);
+        // Other sessions signed in with the old password; the caller keeps theirs
+        this.sessionStore.revokeUser(user.username, ownSessionId);
+        for (const socket of this.userSockets(user.username)) {
+          if (socket.data.sessionId !== ownSessionId) socket.disconnect(true);
+        }
+        return user;
+      }
+
+      case 'refreshSession':
+        if (!ownSessionId) throw new RpcError('UNAUTHENTICATED', 'Not signed in');
+        return this.sessionStore.issueToken(ownSessionId);
+
+
+      case 'logout': {
+        if (ownSessionId) {
+          this.sessionStore.revoke(ownSessionId);
+          logger.info('auth', `User ${actor} signed out`);
+          // After the reply has gone out
+          setImmediate(() => this.disconnectSession(ownSessionId));
+        }
+        return { success: true };
+      }
+
+      case 'listSessions':
+        return this.sessionStore.list().map(session => ({
+          ...session,
+          connections: [...this.io.sockets.values()].filter(socket => socket.data.sessionId === session.id).length,
+          current: session.id === ownSessionId
+        }));
+
+      case 'beginTotpEnrollment': {
+        if (!actor) throw new RpcError('UNAUTHENTICATED', 'Not signed in');
+        const enrollment = this.userStore.beginTotpEnrollment(actor);
+        return { ...enrollment, qrCode: await QRCode.toDataURL(enrollment.uri) };
+      }
+
+      case 'enableTotp': {
+        if (!actor) throw new RpcError('UNAUTHENTICATED', 'Not signed in');
+        const recoveryCodes = this.userStore.enableTotp(actor, params.code);
+        logger.info('auth', `User ${actor} enabled two-factor authentication`);
+        this.notifyUserChanged(actor);
+        return { recoveryCodes };
+      }
+
+      // Turning it off or replacing the recovery codes needs a current code, not just the open session
+      case 'disableTotp':
+      case 'regenerateRecoveryCodes': {
+        if (!actor) throw new RpcError('UNAUTHENTICATED', 'Not signed in');
+        if (!this.userStore.verifySecondFactor(actor, params.code)) throw new RpcError('INVALID_PARAMS', SECOND_FACTOR_INVALID);
+        if (method === 'regenerateRecoveryCodes') {
+          const recoveryCodes = this.userStore.regenerateRecoveryCodes(actor);
+          this.notifyUserChanged(actor);
+          return { recoveryCodes };
+        }
+        this.userStore.disableTotp(actor);
+        logger.info('auth', `User ${actor} disabled two-factor authentication`);
+        this.notifyUserChanged(actor);
+        return { success: true };
+      }
+
+      // For users who lost their authenticator and their recovery codes
+      case 'resetUserTotp': {
+        if (!this.userStore.getUser(params.username)) throw new RpcError('NOT_FOUND', `User ${params.username} not found`);
+        this.userStore.disableTotp(params.username);
+        logger.info('auth', `Two-factor authentication of ${params.username} reset by ${actor}`);
+        this.notifyUserChanged(params.username);
+        return { success: true };
+      }
+
+      case 'listApiTokens': {
+        const user = this.userStore.getUser(actor);
+        return this.apiTokenStore.list(user?.role === 'admin' ? undefined : actor);
+      }
+
+      case 'createApiToken': {
+        const days = params.expiresInDays;
+        const expiresAt = days ? Date.now() + days * 24 * 60 * 60 * 1000 : undefined;
+        const created = this.apiTokenStore.create(actor, params.name, expiresAt);
+        logger.info('auth', `API token ${created.info.id} (${created.info.name}) created by ${actor}`);
+        return created;
+      }
+
+      case 'revokeApiToken': {
+        const token = this.apiTokenStore.get(params.id);
+        // Others' tokens are only visible to admins, so they are "not found" for everyone else
+        if (!token || (token.username !== actor && this.userStore.getUser(actor)?.role !== 'admin')) {
+          throw new RpcError('NOT_FOUND', `API token ${params.id} not found`);
+        }
+        this.apiTokenStore.revoke(token.id);
+        logger.info('auth', `API token ${token.id} of ${token.username} revoked by ${actor}`);
+        for (const socket of this.io.sockets.values()) {
+          if (socket.data.apiTokenId === token.id) socket.disconnect(true);
+        }
+        return { success: true };
+      }
+
+      case 'queryAudit':
+        return this.auditLog.query(params);
+
+      case 'verifyAuditLog':
+        return this.auditLog.verify();
+
+      case 'listNotificationChannels':
+        return this.notifier.list();
+
+      case 'addNotificationChannel': {
+        const channel = this.notifier.add(params);
+        logger.info('notify', `Notification channel ${channel.name} (${channel.type}) added by ${actor}`);
+        return channel;
+      }
+
+      case 'updateNotificationChannel': {
+        const { id, ...settings } = params;
+        const channel = this.notifier.update(id, settings);
+        logger.info('notify', `Notification channel ${channel.name} changed by ${actor}`);
+        return channel;
+      }
+
+      case 'deleteNotificationChannel': {
+        const channel = this.notifier.remove(params.id);
+        logger.info('notify', `Notification channel ${channel.name} deleted by ${actor}`);
+        return { success: true };
+      }
+
+      case 'testNotificationChannel':
+        return this.notifier.test(params.id);
+
+      case 'reloadConfig':
+        return this.programManager.reloadPrograms({ dryRun: params.dryRun, actor });
+
+      case 'listConfigVersions':
+        return this.programManager.listConfigVersions();
+
+      case 'diffConfigVersions':
+        return this.programManager.diffConfigVersions(params.from, params.to);
+
+      case 'rollbackConfig':
+        return this.programManager.rollbackConfig(params.version, { dryRun: params.dryRun, actor });
+
+      case 'exportConfig':
+        return { content: this.programManager.exportConfig(params.format) };
+
+      case 'importConfig':
+        return this.programManager.importConfig(params.content, params.format, { dryRun: params.dryRun, conflicts: params.conflicts, actor });
+
+      case 'revokeSession': {
+        const session = this.sessionStore.revoke(params.id);
+        if (!session) throw new RpcError('NOT_FOUND', `Session ${params.id} not found`);
+        logger.info('auth', `Session of ${session.username} from ${session.ip || 'unknown address'} revoked by ${actor}`);
+        this.disconnectSession(session.id);
+        return { success: true };
+      }
+
+      case 'setUserGroups': {
+        const user = this.userStore.setGroups(params.username, params.groups);
+        logger.info('auth', `Groups of ${user.username} set to ${(user.groups || []).join(', ') || 'none'} by ${actor}`);
+        this.notifyUserChanged(user.username);
+        return user;
+      }
+
+      case 'setUserRole': {
+        const user = this.userStore.setRole(params.username, params.role);
+        logger.info('auth', `User ${user.username} is now ${user.role}, changed by ${actor}`);
+        // Lets the user's open sessions show or hide the actions of the new role
+        this.notifyUserChanged(user.username);
+        return user;
+      }
         
-      default:
-        throw new Error(`Unknown method: ${method}`);
+      default: {
+        // Every method of the registry needs a case
+        const unhandled: never = method;
+        throw new RpcError('UNKNOWN_METHOD', `Unknown method: ${unhandled}`);
+      }
     }
   }
   
@@ -257,12 +856,31 @@ export class WebSocketServer {
       params: program
     };
     
-    this.io.emit('notification', notification);
+    this.emitToViewers(program.id, notification);
+  }
+
+  private emitToAdmins(notification: RPCNotification) {
+    for (const socket of this.io.sockets.values()) {
+      if (hasRole(socket.data.username ? this.userStore.getUser(socket.data.username)?.role : undefined, 'admin')) {
+        socket.emit('notification', notification);
+      }
+    }
+  }
+
+  // Sends a notification about a program to the sockets of the users who may view it
+  private emitToViewers(programId: string, notification: RPCNotification) {
+    const program = this.programManager.getProgram(programId);
+    for (const socket of this.io.sockets.values()) {
+      if (!program || this.canAccess(socket.data.username, program, 'view')) {
+        socket.emit('notification', notification);
+      }
+    }
   }
   
   public async initialize() {
     await this.programManager.loadPrograms();
     await this.programManager.startAllAutoStart();
+    this.programManager.watchConfig();
     return;
   }
   
@@ -317,6 +935,12 @@ export class WebSocketServer {
     return attempt.count <= maxAttempts;
   }
   
+  // Successful sign-ins do not count towards the limit, so scripts connecting often are not locked out
+  private forgiveAttempt(ip: string) {
+    const attempt = this.connectionAttempts[ip];
+    if (attempt && attempt.count > 0) attempt.count--;
+  }
+  
   // Clean up old rate limiting entries
   private cleanupConnectionAttempts(olderThan: number) {
     for (const ip in this.connectionAttempts) {
@@ -334,14 +958,30 @@ export class WebSocketServer {
     // Check program status more frequently (every 3 seconds instead of 10)
     this.monitoringInterval = setInterval(async () => {
       await this.programManager.monitorAll();
-      
-      // Broadcast the current program list to all clients to ensure UI is in sync
-      const programStates = this.programManager.getProgramStates();
-      this.io.emit('notification', {
+      this.broadcastProgramList();
+    }, 3000);
+  }
+  
+  // Send each client the programs it may see to ensure UI is in sync
+  private broadcastProgramList() {
+    const programStates = this.programManager.getProgramStates();
+    for (const socket of this.io.sockets.values()) {
+      socket.emit('notification', {
         method: 'programListUpdated',
-        params: programStates
+        params: this.visibleProgramStates(socket.data.username, programStates)
       });
-    }, 3000);
+    }
+  }
+  
+  // Scheduled runs are checked more often than cron's one minute resolution
+  private startScheduler() {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+    }
+    
+    this.schedulerInterval = setInterval(async () => {
+      await this.programManager.runSchedules();
+    }, 5000);
   }
   
   public shutdown() {
@@ -349,6 +989,12 @@ export class WebSocketServer {
       clearInterval(this.monitoringInterval);
       this.monitoringInterval = null;
     }
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+    this.notifier.shutdown();
+    this.programManager.unwatchConfig();
     
     // Disconnect all sockets in this namespace
     this.io.disconnectSockets(true);
@@ -0,0 +1,29 @@
+import { createLimiter } from './concurrency';
+
+describe('createLimiter', () => {
+  it('should never run more tasks than the limit', async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+    const order: number[] = [];
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map(n => limit(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 10 * (6 - n)));
+      running--;
+      order.push(n);
+      return n * 10;
+    })));
+
+    expect(results).toEqual([10, 20, 30, 40, 50]);
+    expect(maxRunning).toBe(2);
+    expect(order).toHaveLength(5);
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const limit = createLimiter(1);
+    await expect(limit(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(limit(async () => 'next')).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,30 @@
+// Helpers for running a batch of async tasks without starting them all at once.
+
+/**
+ * Create a limiter that runs at most `limit` tasks at the same time.
+ * Further tasks wait in order until a running task finishes.
+ */
+export function createLimiter(limit: number) {
+  const max = Math.max(1, Math.floor(limit) || 1);
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active >= max) {
+      // The finishing task hands its slot over, so active stays unchanged
+      await new Promise<void>(resolve => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
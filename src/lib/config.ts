@@ -4,8 +4,12 @@
  * 
  * For production deployment, set these in a .env file or environment variables
  * Required production variables:
- *   - ADMIN_USERNAME/ADMIN_PASSWORD: Change from defaults
+ *   - ADMIN_USERNAME/ADMIN_PASSWORD: Change from defaults. Only used to create
+ *     the first admin when users.json does not exist yet
  *   - ALLOWED_ORIGINS: Set to your domain in production
+ *   - SESSION_SECRET: Optional key for signing session tokens; by default one
+ *     is generated into session-secret next to the config file
+ *   - METRICS_TOKEN: Bearer token required by /metrics; it is open without one
  */
 
 interface Config {
@@ -20,6 +24,10 @@ interface Config {
   ALLOWED_ORIGINS: string[];
   RATE_LIMIT_WINDOW_MINUTES: number;
   RATE_LIMIT_MAX_REQUESTS: number;
+  SESSION_TTL_MINUTES: number;
+  SESSION_MAX_AGE_DAYS: number;
+  AUDIT_TERMINAL_INPUT: boolean;
+  METRICS_TOKEN?: string;
 
   // Logging configuration
   LOG_LEVEL: 'error' | 'warn' | 'info' | 'http' | 'debug';
@@ -62,6 +70,10 @@ export const getConfig = (): Config => {
     ALLOWED_ORIGINS: parseArray(process.env.ALLOWED_ORIGINS, ['http://localhost:3000']),
     RATE_LIMIT_WINDOW_MINUTES: parseInt(process.env.RATE_LIMIT_WINDOW_MINUTES || '15', 10), // 15 minutes
     RATE_LIMIT_MAX_REQUESTS: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '5', 10),
+    SESSION_TTL_MINUTES: parseInt(process.env.SESSION_TTL_MINUTES || '60', 10), // refreshed while the UI is open
+    SESSION_MAX_AGE_DAYS: parseInt(process.env.SESSION_MAX_AGE_DAYS || '7', 10),
+    AUDIT_TERMINAL_INPUT: process.env.AUDIT_TERMINAL_INPUT === 'true',
+    METRICS_TOKEN: process.env.METRICS_TOKEN || undefined,
 
     // Logging
     LOG_LEVEL: (process.env.LOG_LEVEL as Config['LOG_LEVEL']) || 'info',
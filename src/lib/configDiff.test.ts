@@ -0,0 +1,29 @@
+import { diffPrograms, isEmptyDiff, summarizeDiff } from './configDiff';
+import type { ProgramConfig } from './Program';
+
+const web: ProgramConfig = { id: 'web', name: 'Web', command: 'npm start', screenName: 'web', autoStart: true };
+const job: ProgramConfig = { id: 'job', name: 'Job', command: './job.sh', screenName: 'job' };
+
+describe('configDiff', () => {
+  it('should list added, removed and changed programs by id', () => {
+    const api: ProgramConfig = { id: 'api', name: 'API', command: 'node api.js', screenName: 'api' };
+    const diff = diffPrograms([web, job], [{ ...web, command: 'npm run serve', group: 'frontend' }, api]);
+
+    expect(diff.added).toEqual([{ id: 'api', name: 'API' }]);
+    expect(diff.removed).toEqual([{ id: 'job', name: 'Job' }]);
+    expect(diff.changed).toEqual([{ id: 'web', name: 'Web', fields: ['command', 'group'] }]);
+    expect(diff.unchanged).toBe(0);
+    expect(summarizeDiff(diff)).toBe('1 added, 1 changed, 1 removed');
+  });
+
+  it('should treat renames as changes and missing fields as undefined', () => {
+    const diff = diffPrograms([web, job], [{ ...web, name: 'Website' }, { ...job, tags: undefined }]);
+
+    expect(diff.changed).toEqual([{ id: 'web', name: 'Website', fields: ['name'] }]);
+    expect(diff.unchanged).toBe(1);
+
+    const same = diffPrograms([web], [{ ...web }]);
+    expect(isEmptyDiff(same)).toBe(true);
+    expect(summarizeDiff(same)).toBe('no changes');
+  });
+});
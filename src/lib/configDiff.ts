@@ -0,0 +1,84 @@
+// Differences between two sets of program configurations, matched by id.
+// Kept free of node imports so the UI can describe a diff it is sent.
+import type { ProgramConfig } from './Program';
+
+export interface ProgramRef {
+  id: string;
+  name: string;
+}
+
+export interface ProgramChange extends ProgramRef {
+  fields: (keyof ProgramConfig)[];
+  running?: boolean;   // the change applies from the next start
+}
+
+export interface ConfigDiff {
+  added: ProgramRef[];
+  removed: ProgramRef[];
+  changed: ProgramChange[];
+  unchanged: number;
+}
+
+export interface ConfigReloadResult {
+  diff: ConfigDiff;
+  applied: boolean;    // false for dry runs
+  actor?: string;
+}
+
+export interface ConfigImportResult extends ConfigReloadResult {
+  conflicts: ProgramChange[]; // imported programs that exist with other settings
+}
+
+// Sent to admins when the config file was reloaded, or could not be
+export interface ConfigReloadNotice {
+  time: number;
+  actor: string;
+  diff?: ConfigDiff;
+  reason?: string;     // e.g. "Rolled back to version 3"
+  error?: string;
+}
+
+// Fields missing from a config and fields set to undefined compare equal
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Both sides should be normalized the same way, e.g. through Program#toJSON,
+ * so defaults do not show up as changes.
+ */
+export function diffPrograms(current: ProgramConfig[], next: ProgramConfig[]): ConfigDiff {
+  const diff: ConfigDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  const currentById = new Map(current.map(config => [config.id, config]));
+  const nextIds = new Set(next.map(config => config.id));
+
+  for (const config of next) {
+    const before = currentById.get(config.id);
+    if (!before) {
+      diff.added.push({ id: config.id, name: config.name });
+      continue;
+    }
+    const keys = new Set([...Object.keys(before), ...Object.keys(config)] as (keyof ProgramConfig)[]);
+    const fields = [...keys].filter(key => key !== 'id' && !sameValue(before[key], config[key]));
+    if (fields.length > 0) diff.changed.push({ id: config.id, name: config.name, fields });
+    else diff.unchanged++;
+  }
+  for (const config of current) {
+    if (!nextIds.has(config.id)) diff.removed.push({ id: config.id, name: config.name });
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: ConfigDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+// e.g. "1 added, 2 changed, 1 removed"
+export function summarizeDiff(diff: ConfigDiff): string {
+  const parts = [
+    diff.added.length && `${diff.added.length} added`,
+    diff.changed.length && `${diff.changed.length} changed`,
+    diff.removed.length && `${diff.removed.length} removed`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no changes';
+}
@@ -0,0 +1,35 @@
+import { parseConfig, serializeConfig } from './configFormats';
+import type { ProgramConfig } from './Program';
+
+const programs: ProgramConfig[] = [
+  { id: 'api', name: 'api', command: 'node api.js', screenName: 'api', env: { PORT: '8080' }, restartPolicy: { mode: 'always' } },
+  { id: 'worker', name: 'worker', command: './worker.sh', screenName: 'worker', dependsOn: ['api'], stopSequence: [{ signal: 'SIGTERM', timeoutMs: 5000 }] },
+];
+
+describe('configFormats', () => {
+  it.each(['yaml', 'toml'] as const)('should write %s stacks that read back the same', format => {
+    const text = serializeConfig(programs, format);
+    expect(text).toContain(format === 'yaml' ? 'api:' : '[programs.api]');
+    expect(parseConfig(text, format, {})).toEqual({ programs, stack: true });
+  });
+
+  it('should read lists of programs as they are', () => {
+    const text = serializeConfig(programs, 'json');
+    expect(text).toBe(JSON.stringify(programs, null, 2));
+    expect(parseConfig(text, 'json', {})).toEqual({ programs, stack: false });
+    expect(parseConfig('- name: web\n  command: serve ${DIR}\n', 'yaml', {})).toEqual({
+      programs: [{ name: 'web', command: 'serve ${DIR}' }],
+      stack: false
+    });
+  });
+
+  it('should read stacks written by hand', () => {
+    const yaml = 'defaults:\n  autoStart: true\nprograms:\n  web:\n    command: serve --port ${PORT:-3000}\n';
+    const toml = '[defaults]\nautoStart = true\n\n[programs.web]\ncommand = "serve --port ${PORT:-3000}"\n';
+    const expected = [{ id: 'web', name: 'web', screenName: 'web', autoStart: true, command: 'serve --port 3000' }];
+
+    expect(parseConfig(yaml, 'yaml', {}).programs).toEqual(expected);
+    expect(parseConfig(toml, 'toml', {}).programs).toEqual(expected);
+    expect(parseConfig('{"programs": {"web": {"command": "serve --port ${PORT:-3000}", "autoStart": true}}}', 'json', {}).programs).toEqual(expected);
+  });
+});
@@ -0,0 +1,32 @@
+// Reading and writing program configurations as JSON, YAML or TOML.
+// A list of programs is taken as it is, as programs.json always was; a map is
+// a stack file (see stackFile.ts). YAML and TOML are written as stacks.
+import YAML from 'yaml';
+import * as TOML from 'smol-toml';
+import type { ProgramConfig } from './Program';
+import { ConfigFormat, StackProgram, expandStack, toStack } from './stackFile';
+
+export interface ParsedConfig {
+  programs: StackProgram[];
+  stack: boolean;      // the ids of a stack default to the names and its dependencies may be names
+}
+
+export function parseConfig(text: string, format: ConfigFormat, env: Record<string, string | undefined>): ParsedConfig {
+  let document: unknown;
+  switch (format) {
+    case 'json': document = JSON.parse(text); break;
+    case 'yaml': document = YAML.parse(text); break;
+    case 'toml': document = TOML.parse(text); break;
+  }
+  if (Array.isArray(document)) return { programs: document, stack: false };
+  return { programs: expandStack(document, env), stack: true };
+}
+
+// JSON is written as a list, as the config file always was
+export function serializeConfig(programs: ProgramConfig[], format: ConfigFormat, omit: Partial<ProgramConfig> = {}): string {
+  switch (format) {
+    case 'json': return JSON.stringify(programs, null, 2);
+    case 'yaml': return YAML.stringify(toStack(programs, omit));
+    case 'toml': return TOML.stringify(toStack(programs, omit));
+  }
+}
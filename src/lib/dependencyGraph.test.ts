@@ -0,0 +1,56 @@
+import { DependencyGraph, collectDependencies, findCycle, topologicalOrder } from './dependencyGraph';
+
+describe('dependencyGraph', () => {
+  // db <- queue <- worker, web has no dependencies
+  const graph: DependencyGraph = new Map([
+    ['worker', ['queue', 'db']],
+    ['web', []],
+    ['queue', ['db']],
+    ['db', []]
+  ]);
+
+  describe('topologicalOrder', () => {
+    it('should place dependencies before their dependents', () => {
+      const order = topologicalOrder(graph);
+      expect(order).toEqual(['db', 'queue', 'worker', 'web']);
+    });
+
+    it('should ignore unknown dependencies', () => {
+      const order = topologicalOrder(new Map([['a', ['missing']]]));
+      expect(order).toEqual(['a']);
+    });
+
+    it('should throw on a cycle', () => {
+      expect(() => topologicalOrder(new Map([['a', ['b']], ['b', ['a']]]))).toThrow('Dependency cycle');
+    });
+  });
+
+  describe('findCycle', () => {
+    it('should return null for an acyclic graph', () => {
+      expect(findCycle(graph)).toBeNull();
+    });
+
+    it('should return the ids along the cycle', () => {
+      const cyclic: DependencyGraph = new Map([
+        ['a', ['b']],
+        ['b', ['c']],
+        ['c', ['a']]
+      ]);
+      expect(findCycle(cyclic)).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    it('should detect self references', () => {
+      expect(findCycle(new Map([['a', ['a']]]))).toEqual(['a', 'a']);
+    });
+  });
+
+  describe('collectDependencies', () => {
+    it('should return transitive dependencies in start order', () => {
+      expect(collectDependencies(graph, 'worker')).toEqual(['db', 'queue']);
+    });
+
+    it('should return an empty list for a program without dependencies', () => {
+      expect(collectDependencies(graph, 'web')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+// Helpers for ordering programs by their `dependsOn` lists.
+// The graph maps a program id to the ids it depends on. Ids that are not keys
+// of the graph are ignored, so a dangling reference never blocks startup.
+// This module has no server-side imports and can be used by the UI as well.
+
+export type DependencyGraph = Map<string, string[]>;
+
+/**
+ * Find a dependency cycle in the graph.
+ * Returns the ids along the cycle with the first id repeated at the end
+ * (e.g. ['a', 'b', 'a']), or null if the graph is acyclic.
+ */
+export function findCycle(graph: DependencyGraph): string[] | null {
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (visited.has(id)) return null;
+    if (visiting.has(id)) {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    visiting.add(id);
+    stack.push(id);
+    for (const dep of graph.get(id) || []) {
+      if (!graph.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    visiting.delete(id);
+    visited.add(id);
+    return null;
+  };
+
+  for (const id of graph.keys()) {
+    const cycle = visit(id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Order all ids so that every program comes after its dependencies.
+ * Programs without ordering constraints keep their original order.
+ * Throws if the graph contains a cycle.
+ */
+export function topologicalOrder(graph: DependencyGraph): string[] {
+  const order: string[] = [];
+  const placed = new Set<string>();
+  const inProgress = new Set<string>();
+
+  const place = (id: string) => {
+    if (placed.has(id)) return;
+    if (inProgress.has(id)) {
+      throw new Error(`Dependency cycle detected at ${id}`);
+    }
+    inProgress.add(id);
+    for (const dep of graph.get(id) || []) {
+      if (graph.has(dep)) place(dep);
+    }
+    inProgress.delete(id);
+    placed.add(id);
+    order.push(id);
+  };
+
+  for (const id of graph.keys()) {
+    place(id);
+  }
+  return order;
+}
+
+/**
+ * All transitive dependencies of a program in start order, excluding the program itself.
+ */
+export function collectDependencies(graph: DependencyGraph, id: string): string[] {
+  const required = new Set<string>();
+  const collect = (current: string) => {
+    for (const dep of graph.get(current) || []) {
+      if (!graph.has(dep) || required.has(dep)) continue;
+      required.add(dep);
+      collect(dep);
+    }
+  };
+  collect(id);
+
+  return topologicalOrder(graph).filter(other => required.has(other) && other !== id);
+}
@@ -0,0 +1,63 @@
+import { SECRET_MASK, maskEnv, mergeMaskedEnv, parseEnvFile, shellQuote, validateEnvironment } from './environment';
+
+describe('environment', () => {
+  describe('parseEnvFile', () => {
+    it('should parse plain, quoted and exported values', () => {
+      const env = parseEnvFile([
+        '# database settings',
+        'DB_HOST=localhost',
+        'export DB_PORT = 5432',
+        "DB_PASSWORD='p#ss \"word\"'",
+        'GREETING="hello\\nworld" # trailing comment',
+        'EMPTY=',
+        'URL=http://example.com/a?b=c # comment',
+        'not a variable'
+      ].join('\n'));
+
+      expect(env).toEqual({
+        DB_HOST: 'localhost',
+        DB_PORT: '5432',
+        DB_PASSWORD: 'p#ss "word"',
+        GREETING: 'hello\nworld',
+        EMPTY: '',
+        URL: 'http://example.com/a?b=c'
+      });
+    });
+
+    it('should handle CRLF line endings', () => {
+      expect(parseEnvFile('A=1\r\nB=2\r\n')).toEqual({ A: '1', B: '2' });
+    });
+  });
+
+  describe('masking', () => {
+    it('should mask secret-looking values only', () => {
+      expect(maskEnv({ API_KEY: 'abc', DB_PASSWORD: 'pw', GITHUB_TOKEN: 't', PORT: '80', EMPTY_SECRET: '' })).toEqual({
+        API_KEY: SECRET_MASK,
+        DB_PASSWORD: SECRET_MASK,
+        GITHUB_TOKEN: SECRET_MASK,
+        PORT: '80',
+        EMPTY_SECRET: ''
+      });
+    });
+
+    it('should keep stored values when the mask is sent back', () => {
+      const merged = mergeMaskedEnv(
+        { API_KEY: 'abc', OLD: 'x' },
+        { API_KEY: SECRET_MASK, NEW_TOKEN: SECRET_MASK, PORT: '80' }
+      );
+      expect(merged).toEqual({ API_KEY: 'abc', NEW_TOKEN: SECRET_MASK, PORT: '80' });
+    });
+  });
+
+  describe('validateEnvironment', () => {
+    it('should reject invalid variable and user names', () => {
+      expect(() => validateEnvironment({ env: { 'BAD-NAME': '1' } })).toThrow('Invalid environment variable name');
+      expect(() => validateEnvironment({ runAs: 'root; rm -rf ~' })).toThrow('Invalid user name');
+      expect(() => validateEnvironment({ env: { GOOD_NAME: '1' }, runAs: 'www-data' })).not.toThrow();
+    });
+  });
+
+  it('should quote values for the shell', () => {
+    expect(shellQuote("it's here")).toBe("'it'\\''s here'");
+  });
+});
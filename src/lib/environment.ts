@@ -0,0 +1,120 @@
+// Helpers for the working directory, environment and user a program runs with.
+import { execFile, execFileSync } from 'child_process';
+
+export type EnvMap = { [key: string]: string };
+
+// Run by absolute path so the PATH of whoever runs it cannot swap in another sudo
+export const SUDO_PATH = '/usr/bin/sudo';
+
+// Shown instead of secret values in program state sent to clients. An edit that
+// sends the mask back keeps the stored value.
+export const SECRET_MASK = '********';
+
+const SECRET_KEY_PATTERN = /(SECRET|PASSWORD|PASSWD|PASSPHRASE|TOKEN|API_?KEY|ACCESS_?KEY|PRIVATE|CREDENTIAL|AUTH)/i;
+const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const USER_NAME_PATTERN = /^[a-z_][a-z0-9_.-]*\$?$/i;
+
+export function isSecretKey(key: string): boolean {
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+export function maskEnv(env: EnvMap): EnvMap {
+  const masked: EnvMap = {};
+  for (const [key, value] of Object.entries(env)) {
+    masked[key] = isSecretKey(key) && value ? SECRET_MASK : value;
+  }
+  return masked;
+}
+
+// Apply an edited env map, keeping stored values for keys whose value is still the mask
+export function mergeMaskedEnv(current: EnvMap, incoming: EnvMap): EnvMap {
+  const merged: EnvMap = {};
+  for (const [key, value] of Object.entries(incoming)) {
+    merged[key] = value === SECRET_MASK && key in current ? current[key] : value;
+  }
+  return merged;
+}
+
+export function validateEnvironment(config: { env?: EnvMap, runAs?: string }) {
+  for (const key of Object.keys(config.env || {})) {
+    if (!ENV_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid environment variable name: ${key}`);
+    }
+  }
+  if (config.runAs && !USER_NAME_PATTERN.test(config.runAs)) {
+    throw new Error(`Invalid user name: ${config.runAs}`);
+  }
+}
+
+/**
+ * Parse dotenv formatted text: KEY=value lines, optional `export ` prefix,
+ * # comments, single quoted (literal) and double quoted (\n escapes, may span
+ * lines) values.
+ */
+export function parseEnvFile(content: string): EnvMap {
+  const env: EnvMap = {};
+  const pattern = /^[ \t]*(?:export[ \t]+)?([\w.-]+)[ \t]*=[ \t]*('[^']*'|"(?:\\.|[^"\\])*"|[^#\r\n]*)?(?:[ \t]*#.*)?\r?$/gm;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(content)) !== null) {
+    const key = match[1];
+    let value = (match[2] || '').trim();
+    if (value.startsWith("'")) {
+      value = value.slice(1, -1);
+    } else if (value.startsWith('"')) {
+      value = value.slice(1, -1).replace(/\\(.)/g, (_, char: string) => {
+        switch (char) {
+          case 'n': return '\n';
+          case 'r': return '\r';
+          case 't': return '\t';
+          default: return char;
+        }
+      });
+    }
+    env[key] = value;
+  }
+  return env;
+}
+
+// Quote a value for use as a single word in a POSIX shell command
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// A command that sudo runs as another user, with that user's HOME and a clean environment
+export function sudoCommand(user: string, command: string): string {
+  return `${SUDO_PATH} -n -H -u ${user} -- sh -c ${shellQuote(command)}`;
+}
+
+/**
+ * Write a private file as another user, so it is created with that user's
+ * permissions wherever the path leads and only they and root can read it.
+ * The content goes through stdin, never the command line.
+ */
+export function writeFileAs(user: string, filePath: string, content: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      SUDO_PATH,
+      ['-n', '-H', '-u', user, '--', 'sh', '-c', 'umask 077 && mkdir -p "$(dirname "$1")" && cat > "$1"', 'sh', filePath],
+      (error) => error ? reject(new Error(`Failed to write ${filePath} as ${user}: ${error.message}`)) : resolve()
+    );
+    child.stdin?.end(content);
+  });
+}
+
+export interface UserInfo {
+  uid: number;
+  gid: number;
+  home: string;
+}
+
+// Look up a local user; throws if the user does not exist
+export function lookupUser(name: string): UserInfo {
+  try {
+    const entry = execFileSync('getent', ['passwd', name], { encoding: 'utf-8' }).trim();
+    const fields = entry.split(':');
+    return { uid: parseInt(fields[2], 10), gid: parseInt(fields[3], 10), home: fields[5] };
+  } catch {
+    throw new Error(`User ${name} not found`);
+  }
+}
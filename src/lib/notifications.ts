@@ -0,0 +1,85 @@
+// Notification channels and the program events they are sent for.
+// Shared by the server and the UI, so keep it free of node imports.
+import type { ProgramEventType } from './EventJournal';
+
+export type NotificationChannelType = 'webhook' | 'slack' | 'email';
+
+// Status transitions, health changes and the restart policy giving up
+export const NOTIFICATION_EVENTS = [
+  'started',
+  'stopped',
+  'exited',
+  'crashed',
+  'restarted',
+  'healthChanged',
+  'restartsExhausted',
+] as const satisfies readonly ProgramEventType[];
+
+export type NotificationEventType = typeof NOTIFICATION_EVENTS[number];
+
+// What new channels are sent when no events are picked
+export const DEFAULT_NOTIFICATION_EVENTS: NotificationEventType[] = ['crashed', 'healthChanged', 'restartsExhausted'];
+
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  secure?: boolean;    // TLS from the start, usually port 465; STARTTLS is used when offered otherwise
+  username?: string;
+  password?: string;
+}
+
+export interface NotificationChannelConfig {
+  name: string;
+  type: NotificationChannelType;
+  enabled?: boolean;
+  events?: NotificationEventType[];
+  programIds?: string[];   // only these programs; all when empty
+  groups?: string[];       // only programs in these groups; all when empty
+  url?: string;            // webhook and slack
+  secret?: string;         // webhook: key of the HMAC-SHA256 signature
+  smtp?: SmtpSettings;     // email
+  from?: string;
+  to?: string[];
+}
+
+export interface DeliveryStatus {
+  time: number;            // epoch ms
+  ok: boolean;
+  error?: string;
+  attempts: number;
+}
+
+export interface NotificationChannel extends NotificationChannelConfig {
+  id: string;
+  enabled: boolean;
+  events: NotificationEventType[];
+  createdAt: number;
+  lastDelivery?: DeliveryStatus;
+}
+
+// What is sent for an event; webhooks get it as their JSON body
+export interface Notification {
+  event: NotificationEventType | 'test';
+  programId: string;
+  programName: string;
+  group?: string;
+  message: string;
+  time: number;            // epoch ms
+  host: string;            // the machine the manager runs on
+  actor?: string;
+  exitCode?: number;
+  signal?: string;
+}
+
+export function isNotificationEvent(type: string): type is NotificationEventType {
+  return (NOTIFICATION_EVENTS as readonly string[]).includes(type);
+}
+
+// Test notifications go to every channel, whatever its filters
+export function channelMatches(channel: NotificationChannel, notification: Notification): boolean {
+  if (notification.event === 'test') return true;
+  if (!channel.enabled || !channel.events.includes(notification.event)) return false;
+  if (channel.programIds?.length && !channel.programIds.includes(notification.programId)) return false;
+  if (channel.groups?.length && !(notification.group && channel.groups.includes(notification.group))) return false;
+  return true;
+}
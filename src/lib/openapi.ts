@@ -0,0 +1,154 @@
+// OpenAPI 3 description of the REST API, generated from the RPC method registry.
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RPC_METHODS, RPC_METHOD_NAMES, RpcMethodDefinition, RpcMethodName } from './rpcMethods';
+import { RPC_ERROR_CODES } from './rpcErrors';
+
+// Version of the REST API itself; raise it when a route or parameter changes incompatibly
+export const API_VERSION = '1.0.0';
+
+type Schema = Record<string, unknown>;
+
+export interface ParamsSchema {
+  properties: Record<string, Schema>;
+  required: string[];
+}
+
+const paramsSchemas = new Map<RpcMethodName, ParamsSchema>();
+
+// The JSON schemas of a method's params, by name
+export function paramsSchema(method: RpcMethodName): ParamsSchema {
+  let schema = paramsSchemas.get(method);
+  if (!schema) {
+    const json = zodToJsonSchema(RPC_METHODS[method].params, { target: 'openApi3', $refStrategy: 'none' }) as Schema;
+    schema = {
+      properties: (json.properties || {}) as Record<string, Schema>,
+      required: (json.required || []) as string[],
+    };
+    paramsSchemas.set(method, schema);
+  }
+  return schema;
+}
+
+// The :name segments of a route
+export function pathParams(path: string): string[] {
+  return Array.from(path.matchAll(/:([A-Za-z]+)/g), match => match[1]);
+}
+
+// Express style /programs/:id to OpenAPI style /programs/{id}
+export function openApiPath(path: string): string {
+  return path.replace(/:([A-Za-z]+)/g, '{$1}');
+}
+
+export function successStatus(definition: RpcMethodDefinition): number {
+  return definition.creates ? 201 : 200;
+}
+
+// GET and DELETE take their params in the query, the others in a JSON body
+export function paramsInQuery(definition: RpcMethodDefinition): boolean {
+  return definition.http?.verb === 'get' || definition.http?.verb === 'delete';
+}
+
+function operation(method: RpcMethodName): Schema {
+  const definition: RpcMethodDefinition = RPC_METHODS[method];
+  const { properties, required } = paramsSchema(method);
+  const inPath = pathParams(definition.http!.path);
+  const rest = Object.keys(properties).filter(name => !inPath.includes(name));
+
+  const op: Schema = {
+    operationId: method,
+    summary: definition.summary,
+    description: `Requires the ${definition.role} role${definition.programAccess ? ` and ${definition.programAccess} access to the program` : ''}. RPC method \`${method}\`.`,
+    tags: [definition.tag],
+    'x-required-role': definition.role,
+    parameters: [
+      ...inPath.map(name => ({ name, in: 'path', required: true, schema: properties[name] || { type: 'string' } })),
+      ...(paramsInQuery(definition) ? rest : []).map(name => ({
+        name,
+        in: 'query',
+        required: required.includes(name),
+        schema: properties[name],
+        // Arrays in the query are comma separated
+        ...(properties[name].type === 'array' ? { style: 'form', explode: false } : {}),
+      })),
+    ],
+    responses: {
+      [successStatus(definition)]: { description: 'The result of the method', content: { 'application/json': { schema: {} } } },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      404: { $ref: '#/components/responses/NotFound' },
+    },
+  };
+
+  if (!paramsInQuery(definition) && rest.length > 0) {
+    const bodyRequired = required.filter(name => rest.includes(name));
+    op.requestBody = {
+      required: bodyRequired.length > 0,
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(rest.map(name => [name, properties[name]])),
+            ...(bodyRequired.length > 0 ? { required: bodyRequired } : {}),
+            additionalProperties: false,
+          },
+        },
+      },
+    };
+  }
+  return op;
+}
+
+export function buildOpenApiDocument(): Schema {
+  const paths: Record<string, Schema> = {};
+  for (const method of RPC_METHOD_NAMES) {
+    const { http } = RPC_METHODS[method] as RpcMethodDefinition;
+    if (!http) continue;
+    const path = openApiPath(http.path);
+    paths[path] = { ...paths[path], [http.verb]: operation(method) };
+  }
+
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+  });
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Startup Manager API',
+      version: API_VERSION,
+      description: 'REST access to the Startup Manager RPC methods. Authenticate with an API token as a bearer token.',
+    },
+    servers: [{ url: '/api' }],
+    security: [{ apiToken: [] }],
+    tags: Array.from(new Set(RPC_METHOD_NAMES.map(method => RPC_METHODS[method] as RpcMethodDefinition).filter(d => d.http).map(d => d.tag))).map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiToken: { type: 'http', scheme: 'bearer', description: 'An API token, smt_...' },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            code: { type: 'string', enum: RPC_ERROR_CODES },
+            // The params that failed validation
+            details: {
+              type: 'array',
+              items: { type: 'object', properties: { path: { type: 'string' }, message: { type: 'string' } }, required: ['path', 'message'] },
+            },
+          },
+          required: ['error'],
+        },
+      },
+      responses: {
+        BadRequest: errorResponse('Invalid parameters, or the method failed'),
+        Unauthorized: errorResponse('Missing, invalid or expired API token'),
+        Forbidden: errorResponse('The role or program access of the token user does not allow this'),
+        NotFound: errorResponse('No such program, terminal, user or route'),
+      },
+    },
+  };
+}
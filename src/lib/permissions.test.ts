@@ -0,0 +1,101 @@
+import { ProgramAcl, canAccessProgram, guardedSettingChange, hasRole, normalizeAcl, programPermission, requiredRole } from './permissions';
+
+describe('permissions', () => {
+  it('should order roles from viewer to admin', () => {
+    expect(hasRole('admin', 'operator')).toBe(true);
+    expect(hasRole('operator', 'operator')).toBe(true);
+    expect(hasRole('viewer', 'operator')).toBe(false);
+    expect(hasRole(undefined, 'viewer')).toBe(false);
+  });
+
+  it('should keep terminals and screen input from viewers', () => {
+    expect(requiredRole('listPrograms')).toBe('viewer');
+    expect(requiredRole('createTerminal')).toBe('operator');
+    expect(requiredRole('sendCommandToScreen')).toBe('operator');
+    expect(requiredRole('addUser')).toBe('admin');
+    expect(requiredRole('somethingNew')).toBe('admin');
+  });
+
+  it('should check the program of program RPCs', () => {
+    expect(programPermission('getProgramLogs')).toBe('view');
+    expect(programPermission('stopProgram')).toBe('control');
+    expect(programPermission('sendCommandToScreen')).toBe('terminal');
+    expect(programPermission('editProgram')).toBe('edit');
+    expect(programPermission('listPrograms')).toBeUndefined();
+  });
+});
+
+describe('canAccessProgram', () => {
+  const alice = { username: 'alice', role: 'operator' as const, groups: ['backend'] };
+  const bob = { username: 'bob', role: 'operator' as const };
+  const carol = { username: 'carol', role: 'viewer' as const, groups: ['backend'] };
+  const admin = { username: 'root', role: 'admin' as const };
+
+  it('should fall back to the role without access lists', () => {
+    expect(canAccessProgram(bob, undefined, 'control')).toBe(true);
+    expect(canAccessProgram(carol, undefined, 'view')).toBe(true);
+    expect(canAccessProgram(carol, undefined, 'control')).toBe(false);
+    expect(canAccessProgram(bob, undefined, 'edit')).toBe(false);
+    expect(canAccessProgram(undefined, undefined, 'view')).toBe(false);
+  });
+
+  it('should allow listed users and groups only', () => {
+    const acl: ProgramAcl = { view: ['@backend'], control: ['@backend'], edit: ['alice'] };
+
+    expect(canAccessProgram(alice, acl, 'control')).toBe(true);
+    expect(canAccessProgram(alice, acl, 'edit')).toBe(true);
+    expect(canAccessProgram(bob, acl, 'view')).toBe(false);
+    expect(canAccessProgram(bob, acl, 'control')).toBe(false);
+    // No terminal list: left to the role
+    expect(canAccessProgram(bob, acl, 'terminal')).toBe(true);
+    expect(canAccessProgram(admin, acl, 'edit')).toBe(true);
+  });
+
+  it('should keep the role as a ceiling', () => {
+    expect(canAccessProgram(carol, { control: ['@backend'] }, 'control')).toBe(false);
+    expect(canAccessProgram(carol, { view: ['@backend'] }, 'view')).toBe(true);
+  });
+
+  it('should let users with other access view the program', () => {
+    const acl: ProgramAcl = { view: ['carol'], terminal: ['bob'] };
+    expect(canAccessProgram(bob, acl, 'view')).toBe(true);
+    expect(canAccessProgram(alice, acl, 'view')).toBe(false);
+  });
+
+  it('should normalize access lists', () => {
+    expect(normalizeAcl({ view: [' alice ', 'alice', ''], edit: [] })).toEqual({ view: ['alice'] });
+    expect(normalizeAcl({ control: [] })).toBeUndefined();
+    expect(normalizeAcl(null)).toBeUndefined();
+    expect(() => normalizeAcl({ view: 'alice' as unknown as string[] })).toThrow('must be a list');
+  });
+});
+
+describe('guardedSettingChange', () => {
+  const operator = { username: 'alice', role: 'operator' as const };
+  const admin = { username: 'root', role: 'admin' as const };
+  const current = {
+    screenName: 'api', cwd: '/srv/app', env: { PORT: '80' }, envFile: '.env',
+    healthCheck: { type: 'command' as const, command: 'curl -f localhost' }
+  };
+
+  it('should keep what the manager runs or reads for a program to admins', () => {
+    expect(guardedSettingChange(operator, current, { cwd: '/root' })).toBe('only admins can change the working directory');
+    expect(guardedSettingChange(operator, current, { envFile: '/etc/shadow' })).toBe('only admins can change the env file');
+    expect(guardedSettingChange(operator, current, { env: { PORT: '80', PATH: '/home/alice/bin' } })).toBe('only admins can change the environment');
+    expect(guardedSettingChange(operator, current, { env: { PORT: '81' } })).toBe('only admins can change the environment');
+    expect(guardedSettingChange(operator, current, { screenName: 'db' })).toBe('only admins can change the screen session');
+    expect(guardedSettingChange(operator, current, { healthCheck: { type: 'command', command: 'id > /tmp/x' } }))
+      .toBe('only admins can change the health check command');
+    expect(guardedSettingChange(operator, {}, { healthCheck: { type: 'command', command: 'true' } }))
+      .toBe('only admins can change the health check command');
+    expect(guardedSettingChange(operator, current, { runAs: 'root' })).toBe('only admins can change the user a program runs as');
+    expect(guardedSettingChange(operator, current, { acl: { edit: ['alice'] } })).toBe('only admins can change access lists');
+    expect(guardedSettingChange(admin, current, { cwd: '/root', runAs: 'root' })).toBeUndefined();
+  });
+
+  it('should let editors send the settings back unchanged or remove the health check', () => {
+    expect(guardedSettingChange(operator, current, { ...current, runAs: '', acl: null })).toBeUndefined();
+    expect(guardedSettingChange(operator, current, { healthCheck: { ...current.healthCheck, intervalMs: 5000 } })).toBeUndefined();
+    expect(guardedSettingChange(operator, current, { healthCheck: null })).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+// Roles of manager users, per-program access lists and the access each RPC method needs.
+// Shared by the server and the UI, so keep it free of node imports.
+import { getRpcMethod } from './rpcMethods';
+import type { HealthCheckConfig } from './HealthCheck';
+
+export type Role = 'viewer' | 'operator' | 'admin';
+
+// Ordered from least to most privileged
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+// Login errors the login form tells apart: asking for the second factor, or refusing it
+export const SECOND_FACTOR_REQUIRED = 'Two-factor code required';
+export const SECOND_FACTOR_INVALID = 'Invalid two-factor code';
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+export function hasRole(role: Role | undefined, required: Role): boolean {
+  if (!role) return false;
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+// The roles are declared with the methods; unknown methods are left to admins
+export function requiredRole(method: string): Role {
+  return getRpcMethod(method)?.role ?? 'admin';
+}
+
+// Kinds of access to a single program
+export type ProgramPermission = 'view' | 'control' | 'terminal' | 'edit';
+export const PROGRAM_PERMISSIONS: ProgramPermission[] = ['view', 'control', 'terminal', 'edit'];
+
+// User names and '@group' names allowed each kind of access to a program.
+// A missing list leaves that access to the global role.
+export type ProgramAcl = { [permission in ProgramPermission]?: string[] };
+
+// The parts of a user that access checks need
+export interface Principal {
+  username: string;
+  role: Role;
+  groups?: string[];
+}
+
+// Access each role has to programs without a list for it
+const DEFAULT_PERMISSION_ROLES: Record<ProgramPermission, Role> = {
+  view: 'viewer',
+  control: 'operator',
+  terminal: 'operator',
+  edit: 'admin',
+};
+
+// Listing a user grants access up to this role, so a listed viewer still cannot start programs
+const GRANTED_PERMISSION_ROLES: Record<ProgramPermission, Role> = {
+  view: 'viewer',
+  control: 'operator',
+  terminal: 'operator',
+  edit: 'operator',
+};
+
+// The access checked on the program of RPCs that take a program id
+export function programPermission(method: string): ProgramPermission | undefined {
+  return getRpcMethod(method)?.programAccess;
+}
+
+function isListed(user: Principal, entries: string[]): boolean {
+  return entries.some(entry => entry.startsWith('@')
+    ? (user.groups || []).includes(entry.slice(1))
+    : entry === user.username);
+}
+
+/**
+ * Whether a user has a kind of access to a program. Admins have every access.
+ * Anyone listed for control, terminal or edit may also view the program.
+ */
+export function canAccessProgram(user: Principal | null | undefined, acl: ProgramAcl | undefined, permission: ProgramPermission): boolean {
+  if (!user) return false;
+  if (user.role === 'admin') return true;
+
+  const entries = acl?.[permission];
+  if (!entries) return hasRole(user.role, DEFAULT_PERMISSION_ROLES[permission]);
+  if (!hasRole(user.role, GRANTED_PERMISSION_ROLES[permission])) return false;
+  if (isListed(user, entries)) return true;
+  return permission === 'view' && PROGRAM_PERMISSIONS.some(other => other !== 'view' && isListed(user, acl?.[other] || []));
+}
+
+// The settings of a program that only admins may change
+export interface GuardedSettings {
+  acl?: ProgramAcl | null;
+  runAs?: string;
+  screenName?: string;
+  cwd?: string;
+  env?: Record<string, string>;
+  envFile?: string;
+  healthCheck?: HealthCheckConfig | null;
+}
+
+/**
+ * Why a user with edit access may not make a change to a program, or
+ * undefined when they may. Editors change how a program runs, but not who can
+ * reach it, nor what the manager itself runs or reads for it: the user the
+ * program runs as, its screen session, which terminals attach to, its working
+ * directory, its environment and env file and the command of its health check.
+ * Removing a health check is allowed. The env sent must have masked values
+ * replaced by the stored ones.
+ */
+export function guardedSettingChange(user: Principal, current: GuardedSettings, changes: GuardedSettings): string | undefined {
+  if (user.role === 'admin') return undefined;
+  if (changes.acl !== undefined && JSON.stringify(normalizeAcl(changes.acl)) !== JSON.stringify(normalizeAcl(current.acl))) {
+    return 'only admins can change access lists';
+  }
+  if (changes.runAs !== undefined && (changes.runAs || undefined) !== current.runAs) {
+    return 'only admins can change the user a program runs as';
+  }
+  if (changes.screenName !== undefined && changes.screenName !== current.screenName) {
+    return 'only admins can change the screen session';
+  }
+  if (changes.cwd !== undefined && (changes.cwd || undefined) !== current.cwd) {
+    return 'only admins can change the working directory';
+  }
+  if (changes.env !== undefined && !sameEnv(changes.env, current.env || {})) {
+    return 'only admins can change the environment';
+  }
+  if (changes.envFile !== undefined && (changes.envFile || undefined) !== current.envFile) {
+    return 'only admins can change the env file';
+  }
+  const command = changes.healthCheck?.command || undefined;
+  if (command !== undefined && command !== current.healthCheck?.command) {
+    return 'only admins can change the health check command';
+  }
+  return undefined;
+}
+
+function sameEnv(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => key in b && a[key] === b[key]);
+}
+
+// Trimmed entries without duplicates; lists left empty are dropped
+export function normalizeAcl(acl?: ProgramAcl | null): ProgramAcl | undefined {
+  if (!acl) return undefined;
+  const result: ProgramAcl = {};
+  for (const permission of PROGRAM_PERMISSIONS) {
+    const entries = acl[permission];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries)) throw new Error(`Access list ${permission} must be a list of users and @groups`);
+    const cleaned = Array.from(new Set(entries.map(entry => String(entry).trim()).filter(Boolean)));
+    if (cleaned.length > 0) result[permission] = cleaned;
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+}
@@ -0,0 +1,13 @@
+import { parseImport } from './programExport';
+
+describe('programExport', () => {
+  it('should read one program or a list', () => {
+    expect(parseImport({ name: 'api', command: 'run api' })).toEqual([{ name: 'api', command: 'run api' }]);
+    expect(parseImport([{ id: 'a', name: 'api' }, { name: 'worker' }]).map(p => p.name)).toEqual(['api', 'worker']);
+  });
+
+  it('should refuse programs without a name and other values', () => {
+    expect(() => parseImport([{ command: 'x' }])).toThrow('Program 1 has no name');
+    expect(() => parseImport([{ name: 'x' }, 'y'])).toThrow('Program 2 is not an object');
+  });
+});
@@ -0,0 +1,21 @@
+// Programs read from a file by the CLI's add command. Imports of whole
+// configurations are merged by the server (importConfig).
+// Kept free of node and server imports so it only needs the RPC types.
+import type { ProgramConfig } from './Program';
+
+// A program from a file without an id gets one when it is added
+export type ImportedProgram = Omit<ProgramConfig, 'id'> & { id?: string };
+
+export function parseImport(data: unknown): ImportedProgram[] {
+  const list = Array.isArray(data) ? data : [data];
+  return list.map((item, index) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Program ${index + 1} is not an object`);
+    }
+    const program = item as ImportedProgram;
+    if (typeof program.name !== 'string' || !program.name.trim()) {
+      throw new Error(`Program ${index + 1} has no name`);
+    }
+    return program;
+  });
+}
@@ -0,0 +1,64 @@
+import { buildParams, errorStatus } from './restApi';
+import { buildOpenApiDocument } from './openapi';
+import { RPC_METHODS, RPC_METHOD_NAMES, parseRpcCall } from './rpcMethods';
+import { RpcError, errorCode } from './rpcErrors';
+
+describe('restApi', () => {
+  it('should take params from the path and the query with their types', () => {
+    expect(buildParams('getProgramLogs', { params: { id: 'web' }, query: { limit: '50', search: 'error', ignored: 'x' }, body: {} }))
+      .toEqual({ id: 'web', limit: 50, search: 'error' });
+    expect(buildParams('getProgramEvents', { params: { id: 'web' }, query: { types: 'started, crashed' }, body: {} }))
+      .toEqual({ id: 'web', types: ['started', 'crashed'] });
+    expect(buildParams('getTerminalInfo', { params: { id: '3' }, query: {}, body: {} })).toEqual({ id: 3 });
+  });
+
+  it('should take the other params from the body', () => {
+    expect(buildParams('startProgram', { params: { id: 'web' }, query: {}, body: { withDependencies: true } }))
+      .toEqual({ id: 'web', withDependencies: true });
+    expect(buildParams('editProgram', { params: { id: 'web' }, query: {}, body: { name: 'Web', autoStart: true, id: 'other' } }))
+      .toEqual({ id: 'web', name: 'Web', autoStart: true });
+    expect(() => buildParams('addProgram', { params: {}, query: {}, body: [{ name: 'Web' }] })).toThrow('body must be a JSON object');
+  });
+
+  it('should leave params of the wrong type to the validation', () => {
+    const params = buildParams('getProgramLogs', { params: { id: 'web' }, query: { limit: 'ten' }, body: {} });
+    expect(() => parseRpcCall('getProgramLogs', params)).toThrow('limit: Expected number, received string');
+
+    const repeated = buildParams('getProgramLogs', { params: { id: 'web' }, query: { limit: ['1', '2'] }, body: {} });
+    expect(() => parseRpcCall('getProgramLogs', repeated)).toThrow('limit: Expected number, received array');
+  });
+
+  it('should map error codes to HTTP statuses', () => {
+    expect(errorStatus(errorCode(new RpcError('PERMISSION_DENIED', 'Permission denied: no control access to Web')))).toBe(403);
+    expect(errorStatus(errorCode(new RpcError('NOT_FOUND', 'Program with id x not found')))).toBe(404);
+    expect(errorStatus(errorCode(new RpcError('CONFLICT', 'User alice already exists')))).toBe(409);
+    expect(errorStatus(errorCode(new Error('Dependency with id x not found')))).toBe(400);
+    expect(errorStatus(errorCode(new RpcError('INTERNAL', 'Saving the config failed: EACCES')))).toBe(500);
+    expect(errorStatus('INVALID_PARAMS')).toBe(400);
+    expect(errorStatus('UNAUTHENTICATED')).toBe(401);
+  });
+
+  it('should document every route of the registry', () => {
+    const document = buildOpenApiDocument() as { paths: Record<string, Record<string, Record<string, unknown>>> };
+    const routed = RPC_METHOD_NAMES.filter(method => 'http' in RPC_METHODS[method]);
+    const operations = Object.values(document.paths).flatMap(path => Object.values(path));
+
+    expect(operations.map(op => op.operationId).sort()).toEqual([...routed].sort());
+    expect(document.paths['/programs/{id}/start'].post).toMatchObject({ operationId: 'startProgram', 'x-required-role': 'operator' });
+    expect(document.paths['/terminals'].get.operationId).toBe('listTerminals');
+    expect(document.paths['/programs'].post).toHaveProperty('responses.201');
+  });
+
+  it('should document params from their schemas', () => {
+    const document = buildOpenApiDocument() as { paths: Record<string, Record<string, Record<string, unknown>>> };
+    const logs = document.paths['/programs/{id}/logs'].get;
+    expect(logs.parameters).toContainEqual(expect.objectContaining({ name: 'id', in: 'path', required: true }));
+    expect(logs.parameters).toContainEqual(expect.objectContaining({ name: 'limit', in: 'query', schema: expect.objectContaining({ type: 'integer' }) }));
+
+    const bulk = document.paths['/programs/bulk'].post;
+    expect(bulk.requestBody).toMatchObject({
+      required: true,
+      content: { 'application/json': { schema: { required: ['ids', 'action'], properties: { action: { enum: ['start', 'stop', 'restart', 'terminate'] } } } } },
+    });
+  });
+});
@@ -0,0 +1,151 @@
+// REST access to the RPC methods for scripts and CI, authenticated with API tokens.
+// Mounted under /api; the routes come from the RPC method registry like the OpenAPI document.
+import express, { NextFunction, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { v4 as uuidv4 } from 'uuid';
+import { RPC_METHODS, RPC_METHOD_NAMES, RpcMethodDefinition, RpcMethodName } from './rpcMethods';
+import { RpcError, RpcErrorCode, errorCode } from './rpcErrors';
+import { buildOpenApiDocument, paramsInQuery, paramsSchema, pathParams, successStatus } from './openapi';
+import type { RPCCaller, WebSocketServer } from './WebSocketServer';
+import { logWithIP } from './logger';
+import config from './config';
+
+type ParamSource = { params: Record<string, unknown>, query: Record<string, unknown>, body: unknown };
+
+// Path and query params are strings; they are converted to the type of the param
+// where they clearly are one, and left to the validation otherwise
+function coerce(schema: Record<string, unknown> | undefined, raw: unknown): unknown {
+  if (typeof raw !== 'string') return raw;
+  switch (schema?.type) {
+    case 'integer':
+    case 'number':
+      return raw.trim() !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+    case 'boolean':
+      if (raw === 'true' || raw === '1') return true;
+      if (raw === 'false' || raw === '0') return false;
+      return raw;
+    case 'array':
+      // Query strings may also repeat the name instead
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * The RPC params of a request: its path params, the query params the method
+ * takes for GET and DELETE, or else the JSON body. They are validated by the call.
+ */
+export function buildParams(method: RpcMethodName, source: ParamSource): Record<string, unknown> {
+  const definition: RpcMethodDefinition = RPC_METHODS[method];
+  const { properties } = paramsSchema(method);
+  const params: Record<string, unknown> = {};
+
+  if (paramsInQuery(definition)) {
+    // Other query params, such as cache busters, are ignored
+    for (const [name, raw] of Object.entries(source.query)) {
+      if (name in properties) params[name] = coerce(properties[name], raw);
+    }
+  } else if (source.body !== undefined && source.body !== null) {
+    if (typeof source.body !== 'object' || Array.isArray(source.body)) {
+      throw new RpcError('INVALID_PARAMS', 'The body must be a JSON object');
+    }
+    Object.assign(params, source.body);
+  }
+
+  for (const name of pathParams(definition.http?.path || '')) {
+    params[name] = coerce(properties[name], source.params[name]);
+  }
+  return params;
+}
+
+const HTTP_STATUS: Record<RpcErrorCode, number> = {
+  INVALID_PARAMS: 400,
+  UNKNOWN_METHOD: 404,
+  UNAUTHENTICATED: 401,
+  PERMISSION_DENIED: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  FAILED: 400,
+  INTERNAL: 500,
+};
+
+export function errorStatus(code: RpcErrorCode): number {
+  return HTTP_STATUS[code];
+}
+
+function clientIp(req: Request): string {
+  const forwardedFor = req.headers['x-forwarded-for'];
+  if (forwardedFor) {
+    return (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0]).trim();
+  }
+  return req.socket.remoteAddress || 'unknown';
+}
+
+export function createRestRouter(server: WebSocketServer): express.Router {
+  const router = express.Router();
+  const openApiDocument = buildOpenApiDocument();
+
+  router.use(express.json());
+
+  // The description of the API is public, like the sign-in page
+  router.get('/openapi.json', (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  // Only failed authentications count towards the limit, so busy scripts are not throttled
+  router.use(rateLimit({
+    windowMs: config.RATE_LIMIT_WINDOW_MINUTES * 60 * 1000,
+    limit: config.RATE_LIMIT_MAX_REQUESTS,
+    requestWasSuccessful: (_req, res) => res.statusCode !== 401,
+    skipSuccessfulRequests: true,
+    keyGenerator: (req) => clientIp(req),
+    validate: { xForwardedForHeader: false },
+    message: { error: 'Too many authentication attempts' },
+  }));
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization || '';
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    const caller = match ? server.authenticateApiToken(match[1]) : null;
+    if (!caller) {
+      logWithIP('warn', 'API token authentication failed', clientIp(req), { path: req.path, withToken: !!match });
+      server.prometheus.recordAuthFailure('api_token');
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      res.status(401).json({ error: match ? 'Invalid or expired API token' : 'API token required', code: 'UNAUTHENTICATED' });
+      return;
+    }
+    res.locals.caller = { username: caller.username, ip: clientIp(req), apiTokenId: caller.tokenId } as RPCCaller;
+    next();
+  });
+
+  for (const method of RPC_METHOD_NAMES) {
+    const definition: RpcMethodDefinition = RPC_METHODS[method];
+    if (!definition.http) continue;
+    router[definition.http.verb](definition.http.path, async (req: Request, res: Response) => {
+      try {
+        const params = buildParams(method, { params: req.params, query: req.query as Record<string, unknown>, body: req.body });
+        const result = await server.call(res.locals.caller, { id: uuidv4(), method, params });
+        res.status(successStatus(definition)).json(result ?? null);
+      } catch (error) {
+        const code = errorCode(error);
+        const details = error instanceof RpcError ? error.details : undefined;
+        res.status(errorStatus(code)).json({ error: error instanceof Error ? error.message : 'Unknown error', code, details });
+      }
+    });
+  }
+
+  router.use((req: Request, res: Response) => {
+    res.status(404).json({ error: `No route for ${req.method} ${req.baseUrl}${req.path}`, code: 'UNKNOWN_METHOD' });
+  });
+
+  // Malformed JSON bodies, and anything else thrown by the middleware
+  router.use((error: Error & { status?: number }, req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) return next(error);
+    const status = error.status && error.status >= 400 && error.status < 500 ? error.status : 500;
+    if (status === 500) logWithIP('error', `REST API error: ${error.message}`, clientIp(req), { path: req.path });
+    res.status(status).json({ error: status === 500 ? 'Internal server error' : error.message, code: status === 500 ? 'INTERNAL' : 'INVALID_PARAMS' });
+  });
+
+  return router;
+}
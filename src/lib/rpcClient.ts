@@ -0,0 +1,23 @@
+// Typed access to the RPC methods for clients: client.rpc.startProgram({ id })
+// checks the params and gives the result type of the method in the registry.
+// Only the types of the registry are imported, so clients do not load the schemas.
+import type { RpcMethodName, RpcParams, RpcResult } from './rpcMethods';
+
+export type RpcClient = {
+  [M in RpcMethodName]: Partial<RpcParams<M>> extends RpcParams<M>
+    ? (params?: RpcParams<M>) => Promise<RpcResult<M>>
+    : (params: RpcParams<M>) => Promise<RpcResult<M>>;
+};
+
+/**
+ * Builds the typed methods over an untyped call. Every property is a method,
+ * except `then`, so the proxy is not mistaken for a promise.
+ */
+export function createRpcClient(call: (method: string, params: unknown) => Promise<unknown>): RpcClient {
+  return new Proxy({}, {
+    get: (_target, method) => {
+      if (typeof method !== 'string' || method === 'then') return undefined;
+      return (params?: unknown) => call(method, params ?? {});
+    }
+  }) as RpcClient;
+}
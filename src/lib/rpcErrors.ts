@@ -0,0 +1,34 @@
+// Error codes of failed RPCs. They are sent along with the message, so clients
+// and the REST API can tell failures apart without parsing the text.
+// Shared by the server and the UI, so keep it free of node imports.
+
+export const RPC_ERROR_CODES = [
+  'INVALID_PARAMS',     // the params do not match the method's schema
+  'UNKNOWN_METHOD',
+  'UNAUTHENTICATED',    // the session or API token ended, or the user was removed
+  'PERMISSION_DENIED',
+  'NOT_FOUND',          // no such program, terminal, user, session or token
+  'CONFLICT',           // e.g. a user that already exists
+  'FAILED',             // the method ran and failed
+  'INTERNAL',           // the manager could not carry it out, e.g. writing a file failed
+] as const;
+
+export type RpcErrorCode = typeof RPC_ERROR_CODES[number];
+
+// A param that failed validation, with its dotted path, e.g. restartPolicy.mode
+export interface RpcErrorDetail {
+  path: string;
+  message: string;
+}
+
+export class RpcError extends Error {
+  constructor(public code: RpcErrorCode, message: string, public details?: RpcErrorDetail[]) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+// Errors are thrown with their code where they happen; any other error is a failed call
+export function errorCode(error: unknown): RpcErrorCode {
+  return error instanceof RpcError ? error.code : 'FAILED';
+}
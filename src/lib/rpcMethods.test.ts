@@ -0,0 +1,73 @@
+import { RPC_METHODS, RPC_METHOD_NAMES, isRpcMethod, parseRpcCall } from './rpcMethods';
+import { RpcError, errorCode } from './rpcErrors';
+import { createRpcClient } from './rpcClient';
+
+function rejection(fn: () => unknown): RpcError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof RpcError) return error;
+    throw error;
+  }
+  throw new Error('Expected the call to be rejected');
+}
+
+describe('rpcMethods', () => {
+  it('should pass valid params through', () => {
+    expect(parseRpcCall('startProgram', { id: 'web', withDependencies: true }))
+      .toEqual({ method: 'startProgram', params: { id: 'web', withDependencies: true } });
+    expect(parseRpcCall('listPrograms', undefined)).toEqual({ method: 'listPrograms', params: {} });
+    expect(parseRpcCall('editProgram', { id: 'web', healthCheck: null }).params).toEqual({ id: 'web', healthCheck: null });
+  });
+
+  it('should reject invalid params with the paths of the problems', () => {
+    const error = rejection(() => parseRpcCall('bulkProgramAction', { ids: 'web', action: 'explode' }));
+    expect(error.code).toBe('INVALID_PARAMS');
+    expect(error.details?.map(detail => detail.path)).toEqual(['ids', 'action']);
+    expect(error.message).toMatch(/^Invalid params for bulkProgramAction: ids: Expected array/);
+
+    expect(rejection(() => parseRpcCall('addProgram', { name: ' ', command: 'run' })).details).toEqual([{ path: 'name', message: 'Name is required' }]);
+    expect(rejection(() => parseRpcCall('addProgram', { name: 'Web', command: 'run', restartPolicy: 'always' })).details?.[0].path).toBe('restartPolicy');
+    expect(rejection(() => parseRpcCall('getProgramMetrics', { from: 0 })).message).toContain('id or ids is required');
+  });
+
+  it('should refuse screen names that could reach the shell', () => {
+    expect(rejection(() => parseRpcCall('editProgram', { id: 'web', screenName: 'web; rm -rf ~' })).message)
+      .toContain('screenName: Screen name must be one or more letters, digits, _, . and -');
+    expect(rejection(() => parseRpcCall('editProgram', { id: 'web', screenName: '' })).code).toBe('INVALID_PARAMS');
+    expect(parseRpcCall('editProgram', { id: 'web', screenName: 'web-1.main' }).params).toEqual({ id: 'web', screenName: 'web-1.main' });
+  });
+
+  it('should refuse params a method does not take', () => {
+    const error = rejection(() => parseRpcCall('stopProgram', { id: 'web', force: true }));
+    expect(error.code).toBe('INVALID_PARAMS');
+    expect(error.message).toContain("Unrecognized key(s) in object: 'force'");
+  });
+
+  it('should declare a role for every method', () => {
+    for (const method of RPC_METHOD_NAMES) {
+      expect(['viewer', 'operator', 'admin']).toContain(RPC_METHODS[method].role);
+    }
+    expect(isRpcMethod('listPrograms')).toBe(true);
+    expect(isRpcMethod('toString')).toBe(false);
+  });
+
+  it('should tell errors apart by code', () => {
+    expect(errorCode(new RpcError('UNAUTHENTICATED', 'Session expired, sign in again'))).toBe('UNAUTHENTICATED');
+    expect(errorCode(new RpcError('NOT_FOUND', 'Terminal with ID 3 not found'))).toBe('NOT_FOUND');
+    expect(errorCode(new Error('Dependency with id db not found'))).toBe('FAILED');
+    expect(errorCode('boom')).toBe('FAILED');
+  });
+});
+
+describe('rpcClient', () => {
+  it('should turn method calls into calls by name', async () => {
+    const call = jest.fn().mockResolvedValue({ success: true });
+    const client = createRpcClient(call);
+
+    await expect(client.stopProgram({ id: 'web' })).resolves.toEqual({ success: true });
+    await client.listPrograms();
+    expect(call.mock.calls).toEqual([['stopProgram', { id: 'web' }], ['listPrograms', {}]]);
+    expect((client as unknown as { then?: unknown }).then).toBeUndefined();
+  });
+});
@@ -0,0 +1,466 @@
+// The registry of RPC methods: for each method the role and program access it
+// needs, the schema of its params and the type of its result, and its REST route.
+// The server validates calls against it, the REST API, its OpenAPI document and
+// the typed client proxy are built from it, so the surfaces cannot drift apart.
+// The UI only imports its types; permissions.ts reads the roles from it.
+import { z } from 'zod';
+import type { ProgramAcl, ProgramPermission, Role } from './permissions';
+import type { BulkResult, ProgramSchedule, ProgramState, RestartPolicy, StopStep } from './Program';
+import type { HealthCheckConfig } from './HealthCheck';
+import type { ResourceLimits } from './ResourceLimits';
+import type { LogPage } from './ProgramLog';
+import type { MetricsSample } from './MetricsCollector';
+import type { RunRecord } from './RunHistory';
+import type { ProgramEvent, ProgramEventType } from './EventJournal';
+import type { TerminalSessionInfo } from './TerminalServer';
+import type { TotpEnrollment, UserInfo } from './UserStore';
+import type { SessionInfo, SessionToken } from './SessionStore';
+import type { AuditPage, AuditVerification } from './AuditLog';
+import type { ApiTokenInfo } from './ApiTokenStore';
+import type { DeliveryStatus, NotificationChannel } from './notifications';
+import { NOTIFICATION_EVENTS } from './notifications';
+import type { ConfigDiff, ConfigImportResult, ConfigReloadResult } from './configDiff';
+import type { ConfigVersionInfo } from './ConfigHistory';
+import { CONFIG_FORMATS, CONFLICT_MODES } from './stackFile';
+import { RpcError } from './rpcErrors';
+
+export interface RpcMethodDefinition<P extends z.ZodTypeAny = z.ZodTypeAny, R = unknown> {
+  summary: string;
+  tag: string;
+  role: Role;                        // the least role allowed to call it
+  programAccess?: ProgramPermission; // checked on the program in params.id
+  params: P;
+  result: z.ZodType<R>;              // only a type; results are not checked
+  // Methods without a route are only available over the socket, e.g. session refresh
+  http?: {
+    verb: 'get' | 'post' | 'put' | 'patch' | 'delete';
+    path: string;                    // under /api, with :name path params
+  };
+  creates?: boolean;                 // answered with 201 Created
+}
+
+function method<P extends z.ZodTypeAny, R>(definition: RpcMethodDefinition<P, R>): RpcMethodDefinition<P, R> {
+  return definition;
+}
+
+// Unknown params are refused rather than ignored, so misspelled options show up
+const params = <T extends z.ZodRawShape>(shape: T) => z.object(shape).strict();
+const noParams = params({});
+const returns = <T>() => z.custom<T>();
+
+const programId = z.string().min(1).describe('Program id');
+const terminalId = z.number().int().describe('Terminal id');
+const username = z.string().min(1);
+const concurrency = z.number().int().positive().optional().describe('Programs acted on at once');
+const role = z.enum(['viewer', 'operator', 'admin']);
+const code = z.string().min(1).describe('Code of the authenticator app, or a recovery code');
+const limit = z.number().int().positive().optional();
+const epochMs = z.number().describe('Epoch ms');
+const success = returns<{ success: boolean }>();
+const channelId = z.string().describe('Notification channel id');
+const configVersion = z.number().int().positive().describe('Config version');
+const configFormat = z.enum(CONFIG_FORMATS);
+
+// Screen session names go into screen commands, so they are kept to a safe set of characters
+export const SCREEN_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+const isObject = (value: unknown) => !!value && typeof value === 'object' && !Array.isArray(value);
+// Nested settings are checked in depth by the program manager; here only their shape
+const setting = <T>(what: string) => z.custom<T>(isObject, { message: `${what} must be an object` });
+
+const programFields = {
+  name: z.string().regex(/\S/, 'Name is required'),
+  command: z.string().regex(/\S/, 'Command is required'),
+  group: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  screenName: z.string().regex(SCREEN_NAME_PATTERN, 'Screen name must be one or more letters, digits, _, . and -').optional(),
+  runtime: z.enum(['screen', 'pty']).optional(),
+  maxChildDepth: z.number().int().nonnegative().optional(),
+  autoStart: z.boolean().optional(),
+  stopMethod: z.enum(['SIGINT', 'SIGHUP', 'SIGTERM', 'SIGQUIT', 'CTRL_C']).optional(),
+  stopSequence: z.array(setting<StopStep>('A stop step')).optional(),
+  restartPolicy: setting<RestartPolicy>('The restart policy').optional(),
+  dependsOn: z.array(z.string()).optional().describe('Ids of programs started before this one'),
+  cwd: z.string().optional(),
+  env: z.record(z.string()).optional(),
+  envFile: z.string().optional(),
+  runAs: z.string().optional(),
+  runOnce: z.boolean().optional(),
+  // null clears these when editing, like an empty string does for cwd
+  healthCheck: setting<HealthCheckConfig>('The health check').nullable().optional(),
+  limits: setting<ResourceLimits>('The limits').nullable().optional(),
+  schedule: setting<ProgramSchedule>('The schedule').nullable().optional(),
+  acl: setting<ProgramAcl>('The access list').nullable().optional(),
+};
+
+// A program as stored in the config file, which may have been edited by hand
+export const programConfigSchema = z.object(programFields).extend({ id: z.string().min(1).optional() }).strict();
+
+// The settings of the channel's type are checked by the notifier
+const channelFields = {
+  name: z.string().regex(/\S/, 'Channel name is required'),
+  type: z.enum(['webhook', 'slack', 'email']),
+  enabled: z.boolean().optional(),
+  events: z.array(z.enum(NOTIFICATION_EVENTS)).optional().describe('Events sent to the channel; crashes, health changes and exhausted restarts without it'),
+  programIds: z.array(z.string()).optional().describe('Only events of these programs'),
+  groups: z.array(z.string()).optional().describe('Only events of programs in these groups'),
+  url: z.string().optional().describe('webhook and slack: URL to POST to'),
+  secret: z.string().optional().describe('webhook: key of the HMAC-SHA256 signature header'),
+  smtp: z.object({
+    host: z.string(),
+    port: z.number().int(),
+    secure: z.boolean().optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+  }).strict().optional().describe('email: the SMTP server'),
+  from: z.string().optional(),
+  to: z.array(z.string()).optional(),
+};
+
+// viewer: read program state, logs, metrics and history
+// operator: also start, stop and kill programs and use program terminals
+// admin: also add and delete programs, open host shells and manage users
+export const RPC_METHODS = {
+  listPrograms: method({
+    tag: 'Programs', summary: 'List the programs the caller may view', role: 'viewer',
+    http: { verb: 'get', path: '/programs' }, params: noParams, result: returns<ProgramState[]>()
+  }),
+  addProgram: method({
+    tag: 'Programs', summary: 'Add a program', role: 'admin', creates: true,
+    http: { verb: 'post', path: '/programs' }, params: params(programFields), result: returns<ProgramState>()
+  }),
+  stopAllPrograms: method({
+    tag: 'Programs', summary: 'Stop every program the caller controls, in reverse dependency order', role: 'operator',
+    http: { verb: 'post', path: '/programs/stop-all' }, params: noParams, result: returns<ProgramState[]>()
+  }),
+  bulkProgramAction: method({
+    tag: 'Programs', summary: 'Run an action on several programs', role: 'operator',
+    http: { verb: 'post', path: '/programs/bulk' },
+    params: params({ ids: z.array(z.string()), action: z.enum(['start', 'stop', 'restart', 'terminate']), concurrency }),
+    result: returns<BulkResult[]>()
+  }),
+  getProgramStatus: method({
+    tag: 'Programs', summary: 'Get the current state of a program', role: 'viewer', programAccess: 'view',
+    http: { verb: 'get', path: '/programs/:id' }, params: params({ id: programId }), result: returns<ProgramState>()
+  }),
+  // Editors may be operators, with the program's edit access
+  editProgram: method({
+    tag: 'Programs', summary: 'Change the configuration of a program', role: 'operator', programAccess: 'edit',
+    http: { verb: 'patch', path: '/programs/:id' },
+    params: z.object(programFields).partial().extend({ id: programId }).strict(),
+    result: returns<ProgramState>()
+  }),
+  deleteProgram: method({
+    tag: 'Programs', summary: 'Delete a program', role: 'admin',
+    http: { verb: 'delete', path: '/programs/:id' }, params: params({ id: programId }), result: success
+  }),
+  startProgram: method({
+    tag: 'Programs', summary: 'Start a program', role: 'operator', programAccess: 'control',
+    http: { verb: 'post', path: '/programs/:id/start' },
+    params: params({ id: programId, withDependencies: z.boolean().optional().describe('Start its unstarted dependencies first') }),
+    result: returns<ProgramState>()
+  }),
+  stopProgram: method({
+    tag: 'Programs', summary: 'Stop a program with its stop sequence', role: 'operator', programAccess: 'control',
+    http: { verb: 'post', path: '/programs/:id/stop' }, params: params({ id: programId }), result: returns<ProgramState>()
+  }),
+  terminateProgram: method({
+    tag: 'Programs', summary: 'Kill a program', role: 'operator', programAccess: 'control',
+    http: { verb: 'post', path: '/programs/:id/terminate' }, params: params({ id: programId }), result: returns<ProgramState>()
+  }),
+  runProgramNow: method({
+    tag: 'Programs', summary: 'Run a scheduled or run-once program now', role: 'operator', programAccess: 'control',
+    http: { verb: 'post', path: '/programs/:id/run' }, params: params({ id: programId }), result: returns<ProgramState>()
+  }),
+  startScreen: method({
+    tag: 'Programs', summary: 'Start a screen session for a program', role: 'operator', programAccess: 'control',
+    http: { verb: 'post', path: '/programs/:id/screen' }, params: params({ id: programId }),
+    result: returns<{ success: boolean, state: ProgramState }>()
+  }),
+  sendCommandToScreen: method({
+    tag: 'Programs', summary: "Send a command to a program's screen session or pty", role: 'operator', programAccess: 'terminal',
+    http: { verb: 'post', path: '/programs/:id/command' }, params: params({ id: programId, command: z.string() }),
+    result: returns<{ success: boolean, state: ProgramState }>()
+  }),
+  getProgramLogs: method({
+    tag: 'Programs', summary: "Read a page of a program's output", role: 'viewer', programAccess: 'view',
+    http: { verb: 'get', path: '/programs/:id/logs' },
+    params: params({
+      id: programId,
+      before: z.string().optional().describe('Cursor for older lines, from a previous page'),
+      after: z.string().optional().describe('Cursor for newer lines, from a previous page'),
+      limit,
+      search: z.string().optional(),
+      from: z.string().optional().describe('ISO timestamp'),
+      to: z.string().optional().describe('ISO timestamp'),
+    }),
+    result: returns<LogPage>()
+  }),
+  // Each program is checked for view access by the handler
+  getProgramMetrics: method({
+    tag: 'Programs', summary: 'Get metric samples of a program, keyed by program id', role: 'viewer',
+    http: { verb: 'get', path: '/programs/:id/metrics' },
+    params: params({
+      id: programId.optional(),
+      ids: z.array(z.string()).optional().describe('Several programs at once, instead of id'),
+      from: epochMs.optional(),
+      to: epochMs.optional(),
+      maxPoints: z.number().int().positive().optional(),
+    }).refine(query => query.id !== undefined || query.ids !== undefined, { message: 'id or ids is required', path: ['id'] }),
+    result: returns<Record<string, MetricsSample[]>>()
+  }),
+  getRunHistory: method({
+    tag: 'Programs', summary: 'Get the recorded runs of a program, newest first', role: 'viewer', programAccess: 'view',
+    http: { verb: 'get', path: '/programs/:id/runs' }, params: params({ id: programId, limit }), result: returns<RunRecord[]>()
+  }),
+  getProgramEvents: method({
+    tag: 'Programs', summary: 'Get the lifecycle events of a program, newest first', role: 'viewer', programAccess: 'view',
+    http: { verb: 'get', path: '/programs/:id/events' },
+    params: params({
+      id: programId,
+      before: epochMs.optional().describe('Epoch ms of the oldest event already seen'),
+      limit,
+      types: z.array(z.custom<ProgramEventType>(value => typeof value === 'string')).optional().describe('Event types'),
+    }),
+    result: returns<ProgramEvent[]>()
+  }),
+  getUnstartedDependencies: method({
+    tag: 'Programs', summary: 'List the dependencies of a program that are not running', role: 'viewer', programAccess: 'view',
+    http: { verb: 'get', path: '/programs/:id/dependencies/unstarted' }, params: params({ id: programId }), result: returns<ProgramState[]>()
+  }),
+
+  // Programs of the group the caller may not control are reported as failed
+  startGroup: method({
+    tag: 'Groups', summary: 'Start every program of a group', role: 'operator',
+    http: { verb: 'post', path: '/groups/:group/start' }, params: params({ group: z.string().describe('Group name'), concurrency }), result: returns<BulkResult[]>()
+  }),
+  stopGroup: method({
+    tag: 'Groups', summary: 'Stop every program of a group', role: 'operator',
+    http: { verb: 'post', path: '/groups/:group/stop' }, params: params({ group: z.string().describe('Group name'), concurrency }), result: returns<BulkResult[]>()
+  }),
+  restartGroup: method({
+    tag: 'Groups', summary: 'Restart every program of a group', role: 'operator',
+    http: { verb: 'post', path: '/groups/:group/restart' }, params: params({ group: z.string().describe('Group name'), concurrency }), result: returns<BulkResult[]>()
+  }),
+
+  listTerminals: method({
+    tag: 'Terminals', summary: 'List the terminals the caller may use', role: 'operator',
+    http: { verb: 'get', path: '/terminals' }, params: noParams, result: returns<TerminalSessionInfo[]>()
+  }),
+  createTerminal: method({
+    tag: 'Terminals', summary: "Open a terminal, on a program's pty or screen session with programId", role: 'operator', creates: true,
+    http: { verb: 'post', path: '/terminals' },
+    params: params({
+      programId: z.string().optional().describe('Needs terminal access to the program; without it a host shell is opened, for admins'),
+      shell: z.string().optional(),
+      titleNote: z.string().optional(),
+    }),
+    result: returns<TerminalSessionInfo>()
+  }),
+  getTerminalInfo: method({
+    tag: 'Terminals', summary: 'Get a terminal', role: 'operator',
+    http: { verb: 'get', path: '/terminals/:id' }, params: params({ id: terminalId }), result: returns<TerminalSessionInfo>()
+  }),
+  closeTerminal: method({
+    tag: 'Terminals', summary: 'Close a terminal', role: 'operator',
+    http: { verb: 'delete', path: '/terminals/:id' }, params: params({ id: terminalId }), result: success
+  }),
+
+  getCurrentUser: method({
+    tag: 'Users', summary: 'Get the calling user', role: 'viewer',
+    http: { verb: 'get', path: '/me' }, params: noParams, result: returns<UserInfo | undefined>()
+  }),
+  listUsers: method({
+    tag: 'Users', summary: 'List users', role: 'admin',
+    http: { verb: 'get', path: '/users' }, params: noParams, result: returns<UserInfo[]>()
+  }),
+  addUser: method({
+    tag: 'Users', summary: 'Add a user', role: 'admin', creates: true,
+    http: { verb: 'post', path: '/users' }, params: params({ username, password: z.string(), role }), result: returns<UserInfo>()
+  }),
+  removeUser: method({
+    tag: 'Users', summary: 'Remove a user and end their sessions', role: 'admin',
+    http: { verb: 'delete', path: '/users/:username' }, params: params({ username }), result: success
+  }),
+  resetUserPassword: method({
+    tag: 'Users', summary: "Reset a user's password", role: 'admin',
+    http: { verb: 'post', path: '/users/:username/password' }, params: params({ username, password: z.string() }), result: returns<UserInfo>()
+  }),
+  setUserRole: method({
+    tag: 'Users', summary: "Change a user's role", role: 'admin',
+    http: { verb: 'put', path: '/users/:username/role' }, params: params({ username, role }), result: returns<UserInfo>()
+  }),
+  setUserGroups: method({
+    tag: 'Users', summary: "Set a user's groups", role: 'admin',
+    http: { verb: 'put', path: '/users/:username/groups' }, params: params({ username, groups: z.array(z.string()) }), result: returns<UserInfo>()
+  }),
+  resetUserTotp: method({
+    tag: 'Users', summary: 'Turn off two-factor authentication for a user', role: 'admin',
+    http: { verb: 'delete', path: '/users/:username/totp' }, params: params({ username }), result: success
+  }),
+
+  refreshSession: method({
+    tag: 'Sessions', summary: "Extend the caller's session and get a new token", role: 'viewer',
+    params: noParams, result: returns<SessionToken>()
+  }),
+  logout: method({
+    tag: 'Sessions', summary: "End the caller's session", role: 'viewer',
+    params: noParams, result: success
+  }),
+  listSessions: method({
+    tag: 'Sessions', summary: 'List active sessions', role: 'admin',
+    http: { verb: 'get', path: '/sessions' }, params: noParams, result: returns<SessionInfo[]>()
+  }),
+  revokeSession: method({
+    tag: 'Sessions', summary: 'Revoke a session and disconnect it', role: 'admin',
+    http: { verb: 'delete', path: '/sessions/:id' }, params: params({ id: z.string() }), result: success
+  }),
+
+  // A user's own tokens; admins see and revoke all
+  listApiTokens: method({
+    tag: 'API tokens', summary: "List the caller's API tokens, or everyone's for admins", role: 'viewer',
+    http: { verb: 'get', path: '/tokens' }, params: noParams, result: returns<ApiTokenInfo[]>()
+  }),
+  createApiToken: method({
+    tag: 'API tokens', summary: 'Create an API token for the caller; the token is only returned here', role: 'viewer', creates: true,
+    http: { verb: 'post', path: '/tokens' },
+    params: params({ name: z.string().regex(/\S/, 'API token name is required'), expiresInDays: z.number().positive().optional().describe('Never expires without it') }),
+    result: returns<{ token: string, info: ApiTokenInfo }>()
+  }),
+  revokeApiToken: method({
+    tag: 'API tokens', summary: 'Revoke an API token', role: 'viewer',
+    http: { verb: 'delete', path: '/tokens/:id' }, params: params({ id: z.string() }), result: success
+  }),
+
+  // These act on the caller's own account
+  beginTotpEnrollment: method({
+    tag: 'Account', summary: 'Start setting up two-factor authentication', role: 'viewer',
+    params: noParams, result: returns<TotpEnrollment & { qrCode: string }>()
+  }),
+  enableTotp: method({
+    tag: 'Account', summary: 'Confirm two-factor authentication with a code', role: 'viewer',
+    params: params({ code }), result: returns<{ recoveryCodes: string[] }>()
+  }),
+  disableTotp: method({
+    tag: 'Account', summary: 'Turn off two-factor authentication', role: 'viewer',
+    params: params({ code }), result: success
+  }),
+  regenerateRecoveryCodes: method({
+    tag: 'Account', summary: 'Replace the recovery codes', role: 'viewer',
+    params: params({ code }), result: returns<{ recoveryCodes: string[] }>()
+  }),
+
+  queryAudit: method({
+    tag: 'Audit', summary: 'Search the audit log, newest first', role: 'admin',
+    http: { verb: 'get', path: '/audit' },
+    params: params({
+      user: z.string().optional(),
+      methods: z.array(z.string()).optional(),
+      programId: z.string().optional(),
+      result: z.enum(['success', 'error', 'denied']).optional(),
+      search: z.string().optional(),
+      from: epochMs.optional(),
+      to: epochMs.optional(),
+      before: z.number().int().optional().describe('Cursor from the previous page'),
+      limit,
+    }),
+    result: returns<AuditPage>()
+  }),
+  verifyAuditLog: method({
+    tag: 'Audit', summary: 'Check the hash chain of the audit log', role: 'admin',
+    http: { verb: 'get', path: '/audit/verify' }, params: noParams, result: returns<AuditVerification>()
+  }),
+
+  // Secrets of channels are masked in results; sending the mask back keeps them
+  listNotificationChannels: method({
+    tag: 'Notifications', summary: 'List the notification channels', role: 'admin',
+    http: { verb: 'get', path: '/notifications' }, params: noParams, result: returns<NotificationChannel[]>()
+  }),
+  addNotificationChannel: method({
+    tag: 'Notifications', summary: 'Add a notification channel', role: 'admin', creates: true,
+    http: { verb: 'post', path: '/notifications' }, params: params(channelFields), result: returns<NotificationChannel>()
+  }),
+  updateNotificationChannel: method({
+    tag: 'Notifications', summary: 'Replace the settings of a notification channel', role: 'admin',
+    http: { verb: 'put', path: '/notifications/:id' }, params: params({ ...channelFields, id: channelId }), result: returns<NotificationChannel>()
+  }),
+  deleteNotificationChannel: method({
+    tag: 'Notifications', summary: 'Delete a notification channel', role: 'admin',
+    http: { verb: 'delete', path: '/notifications/:id' }, params: params({ id: channelId }), result: success
+  }),
+  testNotificationChannel: method({
+    tag: 'Notifications', summary: 'Send a test notification to a channel once, whatever its filters', role: 'admin',
+    http: { verb: 'post', path: '/notifications/:id/test' }, params: params({ id: channelId }), result: returns<DeliveryStatus>()
+  }),
+  reloadConfig: method({
+    tag: 'Config', summary: 'Re-read the config file and apply the programs added, removed and changed in it', role: 'admin',
+    http: { verb: 'post', path: '/config/reload' },
+    params: params({ dryRun: z.boolean().optional().describe('Only return the differences') }),
+    result: returns<ConfigReloadResult>()
+  }),
+  listConfigVersions: method({
+    tag: 'Config', summary: 'List the saved versions of the config, newest first', role: 'admin',
+    http: { verb: 'get', path: '/config/versions' }, params: noParams, result: returns<ConfigVersionInfo[]>()
+  }),
+  diffConfigVersions: method({
+    tag: 'Config', summary: 'Compare two versions of the config, or a version with the loaded programs', role: 'admin',
+    http: { verb: 'get', path: '/config/versions/:from/diff' },
+    params: params({ from: configVersion, to: configVersion.optional().describe('Version to compare with; the loaded programs without it') }),
+    result: returns<ConfigDiff>()
+  }),
+  rollbackConfig: method({
+    tag: 'Config', summary: 'Apply the programs of an earlier version of the config and save them as a new version', role: 'admin',
+    http: { verb: 'post', path: '/config/versions/:version/rollback' },
+    params: params({ version: configVersion, dryRun: z.boolean().optional().describe('Only return the differences') }),
+    result: returns<ConfigReloadResult>()
+  }),
+  exportConfig: method({
+    tag: 'Config', summary: 'Write the programs as JSON, or as a YAML or TOML stack file, with secret env values masked', role: 'admin',
+    http: { verb: 'get', path: '/config/export' }, params: params({ format: configFormat }), result: returns<{ content: string }>()
+  }),
+  importConfig: method({
+    tag: 'Config', summary: 'Merge the programs of an export or a stack file into the loaded programs', role: 'admin',
+    http: { verb: 'post', path: '/config/import' },
+    params: params({
+      content: z.string(),
+      format: configFormat,
+      conflicts: z.enum(CONFLICT_MODES).optional().describe('For programs that exist with other settings: fail (the default), skip or overwrite'),
+      dryRun: z.boolean().optional().describe('Only return the differences and the conflicts'),
+    }),
+    result: returns<ConfigImportResult>()
+  }),
+};
+
+export type RpcMethods = typeof RPC_METHODS;
+export type RpcMethodName = keyof RpcMethods;
+// Params as a client sends them, and as the handler gets them after validation
+export type RpcParams<M extends RpcMethodName> = z.input<RpcMethods[M]['params']>;
+export type RpcParsedParams<M extends RpcMethodName> = z.output<RpcMethods[M]['params']>;
+export type RpcResult<M extends RpcMethodName> = z.output<RpcMethods[M]['result']>;
+
+// A validated call; switching on method narrows params
+export type RpcCall = { [M in RpcMethodName]: { method: M, params: RpcParsedParams<M> } }[RpcMethodName];
+
+export const RPC_METHOD_NAMES = Object.keys(RPC_METHODS) as RpcMethodName[];
+
+export function isRpcMethod(method: unknown): method is RpcMethodName {
+  return typeof method === 'string' && Object.prototype.hasOwnProperty.call(RPC_METHODS, method);
+}
+
+export function getRpcMethod(method: string): RpcMethodDefinition | undefined {
+  return isRpcMethod(method) ? RPC_METHODS[method] : undefined;
+}
+
+/**
+ * Validates the params of a call against its method's schema. Missing params
+ * are an empty object, for methods without any.
+ */
+export function parseRpcCall(method: RpcMethodName, params: unknown): RpcCall {
+  const parsed = RPC_METHODS[method].params.safeParse(params ?? {});
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+    const summary = details.map(detail => detail.path ? `${detail.path}: ${detail.message}` : detail.message).join('; ');
+    throw new RpcError('INVALID_PARAMS', `Invalid params for ${method}: ${summary}`, details);
+  }
+  return { method, params: parsed.data } as RpcCall;
+}
@@ -0,0 +1,55 @@
+import { expandStack, formatOfPath, interpolate, resolveDependencies, toStack } from './stackFile';
+import type { ProgramConfig } from './Program';
+
+describe('stackFile', () => {
+  it('should interpolate variables with defaults and escapes', () => {
+    const env = { PORT: '8080', EMPTY: '' };
+    expect(interpolate('serve --port ${PORT}', env)).toBe('serve --port 8080');
+    expect(interpolate('${HOST:-localhost}:${EMPTY:-80} ${EMPTY}', env)).toBe('localhost:80 ');
+    expect(interpolate('echo $$HOME $${PORT} $HOME', env)).toBe('echo $HOME ${PORT} $HOME');
+    expect(() => interpolate('${MISSING}', env)).toThrow('Variable MISSING is not set');
+  });
+
+  it('should key programs by name and apply the defaults', () => {
+    const programs = expandStack({
+      defaults: { runtime: 'pty', env: { NODE_ENV: 'production', PORT: '80' } },
+      programs: {
+        api: { command: 'node api.js', env: { PORT: '${API_PORT}' } },
+        worker: { command: './worker.sh', runtime: 'screen', dependsOn: ['api'] },
+      }
+    }, { API_PORT: '9000' });
+
+    expect(programs).toEqual([
+      { id: 'api', name: 'api', screenName: 'api', command: 'node api.js', runtime: 'pty', env: { NODE_ENV: 'production', PORT: '9000' } },
+      { id: 'worker', name: 'worker', screenName: 'worker', command: './worker.sh', runtime: 'screen', env: { NODE_ENV: 'production', PORT: '80' }, dependsOn: ['api'] },
+    ]);
+    expect(() => expandStack({ programs: { api: { command: '${NOPE}' } } }, {})).toThrow('api: Variable NOPE is not set');
+    expect(() => expandStack({ services: {} }, {})).toThrow('Unknown stack file keys: services');
+    expect(() => expandStack([], {})).toThrow('must be a map');
+  });
+
+  it('should write programs back as a stack that expands to them', () => {
+    const programs: ProgramConfig[] = [
+      { id: 'web', name: 'web', command: 'serve ${DIR}', screenName: 'web', autoStart: false },
+      { id: 'b1c2', name: 'job', command: './job.sh', screenName: 'nightly', dependsOn: ['web'] },
+    ];
+    const stack = toStack(programs, { autoStart: false });
+
+    expect(stack).toEqual({
+      programs: {
+        web: { command: 'serve $${DIR}' },
+        job: { id: 'b1c2', command: './job.sh', screenName: 'nightly', dependsOn: ['web'] },
+      }
+    });
+    expect(resolveDependencies(expandStack(stack, {}) as ProgramConfig[])).toEqual([
+      { id: 'web', name: 'web', command: 'serve ${DIR}', screenName: 'web' },
+      { id: 'b1c2', name: 'job', command: './job.sh', screenName: 'nightly', dependsOn: ['web'] },
+    ]);
+  });
+
+  it('should tell the format from the file name', () => {
+    expect(formatOfPath('/etc/stack.yml')).toBe('yaml');
+    expect(formatOfPath('stack.TOML')).toBe('toml');
+    expect(formatOfPath('data/programs.json')).toBe('json');
+  });
+});
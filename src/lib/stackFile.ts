@@ -0,0 +1,159 @@
+// Stack files: the programs keyed by name, with shared defaults and ${VAR}
+// interpolation from the environment, e.g.
+//
+//   defaults:
+//     runtime: pty
+//     env: { NODE_ENV: production }
+//   programs:
+//     api:
+//       command: node server.js --port ${API_PORT:-8080}
+//     worker:
+//       command: ./worker.sh
+//       dependsOn: [api]
+//
+// Kept free of node imports and parsers, so the UI can list the formats.
+import type { ProgramConfig } from './Program';
+
+export const CONFIG_FORMATS = ['json', 'yaml', 'toml'] as const;
+export type ConfigFormat = typeof CONFIG_FORMATS[number];
+
+// What an import does with programs that exist with other settings
+export const CONFLICT_MODES = ['fail', 'skip', 'overwrite'] as const;
+export type ConflictMode = typeof CONFLICT_MODES[number];
+
+// A program of a stack before it is checked; its id is the key unless it has one
+export type StackProgram = Omit<ProgramConfig, 'id'> & { id?: string };
+
+export interface StackFile {
+  defaults?: Partial<ProgramConfig>;
+  programs: Record<string, Partial<ProgramConfig>>;
+}
+
+const STACK_KEYS = ['defaults', 'programs'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A stack program's screen session is named after it, with the characters screen names cannot have replaced
+export function defaultScreenName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_.-]+/g, '-');
+}
+
+export function formatOfPath(filePath: string): ConfigFormat {
+  if (/\.ya?ml$/i.test(filePath)) return 'yaml';
+  if (/\.toml$/i.test(filePath)) return 'toml';
+  return 'json';
+}
+
+/**
+ * Replace ${VAR} with the variable's value and ${VAR:-default} with the
+ * default when the variable is unset or empty; $$ is a literal $.
+ */
+export function interpolate(value: string, env: Record<string, string | undefined>): string {
+  return value.replace(/\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, name?: string, fallback?: string) => {
+    if (!name) return '$';
+    const found = env[name];
+    if (found) return found;
+    if (fallback !== undefined) return fallback;
+    if (found === '') return '';
+    throw new Error(`Variable ${name} is not set`);
+  });
+}
+
+function interpolateValue(value: unknown, env: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') return interpolate(value, env);
+  if (Array.isArray(value)) return value.map(item => interpolateValue(item, env));
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateValue(item, env)]));
+  }
+  return value;
+}
+
+// Strings are written so that interpolating them gives them back: runs of $
+// before a { and runs of more than one $ are doubled, e.g. $HOME stays as is
+function escapeValue(value: unknown): unknown {
+  if (typeof value === 'string') return value.replace(/\$+(?=\{)|\$\$+/g, run => run + run);
+  if (Array.isArray(value)) return value.map(escapeValue);
+  if (isObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, escapeValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * The programs of a parsed stack file, with the defaults applied and the
+ * variables interpolated. Defaults are replaced by the program's own settings,
+ * except env, which is merged. The fields are checked by the caller.
+ */
+export function expandStack(document: unknown, env: Record<string, string | undefined>): StackProgram[] {
+  if (!isObject(document)) throw new Error('A stack file must be a map with programs');
+  const unknownKeys = Object.keys(document).filter(key => !STACK_KEYS.includes(key));
+  if (unknownKeys.length > 0) throw new Error(`Unknown stack file keys: ${unknownKeys.join(', ')}`);
+  const { defaults = {}, programs } = document;
+  if (!isObject(defaults)) throw new Error('defaults must be a map of program settings');
+  if ('name' in defaults || 'id' in defaults) throw new Error('defaults cannot set name or id');
+  if (!isObject(programs)) throw new Error('programs must be a map of programs by name');
+
+  let expandedDefaults: Record<string, unknown>;
+  try {
+    expandedDefaults = interpolateValue(defaults, env) as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(`defaults: ${error instanceof Error ? error.message : error}`);
+  }
+  return Object.entries(programs).map(([key, entry]) => {
+    if (!isObject(entry)) throw new Error(`${key}: a program must be a map of settings`);
+    try {
+      const program = interpolateValue(entry, env) as Record<string, unknown>;
+      const name = typeof program.name === 'string' ? program.name : key;
+      const merged: Record<string, unknown> = { ...expandedDefaults, ...program, name };
+      if (isObject(expandedDefaults.env) && isObject(program.env)) {
+        merged.env = { ...expandedDefaults.env, ...program.env };
+      }
+      merged.id ??= key;
+      merged.screenName ??= defaultScreenName(name);
+      return merged as StackProgram;
+    } catch (error) {
+      throw new Error(`${key}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+/**
+ * The programs as a stack, keyed by name, leaving out the settings equal to
+ * `omit`, e.g. the values a program gets when they are missing, and the id and
+ * screen name when they are the name. Dependencies are written as names.
+ * Programs that share a name are keyed by their id.
+ */
+export function toStack(programs: ProgramConfig[], omit: Partial<ProgramConfig> = {}): StackFile {
+  const counts = new Map<string, number>();
+  for (const { name } of programs) counts.set(name, (counts.get(name) || 0) + 1);
+  const names = new Map(programs.map(program => [program.id, program.name]));
+
+  const stack: StackFile = { programs: {} };
+  for (const program of programs) {
+    const key = counts.get(program.name) === 1 ? program.name : program.id;
+    const entry: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(program) as [keyof ProgramConfig, unknown][]) {
+      if (value === undefined || value === null) continue;
+      if (JSON.stringify(value) === JSON.stringify(omit[field])) continue;
+      if (field === 'name' && value === key) continue;
+      if (field === 'id' && value === key) continue;
+      if (field === 'screenName' && value === defaultScreenName(program.name)) continue;
+      entry[field] = field === 'dependsOn'
+        ? program.dependsOn!.map(id => counts.get(names.get(id) ?? '') === 1 ? names.get(id) : id)
+        : value;
+    }
+    stack.programs[key] = escapeValue(entry) as Partial<ProgramConfig>;
+  }
+  return stack;
+}
+
+// Dependencies given by name become ids; ids, and names that are not unique, are left as they are
+export function resolveDependencies<T extends { id: string, name: string, dependsOn?: string[] }>(programs: T[]): T[] {
+  const ids = new Set(programs.map(program => program.id));
+  const byName = new Map<string, string | null>();
+  for (const { id, name } of programs) byName.set(name, byName.has(name) ? null : id);
+  return programs.map(program => program.dependsOn
+    ? { ...program, dependsOn: program.dependsOn.map(dep => ids.has(dep) ? dep : byName.get(dep) ?? dep) }
+    : program);
+}
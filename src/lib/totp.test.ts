@@ -0,0 +1,34 @@
+import { base32Decode, base32Encode, totpCode, totpStep, totpUri, verifyTotp } from './totp';
+
+// The SHA1 test secret of RFC 6238, appendix B
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('should round-trip base32', () => {
+    const data = Buffer.from('any carnal pleasure');
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Decode(base32Encode(data)).equals(data)).toBe(true);
+    expect(base32Decode('mzxw 6ytb-oi')).toEqual(Buffer.from('foobar'));
+  });
+
+  it('should match the RFC 6238 test vectors', () => {
+    // The RFC lists 8 digit codes; authenticator apps use the last 6
+    expect(totpCode(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+    expect(totpCode(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+    expect(totpCode(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('should accept codes from the neighbouring steps only', () => {
+    const now = 1234567890 * 1000;
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step), now)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    expect(totpUri('ABC', 'alice')).toBe('otpauth://totp/Startup%20Manager%3Aalice?secret=ABC&issuer=Startup+Manager&algorithm=SHA1&digits=6&period=30');
+  });
+});
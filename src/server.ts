@@ -13,6 +13,8 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import morgan from 'morgan';
 import config from './lib/config';
+import { createRestRouter } from './lib/restApi';
+import { createMetricsHandler } from './lib/PrometheusMetrics';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
@@ -83,8 +85,9 @@ async function start() {
           : req.socket.remoteAddress || 'unknown';
 
       // Security: Apply express middleware (helmet, rate limiting, etc)
+      // Requests the middleware answers, like the REST API, never get here
       await new Promise<void>((resolve) => {
-        expressApp(req, res); //, resolve
+        expressApp(req as express.Request, res as express.Response, () => resolve());
       });
 
       // Parse URL
@@ -136,6 +139,12 @@ async function start() {
   const wsServer = new WebSocketServer(programsNamespace);
   await wsServer.initialize();
 
+  // REST API for scripts and CI, running the same methods as the socket RPC
+  expressApp.use('/api', createRestRouter(wsServer));
+
+  // Prometheus scrape endpoint, behind METRICS_TOKEN when it is set
+  expressApp.get('/metrics', createMetricsHandler(wsServer.prometheus, config.METRICS_TOKEN));
+
   // Initialize Terminal server with its namespace
   const terminalServer = new TerminalServer();
 